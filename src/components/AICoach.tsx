@@ -5,6 +5,10 @@ import { Input } from "@/components/ui/input";
 import { Badge } from "@/components/ui/badge";
 import { Bot, Send, TrendingUp, AlertCircle, Lightbulb, Target } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
+import { useCurrency } from "@/hooks/use-currency";
+import { useCategories } from "@/hooks/use-categories";
+import type { ExpenseSplit } from "@/lib/schemas";
+import { myShare, spendingTotal } from "@/lib/splits";
 
 interface Expense {
   id: string;
@@ -12,6 +16,7 @@ interface Expense {
   description: string;
   category: string;
   amount: number;
+  split?: ExpenseSplit;
 }
 
 interface Budget {
@@ -38,6 +43,8 @@ interface FinancialInsight {
 }
 
 export const AICoach = ({ expenses, budget }: AICoachProps) => {
+  const { format } = useCurrency();
+  const { family, label: categoryLabel } = useCategories();
   const [messages, setMessages] = useState<ChatMessage[]>([
     {
       id: '1',
@@ -59,11 +66,11 @@ export const AICoach = ({ expenses, budget }: AICoachProps) => {
       return expDate.getMonth() === currentMonth && expDate.getFullYear() === currentYear;
     });
 
-    const totalSpent = monthlyExpenses.reduce((sum, exp) => sum + exp.amount, 0);
+    const totalSpent = spendingTotal(monthlyExpenses);
     const totalBudget = Object.values(budget).reduce((sum, amount) => sum + amount, 0);
     
     const categorySpending = monthlyExpenses.reduce((acc, exp) => {
-      acc[exp.category] = (acc[exp.category] || 0) + exp.amount;
+      acc[exp.category] = (acc[exp.category] || 0) + myShare(exp);
       return acc;
     }, {} as Record<string, number>);
 
@@ -106,7 +113,7 @@ export const AICoach = ({ expenses, budget }: AICoachProps) => {
       insights.push({
         type: 'goal',
         title: 'Savings Opportunity',
-        description: `You could save $${savings.toFixed(2)} this month! Consider setting up automatic savings.`,
+        description: `You could save ${format(savings)} this month! Consider setting up automatic savings.`,
         actionable: true
       });
     }
@@ -128,29 +135,42 @@ export const AICoach = ({ expenses, budget }: AICoachProps) => {
   const generateAIResponse = (userMessage: string): string => {
     const lowerMessage = userMessage.toLowerCase();
     const insights = generateInsights();
-    const totalSpent = expenses.reduce((sum, exp) => sum + exp.amount, 0);
+    const totalSpent = spendingTotal(expenses);
     const totalBudget = Object.values(budget).reduce((sum, amount) => sum + amount, 0);
     
     // Pattern matching for common queries
     if (lowerMessage.includes('budget') || lowerMessage.includes('spending')) {
-      return `Based on your data, you've spent $${totalSpent.toFixed(2)} with a total budget of $${totalBudget.toFixed(2)}. ${insights.find(i => i.type === 'warning' || i.type === 'achievement')?.description || 'Your spending is on track!'} Would you like specific tips for any category?`;
+      return `Based on your data, you've spent ${format(totalSpent)} with a total budget of ${format(totalBudget)}. ${insights.find(i => i.type === 'warning' || i.type === 'achievement')?.description || 'Your spending is on track!'} Would you like specific tips for any category?`;
     }
     
     if (lowerMessage.includes('save') || lowerMessage.includes('saving')) {
       const savings = totalBudget - totalSpent;
       return savings > 0 
-        ? `Great question! You could potentially save $${savings.toFixed(2)} this month. I recommend: 1) Set up automatic transfers to savings, 2) Use the 50/30/20 rule (needs/wants/savings), 3) Track daily expenses to avoid impulse purchases. Want me to help you create a savings plan?`
+        ? `Great question! You could potentially save ${format(savings)} this month. I recommend: 1) Set up automatic transfers to savings, 2) Use the 50/30/20 rule (needs/wants/savings), 3) Track daily expenses to avoid impulse purchases. Want me to help you create a savings plan?`
         : `You're currently over budget, so let's focus on reducing expenses first. Try: 1) Cook more meals at home, 2) Use student discounts, 3) Set daily spending limits. Once you're back on track, we can work on building savings!`;
     }
     
     if (lowerMessage.includes('food') || lowerMessage.includes('eating')) {
-      const foodExpenses = expenses.filter(exp => exp.category === 'food');
-      return `I see you've spent on food ${foodExpenses.length} times. Student-friendly tips: 1) Meal prep on Sundays, 2) Shop with a list, 3) Use campus meal plans efficiently, 4) Cook with friends to split costs. The average student spends $200-300/month on food - how does that compare to your spending?`;
+      const foodFamily = family('food');
+      const foodExpenses = expenses.filter(exp => foodFamily.includes(exp.category));
+      // Groceries, dining out and coffee call for different advice, so point at the biggest one
+      const biggest = foodFamily
+        .slice(1)
+        .map(value => ({
+          value,
+          spent: foodExpenses.filter(exp => exp.category === value).reduce((sum, exp) => sum + myShare(exp), 0),
+        }))
+        .filter(sub => sub.spent > 0)
+        .sort((a, b) => b.spent - a.spent)[0];
+      const focus = biggest
+        ? ` Most of it went on ${categoryLabel(biggest.value)} (${format(biggest.spent)}), so start there.`
+        : '';
+      return `I see you've spent on food ${foodExpenses.length} times.${focus} Student-friendly tips: 1) Meal prep on Sundays, 2) Shop with a list, 3) Use campus meal plans efficiently, 4) Cook with friends to split costs. The average student spends $200-300/month on food - how does that compare to your spending?`;
     }
     
     if (lowerMessage.includes('help') || lowerMessage.includes('tip')) {
       const randomTips = [
-        "Use the envelope method: allocate cash for each spending category!",
+        "Use the envelope method: switch the Budget Manager to envelopes and give every dollar a job!",
         "Try the 24-hour rule: wait a day before making non-essential purchases.",
         "Look for student discounts everywhere - software, transport, food, entertainment!",
         "Set up price alerts for items you need but don't need immediately.",
@@ -160,7 +180,7 @@ export const AICoach = ({ expenses, budget }: AICoachProps) => {
     }
     
     if (lowerMessage.includes('goal') || lowerMessage.includes('plan')) {
-      return `Let's set some SMART financial goals! Based on your spending pattern: 1) Short-term: Save $50 this month, 2) Medium-term: Build a $500 emergency fund, 3) Long-term: Graduate debt-free. Which goal interests you most? I can help you create a step-by-step plan!`;
+      return `Let's set some SMART financial goals! Based on your spending pattern: 1) Short-term: Save ${format(50)} this month, 2) Medium-term: Build a ${format(500)} emergency fund, 3) Long-term: Graduate debt-free. Which goal interests you most? I can help you create a step-by-step plan!`;
     }
 
     // Default response with insights
@@ -0,0 +1,412 @@
+import { useState } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Landmark, PlusCircle, ArrowRightLeft, Trash2, ScrollText } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { useUndoAction } from "@/hooks/use-undo-history";
+import { useCurrency } from "@/hooks/use-currency";
+import type { Account, AccountType, Expense, Transfer } from "@/lib/schemas";
+import { accountBalance, accountLabel, accountLedger, accountTypes, isAccountInUse } from "@/lib/accounts";
+import { todayISO } from "@/lib/recurrence";
+
+interface AccountManagerProps {
+  // Amounts must already be in the base currency, which new accounts and transfers are entered in
+  accounts: Account[];
+  expenses: Expense[];
+  transfers: Transfer[];
+  onAddAccount: (account: Account) => void;
+  onDeleteAccount: (id: string) => void;
+  onAddTransfer: (transfer: Transfer) => void;
+  onDeleteTransfer: (id: string) => void;
+}
+
+export const AccountManager = ({
+  accounts,
+  expenses,
+  transfers,
+  onAddAccount,
+  onDeleteAccount,
+  onAddTransfer,
+  onDeleteTransfer,
+}: AccountManagerProps) => {
+  const [name, setName] = useState("");
+  const [type, setType] = useState<AccountType>("debit");
+  const [openingBalance, setOpeningBalance] = useState("");
+  const [fromAccountId, setFromAccountId] = useState("");
+  const [toAccountId, setToAccountId] = useState("");
+  const [transferAmount, setTransferAmount] = useState("");
+  const [transferDate, setTransferDate] = useState(todayISO());
+  const [transferNote, setTransferNote] = useState("");
+  const [ledgerAccount, setLedgerAccount] = useState<Account | null>(null);
+  const { toast } = useToast();
+  const undoAction = useUndoAction();
+  const { baseCurrency, format } = useCurrency();
+
+  const accountName = (id: string) => {
+    const account = accounts.find(a => a.id === id);
+    return account ? accountLabel(account) : "Deleted account";
+  };
+
+  const handleAddAccount = (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!name.trim() || isNaN(Number(openingBalance || "0"))) {
+      toast({
+        title: "Invalid Input",
+        description: "Please enter an account name and a valid opening balance.",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    const account: Account = {
+      id: Date.now().toString(),
+      name: name.trim(),
+      type,
+      openingBalance: Number(openingBalance || "0"),
+      currency: baseCurrency,
+    };
+
+    onAddAccount(account);
+    setName("");
+    setOpeningBalance("");
+
+    toast({
+      title: "Account Added! 🏦",
+      description: `${accountLabel(account)} starts at ${format(account.openingBalance)}.`,
+      action: undoAction(),
+    });
+  };
+
+  const handleDeleteAccount = (account: Account) => {
+    if (isAccountInUse(account.id, expenses, transfers)) {
+      toast({
+        title: "Account In Use",
+        description: `Move or delete the expenses and transfers on ${account.name} first.`,
+        variant: "destructive",
+      });
+      return;
+    }
+    onDeleteAccount(account.id);
+    toast({
+      title: "Account Deleted",
+      description: `Removed ${account.name}`,
+      action: undoAction(),
+    });
+  };
+
+  const handleTransfer = (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!fromAccountId || !toAccountId || fromAccountId === toAccountId) {
+      toast({
+        title: "Invalid Transfer",
+        description: "Pick two different accounts to move money between.",
+        variant: "destructive",
+      });
+      return;
+    }
+    if (!transferAmount || isNaN(Number(transferAmount)) || Number(transferAmount) <= 0) {
+      toast({
+        title: "Invalid Input",
+        description: "Please enter a valid transfer amount.",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    const transfer: Transfer = {
+      id: Date.now().toString(),
+      date: transferDate,
+      fromAccountId,
+      toAccountId,
+      amount: Number(transferAmount),
+      currency: baseCurrency,
+      ...(transferNote.trim() ? { note: transferNote.trim() } : {}),
+    };
+
+    onAddTransfer(transfer);
+    setTransferAmount("");
+    setTransferNote("");
+
+    toast({
+      title: "Transfer Recorded 🔄",
+      description: `${format(transfer.amount)} moved from ${accountName(fromAccountId)} to ${accountName(toAccountId)}.`,
+      action: undoAction(),
+    });
+  };
+
+  const handleDeleteTransfer = (transfer: Transfer) => {
+    onDeleteTransfer(transfer.id);
+    toast({
+      title: "Transfer Deleted",
+      description: `Removed the ${format(transfer.amount)} transfer`,
+      action: undoAction(),
+    });
+  };
+
+  const ledger = ledgerAccount ? [...accountLedger(ledgerAccount, expenses, transfers)].reverse() : [];
+  const recentTransfers = [...transfers].sort((a, b) => b.date.localeCompare(a.date)).slice(0, 10);
+
+  return (
+    <Card className="bg-gradient-card shadow-medium hover:shadow-strong transition-all duration-300 border-0">
+      <CardHeader className="text-center">
+        <CardTitle className="text-2xl gradient-text flex items-center justify-center gap-2">
+          <Landmark className="h-6 w-6" />
+          Accounts & Wallets
+        </CardTitle>
+        <CardDescription className="text-muted-foreground">
+          Cash, cards and meal-plan balances in your base currency. Transfers between them don't count as spending.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {/* Balances */}
+        {accounts.length === 0 ? (
+          <p className="text-center text-sm text-muted-foreground py-2">
+            No accounts yet. Add one to track where your money sits.
+          </p>
+        ) : (
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+            {accounts.map((account) => {
+              const balance = accountBalance(account, expenses, transfers);
+              return (
+                <div
+                  key={account.id}
+                  className="flex items-center justify-between p-3 bg-background/80 rounded-lg border border-border/30"
+                >
+                  <div className="space-y-1">
+                    <p className="font-medium text-sm">{accountLabel(account)}</p>
+                    <p className={`text-lg font-bold ${balance < 0 ? "text-destructive" : "text-success"}`}>
+                      {format(balance)}
+                    </p>
+                  </div>
+                  <div className="flex items-center gap-1">
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => setLedgerAccount(account)}
+                      title="View running balance"
+                    >
+                      <ScrollText className="h-4 w-4" />
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => handleDeleteAccount(account)}
+                      className="text-destructive hover:text-destructive hover:bg-destructive/10"
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        )}
+
+        {/* New Account */}
+        <form onSubmit={handleAddAccount} className="space-y-4 border-t pt-4">
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="account-name">Account Name</Label>
+              <Input
+                id="account-name"
+                placeholder="e.g., Campus Card"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="account-type">Type</Label>
+              <Select value={type} onValueChange={(value: AccountType) => setType(value)}>
+                <SelectTrigger id="account-type">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {accountTypes.map((option) => (
+                    <SelectItem key={option.value} value={option.value}>
+                      {option.emoji} {option.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="account-opening-balance">Opening Balance</Label>
+              <Input
+                id="account-opening-balance"
+                type="number"
+                step="0.01"
+                placeholder="0.00"
+                value={openingBalance}
+                onChange={(e) => setOpeningBalance(e.target.value)}
+              />
+            </div>
+          </div>
+          <Button type="submit" variant="outline" className="w-full">
+            <PlusCircle className="h-4 w-4" />
+            Add Account
+          </Button>
+        </form>
+
+        {/* Transfer */}
+        {accounts.length >= 2 && (
+          <form onSubmit={handleTransfer} className="space-y-4 border-t pt-4">
+            <h4 className="font-semibold flex items-center gap-2">
+              <ArrowRightLeft className="h-4 w-4" />
+              Move Money
+            </h4>
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="transfer-from">From</Label>
+                <Select value={fromAccountId} onValueChange={setFromAccountId}>
+                  <SelectTrigger id="transfer-from">
+                    <SelectValue placeholder="Select account" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {accounts.map((account) => (
+                      <SelectItem key={account.id} value={account.id}>
+                        {accountLabel(account)}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="transfer-to">To</Label>
+                <Select value={toAccountId} onValueChange={setToAccountId}>
+                  <SelectTrigger id="transfer-to">
+                    <SelectValue placeholder="Select account" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {accounts.map((account) => (
+                      <SelectItem key={account.id} value={account.id}>
+                        {accountLabel(account)}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="transfer-amount">Amount</Label>
+                <Input
+                  id="transfer-amount"
+                  type="number"
+                  step="0.01"
+                  min="0"
+                  placeholder="0.00"
+                  value={transferAmount}
+                  onChange={(e) => setTransferAmount(e.target.value)}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="transfer-date">Date</Label>
+                <Input
+                  id="transfer-date"
+                  type="date"
+                  value={transferDate}
+                  onChange={(e) => setTransferDate(e.target.value)}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="transfer-note">Note (optional)</Label>
+                <Input
+                  id="transfer-note"
+                  placeholder="e.g., Meal plan top-up"
+                  value={transferNote}
+                  onChange={(e) => setTransferNote(e.target.value)}
+                />
+              </div>
+            </div>
+            <Button type="submit" className="w-full">
+              <ArrowRightLeft className="h-4 w-4" />
+              Record Transfer
+            </Button>
+          </form>
+        )}
+
+        {recentTransfers.length > 0 && (
+          <div className="space-y-2 border-t pt-4">
+            <h4 className="font-semibold text-sm">Recent Transfers</h4>
+            {recentTransfers.map((transfer) => (
+              <div
+                key={transfer.id}
+                className="flex items-center justify-between p-3 bg-background/80 rounded-lg border border-border/30 text-sm"
+              >
+                <div className="space-y-1">
+                  <p className="font-medium">
+                    {accountName(transfer.fromAccountId)} → {accountName(transfer.toAccountId)}
+                  </p>
+                  <p className="text-xs text-muted-foreground">
+                    {new Date(transfer.date).toLocaleDateString()}
+                    {transfer.note && ` · ${transfer.note}`}
+                  </p>
+                </div>
+                <div className="flex items-center gap-2">
+                  <span className="font-bold">{format(transfer.amount)}</span>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => handleDeleteTransfer(transfer)}
+                    className="text-destructive hover:text-destructive hover:bg-destructive/10"
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+
+        <Dialog open={ledgerAccount !== null} onOpenChange={(open) => !open && setLedgerAccount(null)}>
+          <DialogContent className="sm:max-w-lg">
+            <DialogHeader>
+              <DialogTitle className="flex items-center gap-2">
+                <ScrollText className="h-5 w-5" />
+                {ledgerAccount && accountLabel(ledgerAccount)}
+              </DialogTitle>
+              <DialogDescription>
+                Running balance, newest first. Opened with {format(ledgerAccount?.openingBalance ?? 0)}.
+              </DialogDescription>
+            </DialogHeader>
+            <div className="space-y-2 max-h-96 overflow-y-auto">
+              {ledger.length === 0 ? (
+                <p className="text-center text-sm text-muted-foreground py-4">No activity on this account yet.</p>
+              ) : (
+                ledger.map((entry) => (
+                  <div
+                    key={`${entry.kind}-${entry.id}`}
+                    className="flex items-center justify-between p-3 bg-muted/50 rounded-lg text-sm"
+                  >
+                    <div className="space-y-1">
+                      <p className="font-medium">{entry.description}</p>
+                      <div className="flex items-center gap-2 text-xs text-muted-foreground">
+                        <span>{new Date(entry.date).toLocaleDateString()}</span>
+                        {entry.kind === "transfer" && (
+                          <Badge variant="outline" className="text-xs">Transfer</Badge>
+                        )}
+                      </div>
+                    </div>
+                    <div className="text-right">
+                      <p className={entry.amount < 0 ? "text-destructive" : "text-success"}>
+                        {entry.amount < 0 ? "-" : "+"}{format(Math.abs(entry.amount))}
+                      </p>
+                      <p className="text-xs text-muted-foreground">{format(entry.balance)}</p>
+                    </div>
+                  </div>
+                ))
+              )}
+            </div>
+          </DialogContent>
+        </Dialog>
+      </CardContent>
+    </Card>
+  );
+};
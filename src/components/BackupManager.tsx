@@ -0,0 +1,317 @@
+import { useState } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { DatabaseBackup, Download, Upload, Lock, AlertTriangle } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { useUndoAction } from "@/hooks/use-undo-history";
+import {
+  createBackup,
+  isEncryptedBackup,
+  parseBackup,
+  planRestore,
+  snapshotSize,
+  type AppSnapshot,
+  type ConflictPolicy,
+  type ParsedBackup,
+  type RestoreMode,
+} from "@/lib/backup";
+import { todayISO } from "@/lib/recurrence";
+
+interface BackupManagerProps {
+  snapshot: AppSnapshot;
+  onRestore: (snapshot: AppSnapshot) => void;
+}
+
+// Long conflict lists are summarised after this many rows
+const MAX_LISTED_CONFLICTS = 20;
+
+export const BackupManager = ({ snapshot, onRestore }: BackupManagerProps) => {
+  const [passphrase, setPassphrase] = useState("");
+  const [confirmPassphrase, setConfirmPassphrase] = useState("");
+  const [fileText, setFileText] = useState("");
+  const [fileName, setFileName] = useState("");
+  const [restorePassphrase, setRestorePassphrase] = useState("");
+  const [backup, setBackup] = useState<ParsedBackup | null>(null);
+  const [mode, setMode] = useState<RestoreMode>("merge");
+  const [policy, setPolicy] = useState<ConflictPolicy>("keep-current");
+  const [busy, setBusy] = useState(false);
+  const { toast } = useToast();
+  const undoAction = useUndoAction();
+
+  const handleDownload = async () => {
+    if (passphrase !== confirmPassphrase) {
+      toast({
+        title: "Passphrases Don't Match",
+        description: "Type the same passphrase twice, or leave both empty for an unencrypted backup.",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setBusy(true);
+    try {
+      const text = await createBackup(snapshot, passphrase || undefined);
+      const blob = new Blob([text], { type: "application/json" });
+      const url = URL.createObjectURL(blob);
+      const a = document.createElement("a");
+      a.href = url;
+      a.download = `student-finance-backup-${todayISO()}.json`;
+      document.body.appendChild(a);
+      a.click();
+      document.body.removeChild(a);
+      URL.revokeObjectURL(url);
+
+      setPassphrase("");
+      setConfirmPassphrase("");
+      toast({
+        title: "Backup Downloaded 💾",
+        description: `${snapshotSize(snapshot)} records saved${passphrase ? " and encrypted" : ""}.`,
+      });
+    } catch (error) {
+      // Encryption needs crypto.subtle, which browsers only offer on https and localhost
+      toast({
+        title: "Backup Failed",
+        description: error instanceof Error ? error.message : "The backup couldn't be created.",
+        variant: "destructive",
+      });
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleFile = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = "";
+    if (!file) return;
+    file.text().then(text => {
+      setFileText(text);
+      setFileName(file.name);
+      setRestorePassphrase("");
+      setBackup(null);
+      if (!isEncryptedBackup(text)) readBackup(text);
+    }).catch(() => {
+      toast({ title: "Can't Read Backup", description: `${file.name} couldn't be opened.`, variant: "destructive" });
+    });
+  };
+
+  const readBackup = async (text: string, key?: string) => {
+    setBusy(true);
+    try {
+      const parsed = await parseBackup(text, key);
+      if (parsed.error) {
+        toast({ title: "Can't Read Backup", description: parsed.error, variant: "destructive" });
+        return;
+      }
+      setBackup(parsed);
+    } catch (error) {
+      toast({
+        title: "Can't Read Backup",
+        description: error instanceof Error ? error.message : "The backup couldn't be read.",
+        variant: "destructive",
+      });
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const cancelRestore = () => {
+    setFileText("");
+    setFileName("");
+    setRestorePassphrase("");
+    setBackup(null);
+  };
+
+  const plan = backup?.snapshot ? planRestore(snapshot, backup.snapshot, mode, policy) : null;
+
+  const handleRestore = () => {
+    if (!plan) return;
+    onRestore(plan.snapshot);
+    cancelRestore();
+    toast({
+      title: "Backup Restored ♻️",
+      description:
+        mode === "replace"
+          ? "Your data now matches the backup."
+          : `${plan.added} new ${plan.added === 1 ? "record" : "records"} merged in.`,
+      action: undoAction(),
+    });
+  };
+
+  return (
+    <Card className="bg-gradient-card shadow-medium hover:shadow-strong transition-all duration-300 border-0">
+      <CardHeader className="text-center">
+        <CardTitle className="text-2xl gradient-text flex items-center justify-center gap-2">
+          <DatabaseBackup className="h-6 w-6" />
+          Backup & Restore
+        </CardTitle>
+        <CardDescription className="text-muted-foreground">
+          Move everything, including budgets, categories and settings, to another browser
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="space-y-4">
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="backup-passphrase" className="flex items-center gap-2">
+                <Lock className="h-4 w-4" />
+                Passphrase (optional)
+              </Label>
+              <Input
+                id="backup-passphrase"
+                type="password"
+                autoComplete="new-password"
+                value={passphrase}
+                onChange={(e) => setPassphrase(e.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="backup-passphrase-confirm">Confirm Passphrase</Label>
+              <Input
+                id="backup-passphrase-confirm"
+                type="password"
+                autoComplete="new-password"
+                value={confirmPassphrase}
+                onChange={(e) => setConfirmPassphrase(e.target.value)}
+              />
+            </div>
+          </div>
+          <p className="text-xs text-muted-foreground">
+            Encrypted backups can't be opened without the passphrase, so keep it somewhere safe.
+          </p>
+          <Button type="button" variant="gradient" className="w-full" onClick={handleDownload} disabled={busy}>
+            <Download className="h-4 w-4" />
+            Download Backup
+          </Button>
+        </div>
+
+        <div className="space-y-4 border-t pt-4">
+          {!fileText ? (
+            <Button type="button" variant="outline" className="w-full" asChild>
+              <label className="cursor-pointer">
+                <Upload className="h-4 w-4" />
+                Restore From Backup
+                <input type="file" accept=".json,application/json" className="hidden" onChange={handleFile} />
+              </label>
+            </Button>
+          ) : (
+            <p className="text-sm font-medium text-center">{fileName}</p>
+          )}
+
+          {fileText && !backup && isEncryptedBackup(fileText) && (
+            <div className="space-y-2">
+              <Label htmlFor="restore-passphrase">Backup Passphrase</Label>
+              <div className="flex gap-2">
+                <Input
+                  id="restore-passphrase"
+                  type="password"
+                  value={restorePassphrase}
+                  onChange={(e) => setRestorePassphrase(e.target.value)}
+                />
+                <Button
+                  type="button"
+                  onClick={() => readBackup(fileText, restorePassphrase)}
+                  disabled={busy || !restorePassphrase}
+                >
+                  Unlock
+                </Button>
+              </div>
+            </div>
+          )}
+
+          {backup?.snapshot && plan && (
+            <div className="space-y-4">
+              <p className="text-sm text-muted-foreground text-center">
+                {snapshotSize(backup.snapshot)} records
+                {backup.createdAt ? ` from ${new Date(backup.createdAt).toLocaleString()}` : ""}
+                {backup.rejected > 0 ? ` · ${backup.rejected} invalid records skipped` : ""}
+              </p>
+
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="restore-mode">Restore</Label>
+                  <Select value={mode} onValueChange={(value: RestoreMode) => setMode(value)}>
+                    <SelectTrigger id="restore-mode">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="merge">Merge with my data</SelectItem>
+                      <SelectItem value="replace">Replace my data</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+                {mode === "merge" && (
+                  <div className="space-y-2">
+                    <Label htmlFor="restore-policy">When both differ</Label>
+                    <Select value={policy} onValueChange={(value: ConflictPolicy) => setPolicy(value)}>
+                      <SelectTrigger id="restore-policy">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="keep-current">Keep my version</SelectItem>
+                        <SelectItem value="use-backup">Use the backup's version</SelectItem>
+                      </SelectContent>
+                    </Select>
+                  </div>
+                )}
+              </div>
+
+              <div className="p-3 bg-background/80 rounded-lg border border-border/30 text-sm space-y-2">
+                <p>
+                  {plan.added} new · {plan.conflicts.length} {plan.conflicts.length === 1 ? "conflict" : "conflicts"}
+                  {mode === "replace" ? ` · ${plan.removed} removed` : ""}
+                </p>
+                {mode === "replace" && plan.removed > 0 && (
+                  <p className="flex items-center gap-2 text-destructive">
+                    <AlertTriangle className="h-4 w-4" />
+                    Records that aren't in the backup will be deleted.
+                  </p>
+                )}
+                {plan.conflicts.length > 0 && (
+                  <div className="space-y-1 max-h-40 overflow-y-auto">
+                    {plan.conflicts.slice(0, MAX_LISTED_CONFLICTS).map((conflict) => (
+                      <div key={`${conflict.entity}-${conflict.id}`} className="flex items-center gap-2 text-xs">
+                        <Badge variant="outline" className="text-xs">
+                          {conflict.entity}
+                        </Badge>
+                        <span className="truncate">{conflict.label}</span>
+                      </div>
+                    ))}
+                    {plan.conflicts.length > MAX_LISTED_CONFLICTS && (
+                      <p className="text-xs text-muted-foreground">
+                        and {plan.conflicts.length - MAX_LISTED_CONFLICTS} more
+                      </p>
+                    )}
+                  </div>
+                )}
+              </div>
+
+              <div className="flex gap-2">
+                <Button type="button" variant="outline" className="flex-1" onClick={cancelRestore}>
+                  Cancel
+                </Button>
+                <Button
+                  type="button"
+                  variant={mode === "replace" ? "destructive" : "default"}
+                  className="flex-1"
+                  onClick={handleRestore}
+                >
+                  {mode === "replace" ? "Replace My Data" : "Merge Backup"}
+                </Button>
+              </div>
+            </div>
+          )}
+
+          {fileText && !backup && (
+            <Button type="button" variant="ghost" className="w-full" onClick={cancelRestore}>
+              Cancel
+            </Button>
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
@@ -1,12 +1,24 @@
-import { useState, useEffect } from "react";
+import { useState, useEffect, useRef } from "react";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Progress } from "@/components/ui/progress";
 import { Badge } from "@/components/ui/badge";
-import { Target, AlertTriangle, CheckCircle, TrendingUp } from "lucide-react";
+import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Target, AlertTriangle, CheckCircle, TrendingUp, History } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
+import { useUndoAction } from "@/hooks/use-undo-history";
+import { useCurrency } from "@/hooks/use-currency";
+import { useCategories } from "@/hooks/use-categories";
+import { EnvelopeBudget } from "@/components/EnvelopeBudget";
+import { myShare } from "@/lib/splits";
+import { CALENDAR_MONTH, dailyAllowance, daysRemaining, inPeriod, monthPeriod, type ActivePeriod } from "@/lib/periods";
+import { effectiveLimits, rolloverLedger, rolloverModes } from "@/lib/rollover";
+import { rollupSpending } from "@/lib/categories";
+import { overdrawnEnvelopes, type BudgetMode } from "@/lib/envelopes";
+import type { EnvelopePlan, RolloverMode, RolloverRule } from "@/lib/schemas";
 
 interface Budget {
   [category: string]: number;
@@ -16,33 +28,79 @@ interface BudgetManagerProps {
   expenses: any[];
   budget: Budget;
   onUpdateBudget: (budget: Budget) => void;
+  // Period being budgeted; `budget` holds its limits. Defaults to the calendar month.
+  period?: ActivePeriod;
+  // Rollover only applies to the calendar month; left out for other periods
+  rolloverRules?: RolloverRule[];
+  // What each category carries into this month, negative for debt
+  rollover?: Budget;
+  onUpdateRollover?: (category: string, mode: RolloverMode) => void;
+  // Zero-based envelope budgeting; the switch is hidden without onModeChange
+  mode?: BudgetMode;
+  onModeChange?: (mode: BudgetMode) => void;
+  // The plan for this period, saved through onSavePlan
+  envelopePlan?: EnvelopePlan;
+  onSavePlan?: (plan: EnvelopePlan) => void;
 }
 
-const categories = [
-  { value: "food", label: "🍕 Food & Dining", color: "bg-orange-500" },
-  { value: "transport", label: "🚗 Transport", color: "bg-blue-500" },
-  { value: "entertainment", label: "🎮 Entertainment", color: "bg-purple-500" },
-  { value: "bills", label: "📋 Bills & Utilities", color: "bg-red-500" },
-  { value: "education", label: "📚 Education", color: "bg-green-500" },
-  { value: "others", label: "🔍 Others", color: "bg-gray-500" }
-];
+// Months of rollover history shown per category
+const LEDGER_MONTHS = 6;
 
-export const BudgetManager = ({ expenses, budget, onUpdateBudget }: BudgetManagerProps) => {
+// Shared so a missing `rollover` prop doesn't hand the alert effect a new object every render
+const NO_ROLLOVER: Budget = {};
+
+export const BudgetManager = ({
+  expenses,
+  budget,
+  onUpdateBudget,
+  period,
+  rolloverRules = [],
+  rollover = NO_ROLLOVER,
+  onUpdateRollover,
+  mode = "limits",
+  onModeChange,
+  envelopePlan,
+  onSavePlan,
+}: BudgetManagerProps) => {
+  const { format } = useCurrency();
+  const registry = useCategories();
+  // Subcategories follow their parent and are indented under it
+  const categories = registry.tree.map(({ category, depth }) => ({
+    value: category.value,
+    label: registry.label(category.value),
+    depth,
+  }));
+  const activePeriod = period ?? monthPeriod(budget);
+  const isMonth = activePeriod.id === CALENDAR_MONTH;
+  const daysLeft = daysRemaining(activePeriod);
+  const limits = effectiveLimits(budget, rollover);
+  const carryingRules = rolloverRules.filter(rule => rule.mode !== "reset");
+  const envelopes = mode === "envelope" && envelopePlan && onSavePlan ? envelopePlan : null;
   const [budgetInputs, setBudgetInputs] = useState<Budget>(budget);
   const { toast } = useToast();
+  const undoAction = useUndoAction();
+  // Categories already alerted about, so a toast only appears when one goes over
+  const alerted = useRef<{ scope: string; categories: string[] }>({ scope: "", categories: [] });
+
+  // Keep the inputs in sync when the budget changes elsewhere (initial load, undo/redo, recommendations)
+  useEffect(() => {
+    setBudgetInputs(budget);
+  }, [budget]);
 
-  // Calculate current month spending by category
-  const currentMonthSpending = categories.reduce((acc, category) => {
-    const currentMonth = new Date().toISOString().slice(0, 7);
+  // Calculate spending by category in the selected period, counting only the user's part of shared bills
+  const ownSpending = categories.reduce((acc, category) => {
     const spent = expenses
       .filter(expense => 
         expense.category === category.value && 
-        expense.date.startsWith(currentMonth)
+        inPeriod(expense.date, activePeriod)
       )
-      .reduce((sum, expense) => sum + expense.amount, 0);
+      .reduce((sum, expense) => sum + myShare(expense), 0);
     acc[category.value] = spent;
     return acc;
   }, {} as Budget);
+  // Limits work at either level, so a parent's limit covers its subcategories' spending too.
+  // Envelopes hold their own money and only draw on their own spending.
+  const currentMonthSpending = rollupSpending(registry.categories, ownSpending);
 
   const handleBudgetChange = (category: string, value: string) => {
     setBudgetInputs({
@@ -56,14 +114,17 @@ export const BudgetManager = ({ expenses, budget, onUpdateBudget }: BudgetManage
     toast({
       title: "Budgets Updated! 💰",
       description: "Your spending limits have been saved.",
+      action: undoAction(),
     });
   };
 
   const getBudgetStatus = (category: string) => {
     const spent = currentMonthSpending[category] || 0;
-    const budgetLimit = budget[category] || 0;
+    const budgetLimit = limits[category] || 0;
     
-    if (budgetLimit === 0) return { percentage: 0, status: "no-budget", message: "No budget set" };
+    if (budgetLimit === 0 && !budget[category]) return { percentage: 0, status: "no-budget", message: "No budget set" };
+    // Debt carried in from earlier months can use up the whole limit
+    if (budgetLimit <= 0) return { percentage: 100, status: "over", message: "Over budget!" };
     
     const percentage = (spent / budgetLimit) * 100;
     
@@ -73,18 +134,35 @@ export const BudgetManager = ({ expenses, budget, onUpdateBudget }: BudgetManage
   };
 
   // Check for budget alerts
+  const alertScope = `${envelopes ? "envelope" : "limits"}:${activePeriod.id}`;
+  const overCategories = envelopes
+    ? overdrawnEnvelopes(envelopes, ownSpending)
+    : categories.filter(category => getBudgetStatus(category.value).status === "over").map(category => category.value);
+  const overKey = `${alertScope}|${overCategories.join(",")}`;
+
   useEffect(() => {
-    categories.forEach(category => {
-      const status = getBudgetStatus(category.value);
-      if (status.status === "over") {
-        toast({
-          title: "Budget Alert! 🚨",
-          description: `You've exceeded your ${category.label} budget this month.`,
-          variant: "destructive",
-        });
-      }
-    });
-  }, [expenses, budget]);
+    const previous = alerted.current.scope === alertScope ? alerted.current.categories : [];
+    alerted.current = { scope: alertScope, categories: overCategories };
+    overCategories
+      .filter(category => !previous.includes(category))
+      .forEach(category => {
+        toast(
+          envelopes
+            ? {
+                title: "Envelope Overdrawn! 🚨",
+                description: `Your ${registry.label(category)} envelope is below zero. Move money in to cover it.`,
+                variant: "destructive",
+              }
+            : {
+                title: "Budget Alert! 🚨",
+                description: `You've exceeded your ${registry.label(category)} budget ${
+                  isMonth ? "this month" : `for ${activePeriod.name}`
+                }.`,
+                variant: "destructive",
+              }
+        );
+      });
+  }, [overKey]);
 
   return (
     <Card className="bg-gradient-card shadow-medium hover:shadow-strong transition-all duration-300 border-0">
@@ -94,83 +172,185 @@ export const BudgetManager = ({ expenses, budget, onUpdateBudget }: BudgetManage
           Budget Manager
         </CardTitle>
         <CardDescription className="text-muted-foreground">
-          Set limits and track your spending progress
+          {envelopes ? "Give every dollar a job, then spend from your envelopes" : "Set limits and track your spending progress"}
         </CardDescription>
+        {onModeChange && (
+          <div className="flex items-center justify-center gap-2 pt-2">
+            <Switch
+              id="envelope-mode"
+              checked={mode === "envelope"}
+              onCheckedChange={(checked) => onModeChange(checked ? "envelope" : "limits")}
+            />
+            <Label htmlFor="envelope-mode">Envelope budgeting</Label>
+          </div>
+        )}
       </CardHeader>
       <CardContent className="space-y-6">
-        {/* Budget Settings */}
-        <div className="space-y-4">
-          <h3 className="text-lg font-semibold">Monthly Budget Limits</h3>
-          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-            {categories.map((category) => (
-              <div key={category.value} className="space-y-2">
-                <Label htmlFor={`budget-${category.value}`}>
-                  {category.label}
-                </Label>
-                <Input
-                  id={`budget-${category.value}`}
-                  type="number"
-                  min="0"
-                  step="0.01"
-                  placeholder="0.00"
-                  value={budgetInputs[category.value] || ""}
-                  onChange={(e) => handleBudgetChange(category.value, e.target.value)}
-                  className="border-border/50 focus:border-primary transition-colors"
-                />
-              </div>
-            ))}
+        {envelopes ? (
+          <EnvelopeBudget
+            categories={categories}
+            plan={envelopes}
+            spending={ownSpending}
+            periodName={activePeriod.name}
+            onSavePlan={onSavePlan}
+          />
+        ) : (
+          <>
+          {/* Budget Settings */}
+          <div className="space-y-4">
+            <h3 className="text-lg font-semibold">
+              {isMonth ? "Monthly Budget Limits" : `${activePeriod.name} Budget Limits`}
+            </h3>
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              {categories.map((category) => (
+                <div key={category.value} className="space-y-2">
+                  <Label htmlFor={`budget-${category.value}`}>
+                    {category.depth > 0 && "↳ "}{category.label}
+                  </Label>
+                  <Input
+                    id={`budget-${category.value}`}
+                    type="number"
+                    min="0"
+                    step="0.01"
+                    placeholder="0.00"
+                    value={budgetInputs[category.value] || ""}
+                    onChange={(e) => handleBudgetChange(category.value, e.target.value)}
+                    className="border-border/50 focus:border-primary transition-colors"
+                  />
+                  {onUpdateRollover && (
+                    <Select
+                      value={rolloverRules.find(rule => rule.id === category.value)?.mode ?? "reset"}
+                      onValueChange={(value) => onUpdateRollover(category.value, value as RolloverMode)}
+                    >
+                      <SelectTrigger aria-label={`${category.label} rollover`} className="h-8 text-xs">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {rolloverModes.map((mode) => (
+                          <SelectItem key={mode.value} value={mode.value}>
+                            {mode.label} — {mode.description}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  )}
+                </div>
+              ))}
+            </div>
+            <Button onClick={saveBudgets} variant="success" className="w-full">
+              <Target className="h-4 w-4" />
+              Save Budget Limits
+            </Button>
           </div>
-          <Button onClick={saveBudgets} variant="success" className="w-full">
-            <Target className="h-4 w-4" />
-            Save Budget Limits
-          </Button>
-        </div>
 
-        {/* Budget Progress */}
-        <div className="space-y-4">
-          <h3 className="text-lg font-semibold flex items-center gap-2">
-            <TrendingUp className="h-5 w-5" />
-            This Month's Progress
-          </h3>
+          {/* Budget Progress */}
           <div className="space-y-4">
-            {categories.map((category) => {
-              const spent = currentMonthSpending[category.value] || 0;
-              const budgetLimit = budget[category.value] || 0;
-              const status = getBudgetStatus(category.value);
+            <h3 className="text-lg font-semibold flex items-center gap-2">
+              <TrendingUp className="h-5 w-5" />
+              {activePeriod.name} Progress
+            </h3>
+            {daysLeft > 0 && (
+              <p className="text-sm text-muted-foreground">
+                {daysLeft} {daysLeft === 1 ? "day" : "days"} left
+              </p>
+            )}
+            <div className="space-y-4">
+              {categories.map((category) => {
+                const spent = currentMonthSpending[category.value] || 0;
+                const budgetLimit = limits[category.value] || 0;
+                const carried = rollover[category.value] || 0;
+                const status = getBudgetStatus(category.value);
+                const perDay = budgetLimit > 0 ? dailyAllowance(budgetLimit, spent, activePeriod) : null;
               
-              return (
-                <div key={category.value} className="space-y-2">
-                  <div className="flex items-center justify-between">
-                    <span className="font-medium">{category.label}</span>
-                    <div className="flex items-center gap-2">
-                      <span className="text-sm text-muted-foreground">
-                        ${spent.toFixed(2)} / ${budgetLimit.toFixed(2)}
-                      </span>
-                      <Badge variant={
-                        status.status === "over" ? "destructive" : "secondary"
-                      } className={
-                        status.status === "warning" ? "bg-warning text-warning-foreground" : ""
-                      }>
-                        {status.status === "over" && <AlertTriangle className="h-3 w-3 mr-1" />}
-                        {status.status === "good" && <CheckCircle className="h-3 w-3 mr-1" />}
-                        {status.message}
-                      </Badge>
+                return (
+                  <div
+                    key={category.value}
+                    className={`space-y-2 ${category.depth > 0 ? "ml-6 pl-3 border-l border-border/50" : ""}`}
+                  >
+                    <div className="flex items-center justify-between">
+                      <span className={category.depth > 0 ? "text-sm" : "font-medium"}>{category.label}</span>
+                      <div className="flex items-center gap-2">
+                        <span className="text-sm text-muted-foreground">
+                          {format(spent)} / {format(budgetLimit)}
+                        </span>
+                        <Badge variant={
+                          status.status === "over" ? "destructive" : "secondary"
+                        } className={
+                          status.status === "warning" ? "bg-warning text-warning-foreground" : ""
+                        }>
+                          {status.status === "over" && <AlertTriangle className="h-3 w-3 mr-1" />}
+                          {status.status === "good" && <CheckCircle className="h-3 w-3 mr-1" />}
+                          {status.message}
+                        </Badge>
+                      </div>
                     </div>
+                    <Progress 
+                      value={Math.min(status.percentage, 100)} 
+                      className="h-2"
+                    />
+                    {carried !== 0 && (
+                      <p className="text-xs text-muted-foreground">
+                        {format(budget[category.value] || 0)} base {carried > 0 ? "+" : "−"} {format(Math.abs(carried))}{" "}
+                        {carried > 0 ? "rolled over" : "carried debt"}
+                      </p>
+                    )}
+                    {status.percentage > 100 ? (
+                      <p className="text-sm text-destructive">
+                        Over budget by {format(spent - budgetLimit)}
+                      </p>
+                    ) : perDay !== null && (
+                      <p className="text-xs text-muted-foreground">
+                        {format(perDay)}/day to stay within budget
+                      </p>
+                    )}
                   </div>
-                  <Progress 
-                    value={Math.min(status.percentage, 100)} 
-                    className="h-2"
-                  />
-                  {status.percentage > 100 && (
-                    <p className="text-sm text-destructive">
-                      Over budget by ${(spent - budgetLimit).toFixed(2)}
-                    </p>
-                  )}
-                </div>
-              );
-            })}
+                );
+              })}
+            </div>
           </div>
-        </div>
+
+          {/* Rollover Ledger */}
+          {onUpdateRollover && carryingRules.length > 0 && (
+            <div className="space-y-4">
+              <h3 className="text-lg font-semibold flex items-center gap-2">
+                <History className="h-5 w-5" />
+                Rollover Ledger
+              </h3>
+              {carryingRules.map((rule) => {
+                const label = registry.label(rule.id);
+                const ledger = rolloverLedger(rule, budget[rule.id] || 0, expenses, undefined, registry.family(rule.id))
+                  .slice(-LEDGER_MONTHS)
+                  .reverse();
+                return (
+                  <div key={rule.id} className="space-y-2">
+                    <p className="font-medium text-sm">{label}</p>
+                    <div className="grid grid-cols-5 gap-2 text-xs text-muted-foreground">
+                      <span>Month</span>
+                      <span className="text-right">Base</span>
+                      <span className="text-right">Carried in</span>
+                      <span className="text-right">Limit</span>
+                      <span className="text-right">Spent</span>
+                    </div>
+                    {ledger.map((entry) => (
+                      <div key={entry.month} className="grid grid-cols-5 gap-2 text-sm">
+                        <span>{entry.month}</span>
+                        <span className="text-right">{format(entry.base)}</span>
+                        <span className={`text-right ${entry.carriedIn < 0 ? "text-destructive" : ""}`}>
+                          {format(entry.carriedIn)}
+                        </span>
+                        <span className="text-right font-medium">{format(entry.limit)}</span>
+                        <span className={`text-right ${entry.spent > entry.limit ? "text-destructive" : ""}`}>
+                          {format(entry.spent)}
+                        </span>
+                      </div>
+                    ))}
+                  </div>
+                );
+              })}
+            </div>
+          )}
+          </>
+        )}
       </CardContent>
     </Card>
   );
@@ -0,0 +1,229 @@
+import { useState } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Progress } from "@/components/ui/progress";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { CalendarRange, PlusCircle, Trash2, Calendar } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { useUndoAction } from "@/hooks/use-undo-history";
+import { useCurrency } from "@/hooks/use-currency";
+import { budgetPeriodSchema, type Budget, type BudgetPeriod, type PeriodKind } from "@/lib/schemas";
+import {
+  daysRemaining,
+  elapsedPercent,
+  periodKinds,
+  periodLabel,
+  presetRange,
+  scaleLimits,
+} from "@/lib/periods";
+
+interface BudgetPeriodsProps {
+  periods: BudgetPeriod[];
+  selectedId: string;
+  // Monthly limits, used as the starting point for a new period
+  budget: Budget;
+  onAddPeriod: (period: BudgetPeriod) => void;
+  onDeletePeriod: (id: string) => void;
+  onSelectPeriod: (id: string) => void;
+}
+
+export const BudgetPeriods = ({
+  periods,
+  selectedId,
+  budget,
+  onAddPeriod,
+  onDeletePeriod,
+  onSelectPeriod,
+}: BudgetPeriodsProps) => {
+  const [name, setName] = useState("");
+  const [kind, setKind] = useState<PeriodKind>("semester");
+  const [range, setRange] = useState(() => presetRange("semester"));
+  const { toast } = useToast();
+  const undoAction = useUndoAction();
+  const { format } = useCurrency();
+
+  const changeKind = (value: PeriodKind) => {
+    setKind(value);
+    setRange(presetRange(value));
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const parsed = budgetPeriodSchema.safeParse({
+      id: Date.now().toString(),
+      name: name.trim(),
+      kind,
+      start: range.start,
+      end: range.end,
+      limits: scaleLimits(budget, range),
+    });
+    if (!parsed.success) {
+      toast({
+        title: "Invalid Period",
+        description: !name.trim() ? "Give the period a name." : "Pick a start date on or before the end date.",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    const period: BudgetPeriod = {
+      id: parsed.data.id,
+      name: parsed.data.name,
+      kind: parsed.data.kind,
+      start: parsed.data.start,
+      end: parsed.data.end,
+      limits: parsed.data.limits,
+    };
+    onAddPeriod(period);
+    onSelectPeriod(period.id);
+    setName("");
+
+    const total = Object.values(period.limits).reduce((sum, limit) => sum + limit, 0);
+    toast({
+      title: "Period Created! 🎓",
+      description: `${period.name} starts with ${format(total)} of limits — adjust them in the Budget Manager.`,
+      action: undoAction(),
+    });
+  };
+
+  const handleDelete = (period: BudgetPeriod) => {
+    onDeletePeriod(period.id);
+    toast({
+      title: "Period Deleted",
+      description: `Removed ${period.name}`,
+      action: undoAction(),
+    });
+  };
+
+  const sortedPeriods = [...periods].sort((a, b) => b.start.localeCompare(a.start));
+
+  return (
+    <Card className="bg-gradient-card shadow-medium hover:shadow-strong transition-all duration-300 border-0">
+      <CardHeader className="text-center">
+        <CardTitle className="text-2xl gradient-text flex items-center justify-center gap-2">
+          <CalendarRange className="h-6 w-6" />
+          Budget Periods
+        </CardTitle>
+        <CardDescription className="text-muted-foreground">
+          Budget by semester, quarter or any date range instead of month by month
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="period-name">Name</Label>
+              <Input
+                id="period-name"
+                placeholder="e.g., Fall Semester"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                className="border-border/50 focus:border-primary transition-colors"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="period-kind">Type</Label>
+              <Select value={kind} onValueChange={(value) => changeKind(value as PeriodKind)}>
+                <SelectTrigger id="period-kind">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {periodKinds.map((option) => (
+                    <SelectItem key={option.value} value={option.value}>
+                      {option.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="period-start">Starts</Label>
+              <Input
+                id="period-start"
+                type="date"
+                value={range.start}
+                onChange={(e) => setRange(prev => ({ ...prev, start: e.target.value }))}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="period-end">Ends</Label>
+              <Input
+                id="period-end"
+                type="date"
+                min={range.start}
+                value={range.end}
+                onChange={(e) => setRange(prev => ({ ...prev, end: e.target.value }))}
+              />
+            </div>
+          </div>
+
+          <Button type="submit" className="w-full">
+            <PlusCircle className="h-4 w-4" />
+            Add Period
+          </Button>
+        </form>
+
+        <div className="space-y-3">
+          {sortedPeriods.length === 0 ? (
+            <p className="text-center text-sm text-muted-foreground py-4">
+              No periods yet. Budgets follow the calendar month.
+            </p>
+          ) : (
+            sortedPeriods.map((period) => {
+              const daysLeft = daysRemaining(period);
+              const kindLabel = periodKinds.find(option => option.value === period.kind)?.label ?? period.kind;
+              return (
+                <div key={period.id} className="p-4 bg-background/80 rounded-lg border border-border/30 space-y-3">
+                  <div className="flex items-start justify-between gap-2">
+                    <div className="space-y-1">
+                      <p className="font-medium flex items-center gap-2">
+                        {period.name}
+                        {period.id === selectedId && <Badge className="text-xs">Active</Badge>}
+                      </p>
+                      <div className="flex flex-wrap items-center gap-2 text-xs text-muted-foreground">
+                        <Badge variant="outline" className="text-xs">{kindLabel}</Badge>
+                        <span className="flex items-center gap-1">
+                          <Calendar className="h-3 w-3" />
+                          {periodLabel(period)}
+                        </span>
+                      </div>
+                    </div>
+                    <div className="flex items-center gap-1">
+                      {period.id !== selectedId && (
+                        <Button variant="outline" size="sm" onClick={() => onSelectPeriod(period.id)}>
+                          Use
+                        </Button>
+                      )}
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => handleDelete(period)}
+                        className="text-destructive hover:text-destructive hover:bg-destructive/10"
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  </div>
+
+                  <div className="space-y-1">
+                    <Progress value={elapsedPercent(period)} className="h-2" />
+                    <p className="text-xs text-muted-foreground">
+                      {daysLeft > 0 ? `${daysLeft} ${daysLeft === 1 ? "day" : "days"} left` : "Finished"}
+                    </p>
+                  </div>
+                </div>
+              );
+            })
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
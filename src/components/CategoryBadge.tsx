@@ -0,0 +1,7 @@
+import { Badge } from "@/components/ui/badge";
+import { useCategories } from "@/hooks/use-categories";
+
+export const CategoryBadge = ({ category, className = "" }: { category: string; className?: string }) => {
+  const { label, badgeClass } = useCategories();
+  return <Badge className={`${badgeClass(category)} ${className}`}>{label(category)}</Badge>;
+};
@@ -0,0 +1,16 @@
+import { SelectItem } from "@/components/ui/select";
+import { useCategories } from "@/hooks/use-categories";
+
+// Select items for every category, with subcategories indented under their parent
+export const CategoryOptions = () => {
+  const { tree, label } = useCategories();
+  return (
+    <>
+      {tree.map(({ category, depth }) => (
+        <SelectItem key={category.value} value={category.value} className={depth > 0 ? "pl-12" : ""}>
+          {label(category.value)}
+        </SelectItem>
+      ))}
+    </>
+  );
+};
@@ -0,0 +1,503 @@
+import { useMemo, useState } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { ArrowDown, ArrowUp, Edit, FlaskConical, PlusCircle, Trash2, Wand2 } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { useUndoAction } from "@/hooks/use-undo-history";
+import { useCurrency } from "@/hooks/use-currency";
+import { useCategories } from "@/hooks/use-categories";
+import { CategoryOptions } from "@/components/CategoryOptions";
+import { TagInput } from "@/components/TagInput";
+import type { Account, CategoryRule, Expense, RuleMatch } from "@/lib/schemas";
+import { accountLabel } from "@/lib/accounts";
+import { allTags } from "@/lib/tags";
+import {
+  nextPriority,
+  previewRules,
+  ruleMatches,
+  ruleMatchesExpense,
+  sortRules,
+  validateRule,
+  weekdayLabels,
+  type RuleChange,
+} from "@/lib/rules";
+
+interface CategoryRulesProps {
+  expenses: Expense[];
+  accounts?: Account[];
+  // Adds the rule, or replaces the one with the same id
+  onSaveRule: (rule: CategoryRule) => void;
+  onDeleteRule: (id: string) => void;
+  // Rules whose priority changed, saved together
+  onReorderRules: (rules: CategoryRule[]) => void;
+  onRecategorize: (changes: RuleChange[]) => void;
+}
+
+interface RuleFormValues {
+  name: string;
+  match: RuleMatch;
+  pattern: string;
+  minAmount: string;
+  maxAmount: string;
+  weekdays: number[];
+  accountId: string;
+  category: string;
+  tags: string[];
+  notes: string;
+}
+
+// Select values that aren't an account or category
+const ANY_ACCOUNT = "any";
+const KEEP_CATEGORY = "keep";
+
+// Changes listed in the history preview
+const PREVIEW_ROWS = 10;
+
+const emptyForm = (): RuleFormValues => ({
+  name: "",
+  match: "contains",
+  pattern: "",
+  minAmount: "",
+  maxAmount: "",
+  weekdays: [],
+  accountId: ANY_ACCOUNT,
+  category: KEEP_CATEGORY,
+  tags: [],
+  notes: "",
+});
+
+const toForm = (rule: CategoryRule): RuleFormValues => ({
+  name: rule.name,
+  match: rule.match,
+  pattern: rule.pattern,
+  minAmount: rule.minAmount === undefined ? "" : String(rule.minAmount),
+  maxAmount: rule.maxAmount === undefined ? "" : String(rule.maxAmount),
+  weekdays: rule.weekdays,
+  accountId: rule.accountId ?? ANY_ACCOUNT,
+  category: rule.category ?? KEEP_CATEGORY,
+  tags: rule.tags,
+  notes: rule.notes ?? "",
+});
+
+export const CategoryRules = ({
+  expenses,
+  accounts = [],
+  onSaveRule,
+  onDeleteRule,
+  onReorderRules,
+  onRecategorize,
+}: CategoryRulesProps) => {
+  const { rules, label: categoryLabel } = useCategories();
+  const { format, baseCurrency, toBase } = useCurrency();
+  const { toast } = useToast();
+  const undoAction = useUndoAction();
+  const [form, setForm] = useState<RuleFormValues>(emptyForm);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [testing, setTesting] = useState(false);
+
+  const sortedRules = sortRules(rules);
+  const tagSuggestions = useMemo(() => allTags(expenses), [expenses]);
+  // Only worked out once asked for, since it runs every rule over every expense
+  const preview = useMemo(
+    () => (testing ? previewRules(rules, expenses, toBase) : []),
+    [testing, rules, expenses, toBase]
+  );
+
+  const update = (changes: Partial<RuleFormValues>) => setForm(prev => ({ ...prev, ...changes }));
+
+  const toggleWeekday = (day: number) =>
+    update({
+      weekdays: form.weekdays.includes(day)
+        ? form.weekdays.filter(d => d !== day)
+        : [...form.weekdays, day].sort((a, b) => a - b),
+    });
+
+  const resetForm = () => {
+    setForm(emptyForm());
+    setEditingId(null);
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const existing = rules.find(rule => rule.id === editingId);
+    const rule: CategoryRule = {
+      id: existing?.id ?? Date.now().toString(),
+      name: form.name.trim(),
+      priority: existing?.priority ?? nextPriority(rules),
+      enabled: existing?.enabled ?? true,
+      match: form.match,
+      pattern: form.pattern.trim(),
+      ...(form.minAmount !== "" ? { minAmount: Number(form.minAmount) } : {}),
+      ...(form.maxAmount !== "" ? { maxAmount: Number(form.maxAmount) } : {}),
+      weekdays: form.weekdays,
+      ...(form.accountId !== ANY_ACCOUNT ? { accountId: form.accountId } : {}),
+      ...(form.category !== KEEP_CATEGORY ? { category: form.category } : {}),
+      tags: form.tags,
+      ...(form.notes.trim() ? { notes: form.notes.trim() } : {}),
+    };
+
+    const error = validateRule(rule);
+    if (error) {
+      toast({ title: "Invalid Rule", description: error, variant: "destructive" });
+      return;
+    }
+
+    onSaveRule(rule);
+    resetForm();
+    toast({
+      title: existing ? "Rule Updated! ✏️" : "Rule Created! 🪄",
+      description: `"${rule.name}" will apply to new and imported expenses.`,
+      action: undoAction(),
+    });
+  };
+
+  const startEdit = (rule: CategoryRule) => {
+    setEditingId(rule.id);
+    setForm(toForm(rule));
+  };
+
+  const handleDelete = (rule: CategoryRule) => {
+    onDeleteRule(rule.id);
+    if (editingId === rule.id) resetForm();
+    toast({
+      title: "Rule Deleted",
+      description: `Removed "${rule.name}"`,
+      action: undoAction(),
+    });
+  };
+
+  // Swaps priorities with the neighbouring rule
+  const move = (index: number, offset: number) => {
+    const rule = sortedRules[index];
+    const other = sortedRules[index + offset];
+    if (!rule || !other) return;
+    onReorderRules([
+      { ...rule, priority: other.priority },
+      { ...other, priority: rule.priority },
+    ]);
+  };
+
+  const applyPreview = () => {
+    onRecategorize(preview);
+    setTesting(false);
+    toast({
+      title: "Expenses Re-categorized! 🪄",
+      description: `Updated ${preview.length} ${preview.length === 1 ? "expense" : "expenses"} from your rules.`,
+      action: undoAction(),
+    });
+  };
+
+  const describeConditions = (rule: CategoryRule) => {
+    const parts: string[] = [];
+    if (rule.pattern) {
+      const how = ruleMatches.find(option => option.value === rule.match)?.label.toLowerCase() ?? rule.match;
+      parts.push(`description ${how} "${rule.pattern}"`);
+    }
+    if (rule.minAmount !== undefined && rule.maxAmount !== undefined) {
+      parts.push(`${format(rule.minAmount)}–${format(rule.maxAmount)}`);
+    } else if (rule.minAmount !== undefined) {
+      parts.push(`at least ${format(rule.minAmount)}`);
+    } else if (rule.maxAmount !== undefined) {
+      parts.push(`at most ${format(rule.maxAmount)}`);
+    }
+    if (rule.weekdays.length > 0) parts.push(`on ${rule.weekdays.map(day => weekdayLabels[day]).join(", ")}`);
+    if (rule.accountId) {
+      const account = accounts.find(a => a.id === rule.accountId);
+      parts.push(`paid from ${account ? accountLabel(account) : "a deleted account"}`);
+    }
+    return parts.join(", ");
+  };
+
+  return (
+    <Card className="bg-gradient-card shadow-medium hover:shadow-strong transition-all duration-300 border-0">
+      <CardHeader className="text-center">
+        <CardTitle className="text-2xl gradient-text flex items-center justify-center gap-2">
+          <Wand2 className="h-6 w-6" />
+          Categorization Rules
+        </CardTitle>
+        <CardDescription className="text-muted-foreground">
+          Categorize, tag and annotate expenses automatically, checked before category keywords
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="rule-name">Rule Name</Label>
+            <Input
+              id="rule-name"
+              placeholder="e.g., Weekday campus coffee"
+              value={form.name}
+              onChange={(e) => update({ name: e.target.value })}
+              className="border-border/50 focus:border-primary transition-colors"
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="rule-pattern">Description</Label>
+            <div className="flex gap-2">
+              <Select value={form.match} onValueChange={(value) => update({ match: value as RuleMatch })}>
+                <SelectTrigger aria-label="How to match the description" className="w-40">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {ruleMatches.map((option) => (
+                    <SelectItem key={option.value} value={option.value}>
+                      {option.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Input
+                id="rule-pattern"
+                placeholder={form.match === "regex" ? "e.g., ^(uber|lyft)\\b" : "e.g., starbucks"}
+                value={form.pattern}
+                onChange={(e) => update({ pattern: e.target.value })}
+                className="flex-1 border-border/50 focus:border-primary transition-colors"
+              />
+            </div>
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="rule-min">Min Amount ({baseCurrency})</Label>
+              <Input
+                id="rule-min"
+                type="number"
+                min="0"
+                step="0.01"
+                placeholder="Any"
+                value={form.minAmount}
+                onChange={(e) => update({ minAmount: e.target.value })}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="rule-max">Max Amount ({baseCurrency})</Label>
+              <Input
+                id="rule-max"
+                type="number"
+                min="0"
+                step="0.01"
+                placeholder="Any"
+                value={form.maxAmount}
+                onChange={(e) => update({ maxAmount: e.target.value })}
+              />
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label>Weekdays</Label>
+            <div className="flex flex-wrap gap-1">
+              {weekdayLabels.map((day, index) => (
+                <Button
+                  key={day}
+                  type="button"
+                  size="sm"
+                  variant={form.weekdays.includes(index) ? "default" : "outline"}
+                  onClick={() => toggleWeekday(index)}
+                  aria-pressed={form.weekdays.includes(index)}
+                >
+                  {day}
+                </Button>
+              ))}
+            </div>
+            <p className="text-xs text-muted-foreground">Leave all off to match any day</p>
+          </div>
+
+          {accounts.length > 0 && (
+            <div className="space-y-2">
+              <Label htmlFor="rule-account">Account</Label>
+              <Select value={form.accountId} onValueChange={(value) => update({ accountId: value })}>
+                <SelectTrigger id="rule-account">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ANY_ACCOUNT}>Any account</SelectItem>
+                  {accounts.map((account) => (
+                    <SelectItem key={account.id} value={account.id}>
+                      {accountLabel(account)}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+
+          <div className="space-y-2">
+            <Label htmlFor="rule-category">Set Category</Label>
+            <Select value={form.category} onValueChange={(value) => update({ category: value })}>
+              <SelectTrigger id="rule-category">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={KEEP_CATEGORY}>Don't change the category</SelectItem>
+                <CategoryOptions />
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="rule-tags">Add Tags</Label>
+            <TagInput id="rule-tags" tags={form.tags} onChange={(tags) => update({ tags })} suggestions={tagSuggestions} />
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="rule-notes">Add Note</Label>
+            <Input
+              id="rule-notes"
+              placeholder="Only used when the expense has no notes"
+              value={form.notes}
+              onChange={(e) => update({ notes: e.target.value })}
+            />
+          </div>
+
+          <div className="flex gap-2">
+            <Button type="submit" className="flex-1">
+              <PlusCircle className="h-4 w-4" />
+              {editingId ? "Update Rule" : "Add Rule"}
+            </Button>
+            {editingId && (
+              <Button type="button" variant="outline" onClick={resetForm}>
+                Cancel
+              </Button>
+            )}
+          </div>
+        </form>
+
+        <div className="space-y-3">
+          <h3 className="text-lg font-semibold">Rules, First to Last ({sortedRules.length})</h3>
+          {sortedRules.length === 0 ? (
+            <p className="text-center text-sm text-muted-foreground py-4">
+              No rules yet. Expenses are categorized by category keywords.
+            </p>
+          ) : (
+            sortedRules.map((rule, index) => {
+              const matches = expenses.filter(expense => ruleMatchesExpense(rule, expense, toBase)).length;
+              return (
+                <div key={rule.id} className="p-4 bg-background/80 rounded-lg border border-border/30 space-y-2">
+                  <div className="flex items-start justify-between gap-2">
+                    <div className="space-y-1">
+                      <p className="font-medium flex items-center gap-2">
+                        <Badge variant="outline" className="text-xs">{index + 1}</Badge>
+                        {rule.name}
+                      </p>
+                      <p className="text-xs text-muted-foreground">If {describeConditions(rule)}</p>
+                      <div className="flex flex-wrap items-center gap-1 text-xs">
+                        <span className="text-muted-foreground">Then</span>
+                        {rule.category && <Badge variant="secondary">{categoryLabel(rule.category)}</Badge>}
+                        {rule.tags.map((tag) => (
+                          <Badge key={tag} variant="outline">#{tag}</Badge>
+                        ))}
+                        {rule.notes && <span className="italic">note "{rule.notes}"</span>}
+                      </div>
+                      <p className="text-xs text-muted-foreground">
+                        Matches {matches} recorded {matches === 1 ? "expense" : "expenses"}
+                      </p>
+                    </div>
+                    <div className="flex items-center gap-1">
+                      <Switch
+                        checked={rule.enabled}
+                        onCheckedChange={(enabled) => onSaveRule({ ...rule, enabled })}
+                        aria-label={`${rule.enabled ? "Disable" : "Enable"} ${rule.name}`}
+                      />
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => move(index, -1)}
+                        disabled={index === 0}
+                        className="h-8 w-8 p-0"
+                        aria-label="Run earlier"
+                      >
+                        <ArrowUp className="h-3 w-3" />
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => move(index, 1)}
+                        disabled={index === sortedRules.length - 1}
+                        className="h-8 w-8 p-0"
+                        aria-label="Run later"
+                      >
+                        <ArrowDown className="h-3 w-3" />
+                      </Button>
+                      <Button variant="ghost" size="sm" onClick={() => startEdit(rule)} className="h-8 w-8 p-0">
+                        <Edit className="h-3 w-3" />
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => handleDelete(rule)}
+                        className="h-8 w-8 p-0 text-destructive hover:text-destructive"
+                      >
+                        <Trash2 className="h-3 w-3" />
+                      </Button>
+                    </div>
+                  </div>
+                </div>
+              );
+            })
+          )}
+        </div>
+
+        {/* Test against history */}
+        {sortedRules.length > 0 && (
+          <div className="space-y-3">
+            <Button variant="outline" className="w-full" onClick={() => setTesting(prev => !prev)}>
+              <FlaskConical className="h-4 w-4" />
+              {testing ? "Hide Rule Test" : "Test Rules Against History"}
+            </Button>
+            {testing && (
+              <div className="space-y-3 p-4 bg-muted/50 rounded-lg">
+                {preview.length === 0 ? (
+                  <p className="text-sm text-muted-foreground text-center">
+                    Your rules wouldn't change any recorded expenses.
+                  </p>
+                ) : (
+                  <>
+                    <p className="text-sm font-medium">
+                      {preview.length} {preview.length === 1 ? "expense" : "expenses"} would change
+                    </p>
+                    <div className="space-y-2">
+                      {preview.slice(0, PREVIEW_ROWS).map(({ expense, updated, matched }) => {
+                        const addedTags = (updated.tags ?? []).filter(tag => !(expense.tags ?? []).includes(tag));
+                        return (
+                          <div key={expense.id} className="text-sm">
+                            <p className="font-medium">
+                              {expense.description}{" "}
+                              <span className="text-xs text-muted-foreground">
+                                {new Date(expense.date).toLocaleDateString()} · {format(expense.amount, expense.currency)}
+                              </span>
+                            </p>
+                            <p className="text-xs text-muted-foreground">
+                              {updated.category !== expense.category &&
+                                `${categoryLabel(expense.category)} → ${categoryLabel(updated.category)}. `}
+                              {addedTags.length > 0 && `Adds ${addedTags.map(tag => `#${tag}`).join(" ")}. `}
+                              {updated.notes !== expense.notes && `Notes "${updated.notes}". `}
+                              By {matched.map(rule => rule.name).join(", ")}
+                            </p>
+                          </div>
+                        );
+                      })}
+                      {preview.length > PREVIEW_ROWS && (
+                        <p className="text-xs text-muted-foreground">…and {preview.length - PREVIEW_ROWS} more</p>
+                      )}
+                    </div>
+                    <Button variant="success" className="w-full" onClick={applyPreview}>
+                      <Wand2 className="h-4 w-4" />
+                      Re-categorize {preview.length} {preview.length === 1 ? "Expense" : "Expenses"}
+                    </Button>
+                  </>
+                )}
+              </div>
+            )}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
@@ -0,0 +1,367 @@
+import { useMemo, useState } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { FileUp, Upload, ArrowLeft, ArrowRight, AlertTriangle, Copy } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { useUndoAction } from "@/hooks/use-undo-history";
+import { useCurrency } from "@/hooks/use-currency";
+import { useCategories } from "@/hooks/use-categories";
+import type { Expense } from "@/lib/schemas";
+import {
+  DATE_FORMATS,
+  DELIMITERS,
+  buildImportRows,
+  currencyFromHeader,
+  delimiterLabels,
+  detectDateFormat,
+  detectDelimiter,
+  guessMapping,
+  looksLikeHeader,
+  parseAmount,
+  parseCsv,
+  type AmountSign,
+  type ColumnMapping,
+  type DateFormat,
+  type Delimiter,
+  type MappedField,
+} from "@/lib/csv-import";
+
+interface CsvImportWizardProps {
+  expenses: Expense[];
+  onImportExpenses: (expenses: Expense[]) => void;
+}
+
+type Step = "source" | "mapping" | "preview";
+
+// Radix Select can't hold an empty value, so unmapped columns get a placeholder of their own
+const UNMAPPED = "none";
+
+const fieldLabels: Record<MappedField, string> = {
+  date: "Date",
+  description: "Description",
+  amount: "Amount",
+  category: "Category (optional)",
+  currency: "Currency (optional)",
+};
+
+export const CsvImportWizard = ({ expenses, onImportExpenses }: CsvImportWizardProps) => {
+  const [step, setStep] = useState<Step>("source");
+  const [text, setText] = useState("");
+  const [delimiter, setDelimiter] = useState<Delimiter>(",");
+  const [hasHeader, setHasHeader] = useState(true);
+  const [mapping, setMapping] = useState<ColumnMapping>({
+    date: null,
+    description: null,
+    amount: null,
+    category: null,
+    currency: null,
+  });
+  const [dateFormat, setDateFormat] = useState<DateFormat>("YYYY-MM-DD");
+  const [amountSign, setAmountSign] = useState<AmountSign>("absolute");
+  const [selected, setSelected] = useState<Set<number>>(new Set());
+  const { toast } = useToast();
+  const undoAction = useUndoAction();
+  const { baseCurrency, format, toBase } = useCurrency();
+  const { categories, rules, label: categoryLabel } = useCategories();
+
+  const parsed = useMemo(() => parseCsv(text, delimiter), [text, delimiter]);
+  const header = useMemo(() => (hasHeader ? parsed[0] ?? [] : null), [parsed, hasHeader]);
+  const dataRows = useMemo(() => (hasHeader ? parsed.slice(1) : parsed), [parsed, hasHeader]);
+  const columnCount = Math.max(0, ...parsed.slice(0, 20).map(cells => cells.length));
+  const columnName = (index: number) => header?.[index] || `Column ${index + 1}`;
+
+  const rows = useMemo(
+    () =>
+      buildImportRows(
+        dataRows,
+        hasHeader ? 2 : 1,
+        {
+          mapping,
+          dateFormat,
+          amountSign,
+          currency: (mapping.amount !== null && currencyFromHeader(header?.[mapping.amount])) || baseCurrency,
+        },
+        categories,
+        expenses,
+        rules,
+        toBase
+      ),
+    [dataRows, hasHeader, header, mapping, dateFormat, amountSign, baseCurrency, categories, expenses, rules, toBase]
+  );
+
+  // Sniffs the file once when it is loaded; every guess can still be changed on the mapping step
+  const loadText = (content: string) => {
+    const detected = detectDelimiter(content);
+    const cells = parseCsv(content, detected);
+    const headerRow = cells.length > 0 && looksLikeHeader(cells[0]);
+    const body = headerRow ? cells.slice(1) : cells;
+    const guessed = guessMapping(headerRow ? cells[0] : null, body);
+
+    setText(content);
+    setDelimiter(detected);
+    setHasHeader(headerRow);
+    setMapping(guessed);
+    if (guessed.date !== null) {
+      setDateFormat(detectDateFormat(body.slice(0, 50).map(row => row[guessed.date] ?? "")));
+    }
+    if (guessed.amount !== null) {
+      const amounts = body.map(row => parseAmount(row[guessed.amount] ?? "")).filter((n): n is number => n !== null);
+      setAmountSign(amounts.filter(n => n < 0).length > amounts.length / 2 ? "negative-is-expense" : "absolute");
+    }
+    setStep("mapping");
+  };
+
+  const handleFile = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = "";
+    if (!file) return;
+    file.text().then(loadText);
+  };
+
+  const showPreview = () => {
+    setSelected(new Set(rows.filter(row => row.expense && !row.duplicateOf).map(row => row.line)));
+    setStep("preview");
+  };
+
+  const toggleRow = (line: number, checked: boolean) => {
+    setSelected(prev => {
+      const next = new Set(prev);
+      if (checked) next.add(line);
+      else next.delete(line);
+      return next;
+    });
+  };
+
+  const reset = () => {
+    setText("");
+    setSelected(new Set());
+    setStep("source");
+  };
+
+  const handleImport = () => {
+    const chosen = rows.filter(row => row.expense && selected.has(row.line)).map(row => row.expense as Expense);
+    if (chosen.length === 0) {
+      toast({
+        title: "Nothing Selected",
+        description: "Tick the rows you want to import.",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    onImportExpenses(chosen);
+    reset();
+
+    toast({
+      title: "Expenses Imported 📥",
+      description: `${chosen.length} ${chosen.length === 1 ? "expense" : "expenses"} added from your file.`,
+      action: undoAction(),
+    });
+  };
+
+  const readable = rows.filter(row => row.expense);
+  const duplicates = readable.filter(row => row.duplicateOf).length;
+
+  return (
+    <Card className="bg-gradient-card shadow-medium hover:shadow-strong transition-all duration-300 border-0">
+      <CardHeader className="text-center">
+        <CardTitle className="text-2xl gradient-text flex items-center justify-center gap-2">
+          <FileUp className="h-6 w-6" />
+          Import CSV
+        </CardTitle>
+        <CardDescription className="text-muted-foreground">
+          Bring in a spreadsheet from your bank or another app
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {step === "source" && (
+          <div className="space-y-4">
+            <Button type="button" variant="outline" className="w-full" asChild>
+              <label className="cursor-pointer">
+                <Upload className="h-4 w-4" />
+                Choose CSV File
+                <input type="file" accept=".csv,.txt,text/csv" className="hidden" onChange={handleFile} />
+              </label>
+            </Button>
+            <div className="space-y-2">
+              <Label htmlFor="csv-paste">Or paste rows</Label>
+              <Textarea
+                id="csv-paste"
+                placeholder={"Date,Description,Amount\n2024-09-01,Groceries,42.10"}
+                value={text}
+                onChange={(e) => setText(e.target.value)}
+                className="font-mono text-xs"
+              />
+              <Button type="button" className="w-full" disabled={!text.trim()} onClick={() => loadText(text)}>
+                Next
+                <ArrowRight className="h-4 w-4" />
+              </Button>
+            </div>
+          </div>
+        )}
+
+        {step === "mapping" && (
+          <div className="space-y-4">
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="csv-delimiter">Delimiter</Label>
+                <Select value={delimiter} onValueChange={(value: Delimiter) => setDelimiter(value)}>
+                  <SelectTrigger id="csv-delimiter">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {DELIMITERS.map((option) => (
+                      <SelectItem key={option} value={option}>
+                        {delimiterLabels[option]}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="csv-date-format">Date Format</Label>
+                <Select value={dateFormat} onValueChange={(value: DateFormat) => setDateFormat(value)}>
+                  <SelectTrigger id="csv-date-format">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {DATE_FORMATS.map((option) => (
+                      <SelectItem key={option} value={option}>
+                        {option}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="csv-amount-sign">Amounts</Label>
+                <Select value={amountSign} onValueChange={(value: AmountSign) => setAmountSign(value)}>
+                  <SelectTrigger id="csv-amount-sign">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="absolute">Every row is spending</SelectItem>
+                    <SelectItem value="negative-is-expense">Negative rows are spending</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+
+            <div className="flex items-center gap-2">
+              <Checkbox
+                id="csv-has-header"
+                checked={hasHeader}
+                onCheckedChange={(checked) => setHasHeader(checked === true)}
+              />
+              <Label htmlFor="csv-has-header">First row holds column names</Label>
+            </div>
+
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              {(Object.keys(fieldLabels) as MappedField[]).map((field) => (
+                <div key={field} className="space-y-2">
+                  <Label htmlFor={`csv-map-${field}`}>{fieldLabels[field]}</Label>
+                  <Select
+                    value={mapping[field] === null ? UNMAPPED : String(mapping[field])}
+                    onValueChange={(value) =>
+                      setMapping(prev => ({ ...prev, [field]: value === UNMAPPED ? null : Number(value) }))
+                    }
+                  >
+                    <SelectTrigger id={`csv-map-${field}`}>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={UNMAPPED}>Not in file</SelectItem>
+                      {Array.from({ length: columnCount }, (_, index) => (
+                        <SelectItem key={index} value={String(index)}>
+                          {columnName(index)}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              ))}
+            </div>
+
+            <div className="flex gap-2">
+              <Button type="button" variant="outline" className="flex-1" onClick={reset}>
+                <ArrowLeft className="h-4 w-4" />
+                Back
+              </Button>
+              <Button type="button" className="flex-1" onClick={showPreview}>
+                Preview {dataRows.length} {dataRows.length === 1 ? "row" : "rows"}
+                <ArrowRight className="h-4 w-4" />
+              </Button>
+            </div>
+          </div>
+        )}
+
+        {step === "preview" && (
+          <div className="space-y-4">
+            <p className="text-sm text-muted-foreground text-center">
+              {readable.length} of {rows.length} rows readable · {duplicates} likely{" "}
+              {duplicates === 1 ? "duplicate" : "duplicates"} · {selected.size} selected
+            </p>
+
+            <div className="space-y-2 max-h-96 overflow-y-auto">
+              {rows.map((row) => (
+                <div
+                  key={row.line}
+                  className={`flex items-center gap-3 p-3 bg-background/80 rounded-lg border border-border/30 text-sm ${
+                    row.expense ? "" : "opacity-60"
+                  }`}
+                >
+                  <Checkbox
+                    aria-label={`Import line ${row.line}`}
+                    checked={selected.has(row.line)}
+                    disabled={!row.expense}
+                    onCheckedChange={(checked) => toggleRow(row.line, checked === true)}
+                  />
+                  {row.expense ? (
+                    <>
+                      <div className="flex-1 min-w-0">
+                        <p className="font-medium truncate">{row.expense.description}</p>
+                        <div className="flex flex-wrap items-center gap-2 text-xs text-muted-foreground">
+                          <span>{new Date(row.expense.date).toLocaleDateString()}</span>
+                          <Badge variant="secondary" className="text-xs">
+                            {categoryLabel(row.expense.category)}
+                          </Badge>
+                          {row.duplicateOf && (
+                            <Badge variant="outline" className="text-xs flex items-center gap-1">
+                              <Copy className="h-3 w-3" />
+                              Looks like "{row.duplicateOf.description}"
+                            </Badge>
+                          )}
+                        </div>
+                      </div>
+                      <span className="font-bold">{format(row.expense.amount, row.expense.currency)}</span>
+                    </>
+                  ) : (
+                    <span className="flex-1 flex items-center gap-2 text-muted-foreground">
+                      <AlertTriangle className="h-4 w-4" />
+                      Line {row.line}: {row.error}
+                    </span>
+                  )}
+                </div>
+              ))}
+            </div>
+
+            <div className="flex gap-2">
+              <Button type="button" variant="outline" className="flex-1" onClick={() => setStep("mapping")}>
+                <ArrowLeft className="h-4 w-4" />
+                Back
+              </Button>
+              <Button type="button" variant="gradient" className="flex-1" onClick={handleImport}>
+                Import {selected.size} {selected.size === 1 ? "Expense" : "Expenses"}
+              </Button>
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
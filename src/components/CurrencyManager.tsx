@@ -0,0 +1,258 @@
+import { useState } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Coins, PlusCircle, Trash2, Upload, AlertTriangle } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { useUndoAction } from "@/hooks/use-undo-history";
+import { useCurrency } from "@/hooks/use-currency";
+import type { ExchangeRate, Expense } from "@/lib/schemas";
+import { availableCurrencies, parseRateTable } from "@/lib/currency";
+import { todayISO } from "@/lib/recurrence";
+
+interface CurrencyManagerProps {
+  expenses: Expense[];
+  onBaseCurrencyChange: (currency: string) => void;
+  onAddRates: (rates: ExchangeRate[]) => void;
+  onDeleteRate: (id: string) => void;
+}
+
+export const CurrencyManager = ({ expenses, onBaseCurrencyChange, onAddRates, onDeleteRate }: CurrencyManagerProps) => {
+  const { baseCurrency, rates, hasRate } = useCurrency();
+  const [from, setFrom] = useState("");
+  const [rate, setRate] = useState("");
+  const [effectiveDate, setEffectiveDate] = useState(todayISO());
+  const [importText, setImportText] = useState("");
+  const { toast } = useToast();
+  const undoAction = useUndoAction();
+
+  const currencies = availableCurrencies(baseCurrency, rates);
+
+  // Currencies that are being counted 1:1 because nothing in the table converts them
+  const missingRates = [
+    ...new Set(
+      expenses
+        .filter(expense => !hasRate(expense.currency, expense.date))
+        .map(expense => expense.currency)
+    ),
+  ];
+
+  const withIds = (parsed: Omit<ExchangeRate, "id">[]): ExchangeRate[] => {
+    const stamp = Date.now();
+    return parsed.map((r, index) => ({ ...r, id: `${stamp}-${index}` }));
+  };
+
+  const handleAddRate = (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!from || from === baseCurrency || !rate || isNaN(Number(rate)) || Number(rate) <= 0) {
+      toast({
+        title: "Invalid Rate",
+        description: `Pick a currency other than ${baseCurrency} and enter a rate above zero.`,
+        variant: "destructive",
+      });
+      return;
+    }
+
+    onAddRates(withIds([{ from, to: baseCurrency, rate: Number(rate), effectiveDate }]));
+    setRate("");
+
+    toast({
+      title: "Rate Saved 💱",
+      description: `1 ${from} = ${rate} ${baseCurrency} from ${new Date(effectiveDate).toLocaleDateString()}.`,
+      action: undoAction(),
+    });
+  };
+
+  const importRates = (text: string) => {
+    const parsed = parseRateTable(text);
+    if (parsed.rates.length === 0) {
+      toast({
+        title: "Nothing Imported",
+        description: parsed.errors[0] ?? "Paste one date,from,to,rate row per line.",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    onAddRates(withIds(parsed.rates));
+    setImportText("");
+
+    toast({
+      title: "Rates Imported 📥",
+      description:
+        `${parsed.rates.length} ${parsed.rates.length === 1 ? "rate" : "rates"} added.` +
+        (parsed.errors.length > 0 ? ` ${parsed.errors.length} unreadable lines skipped.` : ""),
+      action: undoAction(),
+    });
+  };
+
+  const handleFile = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = "";
+    if (!file) return;
+    file.text().then(importRates);
+  };
+
+  const handleDelete = (exchangeRate: ExchangeRate) => {
+    onDeleteRate(exchangeRate.id);
+    toast({
+      title: "Rate Deleted",
+      description: `Removed ${exchangeRate.from} → ${exchangeRate.to} from ${exchangeRate.effectiveDate}`,
+      action: undoAction(),
+    });
+  };
+
+  const sortedRates = [...rates].sort(
+    (a, b) => b.effectiveDate.localeCompare(a.effectiveDate) || a.from.localeCompare(b.from)
+  );
+
+  return (
+    <Card className="bg-gradient-card shadow-medium hover:shadow-strong transition-all duration-300 border-0">
+      <CardHeader className="text-center">
+        <CardTitle className="text-2xl gradient-text flex items-center justify-center gap-2">
+          <Coins className="h-6 w-6" />
+          Currencies
+        </CardTitle>
+        <CardDescription className="text-muted-foreground">
+          Totals, budgets and balances are shown in your base currency using the rate in effect on each date
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="space-y-2">
+          <Label htmlFor="base-currency">Base Currency</Label>
+          <Select value={baseCurrency} onValueChange={onBaseCurrencyChange}>
+            <SelectTrigger id="base-currency">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {currencies.map((code) => (
+                <SelectItem key={code} value={code}>
+                  {code}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        {missingRates.length > 0 && (
+          <div className="flex items-start gap-2 p-3 rounded-lg bg-warning/10 text-sm">
+            <AlertTriangle className="h-4 w-4 mt-0.5 text-warning" />
+            <p>
+              No rate to {baseCurrency} for {missingRates.join(", ")}. Those amounts are counted 1:1 until you add one.
+            </p>
+          </div>
+        )}
+
+        <form onSubmit={handleAddRate} className="space-y-4 border-t pt-4">
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="rate-from">1 unit of</Label>
+              <Select value={from} onValueChange={setFrom}>
+                <SelectTrigger id="rate-from">
+                  <SelectValue placeholder="Currency" />
+                </SelectTrigger>
+                <SelectContent>
+                  {currencies
+                    .filter(code => code !== baseCurrency)
+                    .map((code) => (
+                      <SelectItem key={code} value={code}>
+                        {code}
+                      </SelectItem>
+                    ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="rate-value">Equals ({baseCurrency})</Label>
+              <Input
+                id="rate-value"
+                type="number"
+                step="any"
+                min="0"
+                placeholder="0.00"
+                value={rate}
+                onChange={(e) => setRate(e.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="rate-date">Effective From</Label>
+              <Input
+                id="rate-date"
+                type="date"
+                value={effectiveDate}
+                onChange={(e) => setEffectiveDate(e.target.value)}
+              />
+            </div>
+          </div>
+          <Button type="submit" variant="outline" className="w-full">
+            <PlusCircle className="h-4 w-4" />
+            Add Rate
+          </Button>
+        </form>
+
+        <div className="space-y-2 border-t pt-4">
+          <Label htmlFor="rate-import">Import Rates</Label>
+          <Textarea
+            id="rate-import"
+            placeholder={"date,from,to,rate\n2024-09-01,EUR,USD,1.10"}
+            value={importText}
+            onChange={(e) => setImportText(e.target.value)}
+            className="font-mono text-xs"
+          />
+          <div className="flex gap-2">
+            <Button
+              type="button"
+              variant="outline"
+              className="flex-1"
+              disabled={!importText.trim()}
+              onClick={() => importRates(importText)}
+            >
+              Import Pasted Rows
+            </Button>
+            <Button type="button" variant="outline" className="flex-1" asChild>
+              <label className="cursor-pointer">
+                <Upload className="h-4 w-4" />
+                Upload CSV
+                <input type="file" accept=".csv,.txt,text/csv" className="hidden" onChange={handleFile} />
+              </label>
+            </Button>
+          </div>
+        </div>
+
+        <div className="space-y-2 max-h-64 overflow-y-auto">
+          {sortedRates.length === 0 ? (
+            <p className="text-center text-sm text-muted-foreground py-4">No exchange rates yet.</p>
+          ) : (
+            sortedRates.map((exchangeRate) => (
+              <div
+                key={exchangeRate.id}
+                className="flex items-center justify-between p-3 bg-background/80 rounded-lg border border-border/30 text-sm"
+              >
+                <span className="font-medium">
+                  1 {exchangeRate.from} = {exchangeRate.rate} {exchangeRate.to}
+                </span>
+                <div className="flex items-center gap-2">
+                  <span className="text-xs text-muted-foreground">
+                    from {new Date(exchangeRate.effectiveDate).toLocaleDateString()}
+                  </span>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => handleDelete(exchangeRate)}
+                    className="text-destructive hover:text-destructive hover:bg-destructive/10"
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              </div>
+            ))
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
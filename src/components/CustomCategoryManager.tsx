@@ -1,75 +1,55 @@
-import { useState, useEffect } from "react";
+import { useState } from "react";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Badge } from "@/components/ui/badge";
 import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Plus, Tag, Trash2, Edit, Palette } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
-
-interface CustomCategory {
-  id: string;
-  value: string;
-  label: string;
-  emoji: string;
-  color: string;
-  keywords: string[];
-}
+import type { CustomCategory } from "@/lib/schemas";
+import { categoryColors, childCategories, defaultCategories } from "@/lib/categories";
+import { useUndoAction } from "@/hooks/use-undo-history";
+import { useCategories } from "@/hooks/use-categories";
 
 interface CustomCategoryManagerProps {
   onCategoriesUpdate: (categories: CustomCategory[]) => void;
 }
 
-const defaultCategories: CustomCategory[] = [
-  { id: "food", value: "food", label: "Food & Dining", emoji: "🍕", color: "bg-orange-500", keywords: ["food", "restaurant", "lunch", "dinner", "breakfast", "coffee", "pizza"] },
-  { id: "transport", value: "transport", label: "Transport", emoji: "🚗", color: "bg-blue-500", keywords: ["uber", "taxi", "bus", "train", "gas", "fuel", "metro"] },
-  { id: "entertainment", value: "entertainment", label: "Entertainment", emoji: "🎮", color: "bg-purple-500", keywords: ["movie", "game", "netflix", "spotify", "concert", "party"] },
-  { id: "bills", value: "bills", label: "Bills & Utilities", emoji: "📋", color: "bg-red-500", keywords: ["rent", "electricity", "water", "internet", "phone", "bill"] },
-  { id: "education", value: "education", label: "Education", emoji: "📚", color: "bg-green-500", keywords: ["book", "course", "tuition", "school", "university", "study"] },
-  { id: "others", value: "others", label: "Others", emoji: "🔍", color: "bg-gray-500", keywords: [] }
-];
+// Gray is kept for "Others" and for categories that no longer exist
+const colorOptions = Object.keys(categoryColors).filter(color => color !== "bg-gray-500");
 
-const colorOptions = [
-  "bg-red-500", "bg-blue-500", "bg-green-500", "bg-yellow-500", 
-  "bg-purple-500", "bg-pink-500", "bg-indigo-500", "bg-orange-500",
-  "bg-teal-500", "bg-cyan-500", "bg-lime-500", "bg-emerald-500"
-];
+// Parent select value for a top-level category
+const NO_PARENT = "none";
 
 export const CustomCategoryManager = ({ onCategoriesUpdate }: CustomCategoryManagerProps) => {
-  const [categories, setCategories] = useState<CustomCategory[]>(defaultCategories);
+  const { categories, tree, label: categoryLabel } = useCategories();
   const [isDialogOpen, setIsDialogOpen] = useState(false);
   const [editingCategory, setEditingCategory] = useState<CustomCategory | null>(null);
   const [formData, setFormData] = useState({
     label: "",
     emoji: "",
     color: "bg-blue-500",
-    keywords: ""
+    keywords: "",
+    parent: NO_PARENT
   });
-  const { toast } = useToast();
-
-  useEffect(() => {
-    const savedCategories = localStorage.getItem("student-finance-categories");
-    if (savedCategories) {
-      const parsed = JSON.parse(savedCategories);
-      setCategories(parsed);
-      onCategoriesUpdate(parsed);
-    } else {
-      onCategoriesUpdate(defaultCategories);
-    }
-  }, [onCategoriesUpdate]);
 
-  useEffect(() => {
-    localStorage.setItem("student-finance-categories", JSON.stringify(categories));
-    onCategoriesUpdate(categories);
-  }, [categories, onCategoriesUpdate]);
+  // Subcategories only go one level deep, so a category with its own subcategories stays top-level
+  const editingHasChildren = !!editingCategory && childCategories(categories, editingCategory.value).length > 0;
+  const parentOptions = tree
+    .filter(node => node.depth === 0 && node.category.value !== editingCategory?.value)
+    .map(node => node.category);
+  const { toast } = useToast();
+  const undoAction = useUndoAction();
 
   const resetForm = () => {
     setFormData({
       label: "",
       emoji: "",
       color: "bg-blue-500",
-      keywords: ""
+      keywords: "",
+      parent: NO_PARENT
     });
     setEditingCategory(null);
   };
@@ -81,7 +61,8 @@ export const CustomCategoryManager = ({ onCategoriesUpdate }: CustomCategoryMana
         label: category.label,
         emoji: category.emoji,
         color: category.color,
-        keywords: category.keywords.join(", ")
+        keywords: category.keywords.join(", "),
+        parent: category.parent ?? NO_PARENT
       });
     } else {
       resetForm();
@@ -101,19 +82,31 @@ export const CustomCategoryManager = ({ onCategoriesUpdate }: CustomCategoryMana
 
     const value = formData.label.toLowerCase().replace(/[^a-z0-9]/g, '_');
     const keywords = formData.keywords.split(',').map(k => k.trim().toLowerCase()).filter(k => k);
+    const parent = formData.parent === NO_PARENT ? undefined : formData.parent;
 
     if (editingCategory) {
       // Update existing category
-      setCategories(prev => prev.map(cat => 
+      onCategoriesUpdate(categories.map(cat => 
         cat.id === editingCategory.id 
-          ? { ...cat, label: formData.label, emoji: formData.emoji, color: formData.color, keywords }
+          ? { ...cat, label: formData.label, emoji: formData.emoji, color: formData.color, keywords, parent }
           : cat
       ));
       toast({
         title: "Category Updated! ✏️",
         description: `${formData.emoji} ${formData.label} has been updated.`,
+        action: undoAction(),
       });
     } else {
+      // Expenses, budgets and filters refer to categories by value, so it has to be unique
+      if (categories.some(cat => cat.value === value)) {
+        toast({
+          title: "Category Exists",
+          description: `There's already a category called ${formData.label}.`,
+          variant: "destructive",
+        });
+        return;
+      }
+
       // Add new category
       const newCategory: CustomCategory = {
         id: `custom-${Date.now()}`,
@@ -121,12 +114,14 @@ export const CustomCategoryManager = ({ onCategoriesUpdate }: CustomCategoryMana
         label: formData.label,
         emoji: formData.emoji,
         color: formData.color,
-        keywords
+        keywords,
+        parent
       };
-      setCategories(prev => [...prev, newCategory]);
+      onCategoriesUpdate([...categories, newCategory]);
       toast({
         title: "Category Created! 🎉",
         description: `${formData.emoji} ${formData.label} has been added.`,
+        action: undoAction(),
       });
     }
 
@@ -145,10 +140,17 @@ export const CustomCategoryManager = ({ onCategoriesUpdate }: CustomCategoryMana
       return;
     }
 
-    setCategories(prev => prev.filter(cat => cat.id !== categoryId));
+    // Its subcategories move up to the top level rather than disappearing with it
+    const deleted = categories.find(cat => cat.id === categoryId);
+    onCategoriesUpdate(
+      categories
+        .filter(cat => cat.id !== categoryId)
+        .map(cat => (deleted && cat.parent === deleted.value ? { ...cat, parent: undefined } : cat))
+    );
     toast({
       title: "Category Deleted",
       description: "Custom category has been removed.",
+      action: undoAction(),
     });
   };
 
@@ -208,6 +210,32 @@ export const CustomCategoryManager = ({ onCategoriesUpdate }: CustomCategoryMana
                   />
                 </div>
 
+                <div className="space-y-2">
+                  <Label htmlFor="category-parent">Parent Category</Label>
+                  <Select
+                    value={formData.parent}
+                    onValueChange={(parent) => setFormData({...formData, parent})}
+                    disabled={editingHasChildren}
+                  >
+                    <SelectTrigger id="category-parent">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={NO_PARENT}>None (top-level category)</SelectItem>
+                      {parentOptions.map((option) => (
+                        <SelectItem key={option.value} value={option.value}>
+                          {categoryLabel(option.value)}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <p className="text-xs text-muted-foreground">
+                    {editingHasChildren
+                      ? "This category has subcategories, so it stays top-level"
+                      : "Subcategory spending also counts towards the parent's budget"}
+                  </p>
+                </div>
+
                 <div className="space-y-2">
                   <Label>Color</Label>
                   <div className="grid grid-cols-6 gap-2">
@@ -252,7 +280,7 @@ export const CustomCategoryManager = ({ onCategoriesUpdate }: CustomCategoryMana
         </div>
 
         <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-3">
-          {categories.map((category) => (
+          {tree.map(({ category, depth }) => (
             <div
               key={category.id}
               className="flex items-center justify-between p-3 bg-background/50 rounded-lg border transition-all hover:shadow-sm"
@@ -263,6 +291,9 @@ export const CustomCategoryManager = ({ onCategoriesUpdate }: CustomCategoryMana
                 </div>
                 <div>
                   <p className="font-medium text-sm">{category.label}</p>
+                  {depth > 0 && (
+                    <p className="text-xs text-muted-foreground">in {categoryLabel(category.parent)}</p>
+                  )}
                   {category.keywords.length > 0 && (
                     <Badge variant="secondary" className="text-xs mt-1">
                       {category.keywords.length} keywords
@@ -1,6 +1,25 @@
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Progress } from "@/components/ui/progress";
-import { TrendingUp, TrendingDown, DollarSign, Target, PieChart, Calendar } from "lucide-react";
+import { TrendingUp, TrendingDown, DollarSign, Target, PieChart, Calendar, PiggyBank, Scale, Flag, Hash } from "lucide-react";
+import type { Income, Merchant, SavingsGoal } from "@/lib/schemas";
+import { cashFlowBetween } from "@/lib/income";
+import { goalBalance, isGoalComplete } from "@/lib/goals";
+import { tagTotals } from "@/lib/tags";
+import { myShare, spendingTotal } from "@/lib/splits";
+import { budgetTotal } from "@/lib/categories";
+import type { ResolvedMerchant } from "@/lib/merchants";
+import {
+  CALENDAR_MONTH,
+  dailyAllowance,
+  daysRemaining,
+  inPeriod,
+  inPreviousPeriod,
+  monthPeriod,
+  type ActivePeriod,
+} from "@/lib/periods";
+import { useCurrency } from "@/hooks/use-currency";
+import { useCategories } from "@/hooks/use-categories";
+import { MerchantLeaderboard } from "@/components/MerchantLeaderboard";
 
 interface Budget {
   [category: string]: number;
@@ -9,33 +28,53 @@ interface Budget {
 interface DashboardStatsProps {
   expenses: any[];
   budget: Budget;
+  incomes?: Income[];
+  // Amounts must already be in the base currency
+  goals?: SavingsGoal[];
+  // Period the stats cover; `budget` holds its limits. Defaults to the calendar month.
+  period?: ActivePeriod;
+  // Merchants the user has confirmed aliases for
+  merchants?: Merchant[];
+  onConfirmMerchantAlias?: (target: ResolvedMerchant, alias: ResolvedMerchant) => void;
+  // "target|alias" pairs the user said are different merchants
+  dismissedMerchantAliases?: string[];
+  onDismissMerchantAlias?: (target: ResolvedMerchant, alias: ResolvedMerchant) => void;
 }
 
-export const DashboardStats = ({ expenses, budget }: DashboardStatsProps) => {
-  const currentMonth = new Date().toISOString().slice(0, 7);
-  const lastMonth = new Date(new Date().setMonth(new Date().getMonth() - 1)).toISOString().slice(0, 7);
+export const DashboardStats = ({
+  expenses,
+  budget,
+  incomes = [],
+  goals = [],
+  period,
+  merchants = [],
+  onConfirmMerchantAlias,
+  dismissedMerchantAliases = [],
+  onDismissMerchantAlias,
+}: DashboardStatsProps) => {
+  const { format } = useCurrency();
+  const { categories, label: categoryLabel, root, family } = useCategories();
+  const activePeriod = period ?? monthPeriod(budget);
+  const periodWord = activePeriod.id === CALENDAR_MONTH ? "month" : "period";
 
-  // Calculate current month spending
-  const currentMonthExpenses = expenses.filter(expense => 
-    expense.date.startsWith(currentMonth)
-  );
-  const currentMonthTotal = currentMonthExpenses.reduce((sum, expense) => sum + expense.amount, 0);
+  // Calculate spending in the selected period
+  const currentMonthExpenses = expenses.filter(expense => inPeriod(expense.date, activePeriod));
+  const currentMonthTotal = spendingTotal(currentMonthExpenses);
 
-  // Calculate last month spending
-  const lastMonthExpenses = expenses.filter(expense => 
-    expense.date.startsWith(lastMonth)
-  );
-  const lastMonthTotal = lastMonthExpenses.reduce((sum, expense) => sum + expense.amount, 0);
+  // Calculate spending in the period just before it
+  const lastMonthExpenses = expenses.filter(expense => inPreviousPeriod(expense.date, activePeriod));
+  const lastMonthTotal = spendingTotal(lastMonthExpenses);
 
-  // Calculate total budget
-  const totalBudget = Object.values(budget).reduce((sum: number, amount: number) => sum + (amount || 0), 0);
+  // Calculate total budget, without counting subcategory limits their parent already covers
+  const totalBudget = budgetTotal(categories, budget);
 
   // Calculate spending change
   const spendingChange = lastMonthTotal > 0 ? ((currentMonthTotal - lastMonthTotal) / lastMonthTotal) * 100 : 0;
 
-  // Calculate category breakdown
+  // Calculate category breakdown, rolling subcategories up into their parent
   const categoryStats = currentMonthExpenses.reduce((acc, expense) => {
-    acc[expense.category] = (acc[expense.category] || 0) + expense.amount;
+    const category = root(expense.category);
+    acc[category] = (acc[category] || 0) + myShare(expense);
     return acc;
   }, {});
 
@@ -43,19 +82,53 @@ export const DashboardStats = ({ expenses, budget }: DashboardStatsProps) => {
     .sort(([,a], [,b]) => (b as number) - (a as number))
     .slice(0, 3);
 
+  // Where most of the top category's money went when it has subcategories
+  const topSubcategory = topCategories.length > 0
+    ? family(topCategories[0][0])
+        .slice(1)
+        .map(value => ({
+          value,
+          spent: currentMonthExpenses
+            .filter(expense => expense.category === value)
+            .reduce((sum, expense) => sum + myShare(expense), 0),
+        }))
+        .filter(sub => sub.spent > 0)
+        .sort((a, b) => b.spent - a.spent)[0]
+    : undefined;
+
   const budgetUsagePercentage = totalBudget > 0 ? (currentMonthTotal / totalBudget) * 100 : 0;
 
+  // What can still be spent each day without going over the total budget
+  const daysLeft = daysRemaining(activePeriod);
+  const perDay = dailyAllowance(totalBudget, currentMonthTotal, activePeriod);
+
+  // Income and net cash flow
+  const currentCashFlow = cashFlowBetween(expenses, incomes, activePeriod.start, activePeriod.end);
+  const lastCashFlow = cashFlowBetween(expenses, incomes, activePeriod.previousStart, activePeriod.previousEnd);
+  const incomeChange = lastCashFlow.income > 0
+    ? ((currentCashFlow.income - lastCashFlow.income) / lastCashFlow.income) * 100
+    : 0;
+
+  // Savings goals progress
+  const goalsSaved = goals.reduce((sum, goal) => sum + Math.min(goalBalance(goal), goal.targetAmount), 0);
+  const goalsTarget = goals.reduce((sum, goal) => sum + goal.targetAmount, 0);
+  const goalsComplete = goals.filter(isGoalComplete).length;
+
+  // Tag totals overlap when an expense has several tags, so they are listed rather than summed
+  const hasTags = expenses.some(expense => expense.tags?.length);
+  const topTags = tagTotals(currentMonthExpenses).slice(0, 3);
+
   return (
-    <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6">
+    <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
       {/* Total Spent This Month */}
       <Card className="bg-gradient-card shadow-medium hover:shadow-strong transition-all duration-300 border-0">
         <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
-          <CardTitle className="text-sm font-medium">This Month</CardTitle>
+          <CardTitle className="text-sm font-medium">{activePeriod.name}</CardTitle>
           <DollarSign className="h-4 w-4 text-muted-foreground" />
         </CardHeader>
         <CardContent>
           <div className="text-2xl font-bold gradient-text">
-            ${currentMonthTotal.toFixed(2)}
+            {format(currentMonthTotal)}
           </div>
           <div className="flex items-center text-xs text-muted-foreground mt-1">
             {spendingChange >= 0 ? (
@@ -66,7 +139,7 @@ export const DashboardStats = ({ expenses, budget }: DashboardStatsProps) => {
             <span className={spendingChange >= 0 ? "text-destructive" : "text-success"}>
               {Math.abs(spendingChange).toFixed(1)}%
             </span>
-            <span className="ml-1">from last month</span>
+            <span className="ml-1">from last {periodWord}</span>
           </div>
         </CardContent>
       </Card>
@@ -83,8 +156,13 @@ export const DashboardStats = ({ expenses, budget }: DashboardStatsProps) => {
           </div>
           <Progress value={Math.min(budgetUsagePercentage, 100)} className="mt-2" />
           <p className="text-xs text-muted-foreground mt-1">
-            ${currentMonthTotal.toFixed(2)} of ${totalBudget.toFixed(2)}
+            {format(currentMonthTotal)} of {format(totalBudget)}
           </p>
+          {totalBudget > 0 && perDay !== null && (
+            <p className="text-xs text-muted-foreground">
+              {format(perDay)}/day left for {daysLeft} {daysLeft === 1 ? "day" : "days"}
+            </p>
+          )}
         </CardContent>
       </Card>
 
@@ -99,7 +177,7 @@ export const DashboardStats = ({ expenses, budget }: DashboardStatsProps) => {
             {expenses.length}
           </div>
           <p className="text-xs text-muted-foreground mt-1">
-            {currentMonthExpenses.length} this month
+            {currentMonthExpenses.length} this {periodWord}
           </p>
         </CardContent>
       </Card>
@@ -114,11 +192,16 @@ export const DashboardStats = ({ expenses, budget }: DashboardStatsProps) => {
           {topCategories.length > 0 ? (
             <>
               <div className="text-2xl font-bold gradient-text">
-                ${(topCategories[0][1] as number).toFixed(2)}
+                {format(topCategories[0][1] as number)}
               </div>
-              <p className="text-xs text-muted-foreground mt-1 capitalize">
-                {topCategories[0][0].replace('_', ' ')}
+              <p className="text-xs text-muted-foreground mt-1">
+                {categoryLabel(topCategories[0][0])}
               </p>
+              {topSubcategory && (
+                <p className="text-xs text-muted-foreground">
+                  Mostly {categoryLabel(topSubcategory.value)} ({format(topSubcategory.spent)})
+                </p>
+              )}
             </>
           ) : (
             <div className="text-lg text-muted-foreground">
@@ -127,6 +210,113 @@ export const DashboardStats = ({ expenses, budget }: DashboardStatsProps) => {
           )}
         </CardContent>
       </Card>
+
+      {/* Top Merchants */}
+      <MerchantLeaderboard
+        expenses={expenses}
+        merchants={merchants}
+        period={activePeriod}
+        periodWord={periodWord}
+        onConfirmAlias={onConfirmMerchantAlias}
+        dismissed={dismissedMerchantAliases}
+        onDismissAlias={onDismissMerchantAlias}
+      />
+
+      {/* Income This Month */}
+      <Card className="bg-gradient-card shadow-medium hover:shadow-strong transition-all duration-300 border-0">
+        <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+          <CardTitle className="text-sm font-medium">Income</CardTitle>
+          <PiggyBank className="h-4 w-4 text-muted-foreground" />
+        </CardHeader>
+        <CardContent>
+          <div className="text-2xl font-bold gradient-text">
+            {format(currentCashFlow.income)}
+          </div>
+          <div className="flex items-center text-xs text-muted-foreground mt-1">
+            {incomeChange >= 0 ? (
+              <TrendingUp className="h-3 w-3 text-success mr-1" />
+            ) : (
+              <TrendingDown className="h-3 w-3 text-destructive mr-1" />
+            )}
+            <span className={incomeChange >= 0 ? "text-success" : "text-destructive"}>
+              {Math.abs(incomeChange).toFixed(1)}%
+            </span>
+            <span className="ml-1">from last {periodWord}</span>
+          </div>
+        </CardContent>
+      </Card>
+
+      {/* Net Cash Flow */}
+      <Card className="bg-gradient-card shadow-medium hover:shadow-strong transition-all duration-300 border-0">
+        <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+          <CardTitle className="text-sm font-medium">Net Cash Flow</CardTitle>
+          <Scale className="h-4 w-4 text-muted-foreground" />
+        </CardHeader>
+        <CardContent>
+          <div className={`text-2xl font-bold ${currentCashFlow.net >= 0 ? "text-success" : "text-destructive"}`}>
+            {currentCashFlow.net >= 0 ? "+" : "-"}{format(Math.abs(currentCashFlow.net))}
+          </div>
+          {currentCashFlow.savingsRate !== null ? (
+            <>
+              <Progress value={Math.max(0, Math.min(currentCashFlow.savingsRate, 100))} className="mt-2" />
+              <p className="text-xs text-muted-foreground mt-1">
+                {currentCashFlow.savingsRate.toFixed(1)}% savings rate
+              </p>
+            </>
+          ) : (
+            <p className="text-xs text-muted-foreground mt-1">
+              Add income to see your savings rate
+            </p>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Savings Goals */}
+      {goals.length > 0 && (
+        <Card className="bg-gradient-card shadow-medium hover:shadow-strong transition-all duration-300 border-0">
+          <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+            <CardTitle className="text-sm font-medium">Savings Goals</CardTitle>
+            <Flag className="h-4 w-4 text-muted-foreground" />
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold gradient-text">
+              {format(goalsSaved)}
+            </div>
+            <Progress value={goalsTarget > 0 ? (goalsSaved / goalsTarget) * 100 : 0} className="mt-2" />
+            <p className="text-xs text-muted-foreground mt-1">
+              of {format(goalsTarget)} · {goalsComplete} of {goals.length} reached
+            </p>
+          </CardContent>
+        </Card>
+      )}
+
+      {/* Tags */}
+      {hasTags && (
+        <Card className="bg-gradient-card shadow-medium hover:shadow-strong transition-all duration-300 border-0">
+          <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+            <CardTitle className="text-sm font-medium">Top Tags</CardTitle>
+            <Hash className="h-4 w-4 text-muted-foreground" />
+          </CardHeader>
+          <CardContent>
+            {topTags.length > 0 ? (
+              <div className="space-y-1">
+                {topTags.map(({ tag, total, count }) => (
+                  <div key={tag} className="flex items-center justify-between text-sm">
+                    <span className="truncate">
+                      #{tag} <span className="text-xs text-muted-foreground">({count})</span>
+                    </span>
+                    <span className="font-bold gradient-text">{format(total)}</span>
+                  </div>
+                ))}
+              </div>
+            ) : (
+              <div className="text-lg text-muted-foreground">
+                No tagged spending this {periodWord}
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      )}
     </div>
   );
 };
\ No newline at end of file
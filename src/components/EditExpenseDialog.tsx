@@ -0,0 +1,111 @@
+import { useState, useEffect } from "react";
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Save } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { useUndoAction } from "@/hooks/use-undo-history";
+import { ExpenseFields } from "@/components/ExpenseForm";
+import type { Account, Expense } from "@/lib/schemas";
+import { toFieldValues, validateExpense, validateExpenseFields, type ExpenseFieldValues } from "@/lib/expenses";
+
+interface EditExpenseDialogProps {
+  expense: Expense | null;
+  accounts?: Account[];
+  tagSuggestions?: string[];
+  onOpenChange: (open: boolean) => void;
+  onSave: (expense: Expense) => void;
+}
+
+export const EditExpenseDialog = ({
+  expense,
+  accounts,
+  tagSuggestions,
+  onOpenChange,
+  onSave,
+}: EditExpenseDialogProps) => {
+  const [values, setValues] = useState<ExpenseFieldValues | null>(null);
+  const { toast } = useToast();
+  const undoAction = useUndoAction();
+
+  useEffect(() => {
+    setValues(expense ? toFieldValues(expense) : null);
+  }, [expense]);
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!expense || !values) return;
+
+    const validationError = validateExpenseFields(values);
+    if (validationError) {
+      toast({
+        title: "Invalid Input",
+        description: validationError,
+        variant: "destructive",
+      });
+      return;
+    }
+
+    const { accountId: _previousAccount, tags: _previousTags, notes: _previousNotes, ...rest } = expense;
+    const updated: Expense = {
+      ...rest,
+      description: values.description.trim(),
+      amount: Number(values.amount),
+      currency: values.currency,
+      category: values.category || expense.category,
+      date: values.date,
+      ...(values.accountId ? { accountId: values.accountId } : {}),
+      ...(values.tags.length ? { tags: values.tags } : {}),
+      ...(values.notes.trim() ? { notes: values.notes.trim() } : {}),
+    };
+    const recordError = validateExpense(updated);
+    if (recordError) {
+      toast({
+        title: "Invalid Input",
+        description: recordError,
+        variant: "destructive",
+      });
+      return;
+    }
+    onSave(updated);
+    onOpenChange(false);
+
+    toast({
+      title: "Expense Updated! ✏️",
+      description: `${values.description.trim()} has been updated.`,
+      action: undoAction(),
+    });
+  };
+
+  return (
+    <Dialog open={expense !== null} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Edit Expense</DialogTitle>
+          <DialogDescription>
+            Fix a typo or recategorize this entry. Every change is kept in its history.
+          </DialogDescription>
+        </DialogHeader>
+        {values && (
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <ExpenseFields
+              values={values}
+              onChange={(changes) => setValues(prev => prev && { ...prev, ...changes })}
+              accounts={accounts}
+              tagSuggestions={tagSuggestions}
+              idPrefix="edit-"
+            />
+            <div className="flex gap-2">
+              <Button type="submit" className="flex-1">
+                <Save className="h-4 w-4" />
+                Save Changes
+              </Button>
+              <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+                Cancel
+              </Button>
+            </div>
+          </form>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -2,8 +2,13 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/com
 import { Badge } from "@/components/ui/badge";
 import { Progress } from "@/components/ui/progress";
 import { Button } from "@/components/ui/button";
-import { Trophy, Target, Flame, Star, Gift, Zap, Award, Crown, Sparkles } from "lucide-react";
+import { Trophy, Target, Flame, Star, Gift, Zap, Award, Crown, Sparkles, PiggyBank, Flag } from "lucide-react";
 import { useMemo, useState, useEffect } from "react";
+import { useCurrency } from "@/hooks/use-currency";
+import type { ExpenseSplit, SavingsGoal } from "@/lib/schemas";
+import { bestMilestone } from "@/lib/goals";
+import { myShare, spendingTotal } from "@/lib/splits";
+import { CALENDAR_MONTH, dailyAllowance, inPeriod, monthPeriod, type ActivePeriod } from "@/lib/periods";
 
 interface Expense {
   id: string;
@@ -11,6 +16,7 @@ interface Expense {
   description: string;
   category: string;
   amount: number;
+  split?: ExpenseSplit;
 }
 
 interface Budget {
@@ -20,6 +26,12 @@ interface Budget {
 interface EnhancedGamificationProps {
   expenses: Expense[];
   budget: Budget;
+  goals?: SavingsGoal[];
+  // Ids of rewards already claimed, kept with the rest of the user's data
+  claimedRewards?: string[];
+  onClaimReward?: (id: string) => void;
+  // Period the budget achievements look at; `budget` holds its limits. Defaults to the calendar month.
+  period?: ActivePeriod;
 }
 
 interface Achievement {
@@ -45,24 +57,28 @@ interface Challenge {
   type: 'daily' | 'weekly' | 'monthly';
 }
 
-export const EnhancedGamification = ({ expenses, budget }: EnhancedGamificationProps) => {
+export const EnhancedGamification = ({
+  expenses,
+  budget,
+  goals = [],
+  claimedRewards = [],
+  onClaimReward,
+  period,
+}: EnhancedGamificationProps) => {
+  const { format } = useCurrency();
+  const activePeriod = period ?? monthPeriod(budget);
   const [streakCount, setStreakCount] = useState(0);
   const [level, setLevel] = useState(1);
   const [totalPoints, setTotalPoints] = useState(0);
-  const [unlockedRewards, setUnlockedRewards] = useState<string[]>([]);
 
   const achievements = useMemo(() => {
-    const currentMonth = new Date().getMonth();
-    const currentYear = new Date().getFullYear();
-    const monthlyExpenses = expenses.filter(exp => {
-      const expDate = new Date(exp.date);
-      return expDate.getMonth() === currentMonth && expDate.getFullYear() === currentYear;
-    });
+    const monthlyExpenses = expenses.filter(exp => inPeriod(exp.date, activePeriod));
 
-    const totalSpent = monthlyExpenses.reduce((sum, exp) => sum + exp.amount, 0);
+    const totalSpent = spendingTotal(monthlyExpenses);
     const totalBudget = Object.values(budget).reduce((sum, amount) => sum + amount, 0);
     const categories = [...new Set(expenses.map(exp => exp.category))];
     const expenseCount = expenses.length;
+    const milestone = bestMilestone(goals);
 
     const baseAchievements: Achievement[] = [
       {
@@ -90,7 +106,7 @@ export const EnhancedGamification = ({ expenses, budget }: EnhancedGamificationP
       {
         id: 'budget-master',
         title: 'Budget Master',
-        description: 'Stay within budget for a month',
+        description: activePeriod.id === CALENDAR_MONTH ? 'Stay within budget for a month' : `Stay within budget for ${activePeriod.name}`,
         icon: Trophy,
         progress: totalBudget > 0 ? Math.min(100, ((totalBudget - totalSpent) / totalBudget) * 100) : 0,
         maxProgress: 100,
@@ -141,23 +157,64 @@ export const EnhancedGamification = ({ expenses, budget }: EnhancedGamificationP
         unlocked: streakCount >= 7,
         points: 250,
         tier: 'gold'
+      },
+      {
+        id: 'goal-setter',
+        title: 'Goal Setter',
+        description: 'Create your first savings goal',
+        icon: Flag,
+        progress: Math.min(goals.length, 1),
+        maxProgress: 1,
+        unlocked: goals.length >= 1,
+        points: 50,
+        tier: 'bronze'
+      },
+      {
+        id: 'goal-halfway',
+        title: 'Halfway There',
+        description: 'Reach 50% of a savings goal',
+        icon: PiggyBank,
+        progress: Math.min(milestone, 50),
+        maxProgress: 50,
+        unlocked: milestone >= 50,
+        points: 150,
+        tier: 'silver'
+      },
+      {
+        id: 'goal-reached',
+        title: 'Goal Crusher',
+        description: 'Reach 100% of a savings goal',
+        icon: Trophy,
+        progress: milestone,
+        maxProgress: 100,
+        unlocked: milestone >= 100,
+        points: 300,
+        tier: 'gold'
       }
     ];
 
     return baseAchievements;
-  }, [expenses, budget, streakCount]);
+  }, [expenses, budget, goals, streakCount, activePeriod]);
 
   const challenges = useMemo(() => {
     const today = new Date();
+    // Today's target is what can still be spent per day this period, once a budget is set
+    const totalBudget = Object.values(budget).reduce((sum, amount) => sum + amount, 0);
+    const spentBeforeToday = expenses
+      .filter(exp => inPeriod(exp.date, activePeriod) && new Date(exp.date).toDateString() !== today.toDateString())
+      .reduce((sum, exp) => sum + myShare(exp), 0);
+    const allowance = totalBudget > 0 ? dailyAllowance(totalBudget, spentBeforeToday, activePeriod) : null;
+    const dailyTarget = allowance === null ? 50 : Math.round(allowance * 100) / 100;
+
     const dailyChallenges: Challenge[] = [
       {
         id: 'daily-budget',
         title: 'Daily Budget Hero',
-        description: 'Spend less than $50 today',
-        target: 50,
+        description: `Spend less than ${format(dailyTarget)} today`,
+        target: dailyTarget,
         current: expenses.filter(exp => 
           new Date(exp.date).toDateString() === today.toDateString()
-        ).reduce((sum, exp) => sum + exp.amount, 0),
+        ).reduce((sum, exp) => sum + myShare(exp), 0),
         reward: 25,
         expiry: new Date(today.getTime() + 24 * 60 * 60 * 1000).toISOString(),
         type: 'daily'
@@ -165,7 +222,7 @@ export const EnhancedGamification = ({ expenses, budget }: EnhancedGamificationP
       {
         id: 'weekly-saver',
         title: 'Weekly Saver',
-        description: 'Save $100 this week',
+        description: `Save ${format(100)} this week`,
         target: 100,
         current: 0, // Calculate savings
         reward: 100,
@@ -175,7 +232,7 @@ export const EnhancedGamification = ({ expenses, budget }: EnhancedGamificationP
     ];
 
     return dailyChallenges;
-  }, [expenses]);
+  }, [expenses, budget, activePeriod, format]);
 
   const rewards = useMemo(() => [
     { id: 'budget-boost', title: '10% Budget Boost', description: 'Increase any category budget by 10%', cost: 500, unlocked: totalPoints >= 500 },
@@ -366,16 +423,16 @@ export const EnhancedGamification = ({ expenses, budget }: EnhancedGamificationP
                   <Button 
                     size="sm" 
                     variant={reward.unlocked ? "default" : "outline"}
-                    disabled={!reward.unlocked || unlockedRewards.includes(reward.id)}
+                    disabled={!reward.unlocked || claimedRewards.includes(reward.id)}
                     className="mt-1 text-xs"
                     onClick={() => {
-                      if (reward.unlocked && !unlockedRewards.includes(reward.id)) {
-                        setUnlockedRewards(prev => [...prev, reward.id]);
+                      if (reward.unlocked && !claimedRewards.includes(reward.id)) {
+                        onClaimReward?.(reward.id);
                         setTotalPoints(prev => prev - reward.cost);
                       }
                     }}
                   >
-                    {unlockedRewards.includes(reward.id) ? 'Claimed' : reward.unlocked ? 'Claim' : 'Locked'}
+                    {claimedRewards.includes(reward.id) ? 'Claimed' : reward.unlocked ? 'Claim' : 'Locked'}
                   </Button>
                 </div>
               </div>
@@ -0,0 +1,265 @@
+import { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Progress } from "@/components/ui/progress";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { AlertTriangle, ArrowRightLeft, CheckCircle, Mail, Wallet } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { useUndoAction } from "@/hooks/use-undo-history";
+import { useCurrency } from "@/hooks/use-currency";
+import type { Budget, EnvelopePlan } from "@/lib/schemas";
+import { todayISO } from "@/lib/recurrence";
+import {
+  applyMove,
+  envelopeBalances,
+  totalAllocated,
+  unallocated,
+  validateAllocations,
+  validateFunds,
+  validateMove,
+} from "@/lib/envelopes";
+
+interface EnvelopeBudgetProps {
+  categories: { value: string; label: string }[];
+  plan: EnvelopePlan;
+  // Spending per category in the period, counting only the user's share of splits
+  spending: Budget;
+  periodName: string;
+  onSavePlan: (plan: EnvelopePlan) => void;
+}
+
+// Moves listed under the transfer form
+const RECENT_MOVES = 5;
+
+const toInputs = (allocations: Budget) =>
+  Object.fromEntries(Object.entries(allocations).map(([category, amount]) => [category, String(amount)]));
+
+export const EnvelopeBudget = ({ categories, plan, spending, periodName, onSavePlan }: EnvelopeBudgetProps) => {
+  const { format } = useCurrency();
+  const { toast } = useToast();
+  const undoAction = useUndoAction();
+  const [funds, setFunds] = useState(String(plan.funds || ""));
+  const [allocationInputs, setAllocationInputs] = useState<Record<string, string>>(toInputs(plan.allocations));
+  const [from, setFrom] = useState("");
+  const [to, setTo] = useState("");
+  const [moveAmount, setMoveAmount] = useState("");
+
+  // Keep the inputs in sync when the plan changes elsewhere (period switch, undo/redo, restore)
+  useEffect(() => {
+    setFunds(String(plan.funds || ""));
+    setAllocationInputs(toInputs(plan.allocations));
+  }, [plan]);
+
+  const labelOf = (category: string) => categories.find(c => c.value === category)?.label ?? category;
+  const balances = envelopeBalances(plan, spending);
+  const left = unallocated(plan);
+
+  const reject = (title: string, description: string) =>
+    toast({ title, description, variant: "destructive" });
+
+  const saveFunds = () => {
+    const amount = Number(funds) || 0;
+    const error = validateFunds(plan, amount);
+    if (error) {
+      reject("Invalid Funds", error);
+      return;
+    }
+    onSavePlan({ ...plan, funds: amount });
+    toast({
+      title: "Funds Updated 💵",
+      description: `${format(amount)} available for ${periodName}.`,
+      action: undoAction(),
+    });
+  };
+
+  const saveAllocations = () => {
+    const allocations = Object.fromEntries(
+      categories.map(category => [category.value, Number(allocationInputs[category.value]) || 0])
+    );
+    const error = validateAllocations(plan, allocations, spending, labelOf);
+    if (error) {
+      reject("Envelope Blocked 🚫", error);
+      return;
+    }
+    onSavePlan({ ...plan, allocations });
+    toast({
+      title: "Envelopes Filled! ✉️",
+      description: `${format(plan.funds - Object.values(allocations).reduce((sum, amount) => sum + amount, 0))} left to allocate.`,
+      action: undoAction(),
+    });
+  };
+
+  const moveMoney = () => {
+    const amount = Number(moveAmount);
+    const error = !from || !to ? "Pick the envelopes to move money between." : validateMove(plan, { from, to, amount }, spending);
+    if (error) {
+      reject("Move Blocked 🚫", error);
+      return;
+    }
+    onSavePlan(applyMove(plan, { id: Date.now().toString(), date: todayISO(), from, to, amount }));
+    setMoveAmount("");
+    toast({
+      title: "Money Moved 🔀",
+      description: `${format(amount)} from ${labelOf(from)} to ${labelOf(to)}.`,
+      action: undoAction(),
+    });
+  };
+
+  return (
+    <div className="space-y-6">
+      {/* Available Funds */}
+      <div className="space-y-4">
+        <h3 className="text-lg font-semibold flex items-center gap-2">
+          <Wallet className="h-5 w-5" />
+          Funds for {periodName}
+        </h3>
+        <div className="flex gap-2">
+          <Input
+            type="number"
+            min="0"
+            step="0.01"
+            placeholder="0.00"
+            aria-label="Available funds"
+            value={funds}
+            onChange={(e) => setFunds(e.target.value)}
+            className="border-border/50 focus:border-primary transition-colors"
+          />
+          <Button variant="outline" onClick={saveFunds}>
+            Set Funds
+          </Button>
+        </div>
+        <div className="grid grid-cols-3 gap-2 text-center">
+          <div className="p-3 bg-background/50 rounded-lg">
+            <div className="font-bold">{format(plan.funds)}</div>
+            <div className="text-xs text-muted-foreground">Available</div>
+          </div>
+          <div className="p-3 bg-background/50 rounded-lg">
+            <div className="font-bold">{format(totalAllocated(plan))}</div>
+            <div className="text-xs text-muted-foreground">In envelopes</div>
+          </div>
+          <div className="p-3 bg-background/50 rounded-lg">
+            <div className={`font-bold ${left < 0 ? "text-destructive" : ""}`}>{format(left)}</div>
+            <div className="text-xs text-muted-foreground">To allocate</div>
+          </div>
+        </div>
+        {plan.funds > 0 && Math.abs(left) < 0.005 ? (
+          <Badge className="bg-success text-success-foreground">
+            <CheckCircle className="h-3 w-3 mr-1" />
+            Every dollar has a job
+          </Badge>
+        ) : plan.funds > 0 && (
+          <p className="text-sm text-muted-foreground">
+            Give the remaining {format(left)} an envelope to finish your zero-based budget.
+          </p>
+        )}
+      </div>
+
+      {/* Envelopes */}
+      <div className="space-y-4">
+        <h3 className="text-lg font-semibold flex items-center gap-2">
+          <Mail className="h-5 w-5" />
+          Envelopes
+        </h3>
+        {categories.map((category) => {
+          const allocated = plan.allocations[category.value] || 0;
+          const balance = balances[category.value] || 0;
+          const spent = spending[category.value] || 0;
+          return (
+            <div key={category.value} className="space-y-2">
+              <div className="flex items-center justify-between gap-2">
+                <Label htmlFor={`envelope-${category.value}`} className="font-medium">
+                  {category.label}
+                </Label>
+                <div className="flex items-center gap-2">
+                  <span className={`text-sm ${balance < 0 ? "text-destructive" : "text-muted-foreground"}`}>
+                    {format(balance)} left
+                  </span>
+                  <Input
+                    id={`envelope-${category.value}`}
+                    type="number"
+                    min="0"
+                    step="0.01"
+                    placeholder="0.00"
+                    value={allocationInputs[category.value] ?? ""}
+                    onChange={(e) => setAllocationInputs(prev => ({ ...prev, [category.value]: e.target.value }))}
+                    className="w-28 h-8 border-border/50 focus:border-primary transition-colors"
+                  />
+                </div>
+              </div>
+              <Progress value={allocated > 0 ? Math.min(100, (spent / allocated) * 100) : spent > 0 ? 100 : 0} className="h-2" />
+              {balance < 0 && (
+                <p className="text-sm text-destructive flex items-center gap-1">
+                  <AlertTriangle className="h-3 w-3" />
+                  Overdrawn by {format(-balance)}. Move money in to cover it.
+                </p>
+              )}
+            </div>
+          );
+        })}
+        <Button onClick={saveAllocations} variant="success" className="w-full">
+          <Mail className="h-4 w-4" />
+          Save Envelopes
+        </Button>
+      </div>
+
+      {/* Move Money */}
+      <div className="space-y-4">
+        <h3 className="text-lg font-semibold flex items-center gap-2">
+          <ArrowRightLeft className="h-5 w-5" />
+          Move Money
+        </h3>
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-2">
+          <Select value={from} onValueChange={setFrom}>
+            <SelectTrigger aria-label="Move from">
+              <SelectValue placeholder="From" />
+            </SelectTrigger>
+            <SelectContent>
+              {categories.map((category) => (
+                <SelectItem key={category.value} value={category.value}>
+                  {category.label} ({format(balances[category.value] || 0)})
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Select value={to} onValueChange={setTo}>
+            <SelectTrigger aria-label="Move to">
+              <SelectValue placeholder="To" />
+            </SelectTrigger>
+            <SelectContent>
+              {categories.map((category) => (
+                <SelectItem key={category.value} value={category.value}>
+                  {category.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Input
+            type="number"
+            min="0"
+            step="0.01"
+            placeholder="0.00"
+            aria-label="Amount to move"
+            value={moveAmount}
+            onChange={(e) => setMoveAmount(e.target.value)}
+          />
+        </div>
+        <Button variant="outline" onClick={moveMoney} className="w-full">
+          <ArrowRightLeft className="h-4 w-4" />
+          Move
+        </Button>
+        {plan.moves.length > 0 && (
+          <div className="space-y-1">
+            {plan.moves.slice(-RECENT_MOVES).reverse().map((move) => (
+              <p key={move.id} className="text-xs text-muted-foreground">
+                {new Date(move.date).toLocaleDateString()}: {format(move.amount)} from {labelOf(move.from)} to{" "}
+                {labelOf(move.to)}
+              </p>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
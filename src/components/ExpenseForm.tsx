@@ -1,115 +1,374 @@
-import { useState } from "react";
+import { useState, useEffect } from "react";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
 import { Label } from "@/components/ui/label";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
-import { PlusCircle, DollarSign, Calendar, Tag } from "lucide-react";
+import { PlusCircle, Banknote, Calendar, Tag, Landmark, Paperclip, X, Hash, StickyNote, Store } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
+import { useUndoAction } from "@/hooks/use-undo-history";
+import { useCurrency } from "@/hooks/use-currency";
+import { useCategories } from "@/hooks/use-categories";
+import { useReceiptFiles } from "@/hooks/use-receipt-files";
 import { VoiceInput } from "@/components/VoiceInput";
+import { SplitEditor } from "@/components/SplitEditor";
+import { TagInput } from "@/components/TagInput";
+import { CategoryOptions } from "@/components/CategoryOptions";
+import type { Account, Expense, ExpenseSplit, Merchant, Receipt } from "@/lib/schemas";
+import { validateExpense, validateExpenseFields, type ExpenseFieldValues } from "@/lib/expenses";
+import { accountLabel } from "@/lib/accounts";
+import { availableCurrencies, parseSpokenAmount } from "@/lib/currency";
+import { validateSplit } from "@/lib/splits";
+import { RECEIPT_ACCEPT, formatFileSize } from "@/lib/receipts";
+import { resolveMerchant } from "@/lib/merchants";
 
-interface Expense {
-  id: string;
-  date: string;
-  description: string;
-  category: string;
-  amount: number;
-}
-
-interface CustomCategory {
-  id: string;
-  value: string;
-  label: string;
-  emoji: string;
-  color: string;
-  keywords: string[];
+interface ExpenseFieldsProps {
+  values: ExpenseFieldValues;
+  onChange: (changes: Partial<ExpenseFieldValues>) => void;
+  accounts?: Account[];
+  // Tags used on other expenses, offered as autocomplete
+  tagSuggestions?: string[];
+  // Merchants with confirmed aliases, so the detected merchant uses the user's name for it
+  merchants?: Merchant[];
+  // Merchant names offered as autocomplete for the description
+  merchantSuggestions?: string[];
+  // Keeps input ids unique when the add form and the edit dialog are mounted together
+  idPrefix?: string;
 }
 
 interface ExpenseFormProps {
-  onAddExpense: (expense: Expense) => void;
-  categories?: CustomCategory[];
+  onAddExpense: (expense: Expense, receipts: Receipt[]) => void;
+  accounts?: Account[];
+  // People the user has split costs with before
+  people?: string[];
+  tagSuggestions?: string[];
+  merchants?: Merchant[];
+  merchantSuggestions?: string[];
+  // False when this browser can't store receipt files
+  canAttachReceipts?: boolean;
 }
 
-const defaultCategories: CustomCategory[] = [
-  { id: "food", value: "food", label: "🍕 Food & Dining", emoji: "🍕", color: "bg-orange-500", keywords: ["food", "restaurant", "lunch", "dinner", "breakfast", "coffee", "pizza"] },
-  { id: "transport", value: "transport", label: "🚗 Transport", emoji: "🚗", color: "bg-blue-500", keywords: ["uber", "taxi", "bus", "train", "gas", "fuel", "metro"] },
-  { id: "entertainment", value: "entertainment", label: "🎮 Entertainment", emoji: "🎮", color: "bg-purple-500", keywords: ["movie", "game", "netflix", "spotify", "concert", "party"] },
-  { id: "bills", value: "bills", label: "📋 Bills & Utilities", emoji: "📋", color: "bg-red-500", keywords: ["rent", "electricity", "water", "internet", "phone", "bill"] },
-  { id: "education", value: "education", label: "📚 Education", emoji: "📚", color: "bg-green-500", keywords: ["book", "course", "tuition", "school", "university", "study"] },
-  { id: "others", value: "others", label: "🔍 Others", emoji: "🔍", color: "bg-gray-500", keywords: [] }
-];
-
-const smartCategorize = (description: string, categories: CustomCategory[]): string => {
-  const desc = description.toLowerCase();
-  for (const category of categories) {
-    if (category.keywords.some(keyword => desc.includes(keyword))) {
-      return category.value;
-    }
-  }
-  return "others";
+// Radix Select can't hold an empty value, so "no account" gets a placeholder of its own
+const NO_ACCOUNT = "none";
+
+const today = () => new Date().toISOString().split("T")[0];
+
+const emptyValues = (currency: string): ExpenseFieldValues => ({
+  description: "",
+  amount: "",
+  currency,
+  category: "",
+  date: today(),
+  accountId: "",
+  tags: [],
+  notes: "",
+});
+
+export const ExpenseFields = ({
+  values,
+  onChange,
+  accounts = [],
+  tagSuggestions = [],
+  merchants = [],
+  merchantSuggestions = [],
+  idPrefix = "",
+}: ExpenseFieldsProps) => {
+  const { description, amount, currency, category, date, accountId, tags, notes } = values;
+  const { baseCurrency, rates } = useCurrency();
+  const { label: categoryLabel, categorize } = useCategories();
+  const suggestion = description
+    ? categorize({ description, amount: Number(amount) || 0, date, accountId: accountId || undefined, currency })
+    : null;
+  const percent = (confidence: number) => `${Math.round(confidence * 100)}%`;
+  const merchant = description ? resolveMerchant(description, merchants) : null;
+
+  return (
+    <>
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <div className="space-y-2">
+          <Label htmlFor={`${idPrefix}description`} className="flex items-center gap-2">
+            <Tag className="h-4 w-4" />
+            Description
+          </Label>
+          <Input
+            id={`${idPrefix}description`}
+            placeholder="e.g., Coffee at Starbucks"
+            list={`${idPrefix}merchants`}
+            value={description}
+            onChange={(e) => onChange({ description: e.target.value })}
+            className="border-border/50 focus:border-primary transition-colors"
+          />
+          <datalist id={`${idPrefix}merchants`}>
+            {merchantSuggestions.map((name) => (
+              <option key={name} value={name} />
+            ))}
+          </datalist>
+          {merchant && (
+            <p className="flex items-center gap-1 text-xs text-muted-foreground">
+              <Store className="h-3 w-3" />
+              Merchant: {merchant.name}
+            </p>
+          )}
+        </div>
+        
+        <div className="space-y-2">
+          <Label htmlFor={`${idPrefix}amount`} className="flex items-center gap-2">
+            <Banknote className="h-4 w-4" />
+            Amount
+          </Label>
+          <div className="flex gap-2">
+            <Input
+              id={`${idPrefix}amount`}
+              type="number"
+              step="0.01"
+              min="0"
+              placeholder="0.00"
+              value={amount}
+              onChange={(e) => onChange({ amount: e.target.value })}
+              className="flex-1 border-border/50 focus:border-primary transition-colors"
+            />
+            <Select value={currency} onValueChange={(value) => onChange({ currency: value })}>
+              <SelectTrigger aria-label="Currency" className="w-24 border-border/50 focus:border-primary transition-colors">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {availableCurrencies(baseCurrency, rates, currency).map((code) => (
+                  <SelectItem key={code} value={code}>
+                    {code}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <div className="space-y-2">
+          <Label htmlFor={`${idPrefix}date`} className="flex items-center gap-2">
+            <Calendar className="h-4 w-4" />
+            Date
+          </Label>
+          <Input
+            id={`${idPrefix}date`}
+            type="date"
+            required
+            value={date}
+            onChange={(e) => onChange({ date: e.target.value })}
+            className="border-border/50 focus:border-primary transition-colors"
+          />
+        </div>
+
+        <div className="space-y-2">
+          <Label htmlFor={`${idPrefix}category`}>Category (Auto-detected)</Label>
+          <Select value={category} onValueChange={(value) => onChange({ category: value })}>
+            <SelectTrigger id={`${idPrefix}category`} className="border-border/50 focus:border-primary transition-colors">
+              <SelectValue placeholder={
+                suggestion ? `Auto: ${categoryLabel(suggestion.category)}` : "Select category"
+              } />
+            </SelectTrigger>
+            <SelectContent>
+              <CategoryOptions />
+            </SelectContent>
+          </Select>
+          {suggestion && !category && (
+            <p className="text-xs text-muted-foreground">
+              {suggestion.source === "rule" &&
+                `From rule "${suggestion.matched.find(rule => rule.category)?.name}"`}
+              {suggestion.source === "learned" &&
+                `Learned from your history · ${percent(suggestion.prediction.confidence)} confident`}
+              {suggestion.source === "keywords" &&
+                (suggestion.prediction
+                  ? `From category keywords; best guess from your history was ${categoryLabel(
+                      suggestion.prediction.category
+                    )} at only ${percent(suggestion.prediction.confidence)}`
+                  : "From category keywords")}
+            </p>
+          )}
+        </div>
+      </div>
+
+      {accounts.length > 0 && (
+        <div className="space-y-2">
+          <Label htmlFor={`${idPrefix}account`} className="flex items-center gap-2">
+            <Landmark className="h-4 w-4" />
+            Paid With
+          </Label>
+          <Select
+            value={accountId || NO_ACCOUNT}
+            onValueChange={(value) => onChange({ accountId: value === NO_ACCOUNT ? "" : value })}
+          >
+            <SelectTrigger id={`${idPrefix}account`} className="border-border/50 focus:border-primary transition-colors">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={NO_ACCOUNT}>No account</SelectItem>
+              {accounts.map((account) => (
+                <SelectItem key={account.id} value={account.id}>
+                  {accountLabel(account)}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      )}
+
+      <div className="space-y-2">
+        <Label htmlFor={`${idPrefix}tags`} className="flex items-center gap-2">
+          <Hash className="h-4 w-4" />
+          Tags
+        </Label>
+        <TagInput
+          id={`${idPrefix}tags`}
+          tags={tags}
+          onChange={(next) => onChange({ tags: next })}
+          suggestions={tagSuggestions}
+        />
+      </div>
+
+      <div className="space-y-2">
+        <Label htmlFor={`${idPrefix}notes`} className="flex items-center gap-2">
+          <StickyNote className="h-4 w-4" />
+          Notes
+        </Label>
+        <Textarea
+          id={`${idPrefix}notes`}
+          placeholder="Optional"
+          rows={2}
+          value={notes}
+          onChange={(e) => onChange({ notes: e.target.value })}
+          className="border-border/50 focus:border-primary transition-colors"
+        />
+      </div>
+    </>
+  );
 };
 
-export const ExpenseForm = ({ onAddExpense, categories = defaultCategories }: ExpenseFormProps) => {
-  const [description, setDescription] = useState("");
-  const [amount, setAmount] = useState("");
-  const [category, setCategory] = useState("");
-  const [date, setDate] = useState(new Date().toISOString().split("T")[0]);
+export const ExpenseForm = ({
+  onAddExpense,
+  accounts = [],
+  people = [],
+  tagSuggestions = [],
+  merchants = [],
+  merchantSuggestions = [],
+  canAttachReceipts = false,
+}: ExpenseFormProps) => {
+  const { baseCurrency, format } = useCurrency();
+  const { categorize } = useCategories();
+  const [values, setValues] = useState<ExpenseFieldValues>(() => emptyValues(baseCurrency));
+  const [split, setSplit] = useState<ExpenseSplit | null>(null);
+  const [receiptFiles, setReceiptFiles] = useState<File[]>([]);
   const [isListening, setIsListening] = useState(false);
   const { toast } = useToast();
+  const undoAction = useUndoAction();
+  const readReceiptFiles = useReceiptFiles();
+
+  // The saved base currency arrives after the first render; follow it until the user starts typing
+  useEffect(() => {
+    setValues(prev => (prev.amount ? prev : { ...prev, currency: baseCurrency }));
+  }, [baseCurrency]);
 
-  const handleSubmit = (e: React.FormEvent) => {
+  const updateValues = (changes: Partial<ExpenseFieldValues>) => {
+    setValues(prev => ({ ...prev, ...changes }));
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     
-    if (!description.trim() || !amount || isNaN(Number(amount))) {
+    const validationError = validateExpenseFields(values);
+    if (validationError) {
       toast({
         title: "Invalid Input",
-        description: "Please fill in all fields with valid data.",
+        description: validationError,
+        variant: "destructive",
+      });
+      return;
+    }
+
+    const splitError = split && validateSplit(Number(values.amount), split);
+    if (splitError) {
+      toast({
+        title: "Invalid Split",
+        description: splitError,
         variant: "destructive",
       });
       return;
     }
 
-    const suggestedCategory = category || smartCategorize(description, categories);
+    const { description, amount, currency, category, date, accountId, tags, notes } = values;
+    // Rules fill in whatever the user left blank and add their tags to the ones typed in
+    const ruled = categorize({ description, amount: Number(amount), date, accountId: accountId || undefined, currency });
+    const allTags = [...tags, ...ruled.tags.filter(tag => !tags.includes(tag))];
+    const note = notes.trim() || ruled.notes;
     
     const expense: Expense = {
       id: Date.now().toString(),
       date,
       description: description.trim(),
-      category: suggestedCategory,
-      amount: Number(amount)
+      category: category || ruled.category,
+      categorySource: category ? "manual" : ruled.source,
+      amount: Number(amount),
+      currency,
+      ...(accountId ? { accountId } : {}),
+      ...(split ? { split } : {}),
+      ...(allTags.length ? { tags: allTags } : {}),
+      ...(note ? { notes: note } : {}),
     };
 
-    onAddExpense(expense);
+    const recordError = validateExpense(expense);
+    if (recordError) {
+      toast({
+        title: "Invalid Input",
+        description: recordError,
+        variant: "destructive",
+      });
+      return;
+    }
+
+    // A receipt that can't be read shouldn't cost the user the expense itself
+    let receipts: Receipt[] = [];
+    try {
+      receipts = await readReceiptFiles(receiptFiles, expense.id);
+    } catch (error) {
+      console.error("Failed to read receipts:", error);
+      toast({
+        title: "Receipt Not Attached",
+        description: "The expense was saved without it. You can attach it again from the expense list.",
+        variant: "destructive",
+      });
+    }
+    onAddExpense(expense, receipts);
     
-    // Reset form
-    setDescription("");
-    setAmount("");
-    setCategory("");
-    setDate(new Date().toISOString().split("T")[0]);
+    // Reset form, keeping the account since several purchases in a row usually share one
+    setValues({ ...emptyValues(baseCurrency), accountId });
+    setSplit(null);
+    setReceiptFiles([]);
 
     toast({
       title: "Expense Added! 🎉",
-      description: `$${expense.amount} for ${expense.description} added successfully.`,
+      description: `${format(expense.amount, expense.currency)} for ${expense.description} added successfully.`,
+      action: undoAction(),
     });
   };
 
   const handleVoiceResult = (transcript: string) => {
-    // Simple parsing for voice input like "coffee 5 dollars" or "lunch 15"
-    const text = transcript.toLowerCase();
-    const amountMatch = text.match(/(\d+(?:\.\d{2})?)\s*(?:dollars?|bucks?|\$)?/);
-    
-    if (amountMatch) {
-      const voiceAmount = amountMatch[1];
-      const descriptionPart = text.replace(amountMatch[0], '').trim();
-      
-      setDescription(descriptionPart || transcript);
-      setAmount(voiceAmount);
-      
-      // Auto-categorize based on voice input
-      const suggestedCat = smartCategorize(descriptionPart || transcript, categories);
-      setCategory(suggestedCat);
+    // Simple parsing for voice input like "coffee 5 euros" or "lunch 15"
+    const spoken = parseSpokenAmount(transcript, baseCurrency);
+
+    if (spoken) {
+      const descriptionPart = spoken.remainder;
+
+      // The category is left blank so it shows as the auto-detected suggestion and is saved as
+      // one, rather than as something the user picked
+      updateValues({
+        description: descriptionPart || transcript,
+        amount: spoken.amount,
+        ...(spoken.currency ? { currency: spoken.currency } : {}),
+        category: "",
+      });
     } else {
-      setDescription(transcript);
+      updateValues({ description: transcript });
     }
   };
 
@@ -126,72 +385,60 @@ export const ExpenseForm = ({ onAddExpense, categories = defaultCategories }: Ex
       </CardHeader>
       <CardContent>
         <form onSubmit={handleSubmit} className="space-y-4">
-          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-            <div className="space-y-2">
-              <Label htmlFor="description" className="flex items-center gap-2">
-                <Tag className="h-4 w-4" />
-                Description
-              </Label>
-              <Input
-                id="description"
-                placeholder="e.g., Coffee at Starbucks"
-                value={description}
-                onChange={(e) => setDescription(e.target.value)}
-                className="border-border/50 focus:border-primary transition-colors"
-              />
-            </div>
-            
-            <div className="space-y-2">
-              <Label htmlFor="amount" className="flex items-center gap-2">
-                <DollarSign className="h-4 w-4" />
-                Amount
-              </Label>
-              <Input
-                id="amount"
-                type="number"
-                step="0.01"
-                min="0"
-                placeholder="0.00"
-                value={amount}
-                onChange={(e) => setAmount(e.target.value)}
-                className="border-border/50 focus:border-primary transition-colors"
-              />
-            </div>
-          </div>
+          <ExpenseFields
+            values={values}
+            onChange={updateValues}
+            accounts={accounts}
+            tagSuggestions={tagSuggestions}
+            merchants={merchants}
+            merchantSuggestions={merchantSuggestions}
+          />
 
-          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-            <div className="space-y-2">
-              <Label htmlFor="date" className="flex items-center gap-2">
-                <Calendar className="h-4 w-4" />
-                Date
-              </Label>
-              <Input
-                id="date"
-                type="date"
-                value={date}
-                onChange={(e) => setDate(e.target.value)}
-                className="border-border/50 focus:border-primary transition-colors"
-              />
-            </div>
+          <SplitEditor
+            amount={Number(values.amount) || 0}
+            currency={values.currency}
+            split={split}
+            onChange={setSplit}
+            people={people}
+          />
 
+          {canAttachReceipts && (
             <div className="space-y-2">
-              <Label htmlFor="category">Category (Auto-detected)</Label>
-              <Select value={category} onValueChange={setCategory}>
-                <SelectTrigger className="border-border/50 focus:border-primary transition-colors">
-                  <SelectValue placeholder={
-                    description ? `Auto: ${categories.find(c => c.value === smartCategorize(description, categories))?.label}` : "Select category"
-                  } />
-                </SelectTrigger>
-                <SelectContent>
-                  {categories.map((cat) => (
-                    <SelectItem key={cat.value} value={cat.value}>
-                      {cat.label}
-                    </SelectItem>
-                  ))}
-                </SelectContent>
-              </Select>
+              <Button type="button" variant="outline" size="sm" asChild>
+                <label className="cursor-pointer">
+                  <Paperclip className="h-4 w-4" />
+                  Attach Receipt
+                  <input
+                    type="file"
+                    accept={RECEIPT_ACCEPT}
+                    multiple
+                    className="hidden"
+                    onChange={(e) => {
+                      const files = Array.from(e.target.files ?? []);
+                      e.target.value = "";
+                      setReceiptFiles(prev => [...prev, ...files]);
+                    }}
+                  />
+                </label>
+              </Button>
+              {receiptFiles.map((file, index) => (
+                <div key={`${file.name}-${index}`} className="flex items-center justify-between gap-2 text-sm">
+                  <span className="truncate text-muted-foreground">
+                    {file.name} · {formatFileSize(file.size)}
+                  </span>
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => setReceiptFiles(prev => prev.filter((_, i) => i !== index))}
+                    title="Remove file"
+                  >
+                    <X className="h-4 w-4" />
+                  </Button>
+                </div>
+              ))}
             </div>
-          </div>
+          )}
 
           {/* Voice Input Section */}
           <div className="border-t pt-4">
@@ -1,78 +1,270 @@
-import { useState } from "react";
+import { useCallback, useEffect, useMemo, useRef, useState } from "react";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Checkbox } from "@/components/ui/checkbox";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
-import { Trash2, Search, Filter, Calendar, DollarSign } from "lucide-react";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import {
+  Pagination,
+  PaginationContent,
+  PaginationEllipsis,
+  PaginationItem,
+  PaginationLink,
+  PaginationNext,
+  PaginationPrevious,
+} from "@/components/ui/pagination";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import {
+  Trash2,
+  Search,
+  Filter,
+  Calendar,
+  Pencil,
+  History,
+  Landmark,
+  Users,
+  Paperclip,
+  Hash,
+  X,
+  HelpCircle,
+  Bookmark,
+  Save,
+  Banknote,
+} from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
-
-interface Expense {
-  id: string;
-  date: string;
-  description: string;
-  category: string;
-  amount: number;
-}
+import { useUndoAction } from "@/hooks/use-undo-history";
+import { useCurrency, type CurrencySettings } from "@/hooks/use-currency";
+import { useCategories, type CategoryRegistry } from "@/hooks/use-categories";
+import { EditExpenseDialog } from "@/components/EditExpenseDialog";
+import { ReceiptViewer } from "@/components/ReceiptViewer";
+import { CategoryBadge } from "@/components/CategoryBadge";
+import type { Account, Expense, ExpenseChange, ExpenseFilter, ExpenseSort, Receipt, ReceiptFilter, SavedSearch } from "@/lib/schemas";
+import { accountLabel } from "@/lib/accounts";
+import { myShare } from "@/lib/splits";
+import { receiptsFor } from "@/lib/receipts";
+import { allTags } from "@/lib/tags";
+import {
+  ALL_ACCOUNTS,
+  NO_ACCOUNT,
+  emptyFilter,
+  filterExpenses,
+  isEmptyFilter,
+  parseQuery,
+  queryHelp,
+  sameFilter,
+} from "@/lib/expense-query";
+import { groupSummaries, groupings, pageSections, pageWindow, type ExpenseGrouping } from "@/lib/expense-groups";
 
 interface ExpenseListProps {
   expenses: Expense[];
+  accounts?: Account[];
   onDeleteExpense: (id: string) => void;
+  onUpdateExpense: (expense: Expense) => void;
+  receipts?: Receipt[];
+  // Left out when this browser can't store receipt files
+  onAddReceipts?: (receipts: Receipt[]) => void;
+  onDeleteReceipt?: (id: string) => void;
+  // The filter is held by the page so exports can use the same view
+  filter: ExpenseFilter;
+  onFilterChange: (filter: ExpenseFilter) => void;
+  savedSearches?: SavedSearch[];
+  onSaveSearch?: (search: SavedSearch) => void;
+  onDeleteSearch?: (id: string) => void;
 }
 
-const categories = [
-  { value: "all", label: "All Categories" },
-  { value: "food", label: "🍕 Food & Dining" },
-  { value: "transport", label: "🚗 Transport" },
-  { value: "entertainment", label: "🎮 Entertainment" },
-  { value: "bills", label: "📋 Bills & Utilities" },
-  { value: "education", label: "📚 Education" },
-  { value: "others", label: "🔍 Others" }
-];
-
-const categoryColors = {
-  food: "bg-orange-100 text-orange-800 border-orange-200",
-  transport: "bg-blue-100 text-blue-800 border-blue-200",
-  entertainment: "bg-purple-100 text-purple-800 border-purple-200",
-  bills: "bg-red-100 text-red-800 border-red-200",
-  education: "bg-green-100 text-green-800 border-green-200",
-  others: "bg-gray-100 text-gray-800 border-gray-200"
+const fieldLabels: Record<ExpenseChange["field"], string> = {
+  description: "Description",
+  amount: "Amount",
+  currency: "Currency",
+  category: "Category",
+  date: "Date",
+  accountId: "Account",
+  tags: "Tags",
+  notes: "Notes"
+};
+
+// Placeholder for the tag picker, which adds to the active tag filters rather than holding a value
+const PICK_TAG = "pick";
+// Placeholder for the saved search picker, which loads a search rather than holding a value
+const PICK_SEARCH = "pick";
+
+// Typing only filters once it pauses, so long histories aren't re-filtered on every keystroke
+const QUERY_DELAY = 250;
+const PAGE_SIZE = 50;
+
+// Empty inputs clear the bound; anything that isn't a number is ignored
+const parseBound = (value: string) => (value === "" || isNaN(Number(value)) ? undefined : Number(value));
+
+const formatChangeValue = (
+  change: ExpenseChange,
+  value: string | number,
+  accounts: Account[],
+  categoryLabel: CategoryRegistry["label"],
+  format: CurrencySettings["format"],
+  currency: string
+) => {
+  if (change.field === "amount") return format(Number(value), currency);
+  if (change.field === "category") return categoryLabel(String(value));
+  if (change.field === "date") return new Date(String(value)).toLocaleDateString();
+  if (change.field === "tags") return value ? String(value) : "No tags";
+  if (change.field === "notes") return value ? String(value) : "No notes";
+  if (change.field === "accountId") {
+    const account = accounts.find(a => a.id === value);
+    return account ? accountLabel(account) : value ? "Deleted account" : "No account";
+  }
+  return String(value);
 };
 
-export const ExpenseList = ({ expenses, onDeleteExpense }: ExpenseListProps) => {
-  const [searchTerm, setSearchTerm] = useState("");
-  const [filterCategory, setFilterCategory] = useState("all");
-  const [sortBy, setSortBy] = useState("date");
+export const ExpenseList = ({
+  expenses,
+  accounts = [],
+  onDeleteExpense,
+  onUpdateExpense,
+  receipts = [],
+  onAddReceipts,
+  onDeleteReceipt,
+  filter,
+  onFilterChange,
+  savedSearches = [],
+  onSaveSearch,
+  onDeleteSearch,
+}: ExpenseListProps) => {
+  const [editingExpense, setEditingExpense] = useState<Expense | null>(null);
+  const [historyExpense, setHistoryExpense] = useState<Expense | null>(null);
+  const [receiptExpense, setReceiptExpense] = useState<Expense | null>(null);
+  const [searchName, setSearchName] = useState<string | null>(null);
+  // What is typed in the search box but not yet applied to the filter
+  const [queryDraft, setQueryDraft] = useState<string | null>(null);
+  const [grouping, setGrouping] = useState<ExpenseGrouping>("day");
+  const [page, setPage] = useState(1);
+  const queryTimer = useRef<number>();
+  const latestFilter = useRef(filter);
+  latestFilter.current = filter;
+  const listRef = useRef<HTMLDivElement>(null);
+
+  // A search still waiting to apply is dropped if the list goes away
+  useEffect(() => {
+    const timer = queryTimer;
+    return () => window.clearTimeout(timer.current);
+  }, []);
   const { toast } = useToast();
+  const undoAction = useUndoAction();
+  const { baseCurrency, format, toBase } = useCurrency();
+  const { categories, tree, family, label: categoryLabel } = useCategories();
+
+  const withReceipts = useMemo(() => new Set(receipts.map(receipt => receipt.expenseId)), [receipts]);
+  const knownTags = useMemo(() => allTags(expenses), [expenses]);
+  const amountOf = useCallback(
+    (expense: Expense) => toBase(expense.amount, expense.currency, expense.date),
+    [toBase]
+  );
+  // Totals count only the user's part of a split bill; filters and sorting use the whole amount
+  const shareOf = useCallback(
+    (expense: Expense) => toBase(myShare(expense), expense.currency, expense.date),
+    [toBase]
+  );
+
+  const query = queryDraft ?? filter.query;
+  // The filter as it will be once the search box catches up
+  const currentFilter = { ...filter, query };
 
-  const filteredExpenses = expenses
-    .filter(expense => {
-      const matchesSearch = expense.description.toLowerCase().includes(searchTerm.toLowerCase());
-      const matchesCategory = filterCategory === "all" || expense.category === filterCategory;
-      return matchesSearch && matchesCategory;
-    })
-    .sort((a, b) => {
-      switch (sortBy) {
-        case "date":
-          return new Date(b.date).getTime() - new Date(a.date).getTime();
-        case "amount":
-          return b.amount - a.amount;
-        case "category":
-          return a.category.localeCompare(b.category);
-        default:
-          return 0;
-      }
+  // Any change to the filter goes back to the first page
+  const applyFilter = (next: ExpenseFilter) => {
+    window.clearTimeout(queryTimer.current);
+    setQueryDraft(null);
+    setPage(1);
+    onFilterChange(next);
+  };
+
+  const updateFilter = (changes: Partial<ExpenseFilter>) => applyFilter({ ...currentFilter, ...changes });
+
+  const changeQuery = (next: string) => {
+    setQueryDraft(next);
+    window.clearTimeout(queryTimer.current);
+    queryTimer.current = window.setTimeout(() => applyFilter({ ...latestFilter.current, query: next }), QUERY_DELAY);
+  };
+
+  const toggleTagFilter = (tag: string) =>
+    updateFilter({ tags: filter.tags.includes(tag) ? filter.tags.filter(t => t !== tag) : [...filter.tags, tag] });
+
+  const toggleCategoryFilter = (category: string) =>
+    updateFilter({
+      categories: filter.categories.includes(category)
+        ? filter.categories.filter(c => c !== category)
+        : [...filter.categories, category],
     });
 
+  const queryError = parseQuery(query).error;
+  const filteredExpenses = useMemo(
+    () => filterExpenses(expenses, filter, { amountOf, categories, family, withReceipts }),
+    [expenses, filter, amountOf, categories, family, withReceipts]
+  );
+  const activeSearch = savedSearches.find(search => sameFilter(search.filter, currentFilter));
+
+  // Group headers only make sense when the list is in date order
+  const activeGrouping = filter.sortBy === "date" ? grouping : "none";
+  const summaries = useMemo(
+    () => groupSummaries(filteredExpenses, activeGrouping, shareOf),
+    [filteredExpenses, activeGrouping, shareOf]
+  );
+
+  // Edits and deletions keep the current page; removing the last expenses on it moves back one
+  const pageCount = Math.max(1, Math.ceil(filteredExpenses.length / PAGE_SIZE));
+  const currentPage = Math.min(page, pageCount);
+  const pageExpenses = filteredExpenses.slice((currentPage - 1) * PAGE_SIZE, currentPage * PAGE_SIZE);
+  const sections = pageSections(pageExpenses, activeGrouping, summaries);
+
+  const goToPage = (number: number) => {
+    setPage(number);
+    listRef.current?.scrollTo({ top: 0 });
+  };
+
+  const saveSearch = () => {
+    const name = searchName?.trim();
+    if (!name) {
+      toast({
+        title: "Name Required",
+        description: "Give the search a name so you can find it again.",
+        variant: "destructive",
+      });
+      return;
+    }
+    // Saving under an existing name replaces that search
+    const existing = savedSearches.find(search => search.name.toLowerCase() === name.toLowerCase());
+    onSaveSearch({ id: existing?.id ?? Date.now().toString(), name, filter: currentFilter });
+    setSearchName(null);
+    toast({
+      title: "Search Saved",
+      description: `"${name}" is now in your saved searches.`,
+      action: undoAction(),
+    });
+  };
+
+  const deleteSearch = (search: SavedSearch) => {
+    onDeleteSearch(search.id);
+    toast({
+      title: "Search Deleted",
+      description: `Removed "${search.name}"`,
+      action: undoAction(),
+    });
+  };
+
   const handleDelete = (expense: Expense) => {
     onDeleteExpense(expense.id);
     toast({
       title: "Expense Deleted",
-      description: `Removed ${expense.description} ($${expense.amount})`,
+      description: `Removed ${expense.description} (${format(expense.amount, expense.currency)})`,
+      action: undoAction(),
     });
   };
 
-  const totalAmount = filteredExpenses.reduce((sum, expense) => sum + expense.amount, 0);
+  const totalAmount = useMemo(
+    () => filteredExpenses.reduce((sum, expense) => sum + shareOf(expense), 0),
+    [filteredExpenses, shareOf]
+  );
 
   return (
     <Card className="bg-gradient-card shadow-medium hover:shadow-strong transition-all duration-300 border-0">
@@ -87,29 +279,185 @@ export const ExpenseList = ({ expenses, onDeleteExpense }: ExpenseListProps) =>
       </CardHeader>
       <CardContent className="space-y-4">
         {/* Filters */}
-        <div className="flex flex-col md:flex-row gap-4">
-          <div className="flex-1">
-            <Input
-              placeholder="Search expenses..."
-              value={searchTerm}
-              onChange={(e) => setSearchTerm(e.target.value)}
-              className="border-border/50 focus:border-primary transition-colors"
-            />
+        <div className="space-y-2">
+          <div className="flex flex-col md:flex-row gap-4">
+            <div className="flex flex-1 gap-2">
+              <Input
+                placeholder="Search, e.g. amount>20 category:food -coffee"
+                aria-label="Search expenses"
+                value={query}
+                onChange={(e) => changeQuery(e.target.value)}
+                className="border-border/50 focus:border-primary transition-colors"
+              />
+              <Popover>
+                <PopoverTrigger asChild>
+                  <Button variant="ghost" size="icon" title="Search syntax">
+                    <HelpCircle className="h-4 w-4" />
+                  </Button>
+                </PopoverTrigger>
+                <PopoverContent align="end" className="w-80 space-y-2 text-sm">
+                  <p className="font-medium">Search terms</p>
+                  {queryHelp.map(({ example, meaning }) => (
+                    <div key={example}>
+                      <code className="rounded bg-muted px-1">{example}</code>
+                      <span className="text-muted-foreground"> {meaning}</span>
+                    </div>
+                  ))}
+                  <p className="text-xs text-muted-foreground">Amounts are in {baseCurrency}. Every term must match.</p>
+                </PopoverContent>
+              </Popover>
+            </div>
+            {savedSearches.length > 0 && (
+              <Select
+                value={activeSearch?.id ?? PICK_SEARCH}
+                onValueChange={(id) => {
+                  const search = savedSearches.find(s => s.id === id);
+                  if (search) applyFilter(search.filter);
+                }}
+              >
+                <SelectTrigger className="md:w-48 border-border/50 focus:border-primary transition-colors">
+                  <Bookmark className="h-4 w-4 mr-2" />
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={PICK_SEARCH}>Saved Searches</SelectItem>
+                  {savedSearches.map((search) => (
+                    <SelectItem key={search.id} value={search.id}>
+                      {search.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            )}
+            {onSaveSearch && (
+              searchName === null ? (
+                <Button
+                  variant="outline"
+                  onClick={() => setSearchName(activeSearch?.name ?? "")}
+                  disabled={isEmptyFilter(currentFilter)}
+                >
+                  <Save className="h-4 w-4" />
+                  Save Search
+                </Button>
+              ) : (
+                <div className="flex gap-2">
+                  <Input
+                    autoFocus
+                    placeholder="Search name"
+                    aria-label="Search name"
+                    value={searchName}
+                    onChange={(e) => setSearchName(e.target.value)}
+                    onKeyDown={(e) => {
+                      if (e.key === "Enter") saveSearch();
+                      if (e.key === "Escape") setSearchName(null);
+                    }}
+                    className="md:w-40 border-border/50 focus:border-primary transition-colors"
+                  />
+                  <Button variant="outline" onClick={saveSearch}>
+                    Save
+                  </Button>
+                  <Button variant="ghost" size="icon" onClick={() => setSearchName(null)} title="Cancel">
+                    <X className="h-4 w-4" />
+                  </Button>
+                </div>
+              )
+            )}
+            {activeSearch && onDeleteSearch && (
+              <Button
+                variant="ghost"
+                size="icon"
+                onClick={() => deleteSearch(activeSearch)}
+                title={`Delete saved search "${activeSearch.name}"`}
+                className="text-destructive hover:text-destructive hover:bg-destructive/10"
+              >
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            )}
           </div>
-          <Select value={filterCategory} onValueChange={setFilterCategory}>
-            <SelectTrigger className="md:w-48 border-border/50 focus:border-primary transition-colors">
-              <Filter className="h-4 w-4 mr-2" />
-              <SelectValue />
-            </SelectTrigger>
-            <SelectContent>
-              {categories.map((category) => (
-                <SelectItem key={category.value} value={category.value}>
-                  {category.label}
-                </SelectItem>
+          {queryError && <p className="text-xs text-destructive">{queryError}</p>}
+        </div>
+
+        <div className="flex flex-col md:flex-row gap-4">
+          <Popover>
+            <PopoverTrigger asChild>
+              <Button variant="outline" className="md:w-48 justify-start font-normal border-border/50">
+                <Filter className="h-4 w-4 mr-2" />
+                <span className="truncate">
+                  {filter.categories.length === 0
+                    ? "All Categories"
+                    : filter.categories.length === 1
+                      ? categoryLabel(filter.categories[0])
+                      : `${filter.categories.length} categories`}
+                </span>
+              </Button>
+            </PopoverTrigger>
+            <PopoverContent align="start" className="w-64 max-h-80 overflow-y-auto space-y-2">
+              {tree.map(({ category, depth }) => (
+                <div key={category.value} className={`flex items-center gap-2 ${depth > 0 ? "pl-6" : ""}`}>
+                  <Checkbox
+                    id={`filter-category-${category.value}`}
+                    checked={filter.categories.includes(category.value)}
+                    onCheckedChange={() => toggleCategoryFilter(category.value)}
+                  />
+                  <Label htmlFor={`filter-category-${category.value}`} className="font-normal">
+                    {categoryLabel(category.value)}
+                  </Label>
+                </div>
               ))}
-            </SelectContent>
-          </Select>
-          <Select value={sortBy} onValueChange={setSortBy}>
+              {filter.categories.length > 0 && (
+                <Button variant="ghost" size="sm" className="w-full" onClick={() => updateFilter({ categories: [] })}>
+                  Clear
+                </Button>
+              )}
+            </PopoverContent>
+          </Popover>
+          {accounts.length > 0 && (
+            <Select value={filter.accountId} onValueChange={(accountId) => updateFilter({ accountId })}>
+              <SelectTrigger className="md:w-48 border-border/50 focus:border-primary transition-colors">
+                <Landmark className="h-4 w-4 mr-2" />
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ALL_ACCOUNTS}>All Accounts</SelectItem>
+                <SelectItem value={NO_ACCOUNT}>No account</SelectItem>
+                {accounts.map((account) => (
+                  <SelectItem key={account.id} value={account.id}>
+                    {accountLabel(account)}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          )}
+          {knownTags.length > 0 && (
+            <Select value={PICK_TAG} onValueChange={(value) => value !== PICK_TAG && toggleTagFilter(value)}>
+              <SelectTrigger className="md:w-48 border-border/50 focus:border-primary transition-colors">
+                <Hash className="h-4 w-4 mr-2" />
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={PICK_TAG}>Filter by Tag</SelectItem>
+                {knownTags.filter(tag => !filter.tags.includes(tag)).map((tag) => (
+                  <SelectItem key={tag} value={tag}>
+                    #{tag}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          )}
+          {(onAddReceipts || receipts.length > 0) && (
+            <Select value={filter.receipt} onValueChange={(receipt: ReceiptFilter) => updateFilter({ receipt })}>
+              <SelectTrigger className="md:w-48 border-border/50 focus:border-primary transition-colors">
+                <Paperclip className="h-4 w-4 mr-2" />
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">Any Receipts</SelectItem>
+                <SelectItem value="with">Has receipt</SelectItem>
+                <SelectItem value="without">No receipt</SelectItem>
+              </SelectContent>
+            </Select>
+          )}
+          <Select value={filter.sortBy} onValueChange={(sortBy: ExpenseSort) => updateFilter({ sortBy })}>
             <SelectTrigger className="md:w-48 border-border/50 focus:border-primary transition-colors">
               <SelectValue />
             </SelectTrigger>
@@ -119,63 +467,343 @@ export const ExpenseList = ({ expenses, onDeleteExpense }: ExpenseListProps) =>
               <SelectItem value="category">Sort by Category</SelectItem>
             </SelectContent>
           </Select>
+          {filter.sortBy === "date" && (
+            <Select value={grouping} onValueChange={(value: ExpenseGrouping) => setGrouping(value)}>
+              <SelectTrigger className="md:w-48 border-border/50 focus:border-primary transition-colors">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {groupings.map(({ value, label }) => (
+                  <SelectItem key={value} value={value}>
+                    {label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          )}
         </div>
 
+        <div className="flex flex-col md:flex-row md:items-center gap-4">
+          <div className="flex items-center gap-2">
+            <Calendar className="h-4 w-4 text-muted-foreground shrink-0" />
+            <Input
+              type="date"
+              aria-label="From date"
+              value={filter.from ?? ""}
+              max={filter.to}
+              onChange={(e) => updateFilter({ from: e.target.value || undefined })}
+              className="md:w-40 border-border/50 focus:border-primary transition-colors"
+            />
+            <span className="text-sm text-muted-foreground">to</span>
+            <Input
+              type="date"
+              aria-label="To date"
+              value={filter.to ?? ""}
+              min={filter.from}
+              onChange={(e) => updateFilter({ to: e.target.value || undefined })}
+              className="md:w-40 border-border/50 focus:border-primary transition-colors"
+            />
+          </div>
+          <div className="flex items-center gap-2">
+            <Banknote className="h-4 w-4 text-muted-foreground shrink-0" />
+            <Input
+              type="number"
+              step="0.01"
+              min="0"
+              placeholder={`Min ${baseCurrency}`}
+              aria-label="Minimum amount"
+              value={filter.minAmount ?? ""}
+              onChange={(e) => updateFilter({ minAmount: parseBound(e.target.value) })}
+              className="md:w-28 border-border/50 focus:border-primary transition-colors"
+            />
+            <span className="text-sm text-muted-foreground">to</span>
+            <Input
+              type="number"
+              step="0.01"
+              min="0"
+              placeholder={`Max ${baseCurrency}`}
+              aria-label="Maximum amount"
+              value={filter.maxAmount ?? ""}
+              onChange={(e) => updateFilter({ maxAmount: parseBound(e.target.value) })}
+              className="md:w-28 border-border/50 focus:border-primary transition-colors"
+            />
+          </div>
+          {!isEmptyFilter(currentFilter) && (
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => applyFilter({ ...emptyFilter, sortBy: filter.sortBy })}
+              className="md:ml-auto"
+            >
+              <X className="h-4 w-4" />
+              Clear Filters
+            </Button>
+          )}
+        </div>
+
+        {filter.categories.length > 1 && (
+          <div className="flex flex-wrap items-center gap-2">
+            <span className="text-sm text-muted-foreground">In any of</span>
+            {filter.categories.map((category) => (
+              <Badge key={category} variant="secondary" className="flex items-center gap-1">
+                {categoryLabel(category)}
+                <button
+                  type="button"
+                  onClick={() => toggleCategoryFilter(category)}
+                  aria-label={`Stop filtering by ${categoryLabel(category)}`}
+                  className="rounded-full hover:text-destructive"
+                >
+                  <X className="h-3 w-3" />
+                </button>
+              </Badge>
+            ))}
+          </div>
+        )}
+
+        {filter.tags.length > 0 && (
+          <div className="flex flex-wrap items-center gap-2">
+            <span className="text-sm text-muted-foreground">Tagged with all of</span>
+            {filter.tags.map((tag) => (
+              <Badge key={tag} variant="secondary" className="flex items-center gap-1">
+                #{tag}
+                <button
+                  type="button"
+                  onClick={() => toggleTagFilter(tag)}
+                  aria-label={`Stop filtering by ${tag}`}
+                  className="rounded-full hover:text-destructive"
+                >
+                  <X className="h-3 w-3" />
+                </button>
+              </Badge>
+            ))}
+          </div>
+        )}
+
         {/* Summary */}
         <div className="bg-muted/50 p-4 rounded-lg">
           <div className="flex items-center justify-between">
             <span className="text-lg font-semibold">
               {filteredExpenses.length} expenses found
+              {!isEmptyFilter(filter) && (
+                <span className="text-sm font-normal text-muted-foreground"> of {expenses.length}</span>
+              )}
             </span>
             <span className="text-lg font-bold gradient-text">
-              Total: ${totalAmount.toFixed(2)}
+              Total: {format(totalAmount)}
             </span>
           </div>
         </div>
 
         {/* Expense List */}
-        <div className="space-y-3 max-h-96 overflow-y-auto">
+        <div ref={listRef} className="space-y-3 max-h-96 overflow-y-auto">
           {filteredExpenses.length === 0 ? (
             <div className="text-center py-8 text-muted-foreground">
               <Search className="h-12 w-12 mx-auto mb-4 opacity-50" />
               <p>No expenses found matching your criteria.</p>
             </div>
           ) : (
-            filteredExpenses.map((expense) => (
-              <div
-                key={expense.id}
-                className="flex items-center justify-between p-4 bg-background/80 rounded-lg shadow-soft hover:shadow-medium transition-all duration-200 border border-border/30"
-              >
-                <div className="flex-1">
-                  <div className="flex items-center gap-3 mb-2">
-                    <Badge className={categoryColors[expense.category as keyof typeof categoryColors]}>
-                      {categories.find(c => c.value === expense.category)?.label}
-                    </Badge>
-                    <span className="text-sm text-muted-foreground flex items-center gap-1">
-                      <Calendar className="h-3 w-3" />
-                      {new Date(expense.date).toLocaleDateString()}
+            sections.map((section) => (
+              <div key={`${currentPage}-${section.key}`} className="space-y-3">
+                {section.summary && (
+                  <div className="sticky top-0 z-10 flex items-center justify-between gap-2 rounded-md bg-muted/90 px-3 py-1 text-sm backdrop-blur-sm">
+                    <span className="font-medium">{section.summary.label}</span>
+                    <span className="text-muted-foreground">
+                      {section.summary.count} {section.summary.count === 1 ? "expense" : "expenses"} ·{" "}
+                      <span className="font-semibold text-foreground">{format(section.summary.total)}</span>
                     </span>
                   </div>
-                  <p className="font-medium">{expense.description}</p>
-                </div>
-                <div className="flex items-center gap-3">
-                  <span className="text-lg font-bold flex items-center gap-1">
-                    <DollarSign className="h-4 w-4" />
-                    {expense.amount.toFixed(2)}
-                  </span>
-                  <Button
-                    variant="ghost"
-                    size="sm"
-                    onClick={() => handleDelete(expense)}
-                    className="text-destructive hover:text-destructive hover:bg-destructive/10"
+                )}
+                {section.expenses.map((expense) => (
+                  <div
+                    key={expense.id}
+                    className="flex items-center justify-between p-4 bg-background/80 rounded-lg shadow-soft hover:shadow-medium transition-all duration-200 border border-border/30"
                   >
-                    <Trash2 className="h-4 w-4" />
-                  </Button>
-                </div>
+                    <div className="flex-1">
+                      <div className="flex items-center gap-3 mb-2">
+                        <CategoryBadge category={expense.category} />
+                        <span className="text-sm text-muted-foreground flex items-center gap-1">
+                          <Calendar className="h-3 w-3" />
+                          {new Date(expense.date).toLocaleDateString()}
+                        </span>
+                        {expense.accountId && accounts.some(a => a.id === expense.accountId) && (
+                          <span className="text-sm text-muted-foreground flex items-center gap-1">
+                            <Landmark className="h-3 w-3" />
+                            {accounts.find(a => a.id === expense.accountId)?.name}
+                          </span>
+                        )}
+                        {expense.split && (
+                          <span className="text-sm text-muted-foreground flex items-center gap-1">
+                            <Users className="h-3 w-3" />
+                            Your share {format(myShare(expense), expense.currency)}
+                          </span>
+                        )}
+                      </div>
+                      <p className="font-medium">{expense.description}</p>
+                      {expense.notes && <p className="text-sm text-muted-foreground">{expense.notes}</p>}
+                      {expense.tags?.length ? (
+                        <div className="flex flex-wrap gap-1 mt-1">
+                          {expense.tags.map((tag) => (
+                            <button key={tag} type="button" onClick={() => toggleTagFilter(tag)} title={`Filter by #${tag}`}>
+                              <Badge variant="outline" className="text-xs hover:bg-muted">
+                                #{tag}
+                              </Badge>
+                            </button>
+                          ))}
+                        </div>
+                      ) : null}
+                    </div>
+                    <div className="flex items-center gap-3">
+                      <div className="text-right">
+                        <span className="text-lg font-bold">{format(expense.amount, expense.currency)}</span>
+                        {expense.currency !== baseCurrency && (
+                          <p className="text-xs text-muted-foreground">
+                            ≈ {format(toBase(expense.amount, expense.currency, expense.date))}
+                          </p>
+                        )}
+                      </div>
+                      {withReceipts.has(expense.id) || onAddReceipts ? (
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => setReceiptExpense(expense)}
+                          title={withReceipts.has(expense.id) ? "View receipts" : "Attach receipt"}
+                          className={withReceipts.has(expense.id) ? "" : "text-muted-foreground"}
+                        >
+                          <Paperclip className="h-4 w-4" />
+                          {withReceipts.has(expense.id) && receiptsFor(receipts, expense.id).length}
+                        </Button>
+                      ) : null}
+                      {expense.history?.length ? (
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => setHistoryExpense(expense)}
+                          title="View change history"
+                        >
+                          <History className="h-4 w-4" />
+                        </Button>
+                      ) : null}
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => setEditingExpense(expense)}
+                        title="Edit expense"
+                      >
+                        <Pencil className="h-4 w-4" />
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => handleDelete(expense)}
+                        className="text-destructive hover:text-destructive hover:bg-destructive/10"
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  </div>
+                ))}
               </div>
             ))
           )}
         </div>
+
+        {pageCount > 1 && (
+          <div className="flex flex-col items-center gap-2">
+            <Pagination>
+              <PaginationContent>
+                <PaginationItem>
+                  <PaginationPrevious
+                    href="#"
+                    onClick={(e) => {
+                      e.preventDefault();
+                      if (currentPage > 1) goToPage(currentPage - 1);
+                    }}
+                    className={currentPage === 1 ? "pointer-events-none opacity-50" : ""}
+                  />
+                </PaginationItem>
+                {pageWindow(currentPage, pageCount).map((number, index) =>
+                  number === null ? (
+                    <PaginationItem key={`gap-${index}`}>
+                      <PaginationEllipsis />
+                    </PaginationItem>
+                  ) : (
+                    <PaginationItem key={number}>
+                      <PaginationLink
+                        href="#"
+                        isActive={number === currentPage}
+                        onClick={(e) => {
+                          e.preventDefault();
+                          goToPage(number);
+                        }}
+                      >
+                        {number}
+                      </PaginationLink>
+                    </PaginationItem>
+                  )
+                )}
+                <PaginationItem>
+                  <PaginationNext
+                    href="#"
+                    onClick={(e) => {
+                      e.preventDefault();
+                      if (currentPage < pageCount) goToPage(currentPage + 1);
+                    }}
+                    className={currentPage === pageCount ? "pointer-events-none opacity-50" : ""}
+                  />
+                </PaginationItem>
+              </PaginationContent>
+            </Pagination>
+            <p className="text-xs text-muted-foreground">
+              Showing {(currentPage - 1) * PAGE_SIZE + 1}–{(currentPage - 1) * PAGE_SIZE + pageExpenses.length} of{" "}
+              {filteredExpenses.length}
+            </p>
+          </div>
+        )}
+
+        <EditExpenseDialog
+          expense={editingExpense}
+          accounts={accounts}
+          tagSuggestions={knownTags}
+          onOpenChange={(open) => !open && setEditingExpense(null)}
+          onSave={onUpdateExpense}
+        />
+
+        <ReceiptViewer
+          expense={receiptExpense}
+          receipts={receiptExpense ? receiptsFor(receipts, receiptExpense.id) : []}
+          onOpenChange={(open) => !open && setReceiptExpense(null)}
+          onAddReceipts={onAddReceipts}
+          onDeleteReceipt={onDeleteReceipt}
+        />
+
+        <Dialog open={historyExpense !== null} onOpenChange={(open) => !open && setHistoryExpense(null)}>
+          <DialogContent className="sm:max-w-md">
+            <DialogHeader>
+              <DialogTitle className="flex items-center gap-2">
+                <History className="h-5 w-5" />
+                Change History
+              </DialogTitle>
+              <DialogDescription>{historyExpense?.description}</DialogDescription>
+            </DialogHeader>
+            <div className="space-y-3 max-h-80 overflow-y-auto">
+              {[...(historyExpense?.history ?? [])].reverse().map((change, index) => (
+                <div key={`${change.timestamp}-${change.field}-${index}`} className="p-3 bg-muted/50 rounded-lg text-sm">
+                  <div className="flex items-center justify-between mb-1">
+                    <span className="font-medium">{fieldLabels[change.field]}</span>
+                    <span className="text-xs text-muted-foreground">
+                      {new Date(change.timestamp).toLocaleString()}
+                    </span>
+                  </div>
+                  <p>
+                    <span className="line-through text-muted-foreground">{formatChangeValue(change, change.oldValue, accounts, categoryLabel, format, change.oldCurrency ?? historyExpense.currency)}</span>
+                    {" → "}
+                    <span className="font-medium">{formatChangeValue(change, change.newValue, accounts, categoryLabel, format, change.newCurrency ?? historyExpense.currency)}</span>
+                  </p>
+                </div>
+              ))}
+            </div>
+          </DialogContent>
+        </Dialog>
       </CardContent>
     </Card>
   );
@@ -4,6 +4,10 @@ import { Progress } from "@/components/ui/progress";
 import { Button } from "@/components/ui/button";
 import { TrendingUp, Calendar, AlertTriangle, Target, Brain } from "lucide-react";
 import { useMemo } from "react";
+import { useCurrency } from "@/hooks/use-currency";
+import { useCategories } from "@/hooks/use-categories";
+import type { ExpenseSplit } from "@/lib/schemas";
+import { myShare } from "@/lib/splits";
 
 interface Expense {
   id: string;
@@ -11,6 +15,7 @@ interface Expense {
   description: string;
   category: string;
   amount: number;
+  split?: ExpenseSplit;
 }
 
 interface Budget {
@@ -21,6 +26,8 @@ interface ExpensePredictionProps {
   expenses: Expense[];
   budget: Budget;
   onUpdateBudget: (newBudget: Budget) => void;
+  // Rollover balance per category, negative for carried debt
+  rollover?: Budget;
 }
 
 interface Prediction {
@@ -39,7 +46,9 @@ interface BudgetRecommendation {
   impact: 'high' | 'medium' | 'low';
 }
 
-export const ExpensePrediction = ({ expenses, budget, onUpdateBudget }: ExpensePredictionProps) => {
+export const ExpensePrediction = ({ expenses, budget, onUpdateBudget, rollover = {} }: ExpensePredictionProps) => {
+  const { format } = useCurrency();
+  const { label: categoryLabel } = useCategories();
   const predictions = useMemo(() => {
     const currentDate = new Date();
     const currentMonth = currentDate.getMonth();
@@ -55,7 +64,7 @@ export const ExpensePrediction = ({ expenses, budget, onUpdateBudget }: ExpenseP
       });
       
       const categoryTotals = monthExpenses.reduce((acc, exp) => {
-        acc[exp.category] = (acc[exp.category] || 0) + exp.amount;
+        acc[exp.category] = (acc[exp.category] || 0) + myShare(exp);
         return acc;
       }, {} as Record<string, number>);
       
@@ -105,7 +114,7 @@ export const ExpensePrediction = ({ expenses, budget, onUpdateBudget }: ExpenseP
         predictedAmount *= 1.2;
       }
 
-      const reasoning = `Based on ${monthlySpending.length} months of data showing ${trend} trend. Average: $${avgSpending.toFixed(2)}/month.`;
+      const reasoning = `Based on ${monthlySpending.length} months of data showing ${trend} trend. Average: ${format(avgSpending)}/month.`;
 
       return {
         category,
@@ -117,27 +126,30 @@ export const ExpensePrediction = ({ expenses, budget, onUpdateBudget }: ExpenseP
     });
 
     return categoryPredictions.filter(p => p.predictedAmount > 0);
-  }, [expenses]);
+  }, [expenses, format]);
 
   const budgetRecommendations = useMemo(() => {
     const recommendations: BudgetRecommendation[] = predictions.map(prediction => {
       const currentBudget = budget[prediction.category] || 0;
       const predicted = prediction.predictedAmount;
+      // Rolled-over funds cover part of the prediction; carried debt adds to it
+      const carried = rollover[prediction.category] || 0;
+      const available = currentBudget + carried;
       
       let recommendedBudget = predicted * 1.1; // 10% buffer
       let impact: 'high' | 'medium' | 'low' = 'medium';
       let reasoning = '';
 
       if (currentBudget === 0) {
-        recommendedBudget = predicted * 1.2; // 20% buffer for new categories
-        reasoning = `No budget set. Recommend $${recommendedBudget.toFixed(2)} based on predictions plus 20% buffer.`;
+        recommendedBudget = Math.max(0, predicted * 1.2 - carried); // 20% buffer for new categories
+        reasoning = `No budget set. Recommend ${format(recommendedBudget)} based on predictions plus 20% buffer.`;
         impact = 'high';
-      } else if (predicted > currentBudget * 1.1) {
-        recommendedBudget = predicted * 1.15; // 15% buffer for increasing categories
+      } else if (predicted > available * 1.1) {
+        recommendedBudget = Math.max(0, predicted * 1.15 - carried); // 15% buffer for increasing categories
         reasoning = `Predicted spending exceeds current budget. Increase recommended to avoid overspending.`;
         impact = 'high';
-      } else if (predicted < currentBudget * 0.8) {
-        recommendedBudget = predicted * 1.1; // Reduce budget but keep 10% buffer
+      } else if (predicted < available * 0.8) {
+        recommendedBudget = Math.max(0, predicted * 1.1 - carried); // Reduce budget but keep 10% buffer
         reasoning = `Current budget seems high. You could reallocate funds to other categories.`;
         impact = 'medium';
       } else {
@@ -146,6 +158,12 @@ export const ExpensePrediction = ({ expenses, budget, onUpdateBudget }: ExpenseP
         impact = 'low';
       }
 
+      if (carried > 0) {
+        reasoning += ` Accounts for ${format(carried)} rolled over from earlier months.`;
+      } else if (carried < 0) {
+        reasoning += ` Accounts for ${format(-carried)} of overspending carried as debt.`;
+      }
+
       return {
         category: prediction.category,
         currentBudget,
@@ -159,7 +177,7 @@ export const ExpensePrediction = ({ expenses, budget, onUpdateBudget }: ExpenseP
       const impactOrder = { high: 3, medium: 2, low: 1 };
       return impactOrder[b.impact] - impactOrder[a.impact];
     });
-  }, [predictions, budget]);
+  }, [predictions, budget, rollover, format]);
 
   const totalPredicted = predictions.reduce((sum, p) => sum + p.predictedAmount, 0);
   const totalCurrentBudget = Object.values(budget).reduce((sum, amount) => sum + amount, 0);
@@ -196,11 +214,11 @@ export const ExpensePrediction = ({ expenses, budget, onUpdateBudget }: ExpenseP
         <CardContent>
           <div className="grid grid-cols-2 gap-6 mb-6">
             <div className="text-center">
-              <div className="text-2xl font-bold text-blue-600">${totalPredicted.toFixed(2)}</div>
+              <div className="text-2xl font-bold text-blue-600">{format(totalPredicted)}</div>
               <div className="text-sm text-muted-foreground">Predicted Next Month</div>
             </div>
             <div className="text-center">
-              <div className="text-2xl font-bold text-green-600">${totalCurrentBudget.toFixed(2)}</div>
+              <div className="text-2xl font-bold text-green-600">{format(totalCurrentBudget)}</div>
               <div className="text-sm text-muted-foreground">Current Budget</div>
             </div>
           </div>
@@ -208,7 +226,7 @@ export const ExpensePrediction = ({ expenses, budget, onUpdateBudget }: ExpenseP
             <div className="flex items-center gap-2 p-3 bg-red-50 dark:bg-red-900/20 rounded-lg">
               <AlertTriangle className="h-4 w-4 text-red-500" />
               <span className="text-sm text-red-700 dark:text-red-300">
-                Predicted spending exceeds budget by ${(totalPredicted - totalCurrentBudget).toFixed(2)}
+                Predicted spending exceeds budget by {format(totalPredicted - totalCurrentBudget)}
               </span>
             </div>
           )}
@@ -232,12 +250,12 @@ export const ExpensePrediction = ({ expenses, budget, onUpdateBudget }: ExpenseP
               <div key={prediction.category} className="p-4 bg-background/50 rounded-lg">
                 <div className="flex justify-between items-start mb-3">
                   <div>
-                    <h4 className="font-semibold capitalize">{prediction.category}</h4>
+                    <h4 className="font-semibold">{categoryLabel(prediction.category)}</h4>
                     <p className="text-xs text-muted-foreground">{prediction.reasoning}</p>
                   </div>
                   <div className="text-right">
                     <div className="text-lg font-bold">
-                      ${prediction.predictedAmount.toFixed(2)}
+                      {format(prediction.predictedAmount)}
                     </div>
                     <Badge variant={
                       prediction.trend === 'increasing' ? 'destructive' : 
@@ -260,7 +278,7 @@ export const ExpensePrediction = ({ expenses, budget, onUpdateBudget }: ExpenseP
                       <div className="flex justify-between text-sm">
                         <span>vs Current Budget</span>
                         <span className={isOverBudget ? 'text-red-500' : 'text-green-500'}>
-                          {isOverBudget ? '+' : '-'}${Math.abs(prediction.predictedAmount - currentBudget).toFixed(2)}
+                          {isOverBudget ? '+' : '-'}{format(Math.abs(prediction.predictedAmount - currentBudget))}
                         </span>
                       </div>
                       <Progress 
@@ -300,7 +318,7 @@ export const ExpensePrediction = ({ expenses, budget, onUpdateBudget }: ExpenseP
                 <div className="flex justify-between items-start mb-3">
                   <div className="flex-1">
                     <div className="flex items-center gap-2 mb-1">
-                      <h4 className="font-semibold capitalize">{rec.category}</h4>
+                      <h4 className="font-semibold">{categoryLabel(rec.category)}</h4>
                       <Badge variant={
                         rec.impact === 'high' ? 'destructive' : 
                         rec.impact === 'medium' ? 'default' : 'secondary'
@@ -321,17 +339,17 @@ export const ExpensePrediction = ({ expenses, budget, onUpdateBudget }: ExpenseP
                 
                 <div className="grid grid-cols-3 gap-4 text-center">
                   <div>
-                    <div className="text-sm font-semibold">${rec.currentBudget.toFixed(2)}</div>
+                    <div className="text-sm font-semibold">{format(rec.currentBudget)}</div>
                     <div className="text-xs text-muted-foreground">Current</div>
                   </div>
                   <div>
                     <div className={`text-sm font-semibold ${isIncrease ? 'text-red-500' : 'text-green-500'}`}>
-                      {isIncrease ? '+' : ''}${difference.toFixed(2)}
+                      {isIncrease ? '+' : ''}{format(difference)}
                     </div>
                     <div className="text-xs text-muted-foreground">Change</div>
                   </div>
                   <div>
-                    <div className="text-sm font-semibold">${rec.recommendedBudget.toFixed(2)}</div>
+                    <div className="text-sm font-semibold">{format(rec.recommendedBudget)}</div>
                     <div className="text-xs text-muted-foreground">Recommended</div>
                   </div>
                 </div>
@@ -2,10 +2,19 @@ import { useState } from "react";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Label } from "@/components/ui/label";
 import { Download, FileText, FileSpreadsheet } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
 import jsPDF from 'jspdf';
 import autoTable from 'jspdf-autotable';
+import { useCurrency } from "@/hooks/use-currency";
+import { useCategories } from "@/hooks/use-categories";
+import type { ExpenseSplit, Receipt } from "@/lib/schemas";
+import { receiptArchivePath, receiptsFor } from "@/lib/receipts";
+import { createZip } from "@/lib/zip";
+import { tagTotals } from "@/lib/tags";
+import { spendingTotal } from "@/lib/splits";
 
 interface Expense {
   id: string;
@@ -13,6 +22,9 @@ interface Expense {
   description: string;
   category: string;
   amount: number;
+  tags?: string[];
+  notes?: string;
+  split?: ExpenseSplit;
 }
 
 interface Budget {
@@ -22,15 +34,42 @@ interface Budget {
 interface ExportManagerProps {
   expenses: Expense[];
   budget: Budget;
+  receipts?: Receipt[];
+  // The expense history's filtered and sorted expenses, offered as a range of its own
+  currentView?: Expense[];
 }
 
-export const ExportManager = ({ expenses, budget }: ExportManagerProps) => {
+type DateRange = "all" | "month" | "quarter" | "view";
+
+const rangeLabels: Record<DateRange, string> = {
+  month: "This Month",
+  quarter: "This Quarter",
+  all: "All Time",
+  view: "Current History Filter",
+};
+
+const downloadBlob = (blob: Blob, fileName: string) => {
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = fileName;
+  document.body.appendChild(a);
+  a.click();
+  document.body.removeChild(a);
+  URL.revokeObjectURL(url);
+};
+
+export const ExportManager = ({ expenses, budget, receipts = [], currentView }: ExportManagerProps) => {
+  const { baseCurrency, format } = useCurrency();
+  const { get: getCategory } = useCategories();
   const [exportFormat, setExportFormat] = useState<"csv" | "pdf">("csv");
-  const [dateRange, setDateRange] = useState<"all" | "month" | "quarter">("month");
+  const [dateRange, setDateRange] = useState<DateRange>("month");
+  const [bundleReceipts, setBundleReceipts] = useState(false);
   const { toast } = useToast();
 
   const getFilteredExpenses = () => {
     if (dateRange === "all") return expenses;
+    if (dateRange === "view") return currentView ?? expenses;
     
     const now = new Date();
     const startDate = new Date();
@@ -47,26 +86,56 @@ export const ExportManager = ({ expenses, budget }: ExportManagerProps) => {
     return expenses.filter(expense => new Date(expense.date) >= startDate);
   };
 
-  const exportAsCSV = () => {
+  const exportAsCSV = async () => {
     const filteredExpenses = getFilteredExpenses();
-    
-    const headers = ["Date", "Description", "Category", "Amount"];
+    const fileName = `expenses-${dateRange}-${new Date().toISOString().split('T')[0]}`;
+
+    // Each expense's receipts go in a receipts/ folder, listed in an extra column so rows can be matched up
+    const withReceipts = bundleReceipts && receipts.length > 0;
+    const receiptPaths = new Map<string, string[]>();
+    const files = filteredExpenses.flatMap(expense =>
+      receiptsFor(receipts, expense.id).map((receipt, index) => {
+        const path = receiptArchivePath(receipt, expense, index);
+        receiptPaths.set(expense.id, [...(receiptPaths.get(expense.id) ?? []), path]);
+        return { path, data: receipt.file };
+      })
+    );
+
+    const headers = [
+      "Date",
+      "Description",
+      "Category",
+      `Amount (${baseCurrency})`,
+      "Tags",
+      "Notes",
+      ...(withReceipts ? ["Receipts"] : []),
+    ];
     const csvContent = [
       headers.join(","),
       ...filteredExpenses.map(expense => 
-        [expense.date, `"${expense.description}"`, expense.category, expense.amount.toFixed(2)].join(",")
+        [
+          expense.date,
+          `"${expense.description}"`,
+          expense.category,
+          expense.amount.toFixed(2),
+          `"${(expense.tags ?? []).join(" ")}"`,
+          `"${(expense.notes ?? "").replace(/"/g, '""')}"`,
+          ...(withReceipts ? [`"${(receiptPaths.get(expense.id) ?? []).join(" ")}"`] : []),
+        ].join(",")
       )
     ].join("\n");
 
-    const blob = new Blob([csvContent], { type: 'text/csv' });
-    const url = URL.createObjectURL(blob);
-    const a = document.createElement('a');
-    a.href = url;
-    a.download = `expenses-${dateRange}-${new Date().toISOString().split('T')[0]}.csv`;
-    document.body.appendChild(a);
-    a.click();
-    document.body.removeChild(a);
-    URL.revokeObjectURL(url);
+    if (withReceipts) {
+      const zip = await createZip([{ path: `${fileName}.csv`, data: csvContent }, ...files]);
+      downloadBlob(zip, `${fileName}.zip`);
+      toast({
+        title: "ZIP Exported! 🗂️",
+        description: `${filteredExpenses.length} expenses and ${files.length} receipts bundled.`,
+      });
+      return;
+    }
+
+    downloadBlob(new Blob([csvContent], { type: 'text/csv' }), `${fileName}.csv`);
 
     toast({
       title: "CSV Exported! 📊",
@@ -86,10 +155,10 @@ export const ExportManager = ({ expenses, budget }: ExportManagerProps) => {
     doc.setFontSize(12);
     doc.setTextColor(128, 128, 128);
     doc.text(`Generated on ${new Date().toLocaleDateString()}`, 20, 35);
-    doc.text(`Period: ${dateRange.charAt(0).toUpperCase() + dateRange.slice(1)}`, 20, 42);
+    doc.text(`Period: ${rangeLabels[dateRange]}`, 20, 42);
 
-    // Summary Stats
-    const totalAmount = filteredExpenses.reduce((sum, expense) => sum + expense.amount, 0);
+    // Summary Stats, counting only the user's part of shared bills like the tag table below
+    const totalAmount = spendingTotal(filteredExpenses);
     const avgExpense = totalAmount / filteredExpenses.length || 0;
     
     doc.setFontSize(14);
@@ -97,20 +166,21 @@ export const ExportManager = ({ expenses, budget }: ExportManagerProps) => {
     doc.text('Summary', 20, 55);
     
     doc.setFontSize(10);
-    doc.text(`Total Expenses: $${totalAmount.toFixed(2)}`, 20, 65);
+    doc.text(`Total Expenses: ${format(totalAmount)}`, 20, 65);
     doc.text(`Number of Transactions: ${filteredExpenses.length}`, 20, 72);
-    doc.text(`Average Expense: $${avgExpense.toFixed(2)}`, 20, 79);
+    doc.text(`Average Expense: ${format(avgExpense)}`, 20, 79);
 
     // Expenses Table
     const tableData = filteredExpenses.map(expense => [
       expense.date,
       expense.description,
-      expense.category.replace('_', ' ').toUpperCase(),
-      `$${expense.amount.toFixed(2)}`
+      // jsPDF's built-in fonts have no emoji, so the plain name is used
+      getCategory(expense.category).label,
+      format(expense.amount)
     ]);
 
     autoTable(doc, {
-      head: [['Date', 'Description', 'Category', 'Amount']],
+      head: [['Date', 'Description', 'Category', `Amount (${baseCurrency})`]],
       body: tableData,
       startY: 90,
       styles: { fontSize: 8 },
@@ -118,6 +188,20 @@ export const ExportManager = ({ expenses, budget }: ExportManagerProps) => {
       alternateRowStyles: { fillColor: [245, 245, 245] },
     });
 
+    // Per-tag totals overlap when an expense has several tags, so the table has no grand total
+    const tagRows = tagTotals(filteredExpenses);
+    if (tagRows.length > 0) {
+      const finalY = (doc as jsPDF & { lastAutoTable?: { finalY?: number } }).lastAutoTable?.finalY ?? 90;
+      autoTable(doc, {
+        head: [['Tag', 'Expenses', `Amount (${baseCurrency})`]],
+        body: tagRows.map(({ tag, count, total }) => [`#${tag}`, String(count), format(total)]),
+        startY: finalY + 12,
+        styles: { fontSize: 8 },
+        headStyles: { fillColor: [74, 144, 226] },
+        alternateRowStyles: { fillColor: [245, 245, 245] },
+      });
+    }
+
     doc.save(`finance-report-${dateRange}-${new Date().toISOString().split('T')[0]}.pdf`);
 
     toast({
@@ -172,31 +256,48 @@ export const ExportManager = ({ expenses, budget }: ExportManagerProps) => {
 
           <div className="space-y-2">
             <label className="text-sm font-medium">Date Range</label>
-            <Select value={dateRange} onValueChange={(value: "all" | "month" | "quarter") => setDateRange(value)}>
+            <Select value={dateRange} onValueChange={(value: DateRange) => setDateRange(value)}>
               <SelectTrigger>
                 <SelectValue />
               </SelectTrigger>
               <SelectContent>
-                <SelectItem value="month">This Month</SelectItem>
-                <SelectItem value="quarter">This Quarter</SelectItem>
-                <SelectItem value="all">All Time</SelectItem>
+                {(Object.keys(rangeLabels) as DateRange[])
+                  .filter(range => range !== "view" || currentView)
+                  .map((range) => (
+                    <SelectItem key={range} value={range}>
+                      {rangeLabels[range]}
+                    </SelectItem>
+                  ))}
               </SelectContent>
             </Select>
           </div>
         </div>
 
+        {exportFormat === "csv" && receipts.length > 0 && (
+          <div className="flex items-center gap-2">
+            <Checkbox
+              id="export-bundle-receipts"
+              checked={bundleReceipts}
+              onCheckedChange={(checked) => setBundleReceipts(checked === true)}
+            />
+            <Label htmlFor="export-bundle-receipts">Bundle receipts into a ZIP with the CSV</Label>
+          </div>
+        )}
+
         <div className="bg-background/50 p-4 rounded-lg">
           <h4 className="font-medium mb-2">Export Preview</h4>
           <p className="text-sm text-muted-foreground">
             {getFilteredExpenses().length} expenses will be exported
-            {exportFormat === "csv" && " as a spreadsheet file"}
+            {exportFormat === "csv" && (bundleReceipts && receipts.length > 0
+              ? " as a spreadsheet, zipped together with their receipts"
+              : " as a spreadsheet file")}
             {exportFormat === "pdf" && " as a detailed PDF report with summary statistics"}
           </p>
         </div>
 
         <Button onClick={handleExport} variant="gradient" className="w-full" size="lg">
           <Download className="h-5 w-5 mr-2" />
-          Export as {exportFormat.toUpperCase()}
+          Export as {exportFormat === "csv" && bundleReceipts && receipts.length > 0 ? "ZIP" : exportFormat.toUpperCase()}
         </Button>
       </CardContent>
     </Card>
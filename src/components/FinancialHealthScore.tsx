@@ -3,6 +3,11 @@ import { Progress } from "@/components/ui/progress";
 import { Badge } from "@/components/ui/badge";
 import { TrendingUp, TrendingDown, AlertTriangle, CheckCircle } from "lucide-react";
 import { useMemo } from "react";
+import type { ExpenseSplit, Income, SavingsGoal } from "@/lib/schemas";
+import { cashFlowBetween } from "@/lib/income";
+import { emergencyFundBalance } from "@/lib/goals";
+import { myShare, spendingTotal } from "@/lib/splits";
+import { inPeriod, monthPeriod, periodLength, type ActivePeriod } from "@/lib/periods";
 
 interface Expense {
   id: string;
@@ -10,6 +15,7 @@ interface Expense {
   description: string;
   category: string;
   amount: number;
+  split?: ExpenseSplit;
 }
 
 interface Budget {
@@ -19,6 +25,11 @@ interface Budget {
 interface FinancialHealthScoreProps {
   expenses: Expense[];
   budget: Budget;
+  incomes?: Income[];
+  // Amounts must already be in the base currency
+  goals?: SavingsGoal[];
+  // Period being scored; `budget` holds its limits. Defaults to the calendar month.
+  period?: ActivePeriod;
 }
 
 interface HealthMetric {
@@ -29,26 +40,22 @@ interface HealthMetric {
   icon: any;
 }
 
-export const FinancialHealthScore = ({ expenses, budget }: FinancialHealthScoreProps) => {
+export const FinancialHealthScore = ({ expenses, budget, incomes = [], goals = [], period }: FinancialHealthScoreProps) => {
+  const activePeriod = period ?? monthPeriod(budget);
+
   const healthMetrics = useMemo(() => {
-    const currentMonth = new Date().getMonth();
-    const currentYear = new Date().getFullYear();
-    
-    const monthlyExpenses = expenses.filter(expense => {
-      const expenseDate = new Date(expense.date);
-      return expenseDate.getMonth() === currentMonth && expenseDate.getFullYear() === currentYear;
-    });
+    const monthlyExpenses = expenses.filter(expense => inPeriod(expense.date, activePeriod));
 
-    const totalSpent = monthlyExpenses.reduce((sum, expense) => sum + expense.amount, 0);
+    const totalSpent = spendingTotal(monthlyExpenses);
     const totalBudget = Object.values(budget).reduce((sum, amount) => sum + amount, 0);
     
-    // Budget Adherence Score (40% weight)
+    // Budget Adherence Score (30% weight)
     const budgetScore = totalBudget > 0 ? Math.max(0, 100 - ((totalSpent / totalBudget) * 100 - 100)) : 50;
     
-    // Spending Consistency Score (25% weight)
+    // Spending Consistency Score (20% weight)
     const dailySpending = monthlyExpenses.reduce((acc, expense) => {
       const day = expense.date;
-      acc[day] = (acc[day] || 0) + expense.amount;
+      acc[day] = (acc[day] || 0) + myShare(expense);
       return acc;
     }, {} as Record<string, number>);
     
@@ -57,18 +64,24 @@ export const FinancialHealthScore = ({ expenses, budget }: FinancialHealthScoreP
     const variance = spendingValues.length ? spendingValues.reduce((sum, val) => sum + Math.pow(val - avgDailySpending, 2), 0) / spendingValues.length : 0;
     const consistencyScore = Math.max(0, 100 - (Math.sqrt(variance) / avgDailySpending) * 50);
     
-    // Category Diversification Score (20% weight)
+    // Category Diversification Score (15% weight)
     const categorySpending = monthlyExpenses.reduce((acc, expense) => {
-      acc[expense.category] = (acc[expense.category] || 0) + expense.amount;
+      acc[expense.category] = (acc[expense.category] || 0) + myShare(expense);
       return acc;
     }, {} as Record<string, number>);
     
     const categoryCount = Object.keys(categorySpending).length;
     const diversificationScore = Math.min(100, categoryCount * 16.67); // Max score at 6 categories
     
-    // Emergency Fund Indicator (15% weight)
-    const avgMonthlySpending = totalSpent || 100;
-    const emergencyScore = totalBudget >= avgMonthlySpending * 0.5 ? 100 : (totalBudget / (avgMonthlySpending * 0.5)) * 100;
+    // Emergency Fund Indicator (15% weight) - full marks once emergency-fund goals cover a month of spending
+    // Longer periods are scaled down to a month's worth of spending
+    const avgMonthlySpending = totalSpent / Math.max(1, periodLength(activePeriod) / 30) || 100;
+    const hasEmergencyFund = goals.some(goal => goal.emergencyFund);
+    const emergencyScore = Math.min(100, (emergencyFundBalance(goals) / avgMonthlySpending) * 100);
+
+    // Savings Rate Score (20% weight) - saving 20% of income or more scores full marks
+    const { savingsRate } = cashFlowBetween(expenses, incomes, activePeriod.start, activePeriod.end);
+    const savingsScore = savingsRate === null ? 50 : Math.max(0, Math.min(100, savingsRate * 5));
 
     const metrics: HealthMetric[] = [
       {
@@ -96,17 +109,24 @@ export const FinancialHealthScore = ({ expenses, budget }: FinancialHealthScoreP
         name: "Emergency Readiness",
         score: emergencyScore,
         status: emergencyScore >= 80 ? 'excellent' : emergencyScore >= 60 ? 'good' : emergencyScore >= 40 ? 'warning' : 'poor',
-        description: emergencyScore >= 80 ? "Great emergency buffer" : emergencyScore >= 60 ? "Decent safety net" : emergencyScore >= 40 ? "Build emergency fund" : "Critical: No emergency fund",
+        description: !hasEmergencyFund ? "Create an emergency fund goal" : emergencyScore >= 80 ? "Great emergency buffer" : emergencyScore >= 60 ? "Decent safety net" : emergencyScore >= 40 ? "Build emergency fund" : "Critical: Emergency fund nearly empty",
         icon: emergencyScore >= 60 ? CheckCircle : AlertTriangle
+      },
+      {
+        name: "Savings Rate",
+        score: savingsScore,
+        status: savingsScore >= 80 ? 'excellent' : savingsScore >= 60 ? 'good' : savingsScore >= 40 ? 'warning' : 'poor',
+        description: savingsRate === null ? "Log your income to measure savings" : savingsScore >= 80 ? `Saving ${savingsRate.toFixed(0)}% of income` : savingsScore >= 40 ? `Saving ${savingsRate.toFixed(0)}% of income - aim for 20%` : savingsRate < 0 ? "Spending more than you earn" : "Very little left after spending",
+        icon: savingsScore >= 60 ? TrendingUp : TrendingDown
       }
     ];
 
     return metrics;
-  }, [expenses, budget]);
+  }, [expenses, budget, incomes, goals, activePeriod]);
 
   const overallScore = Math.round(
     healthMetrics.reduce((sum, metric, index) => {
-      const weights = [0.4, 0.25, 0.2, 0.15]; // Budget, Consistency, Diversity, Emergency
+      const weights = [0.3, 0.2, 0.15, 0.15, 0.2]; // Budget, Consistency, Diversity, Emergency, Savings
       return sum + metric.score * weights[index];
     }, 0)
   );
@@ -193,6 +213,9 @@ export const FinancialHealthScore = ({ expenses, budget }: FinancialHealthScoreP
             {healthMetrics[3].score < 70 && (
               <li>• Build an emergency fund equal to 2-3 months of expenses</li>
             )}
+            {healthMetrics[4].score < 70 && (
+              <li>• Aim to set aside at least 20% of your income each month</li>
+            )}
             <li>• Use voice input for quick expense tracking</li>
           </ul>
         </div>
@@ -2,11 +2,16 @@ import { useState, useEffect } from "react";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Progress } from "@/components/ui/progress";
-import { Trophy, Star, Target, TrendingUp, Award, Zap } from "lucide-react";
+import { Trophy, Star, Target, TrendingUp, Award, Zap, PiggyBank } from "lucide-react";
+import { useCurrency } from "@/hooks/use-currency";
+import type { SavingsGoal } from "@/lib/schemas";
+import { bestMilestone } from "@/lib/goals";
+import { myShare } from "@/lib/splits";
 
 interface GameificationPanelProps {
   expenses: any[];
   budget: any;
+  goals?: SavingsGoal[];
 }
 
 interface Achievement {
@@ -27,7 +32,8 @@ interface UserStats {
   achievements: Achievement[];
 }
 
-export const GameificationPanel = ({ expenses, budget }: GameificationPanelProps) => {
+export const GameificationPanel = ({ expenses, budget, goals = [] }: GameificationPanelProps) => {
+  const { format } = useCurrency();
   const [userStats, setUserStats] = useState<UserStats>({
     totalPoints: 0,
     level: 1,
@@ -52,7 +58,7 @@ export const GameificationPanel = ({ expenses, budget }: GameificationPanelProps
         const budgetAmount = budget[category] || 0;
         const spent = monthlyExpenses
           .filter(expense => expense.category === category)
-          .reduce((sum, expense) => sum + expense.amount, 0);
+          .reduce((sum, expense) => sum + myShare(expense), 0);
         
         if (budgetAmount > 0 && spent < budgetAmount) {
           const saved = budgetAmount - spent;
@@ -65,6 +71,10 @@ export const GameificationPanel = ({ expenses, budget }: GameificationPanelProps
       // Bonus points for tracking expenses regularly
       totalPoints += monthlyExpenses.length * 5;
 
+      // Goal milestones are worth 100 points per quarter of the way there
+      const milestone = bestMilestone(goals);
+      totalPoints += milestone * 4;
+
       // Calculate level (every 1000 points = 1 level)
       const level = Math.floor(totalPoints / 1000) + 1;
 
@@ -100,7 +110,7 @@ export const GameificationPanel = ({ expenses, budget }: GameificationPanelProps
         {
           id: "money_saver",
           title: "Money Saver 💸",
-          description: "Save $100 total",
+          description: `Save ${format(100)} total`,
           icon: Star,
           unlocked: totalSaved >= 100,
           progress: Math.min(totalSaved, 100),
@@ -115,18 +125,27 @@ export const GameificationPanel = ({ expenses, budget }: GameificationPanelProps
             const budgetAmount = budget[category] || 0;
             const spent = monthlyExpenses
               .filter(expense => expense.category === category)
-              .reduce((sum, expense) => sum + expense.amount, 0);
+              .reduce((sum, expense) => sum + myShare(expense), 0);
             return budgetAmount === 0 || spent <= budgetAmount;
           }),
           progress: Object.keys(budget).filter(category => {
             const budgetAmount = budget[category] || 0;
             const spent = monthlyExpenses
               .filter(expense => expense.category === category)
-              .reduce((sum, expense) => sum + expense.amount, 0);
+              .reduce((sum, expense) => sum + myShare(expense), 0);
             return budgetAmount === 0 || spent <= budgetAmount;
           }).length,
           maxProgress: Math.max(Object.keys(budget).length, 1)
         },
+        {
+          id: "goal_getter",
+          title: "Goal Getter 🐷",
+          description: "Reach 100% of a savings goal",
+          icon: PiggyBank,
+          unlocked: milestone >= 100,
+          progress: milestone,
+          maxProgress: 100
+        },
         {
           id: "level_up",
           title: "Level Up Legend ⚡",
@@ -148,7 +167,7 @@ export const GameificationPanel = ({ expenses, budget }: GameificationPanelProps
     };
 
     calculateStats();
-  }, [expenses, budget]);
+  }, [expenses, budget, goals, format]);
 
   const pointsToNextLevel = 1000 - (userStats.totalPoints % 1000);
   const levelProgress = (userStats.totalPoints % 1000) / 1000 * 100;
@@ -188,7 +207,7 @@ export const GameificationPanel = ({ expenses, budget }: GameificationPanelProps
         {/* Stats Grid */}
         <div className="grid grid-cols-2 gap-4">
           <div className="bg-white/10 p-4 rounded-lg text-center">
-            <p className="text-2xl font-bold">${userStats.totalSaved.toFixed(2)}</p>
+            <p className="text-2xl font-bold">{format(userStats.totalSaved)}</p>
             <p className="text-sm text-white/80">Money Saved</p>
           </div>
           <div className="bg-white/10 p-4 rounded-lg text-center">
@@ -0,0 +1,242 @@
+import { useState } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { PiggyBank, PlusCircle, Trash2, Calendar, Repeat } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { useUndoAction } from "@/hooks/use-undo-history";
+import { useCurrency } from "@/hooks/use-currency";
+import type { Income, IncomeSource, Recurrence } from "@/lib/schemas";
+import { incomeSources, recurrenceOptions } from "@/lib/income";
+import { availableCurrencies } from "@/lib/currency";
+
+interface IncomeManagerProps {
+  incomes: Income[];
+  onAddIncome: (income: Income) => void;
+  onDeleteIncome: (id: string) => void;
+}
+
+export const IncomeManager = ({ incomes, onAddIncome, onDeleteIncome }: IncomeManagerProps) => {
+  const [description, setDescription] = useState("");
+  const [amount, setAmount] = useState("");
+  // Empty until picked, meaning the base currency
+  const [currency, setCurrency] = useState("");
+  const [source, setSource] = useState<IncomeSource>("wages");
+  const [date, setDate] = useState(new Date().toISOString().split("T")[0]);
+  const [recurrence, setRecurrence] = useState<Recurrence>("none");
+  const [endDate, setEndDate] = useState("");
+  const { toast } = useToast();
+  const undoAction = useUndoAction();
+  const { baseCurrency, rates, format } = useCurrency();
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!amount || isNaN(Number(amount)) || Number(amount) <= 0) {
+      toast({
+        title: "Invalid Input",
+        description: "Please enter a valid income amount.",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    const income: Income = {
+      id: Date.now().toString(),
+      date,
+      description: description.trim() || incomeSources.find(s => s.value === source)?.label || "Income",
+      source,
+      amount: Number(amount),
+      currency: currency || baseCurrency,
+      recurrence,
+      ...(recurrence !== "none" && endDate ? { endDate } : {}),
+    };
+
+    onAddIncome(income);
+
+    setDescription("");
+    setAmount("");
+    setRecurrence("none");
+    setEndDate("");
+
+    toast({
+      title: "Income Added! 💸",
+      description: `${format(income.amount, income.currency)} from ${income.description} recorded.`,
+      action: undoAction(),
+    });
+  };
+
+  const handleDelete = (income: Income) => {
+    onDeleteIncome(income.id);
+    toast({
+      title: "Income Deleted",
+      description: `Removed ${income.description} (${format(income.amount, income.currency)})`,
+      action: undoAction(),
+    });
+  };
+
+  return (
+    <Card className="bg-gradient-card shadow-medium hover:shadow-strong transition-all duration-300 border-0">
+      <CardHeader className="text-center">
+        <CardTitle className="text-2xl gradient-text flex items-center justify-center gap-2">
+          <PiggyBank className="h-6 w-6" />
+          Income
+        </CardTitle>
+        <CardDescription className="text-muted-foreground">
+          Log stipends, wages, scholarships and transfers from home
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="income-description">Description</Label>
+              <Input
+                id="income-description"
+                placeholder="e.g., Library job paycheck"
+                value={description}
+                onChange={(e) => setDescription(e.target.value)}
+                className="border-border/50 focus:border-primary transition-colors"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="income-amount">Amount</Label>
+              <div className="flex gap-2">
+                <Input
+                  id="income-amount"
+                  type="number"
+                  step="0.01"
+                  min="0"
+                  placeholder="0.00"
+                  value={amount}
+                  onChange={(e) => setAmount(e.target.value)}
+                  className="flex-1 border-border/50 focus:border-primary transition-colors"
+                />
+                <Select value={currency || baseCurrency} onValueChange={setCurrency}>
+                  <SelectTrigger aria-label="Currency" className="w-24">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {availableCurrencies(baseCurrency, rates, currency).map((code) => (
+                      <SelectItem key={code} value={code}>
+                        {code}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="income-source">Source</Label>
+              <Select value={source} onValueChange={(value: IncomeSource) => setSource(value)}>
+                <SelectTrigger id="income-source">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {incomeSources.map((option) => (
+                    <SelectItem key={option.value} value={option.value}>
+                      {option.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="income-date">{recurrence === "none" ? "Date" : "First Payment"}</Label>
+              <Input
+                id="income-date"
+                type="date"
+                value={date}
+                onChange={(e) => setDate(e.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="income-recurrence">Repeats</Label>
+              <Select value={recurrence} onValueChange={(value: Recurrence) => setRecurrence(value)}>
+                <SelectTrigger id="income-recurrence">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {recurrenceOptions.map((option) => (
+                    <SelectItem key={option.value} value={option.value}>
+                      {option.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          {recurrence !== "none" && (
+            <div className="space-y-2">
+              <Label htmlFor="income-end-date">Ends (optional)</Label>
+              <Input
+                id="income-end-date"
+                type="date"
+                min={date}
+                value={endDate}
+                onChange={(e) => setEndDate(e.target.value)}
+              />
+            </div>
+          )}
+
+          <Button type="submit" variant="success" className="w-full">
+            <PlusCircle className="h-4 w-4" />
+            Add Income
+          </Button>
+        </form>
+
+        <div className="space-y-3 max-h-72 overflow-y-auto">
+          {incomes.length === 0 ? (
+            <p className="text-center text-sm text-muted-foreground py-4">
+              No income recorded yet.
+            </p>
+          ) : (
+            incomes.map((income) => (
+              <div
+                key={income.id}
+                className="flex items-center justify-between p-3 bg-background/80 rounded-lg border border-border/30"
+              >
+                <div className="space-y-1">
+                  <p className="font-medium text-sm">{income.description}</p>
+                  <div className="flex items-center gap-2 text-xs text-muted-foreground">
+                    <Badge variant="secondary" className="text-xs">
+                      {incomeSources.find(s => s.value === income.source)?.label}
+                    </Badge>
+                    <span className="flex items-center gap-1">
+                      <Calendar className="h-3 w-3" />
+                      {new Date(income.date).toLocaleDateString()}
+                    </span>
+                    {income.recurrence !== "none" && (
+                      <span className="flex items-center gap-1">
+                        <Repeat className="h-3 w-3" />
+                        {recurrenceOptions.find(r => r.value === income.recurrence)?.label}
+                      </span>
+                    )}
+                  </div>
+                </div>
+                <div className="flex items-center gap-2">
+                  <span className="font-bold text-success">+{format(income.amount, income.currency)}</span>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => handleDelete(income)}
+                    className="text-destructive hover:text-destructive hover:bg-destructive/10"
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              </div>
+            ))
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
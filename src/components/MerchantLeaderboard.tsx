@@ -0,0 +1,112 @@
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Store, TrendingUp, TrendingDown, Check, X } from "lucide-react";
+import type { Expense, Merchant } from "@/lib/schemas";
+import type { ActivePeriod } from "@/lib/periods";
+import { aliasSuggestions, merchantStats, type ResolvedMerchant } from "@/lib/merchants";
+import { useCurrency } from "@/hooks/use-currency";
+
+interface MerchantLeaderboardProps {
+  // Amounts must already be in the base currency
+  expenses: Pick<Expense, "description" | "amount" | "split" | "date">[];
+  merchants: Merchant[];
+  period: ActivePeriod;
+  periodWord: string;
+  // Omit these to hide the "same merchant?" prompts
+  onConfirmAlias?: (target: ResolvedMerchant, alias: ResolvedMerchant) => void;
+  // "target|alias" pairs the user said are different, which aren't suggested again
+  dismissed?: string[];
+  onDismissAlias?: (target: ResolvedMerchant, alias: ResolvedMerchant) => void;
+}
+
+const LEADERBOARD_SIZE = 5;
+
+export const MerchantLeaderboard = ({
+  expenses,
+  merchants,
+  period,
+  periodWord,
+  onConfirmAlias,
+  dismissed = [],
+  onDismissAlias,
+}: MerchantLeaderboardProps) => {
+  const { format } = useCurrency();
+
+  const stats = merchantStats(expenses, merchants, period);
+  const leaders = stats.slice(0, LEADERBOARD_SIZE);
+  const suggestion = onConfirmAlias && onDismissAlias ? aliasSuggestions(stats, dismissed)[0] : undefined;
+
+  return (
+    <Card className="md:col-span-2 bg-gradient-card shadow-medium hover:shadow-strong transition-all duration-300 border-0">
+      <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+        <CardTitle className="text-sm font-medium">Top Merchants</CardTitle>
+        <Store className="h-4 w-4 text-muted-foreground" />
+      </CardHeader>
+      <CardContent>
+        {leaders.length > 0 ? (
+          <div className="space-y-2">
+            {leaders.map((merchant, index) => (
+              <div key={merchant.key} className="flex items-center justify-between gap-2 text-sm">
+                <div className="min-w-0">
+                  <div className="truncate font-medium">
+                    {index + 1}. {merchant.name}
+                  </div>
+                  <div className="text-xs text-muted-foreground">
+                    {merchant.visits} {merchant.visits === 1 ? "visit" : "visits"} · {format(merchant.averageTicket)} avg
+                  </div>
+                </div>
+                <div className="text-right shrink-0">
+                  <div className="font-bold gradient-text">{format(merchant.total)}</div>
+                  {merchant.trend === null ? (
+                    <div className="text-xs text-muted-foreground">new this {periodWord}</div>
+                  ) : (
+                    <div className="flex items-center justify-end text-xs">
+                      {merchant.trend >= 0 ? (
+                        <TrendingUp className="h-3 w-3 text-destructive mr-1" />
+                      ) : (
+                        <TrendingDown className="h-3 w-3 text-success mr-1" />
+                      )}
+                      <span className={merchant.trend >= 0 ? "text-destructive" : "text-success"}>
+                        {Math.abs(merchant.trend).toFixed(0)}%
+                      </span>
+                    </div>
+                  )}
+                </div>
+              </div>
+            ))}
+          </div>
+        ) : (
+          <div className="text-lg text-muted-foreground">
+            No data yet
+          </div>
+        )}
+
+        {suggestion && (
+          <div className="mt-3 flex flex-wrap items-center justify-between gap-2 rounded-md bg-muted/50 p-2 text-xs">
+            <span>
+              Is "{suggestion.alias.name}" the same as {suggestion.target.name}?
+            </span>
+            <div className="flex gap-1">
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => onConfirmAlias(suggestion.target, suggestion.alias)}
+              >
+                <Check className="h-3 w-3" />
+                Same
+              </Button>
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => onDismissAlias(suggestion.target, suggestion.alias)}
+              >
+                <X className="h-3 w-3" />
+                Different
+              </Button>
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
@@ -0,0 +1,35 @@
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { CalendarRange } from "lucide-react";
+import type { BudgetPeriod } from "@/lib/schemas";
+import { CALENDAR_MONTH, periodLabel } from "@/lib/periods";
+
+interface PeriodSelectorProps {
+  periods: BudgetPeriod[];
+  selectedId: string;
+  onSelect: (id: string) => void;
+}
+
+export const PeriodSelector = ({ periods, selectedId, onSelect }: PeriodSelectorProps) => {
+  const sorted = [...periods].sort((a, b) => b.start.localeCompare(a.start));
+  // A deleted period falls back to the calendar month
+  const value = periods.some(period => period.id === selectedId) ? selectedId : CALENDAR_MONTH;
+
+  return (
+    <div className="flex items-center justify-center gap-2">
+      <CalendarRange className="h-4 w-4 text-muted-foreground" />
+      <Select value={value} onValueChange={onSelect}>
+        <SelectTrigger aria-label="Budget period" className="w-64">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value={CALENDAR_MONTH}>📆 This Month</SelectItem>
+          {sorted.map((period) => (
+            <SelectItem key={period.id} value={period.id}>
+              {period.name} <span className="text-xs text-muted-foreground">({periodLabel(period)})</span>
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+    </div>
+  );
+};
@@ -0,0 +1,194 @@
+import { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { ChevronLeft, ChevronRight, Download, FileText, Paperclip, Plus, Trash2 } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { useUndoAction } from "@/hooks/use-undo-history";
+import { useObjectUrl } from "@/hooks/use-object-url";
+import { useReceiptFiles } from "@/hooks/use-receipt-files";
+import type { Expense, Receipt } from "@/lib/schemas";
+import { RECEIPT_ACCEPT, formatFileSize, isPdfReceipt } from "@/lib/receipts";
+
+interface ReceiptViewerProps {
+  expense: Expense | null;
+  // Only this expense's receipts
+  receipts: Receipt[];
+  onOpenChange: (open: boolean) => void;
+  // Left out when receipts can't be stored in this browser
+  onAddReceipts?: (receipts: Receipt[]) => void;
+  onDeleteReceipt?: (id: string) => void;
+}
+
+export const ReceiptThumbnail = ({ receipt, className = "h-16 w-16" }: { receipt: Receipt; className?: string }) =>
+  receipt.thumbnail ? (
+    <img src={receipt.thumbnail} alt={receipt.name} className={`${className} object-cover rounded-md`} />
+  ) : (
+    <div className={`${className} flex items-center justify-center rounded-md bg-muted`}>
+      <FileText className="h-6 w-6 text-muted-foreground" />
+    </div>
+  );
+
+export const ReceiptViewer = ({
+  expense,
+  receipts,
+  onOpenChange,
+  onAddReceipts,
+  onDeleteReceipt,
+}: ReceiptViewerProps) => {
+  const [index, setIndex] = useState(0);
+  const { toast } = useToast();
+  const undoAction = useUndoAction();
+  const readFiles = useReceiptFiles();
+
+  const current = receipts[Math.min(index, receipts.length - 1)];
+  const url = useObjectUrl(current?.file);
+
+  // Start from the first receipt whenever a different expense is opened
+  useEffect(() => {
+    setIndex(0);
+  }, [expense?.id]);
+
+  const step = (by: number) => {
+    if (receipts.length === 0) return;
+    setIndex(prev => (prev + by + receipts.length) % receipts.length);
+  };
+
+  const handleFiles = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = e.target.files;
+    if (!files || !expense || !onAddReceipts) return;
+    const added = await readFiles(files, expense.id);
+    e.target.value = "";
+    if (added.length === 0) return;
+
+    onAddReceipts(added);
+    setIndex(receipts.length);
+    toast({
+      title: "Receipt Attached 📎",
+      description: `${added.length} ${added.length === 1 ? "file" : "files"} added to ${expense.description}.`,
+      action: undoAction(),
+    });
+  };
+
+  const handleDelete = () => {
+    if (!current || !onDeleteReceipt) return;
+    onDeleteReceipt(current.id);
+    setIndex(prev => Math.max(0, prev - 1));
+    toast({
+      title: "Receipt Removed",
+      description: current.name,
+      action: undoAction(),
+    });
+  };
+
+  return (
+    <Dialog open={expense !== null} onOpenChange={onOpenChange}>
+      <DialogContent
+        className="sm:max-w-3xl"
+        onKeyDown={(e) => {
+          if (e.key === "ArrowLeft") step(-1);
+          if (e.key === "ArrowRight") step(1);
+        }}
+      >
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Paperclip className="h-5 w-5" />
+            Receipts
+          </DialogTitle>
+          <DialogDescription>{expense?.description}</DialogDescription>
+        </DialogHeader>
+
+        {current ? (
+          <div className="space-y-4">
+            <div className="relative flex items-center justify-center bg-muted/50 rounded-lg min-h-[20rem]">
+              {url && isPdfReceipt(current) ? (
+                <iframe src={url} title={current.name} className="w-full h-[60vh] rounded-lg" />
+              ) : url ? (
+                <img src={url} alt={current.name} className="max-h-[60vh] max-w-full object-contain rounded-lg" />
+              ) : null}
+              {receipts.length > 1 && (
+                <>
+                  <Button
+                    variant="secondary"
+                    size="icon"
+                    className="absolute left-2"
+                    onClick={() => step(-1)}
+                    title="Previous receipt"
+                  >
+                    <ChevronLeft className="h-4 w-4" />
+                  </Button>
+                  <Button
+                    variant="secondary"
+                    size="icon"
+                    className="absolute right-2"
+                    onClick={() => step(1)}
+                    title="Next receipt"
+                  >
+                    <ChevronRight className="h-4 w-4" />
+                  </Button>
+                </>
+              )}
+            </div>
+
+            <div className="flex items-center justify-between gap-2 text-sm">
+              <span className="truncate text-muted-foreground">
+                {current.name} · {formatFileSize(current.size)}
+              </span>
+              <div className="flex items-center gap-2">
+                {url && (
+                  <Button variant="outline" size="sm" asChild>
+                    <a href={url} download={current.name}>
+                      <Download className="h-4 w-4" />
+                      Download
+                    </a>
+                  </Button>
+                )}
+                {onDeleteReceipt && (
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={handleDelete}
+                    className="text-destructive hover:text-destructive hover:bg-destructive/10"
+                    title="Remove receipt"
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                )}
+              </div>
+            </div>
+
+            {receipts.length > 1 && (
+              <div className="flex gap-2 overflow-x-auto pb-1">
+                {receipts.map((receipt, position) => (
+                  <button
+                    key={receipt.id}
+                    type="button"
+                    onClick={() => setIndex(position)}
+                    className={`shrink-0 rounded-md border-2 ${receipt.id === current.id ? "border-primary" : "border-transparent"}`}
+                    title={receipt.name}
+                  >
+                    <ReceiptThumbnail receipt={receipt} className="h-14 w-14" />
+                  </button>
+                ))}
+              </div>
+            )}
+          </div>
+        ) : (
+          <div className="text-center py-8 text-muted-foreground">
+            <Paperclip className="h-12 w-12 mx-auto mb-4 opacity-50" />
+            <p>No receipts attached yet.</p>
+          </div>
+        )}
+
+        {onAddReceipts && (
+          <Button type="button" variant="outline" className="w-full" asChild>
+            <label className="cursor-pointer">
+              <Plus className="h-4 w-4" />
+              Attach Receipt
+              <input type="file" accept={RECEIPT_ACCEPT} multiple className="hidden" onChange={handleFiles} />
+            </label>
+          </Button>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
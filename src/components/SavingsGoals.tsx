@@ -0,0 +1,297 @@
+import { useState } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Progress } from "@/components/ui/progress";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { PiggyBank, PlusCircle, Trash2, Calendar, ShieldCheck } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { useUndoAction } from "@/hooks/use-undo-history";
+import { useCurrency } from "@/hooks/use-currency";
+import type { SavingsGoal } from "@/lib/schemas";
+import { availableCurrencies } from "@/lib/currency";
+import { todayISO } from "@/lib/recurrence";
+import {
+  goalBalance,
+  goalProgress,
+  goalStatus,
+  projectedCompletion,
+  requiredMonthly,
+  type GoalStatus,
+} from "@/lib/goals";
+
+interface SavingsGoalsProps {
+  goals: SavingsGoal[];
+  onAddGoal: (goal: SavingsGoal) => void;
+  onUpdateGoal: (goal: SavingsGoal) => void;
+  onDeleteGoal: (id: string) => void;
+}
+
+const statusBadges: Record<GoalStatus, { label: string; variant: "default" | "secondary" | "outline" | "destructive" }> = {
+  complete: { label: "Reached 🎉", variant: "default" },
+  "on-track": { label: "On track", variant: "secondary" },
+  behind: { label: "Behind", variant: "destructive" },
+  "not-started": { label: "Not started", variant: "outline" },
+};
+
+export const SavingsGoals = ({ goals, onAddGoal, onUpdateGoal, onDeleteGoal }: SavingsGoalsProps) => {
+  const [name, setName] = useState("");
+  const [targetAmount, setTargetAmount] = useState("");
+  // Empty until picked, meaning the base currency
+  const [currency, setCurrency] = useState("");
+  const [deadline, setDeadline] = useState("");
+  const [emergencyFund, setEmergencyFund] = useState(false);
+  const [contributionInputs, setContributionInputs] = useState<Record<string, string>>({});
+  const { toast } = useToast();
+  const undoAction = useUndoAction();
+  const { baseCurrency, rates, format } = useCurrency();
+
+  const today = todayISO();
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!name.trim() || !targetAmount || isNaN(Number(targetAmount)) || Number(targetAmount) <= 0) {
+      toast({
+        title: "Invalid Input",
+        description: "Please enter a name and a target above zero.",
+        variant: "destructive",
+      });
+      return;
+    }
+    if (!deadline || deadline <= today) {
+      toast({
+        title: "Invalid Deadline",
+        description: "Pick a deadline after today.",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    const goal: SavingsGoal = {
+      id: Date.now().toString(),
+      name: name.trim(),
+      targetAmount: Number(targetAmount),
+      currency: currency || baseCurrency,
+      createdAt: today,
+      deadline,
+      emergencyFund,
+      contributions: [],
+    };
+
+    onAddGoal(goal);
+
+    setName("");
+    setTargetAmount("");
+    setDeadline("");
+    setEmergencyFund(false);
+
+    toast({
+      title: "Goal Created! 🐷",
+      description: `Saving ${format(goal.targetAmount, goal.currency)} for ${goal.name}.`,
+      action: undoAction(),
+    });
+  };
+
+  const handleContribute = (goal: SavingsGoal) => {
+    const amount = Number(contributionInputs[goal.id]);
+    if (!amount || isNaN(amount) || amount <= 0) {
+      toast({
+        title: "Invalid Amount",
+        description: "Enter how much you put aside.",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    const updated: SavingsGoal = {
+      ...goal,
+      contributions: [...goal.contributions, { id: Date.now().toString(), date: today, amount }],
+    };
+    onUpdateGoal(updated);
+    setContributionInputs(prev => ({ ...prev, [goal.id]: "" }));
+
+    const reached = goalBalance(updated) >= goal.targetAmount && goalBalance(goal) < goal.targetAmount;
+    toast({
+      title: reached ? "Goal Reached! 🏆" : "Contribution Added 💰",
+      description: reached
+        ? `You've saved the full ${format(goal.targetAmount, goal.currency)} for ${goal.name}.`
+        : `${format(amount, goal.currency)} added to ${goal.name}.`,
+      action: undoAction(),
+    });
+  };
+
+  const handleDelete = (goal: SavingsGoal) => {
+    onDeleteGoal(goal.id);
+    toast({
+      title: "Goal Deleted",
+      description: `Removed ${goal.name}`,
+      action: undoAction(),
+    });
+  };
+
+  const sortedGoals = [...goals].sort((a, b) => a.deadline.localeCompare(b.deadline));
+
+  return (
+    <Card className="bg-gradient-card shadow-medium hover:shadow-strong transition-all duration-300 border-0">
+      <CardHeader className="text-center">
+        <CardTitle className="text-2xl gradient-text flex items-center justify-center gap-2">
+          <PiggyBank className="h-6 w-6" />
+          Savings Goals
+        </CardTitle>
+        <CardDescription className="text-muted-foreground">
+          Put money aside for an emergency fund, a trip or next semester's books
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="goal-name">Goal</Label>
+              <Input
+                id="goal-name"
+                placeholder="e.g., Emergency fund"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                className="border-border/50 focus:border-primary transition-colors"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="goal-target">Target</Label>
+              <div className="flex gap-2">
+                <Input
+                  id="goal-target"
+                  type="number"
+                  step="0.01"
+                  min="0"
+                  placeholder="0.00"
+                  value={targetAmount}
+                  onChange={(e) => setTargetAmount(e.target.value)}
+                  className="flex-1 border-border/50 focus:border-primary transition-colors"
+                />
+                <Select value={currency || baseCurrency} onValueChange={setCurrency}>
+                  <SelectTrigger aria-label="Currency" className="w-24">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {availableCurrencies(baseCurrency, rates, currency).map((code) => (
+                      <SelectItem key={code} value={code}>
+                        {code}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4 items-end">
+            <div className="space-y-2">
+              <Label htmlFor="goal-deadline">Deadline</Label>
+              <Input
+                id="goal-deadline"
+                type="date"
+                min={today}
+                value={deadline}
+                onChange={(e) => setDeadline(e.target.value)}
+              />
+            </div>
+            <div className="flex items-center gap-2 h-10">
+              <Checkbox
+                id="goal-emergency"
+                checked={emergencyFund}
+                onCheckedChange={(checked) => setEmergencyFund(checked === true)}
+              />
+              <Label htmlFor="goal-emergency">This is my emergency fund</Label>
+            </div>
+          </div>
+
+          <Button type="submit" className="w-full">
+            <PlusCircle className="h-4 w-4" />
+            Add Goal
+          </Button>
+        </form>
+
+        <div className="space-y-3">
+          {sortedGoals.length === 0 ? (
+            <p className="text-center text-sm text-muted-foreground py-4">No savings goals yet.</p>
+          ) : (
+            sortedGoals.map((goal) => {
+              const balance = goalBalance(goal);
+              const status = goalStatus(goal, today);
+              const projected = projectedCompletion(goal, today);
+              return (
+                <div key={goal.id} className="p-4 bg-background/80 rounded-lg border border-border/30 space-y-3">
+                  <div className="flex items-start justify-between gap-2">
+                    <div className="space-y-1">
+                      <p className="font-medium flex items-center gap-2">
+                        {goal.name}
+                        {goal.emergencyFund && <ShieldCheck className="h-4 w-4 text-success" />}
+                      </p>
+                      <div className="flex flex-wrap items-center gap-2 text-xs text-muted-foreground">
+                        <Badge variant={statusBadges[status].variant} className="text-xs">
+                          {statusBadges[status].label}
+                        </Badge>
+                        <span className="flex items-center gap-1">
+                          <Calendar className="h-3 w-3" />
+                          Due {new Date(goal.deadline).toLocaleDateString()}
+                        </span>
+                      </div>
+                    </div>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => handleDelete(goal)}
+                      className="text-destructive hover:text-destructive hover:bg-destructive/10"
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+
+                  <div className="space-y-1">
+                    <Progress value={goalProgress(goal)} className="h-2" />
+                    <div className="flex justify-between text-xs text-muted-foreground">
+                      <span>
+                        {format(balance, goal.currency)} of {format(goal.targetAmount, goal.currency)}
+                      </span>
+                      <span>{goalProgress(goal).toFixed(0)}%</span>
+                    </div>
+                  </div>
+
+                  {status !== "complete" && (
+                    <>
+                      <p className="text-xs text-muted-foreground">
+                        {projected
+                          ? `At this pace you'll get there by ${new Date(projected).toLocaleDateString()}.`
+                          : "Add a contribution to see when you'll get there."}{" "}
+                        {format(requiredMonthly(goal, today), goal.currency)}/month needed to hit the deadline.
+                      </p>
+                      <div className="flex gap-2">
+                        <Input
+                          type="number"
+                          step="0.01"
+                          min="0"
+                          placeholder="Amount saved"
+                          aria-label={`Contribution to ${goal.name}`}
+                          value={contributionInputs[goal.id] ?? ""}
+                          onChange={(e) => setContributionInputs(prev => ({ ...prev, [goal.id]: e.target.value }))}
+                        />
+                        <Button type="button" variant="outline" onClick={() => handleContribute(goal)}>
+                          <PlusCircle className="h-4 w-4" />
+                          Add
+                        </Button>
+                      </div>
+                    </>
+                  )}
+                </div>
+              );
+            })
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
@@ -0,0 +1,175 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Users, UserPlus, X } from "lucide-react";
+import { useCurrency } from "@/hooks/use-currency";
+import type { ExpenseSplit, SplitMethod } from "@/lib/schemas";
+import { SELF, isSelfName, personLabel, splitMethods, splitShares } from "@/lib/splits";
+
+interface SplitEditorProps {
+  amount: number;
+  currency: string;
+  split: ExpenseSplit | null;
+  onChange: (split: ExpenseSplit | null) => void;
+  // Names used before, offered as suggestions
+  people?: string[];
+  idPrefix?: string;
+}
+
+const newSplit = (): ExpenseSplit => ({
+  method: "equal",
+  paidBy: SELF,
+  shares: [{ person: SELF, value: 0 }],
+});
+
+export const SplitEditor = ({ amount, currency, split, onChange, people = [], idPrefix = "" }: SplitEditorProps) => {
+  const [newPerson, setNewPerson] = useState("");
+  const { format } = useCurrency();
+
+  const enabled = split !== null;
+  const preview = split && amount > 0 ? splitShares(amount, split) : new Map<string, number>();
+
+  const update = (changes: Partial<ExpenseSplit>) => {
+    if (split) onChange({ ...split, ...changes });
+  };
+
+  const addPerson = () => {
+    const name = newPerson.trim();
+    if (!split || !name || isSelfName(name) || split.shares.some(share => share.person === name)) return;
+    update({ shares: [...split.shares, { person: name, value: 0 }] });
+    setNewPerson("");
+  };
+
+  const removePerson = (person: string) => {
+    if (!split) return;
+    update({
+      shares: split.shares.filter(share => share.person !== person),
+      paidBy: split.paidBy === person ? SELF : split.paidBy,
+    });
+  };
+
+  const setValue = (person: string, value: string) => {
+    if (!split) return;
+    update({
+      shares: split.shares.map(share => (share.person === person ? { ...share, value: Number(value) || 0 } : share)),
+    });
+  };
+
+  return (
+    <div className="space-y-3 border-t pt-4">
+      <div className="flex items-center justify-between">
+        <Label htmlFor={`${idPrefix}split-toggle`} className="flex items-center gap-2">
+          <Users className="h-4 w-4" />
+          Split with others
+        </Label>
+        <Switch
+          id={`${idPrefix}split-toggle`}
+          checked={enabled}
+          onCheckedChange={(checked) => onChange(checked ? newSplit() : null)}
+        />
+      </div>
+
+      {split && (
+        <div className="space-y-3">
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor={`${idPrefix}split-method`}>Split</Label>
+              <Select value={split.method} onValueChange={(value: SplitMethod) => update({ method: value })}>
+                <SelectTrigger id={`${idPrefix}split-method`}>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {splitMethods.map((method) => (
+                    <SelectItem key={method.value} value={method.value}>
+                      {method.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor={`${idPrefix}split-paid-by`}>Paid By</Label>
+              <Select value={split.paidBy} onValueChange={(value) => update({ paidBy: value })}>
+                <SelectTrigger id={`${idPrefix}split-paid-by`}>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {split.shares.map((share) => (
+                    <SelectItem key={share.person} value={share.person}>
+                      {personLabel(share.person)}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            {split.shares.map((share) => (
+              <div key={share.person} className="flex items-center gap-2 text-sm">
+                <span className="flex-1 font-medium">{personLabel(share.person)}</span>
+                {split.method !== "equal" && (
+                  <Input
+                    type="number"
+                    step="0.01"
+                    min="0"
+                    aria-label={`${personLabel(share.person)}'s ${split.method === "percentage" ? "percentage" : "amount"}`}
+                    value={share.value || ""}
+                    placeholder={split.method === "percentage" ? "%" : "0.00"}
+                    onChange={(e) => setValue(share.person, e.target.value)}
+                    className="w-24"
+                  />
+                )}
+                <span className="w-24 text-right text-muted-foreground">
+                  {format(preview.get(share.person) ?? 0, currency)}
+                </span>
+                {share.person === SELF ? (
+                  <span className="w-9" />
+                ) : (
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => removePerson(share.person)}
+                    title={`Remove ${share.person}`}
+                  >
+                    <X className="h-4 w-4" />
+                  </Button>
+                )}
+              </div>
+            ))}
+          </div>
+
+          <div className="flex gap-2">
+            <Input
+              placeholder="Add a person"
+              list={`${idPrefix}split-people`}
+              value={newPerson}
+              onChange={(e) => setNewPerson(e.target.value)}
+              onKeyDown={(e) => {
+                if (e.key === "Enter") {
+                  e.preventDefault();
+                  addPerson();
+                }
+              }}
+            />
+            <datalist id={`${idPrefix}split-people`}>
+              {people
+                .filter(person => !split.shares.some(share => share.person === person))
+                .map((person) => (
+                  <option key={person} value={person} />
+                ))}
+            </datalist>
+            <Button type="button" variant="outline" onClick={addPerson} disabled={!newPerson.trim()}>
+              <UserPlus className="h-4 w-4" />
+              Add
+            </Button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,243 @@
+import { useState } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Users, HandCoins, ArrowRight, Trash2, CheckCircle } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { useUndoAction } from "@/hooks/use-undo-history";
+import { useCurrency } from "@/hooks/use-currency";
+import type { Expense, Settlement } from "@/lib/schemas";
+import { SELF, knownPeople, personBalances, personLabel, simplifyDebts, type Debt } from "@/lib/splits";
+import { todayISO } from "@/lib/recurrence";
+
+interface SplitLedgerProps {
+  // Amounts must already be in the base currency, which new settlements are entered in
+  expenses: Expense[];
+  settlements: Settlement[];
+  onAddSettlement: (settlement: Settlement) => void;
+  onDeleteSettlement: (id: string) => void;
+}
+
+export const SplitLedger = ({ expenses, settlements, onAddSettlement, onDeleteSettlement }: SplitLedgerProps) => {
+  const [from, setFrom] = useState("");
+  const [to, setTo] = useState(SELF);
+  const [amount, setAmount] = useState("");
+  const [date, setDate] = useState(todayISO());
+  const [note, setNote] = useState("");
+  const { toast } = useToast();
+  const undoAction = useUndoAction();
+  const { baseCurrency, format } = useCurrency();
+
+  const people = [SELF, ...knownPeople(expenses, settlements)];
+  const balances = personBalances(expenses, settlements);
+  const debts = simplifyDebts(balances);
+  const myBalance = balances.get(SELF) ?? 0;
+  const sharedCount = expenses.filter(expense => expense.split).length;
+
+  const record = (settlement: Settlement) => {
+    onAddSettlement(settlement);
+    toast({
+      title: "Settlement Recorded 🤝",
+      description: `${personLabel(settlement.from)} paid ${personLabel(settlement.to)} ${format(settlement.amount)}.`,
+      action: undoAction(),
+    });
+  };
+
+  const settleDebt = (debt: Debt) => {
+    record({
+      id: Date.now().toString(),
+      date: todayISO(),
+      from: debt.from,
+      to: debt.to,
+      amount: debt.amount,
+      currency: baseCurrency,
+    });
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!from || !to || from === to || !amount || isNaN(Number(amount)) || Number(amount) <= 0) {
+      toast({
+        title: "Invalid Settlement",
+        description: "Pick two different people and enter an amount above zero.",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    record({
+      id: Date.now().toString(),
+      date,
+      from,
+      to,
+      amount: Number(amount),
+      currency: baseCurrency,
+      ...(note.trim() ? { note: note.trim() } : {}),
+    });
+
+    setAmount("");
+    setNote("");
+  };
+
+  const handleDelete = (settlement: Settlement) => {
+    onDeleteSettlement(settlement.id);
+    toast({
+      title: "Settlement Deleted",
+      description: `Removed ${personLabel(settlement.from)} → ${personLabel(settlement.to)} ${format(settlement.amount)}`,
+      action: undoAction(),
+    });
+  };
+
+  const personSelect = (id: string, value: string, onValueChange: (value: string) => void) => (
+    <Select value={value} onValueChange={onValueChange}>
+      <SelectTrigger id={id}>
+        <SelectValue placeholder="Person" />
+      </SelectTrigger>
+      <SelectContent>
+        {people.map((person) => (
+          <SelectItem key={person} value={person}>
+            {personLabel(person)}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+
+  const sortedSettlements = [...settlements].sort((a, b) => b.date.localeCompare(a.date));
+
+  return (
+    <Card className="bg-gradient-card shadow-medium hover:shadow-strong transition-all duration-300 border-0">
+      <CardHeader className="text-center">
+        <CardTitle className="text-2xl gradient-text flex items-center justify-center gap-2">
+          <Users className="h-6 w-6" />
+          Shared Expenses
+        </CardTitle>
+        <CardDescription className="text-muted-foreground">
+          Who owes whom across {sharedCount} split {sharedCount === 1 ? "expense" : "expenses"}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="p-4 bg-background/80 rounded-lg border border-border/30 text-center">
+          <p className="text-sm text-muted-foreground">
+            {myBalance > 0.005 ? "You are owed" : myBalance < -0.005 ? "You owe" : "You're all square"}
+          </p>
+          {Math.abs(myBalance) > 0.005 && (
+            <p className={`text-2xl font-bold ${myBalance > 0 ? "text-success" : "text-destructive"}`}>
+              {format(Math.abs(myBalance))}
+            </p>
+          )}
+        </div>
+
+        <div className="space-y-2">
+          <h4 className="text-sm font-medium">Simplified Debts</h4>
+          {debts.length === 0 ? (
+            <p className="text-center text-sm text-muted-foreground py-2 flex items-center justify-center gap-2">
+              <CheckCircle className="h-4 w-4" />
+              Nobody owes anything.
+            </p>
+          ) : (
+            debts.map((debt) => (
+              <div
+                key={`${debt.from}-${debt.to}`}
+                className="flex items-center justify-between p-3 bg-background/80 rounded-lg border border-border/30 text-sm"
+              >
+                <span className="flex items-center gap-2 font-medium">
+                  {personLabel(debt.from)}
+                  <ArrowRight className="h-3 w-3 text-muted-foreground" />
+                  {personLabel(debt.to)}
+                </span>
+                <div className="flex items-center gap-2">
+                  <span className="font-bold">{format(debt.amount)}</span>
+                  <Button variant="outline" size="sm" onClick={() => settleDebt(debt)}>
+                    Settle
+                  </Button>
+                </div>
+              </div>
+            ))
+          )}
+        </div>
+
+        <form onSubmit={handleSubmit} className="space-y-4 border-t pt-4">
+          <h4 className="text-sm font-medium flex items-center gap-2">
+            <HandCoins className="h-4 w-4" />
+            Record a Payment
+          </h4>
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="settlement-from">From</Label>
+              {personSelect("settlement-from", from, setFrom)}
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="settlement-to">To</Label>
+              {personSelect("settlement-to", to, setTo)}
+            </div>
+          </div>
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="settlement-amount">Amount</Label>
+              <Input
+                id="settlement-amount"
+                type="number"
+                step="0.01"
+                min="0"
+                placeholder="0.00"
+                value={amount}
+                onChange={(e) => setAmount(e.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="settlement-date">Date</Label>
+              <Input id="settlement-date" type="date" value={date} onChange={(e) => setDate(e.target.value)} />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="settlement-note">Note</Label>
+              <Input
+                id="settlement-note"
+                placeholder="Optional"
+                value={note}
+                onChange={(e) => setNote(e.target.value)}
+              />
+            </div>
+          </div>
+          <Button type="submit" variant="outline" className="w-full" disabled={people.length < 2}>
+            <HandCoins className="h-4 w-4" />
+            Record Payment
+          </Button>
+        </form>
+
+        <div className="space-y-2 max-h-64 overflow-y-auto">
+          {sortedSettlements.map((settlement) => (
+            <div
+              key={settlement.id}
+              className="flex items-center justify-between p-3 bg-background/80 rounded-lg border border-border/30 text-sm"
+            >
+              <div>
+                <p className="font-medium">
+                  {personLabel(settlement.from)} paid {personLabel(settlement.to)}
+                </p>
+                <p className="text-xs text-muted-foreground">
+                  {new Date(settlement.date).toLocaleDateString()}
+                  {settlement.note ? ` · ${settlement.note}` : ""}
+                </p>
+              </div>
+              <div className="flex items-center gap-2">
+                <span className="font-bold">{format(settlement.amount)}</span>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => handleDelete(settlement)}
+                  className="text-destructive hover:text-destructive hover:bg-destructive/10"
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+            </div>
+          ))}
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
@@ -0,0 +1,214 @@
+import { useMemo, useState } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Landmark, Upload, ArrowLeft, AlertTriangle, Copy } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { useUndoAction } from "@/hooks/use-undo-history";
+import { useCurrency } from "@/hooks/use-currency";
+import { useCategories } from "@/hooks/use-categories";
+import type { Expense, Income } from "@/lib/schemas";
+import { buildStatementRows, parseStatement, type ParsedStatement } from "@/lib/statement-import";
+
+interface StatementImportProps {
+  expenses: Expense[];
+  incomes: Income[];
+  onImport: (expenses: Expense[], incomes: Income[]) => void;
+}
+
+export const StatementImport = ({
+  expenses,
+  incomes,
+  onImport,
+}: StatementImportProps) => {
+  const [statement, setStatement] = useState<ParsedStatement | null>(null);
+  const [fileName, setFileName] = useState("");
+  const [selected, setSelected] = useState<Set<number>>(new Set());
+  const { toast } = useToast();
+  const undoAction = useUndoAction();
+  const { baseCurrency, format, toBase } = useCurrency();
+  const { categories, rules, label: categoryLabel } = useCategories();
+
+  const currency = statement?.currency || baseCurrency;
+  const rows = useMemo(
+    () => (statement ? buildStatementRows(statement, currency, categories, expenses, incomes, rules, toBase) : []),
+    [statement, currency, categories, expenses, incomes, rules, toBase]
+  );
+
+  const handleFile = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = "";
+    if (!file) return;
+    file.text().then(text => {
+      const parsed = parseStatement(text);
+      if (!parsed) {
+        toast({
+          title: "Unsupported File",
+          description: "Choose an OFX, QFX or QIF statement downloaded from your bank.",
+          variant: "destructive",
+        });
+        return;
+      }
+      if (parsed.transactions.length === 0) {
+        toast({
+          title: "No Transactions Found",
+          description: parsed.errors[0] ?? "The statement doesn't contain any transactions.",
+          variant: "destructive",
+        });
+        return;
+      }
+
+      // Rows already recorded start unticked
+      const fresh = buildStatementRows(parsed, parsed.currency || baseCurrency, categories, expenses, incomes, rules, toBase);
+      setStatement(parsed);
+      setFileName(file.name);
+      setSelected(new Set(fresh.filter(row => !row.error && !row.duplicateOf).map(row => row.index)));
+    });
+  };
+
+  const toggleRow = (index: number, checked: boolean) => {
+    setSelected(prev => {
+      const next = new Set(prev);
+      if (checked) next.add(index);
+      else next.delete(index);
+      return next;
+    });
+  };
+
+  const reset = () => {
+    setStatement(null);
+    setFileName("");
+    setSelected(new Set());
+  };
+
+  const handleImport = () => {
+    const chosen = rows.filter(row => selected.has(row.index));
+    const newExpenses = chosen.filter(row => row.expense).map(row => row.expense as Expense);
+    const newIncomes = chosen.filter(row => row.income).map(row => row.income as Income);
+    if (chosen.length === 0) {
+      toast({
+        title: "Nothing Selected",
+        description: "Tick the transactions you want to import.",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    onImport(newExpenses, newIncomes);
+    reset();
+
+    toast({
+      title: "Statement Imported 🏦",
+      description: `${newExpenses.length} ${newExpenses.length === 1 ? "expense" : "expenses"} and ${
+        newIncomes.length
+      } income ${newIncomes.length === 1 ? "entry" : "entries"} added.`,
+      action: undoAction(),
+    });
+  };
+
+  const duplicates = rows.filter(row => row.duplicateOf).length;
+
+  return (
+    <Card className="bg-gradient-card shadow-medium hover:shadow-strong transition-all duration-300 border-0">
+      <CardHeader className="text-center">
+        <CardTitle className="text-2xl gradient-text flex items-center justify-center gap-2">
+          <Landmark className="h-6 w-6" />
+          Import Bank Statement
+        </CardTitle>
+        <CardDescription className="text-muted-foreground">
+          Load an OFX, QFX or QIF file from your online banking
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {!statement ? (
+          <Button type="button" variant="outline" className="w-full" asChild>
+            <label className="cursor-pointer">
+              <Upload className="h-4 w-4" />
+              Choose Statement File
+              <input type="file" accept=".ofx,.qfx,.qif" className="hidden" onChange={handleFile} />
+            </label>
+          </Button>
+        ) : (
+          <div className="space-y-4">
+            <p className="text-sm text-muted-foreground text-center">
+              {fileName} · {rows.length} {rows.length === 1 ? "transaction" : "transactions"} · {duplicates} already
+              recorded · {selected.size} selected
+            </p>
+
+            {statement.errors.length > 0 && (
+              <div className="p-3 rounded-lg border border-border/30 text-xs text-muted-foreground space-y-1">
+                {statement.errors.map((error) => (
+                  <p key={error} className="flex items-center gap-2">
+                    <AlertTriangle className="h-3 w-3" />
+                    {error}
+                  </p>
+                ))}
+              </div>
+            )}
+
+            <div className="space-y-2 max-h-96 overflow-y-auto">
+              {rows.map((row) => {
+                const entry = row.expense ?? row.income;
+                return (
+                  <div
+                    key={row.index}
+                    className={`flex items-center gap-3 p-3 bg-background/80 rounded-lg border border-border/30 text-sm ${
+                      entry ? "" : "opacity-60"
+                    }`}
+                  >
+                    <Checkbox
+                      aria-label={`Import ${row.transaction.payee}`}
+                      checked={selected.has(row.index)}
+                      disabled={!entry}
+                      onCheckedChange={(checked) => toggleRow(row.index, checked === true)}
+                    />
+                    <div className="flex-1 min-w-0">
+                      <p className="font-medium truncate">{row.transaction.payee}</p>
+                      <div className="flex flex-wrap items-center gap-2 text-xs text-muted-foreground">
+                        <span>{new Date(row.transaction.date).toLocaleDateString()}</span>
+                        {row.expense && (
+                          <Badge variant="secondary" className="text-xs">
+                            {categoryLabel(row.expense.category)}
+                          </Badge>
+                        )}
+                        {row.income && (
+                          <Badge variant="secondary" className="text-xs bg-success/10 text-success">
+                            Income
+                          </Badge>
+                        )}
+                        {row.duplicateOf && (
+                          <Badge variant="outline" className="text-xs flex items-center gap-1">
+                            <Copy className="h-3 w-3" />
+                            {row.duplicateReason === "fitid"
+                              ? "Already imported"
+                              : `Looks like "${row.duplicateOf.description}"`}
+                          </Badge>
+                        )}
+                        {row.error && <span>{row.error}</span>}
+                      </div>
+                    </div>
+                    <span className={`font-bold ${row.income ? "text-success" : ""}`}>
+                      {row.income ? "+" : ""}
+                      {format(Math.abs(row.transaction.amount), currency)}
+                    </span>
+                  </div>
+                );
+              })}
+            </div>
+
+            <div className="flex gap-2">
+              <Button type="button" variant="outline" className="flex-1" onClick={reset}>
+                <ArrowLeft className="h-4 w-4" />
+                Back
+              </Button>
+              <Button type="button" variant="gradient" className="flex-1" onClick={handleImport}>
+                Import {selected.size} {selected.size === 1 ? "Transaction" : "Transactions"}
+              </Button>
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
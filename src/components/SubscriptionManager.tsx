@@ -0,0 +1,329 @@
+import { useState } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Repeat, PlusCircle, Trash2, Pause, Play, SkipForward, Calendar } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { useUndoAction } from "@/hooks/use-undo-history";
+import { useCurrency } from "@/hooks/use-currency";
+import { useCategories } from "@/hooks/use-categories";
+import { CategoryOptions } from "@/components/CategoryOptions";
+import type { Recurrence, RecurringExpense } from "@/lib/schemas";
+import { availableCurrencies } from "@/lib/currency";
+import { annualizedAmount, monthlyAmount, todayISO } from "@/lib/recurrence";
+import { nextDueDate, scheduleOptions, skipNextOccurrence } from "@/lib/recurring";
+
+interface SubscriptionManagerProps {
+  recurring: RecurringExpense[];
+  onAddRecurring: (template: RecurringExpense) => void;
+  onUpdateRecurring: (template: RecurringExpense) => void;
+  onDeleteRecurring: (id: string) => void;
+}
+
+export const SubscriptionManager = ({
+  recurring,
+  onAddRecurring,
+  onUpdateRecurring,
+  onDeleteRecurring,
+}: SubscriptionManagerProps) => {
+  const [description, setDescription] = useState("");
+  const [amount, setAmount] = useState("");
+  // Empty until picked, meaning the base currency
+  const [currency, setCurrency] = useState("");
+  const [category, setCategory] = useState("bills");
+  const [schedule, setSchedule] = useState<Recurrence>("monthly");
+  const [startDate, setStartDate] = useState(todayISO());
+  const [endDate, setEndDate] = useState("");
+  const { toast } = useToast();
+  const undoAction = useUndoAction();
+  const { baseCurrency, rates, format, toBase } = useCurrency();
+  const { label: categoryLabel } = useCategories();
+
+  // Paused and finished items don't cost anything going forward. Totals use today's rates.
+  const today = todayISO();
+  const active = recurring.filter(template => !template.paused && nextDueDate(template) !== null);
+  const monthlyTotal = active.reduce(
+    (sum, t) => sum + toBase(monthlyAmount(t.amount, t.schedule), t.currency, today),
+    0
+  );
+  const annualTotal = active.reduce(
+    (sum, t) => sum + toBase(annualizedAmount(t.amount, t.schedule), t.currency, today),
+    0
+  );
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!description.trim() || !amount || isNaN(Number(amount)) || Number(amount) <= 0) {
+      toast({
+        title: "Invalid Input",
+        description: "Please enter a name and a valid amount.",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    const template: RecurringExpense = {
+      id: Date.now().toString(),
+      description: description.trim(),
+      category,
+      amount: Number(amount),
+      currency: currency || baseCurrency,
+      schedule,
+      startDate,
+      ...(endDate ? { endDate } : {}),
+      paused: false,
+      skippedDates: [],
+    };
+
+    onAddRecurring(template);
+
+    setDescription("");
+    setAmount("");
+    setEndDate("");
+
+    toast({
+      title: "Recurring Expense Added! 🔁",
+      description: `${template.description} will be logged automatically.`,
+      action: undoAction(),
+    });
+  };
+
+  const togglePaused = (template: RecurringExpense) => {
+    onUpdateRecurring({ ...template, paused: !template.paused });
+    toast({
+      title: template.paused ? "Resumed ▶️" : "Paused ⏸️",
+      description: template.paused
+        ? `${template.description} will be logged again from its next due date.`
+        : `${template.description} won't be logged until you resume it.`,
+      action: undoAction(),
+    });
+  };
+
+  const handleSkip = (template: RecurringExpense) => {
+    const skipped = nextDueDate(template);
+    if (!skipped) return;
+    onUpdateRecurring(skipNextOccurrence(template));
+    toast({
+      title: "Occurrence Skipped ⏭️",
+      description: `${template.description} on ${new Date(skipped).toLocaleDateString()} won't be logged.`,
+      action: undoAction(),
+    });
+  };
+
+  const handleDelete = (template: RecurringExpense) => {
+    onDeleteRecurring(template.id);
+    toast({
+      title: "Recurring Expense Removed",
+      description: `${template.description} stopped. Expenses already logged are kept.`,
+      action: undoAction(),
+    });
+  };
+
+  return (
+    <Card className="bg-gradient-card shadow-medium hover:shadow-strong transition-all duration-300 border-0">
+      <CardHeader className="text-center">
+        <CardTitle className="text-2xl gradient-text flex items-center justify-center gap-2">
+          <Repeat className="h-6 w-6" />
+          Subscriptions & Recurring Bills
+        </CardTitle>
+        <CardDescription className="text-muted-foreground">
+          Rent, phone plans and streaming services are logged for you when they fall due
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="grid grid-cols-2 gap-4">
+          <div className="p-4 bg-background/80 rounded-lg border border-border/30 text-center">
+            <p className="text-sm text-muted-foreground">Per Month</p>
+            <p className="text-2xl font-bold text-primary">{format(monthlyTotal)}</p>
+          </div>
+          <div className="p-4 bg-background/80 rounded-lg border border-border/30 text-center">
+            <p className="text-sm text-muted-foreground">Per Year</p>
+            <p className="text-2xl font-bold text-primary">{format(annualTotal)}</p>
+          </div>
+        </div>
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="recurring-description">Name</Label>
+              <Input
+                id="recurring-description"
+                placeholder="e.g., Spotify Premium"
+                value={description}
+                onChange={(e) => setDescription(e.target.value)}
+                className="border-border/50 focus:border-primary transition-colors"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="recurring-amount">Amount</Label>
+              <div className="flex gap-2">
+                <Input
+                  id="recurring-amount"
+                  type="number"
+                  step="0.01"
+                  min="0"
+                  placeholder="0.00"
+                  value={amount}
+                  onChange={(e) => setAmount(e.target.value)}
+                  className="flex-1 border-border/50 focus:border-primary transition-colors"
+                />
+                <Select value={currency || baseCurrency} onValueChange={setCurrency}>
+                  <SelectTrigger aria-label="Currency" className="w-24">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {availableCurrencies(baseCurrency, rates, currency).map((code) => (
+                      <SelectItem key={code} value={code}>
+                        {code}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="recurring-category">Category</Label>
+              <Select value={category} onValueChange={setCategory}>
+                <SelectTrigger id="recurring-category">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <CategoryOptions />
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="recurring-schedule">Repeats</Label>
+              <Select value={schedule} onValueChange={(value: Recurrence) => setSchedule(value)}>
+                <SelectTrigger id="recurring-schedule">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {scheduleOptions.map((option) => (
+                    <SelectItem key={option.value} value={option.value}>
+                      {option.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="recurring-start-date">First Payment</Label>
+              <Input
+                id="recurring-start-date"
+                type="date"
+                value={startDate}
+                onChange={(e) => setStartDate(e.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="recurring-end-date">Ends (optional)</Label>
+              <Input
+                id="recurring-end-date"
+                type="date"
+                min={startDate}
+                value={endDate}
+                onChange={(e) => setEndDate(e.target.value)}
+              />
+            </div>
+          </div>
+
+          <Button type="submit" className="w-full">
+            <PlusCircle className="h-4 w-4" />
+            Add Recurring Expense
+          </Button>
+        </form>
+
+        <div className="space-y-3 max-h-96 overflow-y-auto">
+          {recurring.length === 0 ? (
+            <p className="text-center text-sm text-muted-foreground py-4">
+              No recurring expenses yet.
+            </p>
+          ) : (
+            recurring.map((template) => {
+              const next = nextDueDate(template);
+              return (
+                <div
+                  key={template.id}
+                  className={`p-3 bg-background/80 rounded-lg border border-border/30 space-y-2 ${
+                    template.paused || !next ? "opacity-60" : ""
+                  }`}
+                >
+                  <div className="flex items-start justify-between gap-2">
+                    <div className="space-y-1">
+                      <p className="font-medium text-sm">{template.description}</p>
+                      <div className="flex flex-wrap items-center gap-2 text-xs text-muted-foreground">
+                        <Badge variant="secondary" className="text-xs">
+                          {categoryLabel(template.category)}
+                        </Badge>
+                        <span className="flex items-center gap-1">
+                          <Repeat className="h-3 w-3" />
+                          {scheduleOptions.find(s => s.value === template.schedule)?.label}
+                        </span>
+                        {template.paused ? (
+                          <Badge variant="outline" className="text-xs">Paused</Badge>
+                        ) : next ? (
+                          <span className="flex items-center gap-1">
+                            <Calendar className="h-3 w-3" />
+                            Next {new Date(next).toLocaleDateString()}
+                          </span>
+                        ) : (
+                          <Badge variant="outline" className="text-xs">Ended</Badge>
+                        )}
+                      </div>
+                    </div>
+                    <div className="text-right">
+                      <p className="font-bold">{format(template.amount, template.currency)}</p>
+                      <p className="text-xs text-muted-foreground">
+                        {format(monthlyAmount(template.amount, template.schedule), template.currency)}/mo ·{" "}
+                        {format(annualizedAmount(template.amount, template.schedule), template.currency)}/yr
+                      </p>
+                    </div>
+                  </div>
+                  <div className="flex justify-end gap-1">
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => handleSkip(template)}
+                      disabled={template.paused || !next}
+                      title="Skip next occurrence"
+                    >
+                      <SkipForward className="h-4 w-4" />
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => togglePaused(template)}
+                      disabled={!next}
+                      title={template.paused ? "Resume" : "Pause"}
+                    >
+                      {template.paused ? <Play className="h-4 w-4" /> : <Pause className="h-4 w-4" />}
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => handleDelete(template)}
+                      className="text-destructive hover:text-destructive hover:bg-destructive/10"
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                </div>
+              );
+            })
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
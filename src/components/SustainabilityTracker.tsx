@@ -3,6 +3,10 @@ import { Badge } from "@/components/ui/badge";
 import { Progress } from "@/components/ui/progress";
 import { Leaf, Recycle, TreePine, Zap, Car, ShoppingBag } from "lucide-react";
 import { useMemo } from "react";
+import { useCurrency } from "@/hooks/use-currency";
+import { useCategories } from "@/hooks/use-categories";
+import type { ExpenseSplit } from "@/lib/schemas";
+import { myShare, spendingTotal } from "@/lib/splits";
 
 interface Expense {
   id: string;
@@ -10,6 +14,7 @@ interface Expense {
   description: string;
   category: string;
   amount: number;
+  split?: ExpenseSplit;
 }
 
 interface SustainabilityTrackerProps {
@@ -37,6 +42,8 @@ interface EcoAchievement {
 }
 
 export const SustainabilityTracker = ({ expenses }: SustainabilityTrackerProps) => {
+  const { format } = useCurrency();
+  const { get: getCategory } = useCategories();
   const ecoMetrics = useMemo(() => {
     // Define eco-friendly keywords and their impact scores
     const ecoKeywords = {
@@ -82,9 +89,10 @@ export const SustainabilityTracker = ({ expenses }: SustainabilityTrackerProps)
         }
       }
 
-      // Also check expense categories
-      if (expense.category === 'transport') category = 'transport';
-      if (expense.category === 'food') category = 'food';
+      // Also check expense categories, including custom ones named after a group (e.g. "Shopping")
+      const categoryName = getCategory(expense.category).label.toLowerCase();
+      const group = Object.keys(ecoKeywords).find(cat => expense.category === cat || categoryName.includes(cat));
+      if (group) category = group;
 
       return { category, isEco, impactRate };
     };
@@ -100,10 +108,10 @@ export const SustainabilityTracker = ({ expenses }: SustainabilityTrackerProps)
     const metrics: EcoMetric[] = categories.map(cat => {
       const categoryExpenses = ecoExpenses.filter(exp => exp.category === cat);
       const ecoOnlyExpenses = categoryExpenses.filter(exp => exp.isEco);
-      const totalAmount = ecoOnlyExpenses.reduce((sum, exp) => sum + exp.amount, 0);
+      const totalAmount = spendingTotal(ecoOnlyExpenses);
       
-      const totalImpact = ecoOnlyExpenses.reduce((sum, exp) => sum + (exp.amount * exp.impactRate), 0);
-      const totalCategorySpend = categoryExpenses.reduce((sum, exp) => sum + exp.amount, 0);
+      const totalImpact = ecoOnlyExpenses.reduce((sum, exp) => sum + myShare(exp) * exp.impactRate, 0);
+      const totalCategorySpend = spendingTotal(categoryExpenses);
       const ecoScore = totalCategorySpend > 0 ? (totalAmount / totalCategorySpend) * 100 : 0;
 
       const icons = {
@@ -139,7 +147,7 @@ export const SustainabilityTracker = ({ expenses }: SustainabilityTrackerProps)
     });
 
     return metrics.filter(m => m.amount > 0 || m.impact > 0);
-  }, [expenses]);
+  }, [expenses, getCategory]);
 
   const achievements = useMemo(() => {
     const totalEcoSpending = ecoMetrics.reduce((sum, m) => sum + m.amount, 0);
@@ -168,7 +176,7 @@ export const SustainabilityTracker = ({ expenses }: SustainabilityTrackerProps)
       {
         id: 'green-spender',
         title: 'Green Spender',
-        description: 'Spend $100 on sustainable options',
+        description: `Spend ${format(100)} on sustainable options`,
         icon: Recycle,
         threshold: 100,
         current: totalEcoSpending,
@@ -186,7 +194,7 @@ export const SustainabilityTracker = ({ expenses }: SustainabilityTrackerProps)
     ];
 
     return ecoAchievements;
-  }, [ecoMetrics]);
+  }, [ecoMetrics, format]);
 
   const totalImpact = ecoMetrics.reduce((sum, m) => sum + m.impact, 0);
   const totalEcoSpending = ecoMetrics.reduce((sum, m) => sum + m.amount, 0);
@@ -212,7 +220,7 @@ export const SustainabilityTracker = ({ expenses }: SustainabilityTrackerProps)
               <div className="text-sm text-muted-foreground">CO₂ Saved</div>
             </div>
             <div className="text-center">
-              <div className="text-2xl font-bold text-emerald-600">${totalEcoSpending.toFixed(2)}</div>
+              <div className="text-2xl font-bold text-emerald-600">{format(totalEcoSpending)}</div>
               <div className="text-sm text-muted-foreground">Eco Spending</div>
             </div>
             <div className="text-center">
@@ -255,7 +263,7 @@ export const SustainabilityTracker = ({ expenses }: SustainabilityTrackerProps)
                     </div>
                   </div>
                   <div className="text-right">
-                    <div className="text-lg font-bold">${metric.amount.toFixed(2)}</div>
+                    <div className="text-lg font-bold">{format(metric.amount)}</div>
                     <div className="text-xs text-green-600">{metric.impact.toFixed(1)} kg CO₂ saved</div>
                   </div>
                 </div>
@@ -0,0 +1,86 @@
+import { useState } from "react";
+import { Badge } from "@/components/ui/badge";
+import { Command, CommandGroup, CommandInput, CommandItem, CommandList } from "@/components/ui/command";
+import { Hash, Plus, X } from "lucide-react";
+import { addTag, normalizeTag } from "@/lib/tags";
+
+interface TagInputProps {
+  tags: string[];
+  onChange: (tags: string[]) => void;
+  // Tags already in use, most used first
+  suggestions?: string[];
+  id?: string;
+}
+
+// Suggestions shown while typing; cmdk filters them further against the query
+const MAX_SUGGESTIONS = 8;
+
+export const TagInput = ({ tags, onChange, suggestions = [], id }: TagInputProps) => {
+  const [query, setQuery] = useState("");
+  const typed = normalizeTag(query);
+  const options = suggestions.filter(tag => !tags.includes(tag)).slice(0, MAX_SUGGESTIONS);
+
+  const add = (raw: string) => {
+    onChange(addTag(tags, raw));
+    setQuery("");
+  };
+
+  return (
+    <div className="space-y-2">
+      {tags.length > 0 && (
+        <div className="flex flex-wrap gap-1">
+          {tags.map((tag) => (
+            <Badge key={tag} variant="secondary" className="flex items-center gap-1">
+              #{tag}
+              <button
+                type="button"
+                onClick={() => onChange(tags.filter(t => t !== tag))}
+                aria-label={`Remove tag ${tag}`}
+                className="rounded-full hover:text-destructive"
+              >
+                <X className="h-3 w-3" />
+              </button>
+            </Badge>
+          ))}
+        </div>
+      )}
+      <Command className="border border-border/50 bg-transparent">
+        <CommandInput
+          id={id}
+          placeholder="Add a tag, e.g. reimbursable"
+          value={query}
+          onValueChange={setQuery}
+          onKeyDown={(e) => {
+            if (e.key === "Backspace" && !query && tags.length > 0) {
+              onChange(tags.slice(0, -1));
+            }
+            if (e.key === "," && typed) {
+              e.preventDefault();
+              add(typed);
+            }
+          }}
+          className="h-9"
+        />
+        {query && (
+          <CommandList>
+            <CommandGroup>
+              {options.map((tag) => (
+                <CommandItem key={tag} value={tag} onSelect={() => add(tag)}>
+                  <Hash className="h-4 w-4 mr-2 opacity-50" />
+                  {tag}
+                </CommandItem>
+              ))}
+              {typed && !tags.includes(typed) && !options.includes(typed) && (
+                // The query itself is the value so this item always survives cmdk's filtering
+                <CommandItem value={query} onSelect={() => add(typed)}>
+                  <Plus className="h-4 w-4 mr-2 opacity-50" />
+                  Create "#{typed}"
+                </CommandItem>
+              )}
+            </CommandGroup>
+          </CommandList>
+        )}
+      </Command>
+    </div>
+  );
+};
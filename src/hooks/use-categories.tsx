@@ -0,0 +1,63 @@
+import * as React from "react";
+
+import type { CategoryRule, CustomCategory } from "@/lib/schemas";
+import {
+  categoryBadgeClass,
+  categoryFamily,
+  categoryLabel,
+  categoryTree,
+  defaultCategories,
+  rootCategory,
+  unknownCategory,
+  type CategoryNode,
+} from "@/lib/categories";
+import { categorize, type Categorization, type RuleInput, type ToBase } from "@/lib/rules";
+import type { CategoryClassifier } from "@/hooks/use-category-classifier";
+
+export interface CategoryRegistry {
+  // Built-in and user-created categories, in display order
+  categories: CustomCategory[];
+  // Categories no longer in the list resolve to a neutral stand-in rather than undefined
+  get: (value: string) => CustomCategory;
+  // Emoji and name, e.g. "🍕 Food & Dining"
+  label: (value: string) => string;
+  // Light badge classes for the category's color
+  badgeClass: (value: string) => string;
+  // Top-level categories each followed by their subcategories
+  tree: CategoryNode[];
+  // The category plus its subcategories, for filters and rollups
+  family: (value: string) => string[];
+  // The top-level category a value rolls up into
+  root: (value: string) => string;
+  // Categorization rules, in any order
+  rules: CategoryRule[];
+  // Runs the rules, then the learned classifier, falling back to category keywords
+  categorize: (input: RuleInput) => Categorization;
+}
+
+export function createCategoryRegistry(
+  categories: CustomCategory[],
+  rules: CategoryRule[] = [],
+  classifier?: CategoryClassifier,
+  toBase?: ToBase
+): CategoryRegistry {
+  const byValue = new Map(categories.map(category => [category.value, category]));
+  const get = (value: string) => byValue.get(value) ?? unknownCategory(value);
+  return {
+    categories,
+    get,
+    label: value => categoryLabel(get(value)),
+    badgeClass: value => categoryBadgeClass(get(value).color),
+    tree: categoryTree(categories),
+    family: value => categoryFamily(categories, value),
+    root: value => rootCategory(categories, value),
+    rules,
+    categorize: input => categorize(rules, categories, input, classifier?.predict, toBase),
+  };
+}
+
+export const CategoryContext = React.createContext<CategoryRegistry>(createCategoryRegistry(defaultCategories));
+
+export function useCategories(): CategoryRegistry {
+  return React.useContext(CategoryContext);
+}
@@ -0,0 +1,30 @@
+import { useMemo, useRef } from "react";
+import type { Expense } from "@/lib/schemas";
+import { createTrainer, predictCategory, syncTrainer, type CategoryPrediction } from "@/lib/classifier";
+
+export interface CategoryClassifier {
+  // Amounts with a currency are converted to the base currency first; without one they must already be in it
+  predict: (description: string, amount: number, currency?: string, date?: string) => CategoryPrediction | null;
+  // Expenses the model has learned from
+  trainedOn: number;
+}
+
+// A categorizer trained on the user's expenses, whose amounts must already be in the base currency.
+// It only learns what changed since the last render, so adding or correcting one expense doesn't
+// retrain on the whole history.
+export function useCategoryClassifier(
+  expenses: Expense[],
+  toBase: (amount: number, currency: string, date: string) => number
+): CategoryClassifier {
+  const trainer = useRef(createTrainer());
+
+  return useMemo(() => {
+    syncTrainer(trainer.current, expenses);
+    const { model, trained } = trainer.current;
+    return {
+      predict: (description, amount, currency, date) =>
+        predictCategory(model, description, currency && date ? toBase(amount, currency, date) : amount),
+      trainedOn: trained.size,
+    };
+  }, [expenses, toBase]);
+}
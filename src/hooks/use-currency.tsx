@@ -0,0 +1,33 @@
+import * as React from "react";
+
+import type { ExchangeRate } from "@/lib/schemas";
+import { DEFAULT_CURRENCY, convertAmount, formatMoney } from "@/lib/currency";
+
+export interface CurrencySettings {
+  baseCurrency: string;
+  rates: ExchangeRate[];
+  // Formats in the base currency unless another one is given
+  format: (amount: number, currency?: string) => string;
+  // Converts an amount on a date into the base currency. Amounts without a usable rate are
+  // counted as-is rather than dropped from totals; `hasRate` tells the two apart.
+  toBase: (amount: number, currency: string, date: string) => number;
+  hasRate: (currency: string, date: string) => boolean;
+}
+
+export function createCurrencySettings(baseCurrency: string, rates: ExchangeRate[]): CurrencySettings {
+  return {
+    baseCurrency,
+    rates,
+    format: (amount, currency = baseCurrency) => formatMoney(amount, currency),
+    toBase: (amount, currency, date) => convertAmount(amount, currency, baseCurrency, date, rates) ?? amount,
+    hasRate: (currency, date) => convertAmount(1, currency, baseCurrency, date, rates) !== null,
+  };
+}
+
+export const CurrencyContext = React.createContext<CurrencySettings>(
+  createCurrencySettings(DEFAULT_CURRENCY, [])
+);
+
+export function useCurrency(): CurrencySettings {
+  return React.useContext(CurrencyContext);
+}
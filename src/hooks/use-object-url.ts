@@ -0,0 +1,18 @@
+import * as React from "react";
+
+// A blob: URL for the file that lives as long as the component shows it
+export function useObjectUrl(file: Blob | null | undefined): string | null {
+  const [url, setUrl] = React.useState<string | null>(null);
+
+  React.useEffect(() => {
+    if (!file) {
+      setUrl(null);
+      return;
+    }
+    const next = URL.createObjectURL(file);
+    setUrl(next);
+    return () => URL.revokeObjectURL(next);
+  }, [file]);
+
+  return url;
+}
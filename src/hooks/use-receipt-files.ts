@@ -0,0 +1,20 @@
+import { useToast } from "@/hooks/use-toast";
+import { checkReceiptFile, createReceipt } from "@/lib/receipts";
+
+// Attaches picked files to an expense, reporting any that aren't images or PDFs
+export function useReceiptFiles() {
+  const { toast } = useToast();
+
+  return async (files: FileList | File[], expenseId: string) => {
+    const accepted: File[] = [];
+    Array.from(files).forEach(file => {
+      const error = checkReceiptFile(file);
+      if (error) {
+        toast({ title: "Can't Attach File", description: error, variant: "destructive" });
+      } else {
+        accepted.push(file);
+      }
+    });
+    return Promise.all(accepted.map((file, index) => createReceipt(file, expenseId, index)));
+  };
+}
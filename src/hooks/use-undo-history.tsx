@@ -0,0 +1,106 @@
+import * as React from "react";
+
+import { ToastAction, type ToastActionElement } from "@/components/ui/toast";
+import { toast } from "@/hooks/use-toast";
+
+const MAX_HISTORY = 50;
+
+// A reversible mutation. `apply` runs on execute and redo, `revert` on undo.
+export interface UndoableCommand {
+  label: string;
+  apply: () => void;
+  revert: () => void;
+}
+
+export interface UndoHistory {
+  execute: (command: UndoableCommand) => void;
+  undo: () => void;
+  redo: () => void;
+  canUndo: boolean;
+  canRedo: boolean;
+}
+
+export const UndoHistoryContext = React.createContext<UndoHistory | null>(null);
+
+// Leave Ctrl+Z alone inside form fields so the browser's own text undo keeps working
+const isEditableTarget = (target: EventTarget | null) =>
+  target instanceof HTMLElement &&
+  (target.isContentEditable || ["INPUT", "TEXTAREA", "SELECT"].includes(target.tagName));
+
+export function useUndoHistory(): UndoHistory {
+  const undoStack = React.useRef<UndoableCommand[]>([]);
+  const redoStack = React.useRef<UndoableCommand[]>([]);
+  const [, setVersion] = React.useState(0);
+
+  const actions = React.useMemo(() => {
+    const changed = () => setVersion(version => version + 1);
+
+    function execute(command: UndoableCommand) {
+      command.apply();
+      undoStack.current = [...undoStack.current, command].slice(-MAX_HISTORY);
+      redoStack.current = [];
+      changed();
+    }
+
+    function undo() {
+      const command = undoStack.current.pop();
+      if (!command) return;
+      command.revert();
+      redoStack.current.push(command);
+      changed();
+      toast({
+        title: "Undone ↩️",
+        description: command.label,
+        action: <ToastAction altText="Redo" onClick={redo}>Redo</ToastAction>,
+      });
+    }
+
+    function redo() {
+      const command = redoStack.current.pop();
+      if (!command) return;
+      command.apply();
+      undoStack.current.push(command);
+      changed();
+      toast({
+        title: "Redone ↪️",
+        description: command.label,
+        action: <ToastAction altText="Undo" onClick={undo}>Undo</ToastAction>,
+      });
+    }
+
+    return { execute, undo, redo };
+  }, []);
+
+  React.useEffect(() => {
+    const onKeyDown = (event: KeyboardEvent) => {
+      if (!(event.ctrlKey || event.metaKey) || isEditableTarget(event.target)) return;
+      const key = event.key.toLowerCase();
+      if (key === "z" && !event.shiftKey) {
+        event.preventDefault();
+        actions.undo();
+      } else if ((key === "z" && event.shiftKey) || key === "y") {
+        event.preventDefault();
+        actions.redo();
+      }
+    };
+    window.addEventListener("keydown", onKeyDown);
+    return () => window.removeEventListener("keydown", onKeyDown);
+  }, [actions]);
+
+  return {
+    ...actions,
+    canUndo: undoStack.current.length > 0,
+    canRedo: redoStack.current.length > 0,
+  };
+}
+
+// Returns a factory for the "Undo" button shown inside mutation toasts
+export function useUndoAction() {
+  const history = React.useContext(UndoHistoryContext);
+  return (): ToastActionElement | undefined =>
+    history ? (
+      <ToastAction altText="Undo" onClick={history.undo}>
+        Undo
+      </ToastAction>
+    ) : undefined;
+}
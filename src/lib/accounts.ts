@@ -0,0 +1,62 @@
+import type { Account, AccountType, Expense, Transfer } from "@/lib/schemas";
+
+export const accountTypes: { value: AccountType; label: string; emoji: string }[] = [
+  { value: "cash", label: "Cash", emoji: "💵" },
+  { value: "debit", label: "Debit Card", emoji: "💳" },
+  { value: "credit", label: "Credit Card", emoji: "🏦" },
+  { value: "meal-plan", label: "Meal Plan", emoji: "🍽️" },
+  { value: "other", label: "Other", emoji: "👛" },
+];
+
+export const accountLabel = (account: Account) =>
+  `${accountTypes.find(t => t.value === account.type)?.emoji ?? "👛"} ${account.name}`;
+
+export interface LedgerEntry {
+  id: string;
+  date: string;
+  description: string;
+  // Signed: negative for spending and outgoing transfers
+  amount: number;
+  // Account balance right after this entry
+  balance: number;
+  kind: "expense" | "transfer";
+}
+
+// Every movement on one account, oldest first, with the balance after each
+export const accountLedger = (account: Account, expenses: Expense[], transfers: Transfer[]): LedgerEntry[] => {
+  const movements = [
+    ...expenses
+      .filter(expense => expense.accountId === account.id)
+      .map(expense => ({
+        id: expense.id,
+        date: expense.date,
+        description: expense.description,
+        amount: -expense.amount,
+        kind: "expense" as const,
+      })),
+    ...transfers
+      .filter(transfer => transfer.fromAccountId === account.id || transfer.toAccountId === account.id)
+      .map(transfer => ({
+        id: transfer.id,
+        date: transfer.date,
+        description: transfer.note || "Transfer",
+        amount: transfer.toAccountId === account.id ? transfer.amount : -transfer.amount,
+        kind: "transfer" as const,
+      })),
+  ].sort((a, b) => a.date.localeCompare(b.date));
+
+  let balance = account.openingBalance;
+  return movements.map(movement => {
+    balance += movement.amount;
+    return { ...movement, balance };
+  });
+};
+
+export const accountBalance = (account: Account, expenses: Expense[], transfers: Transfer[]) => {
+  const ledger = accountLedger(account, expenses, transfers);
+  return ledger.length > 0 ? ledger[ledger.length - 1].balance : account.openingBalance;
+};
+
+export const isAccountInUse = (accountId: string, expenses: Expense[], transfers: Transfer[]) =>
+  expenses.some(expense => expense.accountId === accountId) ||
+  transfers.some(transfer => transfer.fromAccountId === accountId || transfer.toAccountId === accountId);
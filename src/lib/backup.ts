@@ -0,0 +1,350 @@
+import type { Budget, CustomCategory } from "@/lib/schemas";
+import type { FinanceRepository, RecordStore } from "@/lib/repository";
+import {
+  SCHEMA_VERSION,
+  SETTING_KEYS,
+  checkStored,
+  type SettingKey,
+  type StoredEntities,
+} from "@/lib/persistence";
+
+export const BACKUP_FORMAT = "student-finance-backup";
+// Bump when the file layout changes; the data inside is versioned separately by SCHEMA_VERSION
+export const BACKUP_VERSION = 1;
+
+const PBKDF2_ITERATIONS = 250_000;
+
+export const RECORD_ENTITIES = [
+  "expenses",
+  "incomes",
+  "recurring",
+  "accounts",
+  "transfers",
+  "rates",
+  "settlements",
+  "goals",
+  "periods",
+  "rollover",
+  "envelopes",
+  "rules",
+  "merchants",
+  "searches",
+] as const;
+export type RecordEntity = (typeof RECORD_ENTITIES)[number];
+
+// Everything the app keeps under student-finance-* keys
+export type AppSnapshot = { [N in RecordEntity]: StoredEntities[N] } & {
+  budget: Budget;
+  categories: CustomCategory[];
+  settings: Partial<Record<SettingKey, string>>;
+};
+
+interface BackupFile {
+  format: typeof BACKUP_FORMAT;
+  version: number;
+  schemaVersion: number;
+  createdAt: string;
+  data: AppSnapshot;
+}
+
+interface EncryptedBackupFile {
+  format: typeof BACKUP_FORMAT;
+  version: number;
+  encrypted: true;
+  kdf: { name: "PBKDF2"; hash: "SHA-256"; iterations: number; salt: string };
+  cipher: { name: "AES-GCM"; iv: string };
+  payload: string;
+}
+
+export interface ParsedBackup {
+  snapshot: AppSnapshot | null;
+  createdAt: string | null;
+  // Records that failed validation and were left out
+  rejected: number;
+  error: string | null;
+}
+
+export type RestoreMode = "merge" | "replace";
+
+// What to do with a record that exists on both sides with different contents
+export type ConflictPolicy = "keep-current" | "use-backup";
+
+export interface RestoreConflict {
+  entity: string;
+  id: string;
+  label: string;
+}
+
+export interface RestorePlan {
+  snapshot: AppSnapshot;
+  added: number;
+  // Replace mode only: current records the backup doesn't have
+  removed: number;
+  conflicts: RestoreConflict[];
+}
+
+const entityLabels: Record<RecordEntity | "budget" | "categories" | "settings", string> = {
+  expenses: "Expense",
+  incomes: "Income",
+  recurring: "Recurring expense",
+  accounts: "Account",
+  transfers: "Transfer",
+  rates: "Exchange rate",
+  settlements: "Settlement",
+  goals: "Savings goal",
+  periods: "Budget period",
+  rollover: "Rollover rule",
+  envelopes: "Envelope plan",
+  rules: "Categorization rule",
+  merchants: "Merchant",
+  searches: "Saved search",
+  budget: "Budget",
+  categories: "Category",
+  settings: "Setting",
+};
+
+const toBase64 = (bytes: Uint8Array) => {
+  let binary = "";
+  // Chunked so large backups don't overflow the argument limit of fromCharCode
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
+};
+
+const fromBase64 = (text: string) => Uint8Array.from(atob(text), char => char.charCodeAt(0));
+
+const deriveKey = async (passphrase: string, salt: Uint8Array, iterations: number) => {
+  const material = await crypto.subtle.importKey("raw", new TextEncoder().encode(passphrase), "PBKDF2", false, [
+    "deriveKey",
+  ]);
+  return crypto.subtle.deriveKey(
+    { name: "PBKDF2", hash: "SHA-256", salt, iterations },
+    material,
+    { name: "AES-GCM", length: 256 },
+    false,
+    ["encrypt", "decrypt"]
+  );
+};
+
+// JSON text for a backup file, encrypted with AES-GCM when a passphrase is given
+export const createBackup = async (snapshot: AppSnapshot, passphrase?: string): Promise<string> => {
+  const backup: BackupFile = {
+    format: BACKUP_FORMAT,
+    version: BACKUP_VERSION,
+    schemaVersion: SCHEMA_VERSION,
+    createdAt: new Date().toISOString(),
+    data: snapshot,
+  };
+  if (!passphrase) return JSON.stringify(backup, null, 2);
+
+  const salt = crypto.getRandomValues(new Uint8Array(16));
+  const iv = crypto.getRandomValues(new Uint8Array(12));
+  const key = await deriveKey(passphrase, salt, PBKDF2_ITERATIONS);
+  const payload = await crypto.subtle.encrypt({ name: "AES-GCM", iv }, key, new TextEncoder().encode(JSON.stringify(backup)));
+
+  const encrypted: EncryptedBackupFile = {
+    format: BACKUP_FORMAT,
+    version: BACKUP_VERSION,
+    encrypted: true,
+    kdf: { name: "PBKDF2", hash: "SHA-256", iterations: PBKDF2_ITERATIONS, salt: toBase64(salt) },
+    cipher: { name: "AES-GCM", iv: toBase64(iv) },
+    payload: toBase64(new Uint8Array(payload)),
+  };
+  return JSON.stringify(encrypted, null, 2);
+};
+
+const parseJson = (text: string): unknown => {
+  try {
+    return JSON.parse(text);
+  } catch {
+    return null;
+  }
+};
+
+const isBackup = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && (value as { format?: unknown }).format === BACKUP_FORMAT;
+
+export const isEncryptedBackup = (text: string) => {
+  const parsed = parseJson(text);
+  return isBackup(parsed) && parsed.encrypted === true;
+};
+
+const failed = (error: string): ParsedBackup => ({ snapshot: null, createdAt: null, rejected: 0, error });
+
+// Reads a backup file, decrypting it first if needed, and upgrades its data to the current schema
+export const parseBackup = async (text: string, passphrase?: string): Promise<ParsedBackup> => {
+  let parsed = parseJson(text);
+  if (!isBackup(parsed)) return failed("This isn't a Student Finance backup file.");
+  if (typeof parsed.version !== "number" || parsed.version > BACKUP_VERSION) {
+    return failed("This backup was made by a newer version of the app.");
+  }
+
+  if (parsed.encrypted === true) {
+    if (!passphrase) return failed("This backup is encrypted. Enter its passphrase.");
+    const file = parsed as unknown as EncryptedBackupFile;
+    try {
+      const key = await deriveKey(passphrase, fromBase64(file.kdf.salt), file.kdf.iterations);
+      const plain = await crypto.subtle.decrypt(
+        { name: "AES-GCM", iv: fromBase64(file.cipher.iv) },
+        key,
+        fromBase64(file.payload)
+      );
+      parsed = parseJson(new TextDecoder().decode(plain));
+    } catch {
+      // AES-GCM authentication fails the same way for a wrong passphrase and a damaged file
+      return failed("Wrong passphrase, or the file is damaged.");
+    }
+    if (!isBackup(parsed)) return failed("The decrypted backup is unreadable.");
+  }
+
+  const file = parsed as unknown as BackupFile;
+  const data = (typeof file.data === "object" && file.data !== null ? file.data : {}) as Record<string, unknown>;
+  if (typeof file.schemaVersion !== "number" || file.schemaVersion > SCHEMA_VERSION) {
+    return failed("This backup was made by a newer version of the app.");
+  }
+
+  const rawSettings = (typeof data.settings === "object" && data.settings !== null ? data.settings : {}) as Record<
+    string,
+    unknown
+  >;
+  const settings: AppSnapshot["settings"] = {};
+  SETTING_KEYS.forEach(key => {
+    if (typeof rawSettings[key] === "string") settings[key] = rawSettings[key] as string;
+  });
+
+  let rejected = 0;
+  // Older backups upgrade against their own base currency, not the current one
+  const check = <N extends RecordEntity | "budget" | "categories">(name: N) => {
+    if (data[name] === undefined) return null;
+    const result = checkStored(name, data[name], file.schemaVersion, settings["base-currency"] ?? null);
+    rejected += result.rejected;
+    return result.data;
+  };
+
+  const snapshot = {
+    budget: check("budget") ?? {},
+    categories: check("categories") ?? [],
+    settings,
+  } as AppSnapshot;
+  RECORD_ENTITIES.forEach(name => {
+    (snapshot as Record<string, unknown>)[name] = check(name) ?? [];
+  });
+
+  return { snapshot, createdAt: typeof file.createdAt === "string" ? file.createdAt : null, rejected, error: null };
+};
+
+// Key order differs between records built in the app and records parsed from JSON
+const stableJson = (value: unknown): string => {
+  if (Array.isArray(value)) return `[${value.map(stableJson).join(",")}]`;
+  if (typeof value === "object" && value !== null) {
+    return `{${Object.keys(value)
+      .sort()
+      .filter(key => (value as Record<string, unknown>)[key] !== undefined)
+      .map(key => `${JSON.stringify(key)}:${stableJson((value as Record<string, unknown>)[key])}`)
+      .join(",")}}`;
+  }
+  return JSON.stringify(value);
+};
+
+const recordLabel = (record: Record<string, unknown>) =>
+  String(record.description ?? record.name ?? record.label ?? record.note ?? record.id);
+
+interface MergeResult<T> {
+  merged: T[];
+  added: number;
+  removed: number;
+  conflicts: RestoreConflict[];
+}
+
+const mergeById = <T extends { id: string }>(
+  entity: string,
+  current: T[],
+  incoming: T[],
+  mode: RestoreMode,
+  policy: ConflictPolicy
+): MergeResult<T> => {
+  const currentById = new Map(current.map(record => [record.id, record]));
+  const incomingIds = new Set(incoming.map(record => record.id));
+  const conflicts: RestoreConflict[] = [];
+  let added = 0;
+
+  const fromBackup = incoming.map(record => {
+    const existing = currentById.get(record.id);
+    if (!existing) {
+      added++;
+      return record;
+    }
+    if (stableJson(existing) === stableJson(record)) return existing;
+    conflicts.push({ entity, id: record.id, label: recordLabel(record as unknown as Record<string, unknown>) });
+    return policy === "use-backup" || mode === "replace" ? record : existing;
+  });
+
+  const onlyCurrent = current.filter(record => !incomingIds.has(record.id));
+  return mode === "replace"
+    ? { merged: fromBackup, added, removed: onlyCurrent.length, conflicts }
+    : { merged: [...fromBackup, ...onlyCurrent], added, removed: 0, conflicts };
+};
+
+// Combines the current data with a backup. Replace keeps only the backup; merge keeps both and
+// settles records that differ according to the policy. Either way, differences are reported.
+export const planRestore = (
+  current: AppSnapshot,
+  incoming: AppSnapshot,
+  mode: RestoreMode,
+  policy: ConflictPolicy
+): RestorePlan => {
+  const snapshot = { ...current };
+  let added = 0;
+  let removed = 0;
+  const conflicts: RestoreConflict[] = [];
+
+  const collect = <T>(result: MergeResult<T>) => {
+    added += result.added;
+    removed += result.removed;
+    conflicts.push(...result.conflicts);
+    return result.merged;
+  };
+
+  RECORD_ENTITIES.forEach(name => {
+    (snapshot as Record<string, unknown>)[name] = collect(
+      mergeById(entityLabels[name], current[name] as { id: string }[], incoming[name] as { id: string }[], mode, policy)
+    );
+  });
+  snapshot.categories = collect(mergeById(entityLabels.categories, current.categories, incoming.categories, mode, policy));
+
+  // Budget limits and settings are keyed values rather than records
+  const mergeValues = <V>(entity: "budget" | "settings", mine: Record<string, V>, theirs: Record<string, V>) => {
+    const result: Record<string, V> = mode === "replace" ? { ...theirs } : { ...mine };
+    Object.entries(theirs).forEach(([key, value]) => {
+      if (!(key in mine)) {
+        result[key] = value;
+      } else if (stableJson(mine[key]) !== stableJson(value)) {
+        conflicts.push({ entity: entityLabels[entity], id: key, label: key });
+        if (policy === "use-backup" || mode === "replace") result[key] = value;
+      }
+    });
+    if (mode === "replace" && entity === "budget") removed += Object.keys(mine).filter(key => !(key in theirs)).length;
+    return result;
+  };
+  snapshot.budget = mergeValues("budget", current.budget, incoming.budget);
+  // A replace never drops a setting the backup doesn't mention; the app would just fall back to defaults
+  snapshot.settings = { ...current.settings, ...mergeValues("settings", current.settings, incoming.settings) };
+
+  return { snapshot, added, removed, conflicts };
+};
+
+// Overwrites everything in the repository with the snapshot
+export const writeSnapshot = async (repository: FinanceRepository, snapshot: AppSnapshot) => {
+  await Promise.all([
+    ...RECORD_ENTITIES.map(name =>
+      (repository[name] as RecordStore<{ id: string }>).replaceAll(snapshot[name] as { id: string }[])
+    ),
+    repository.budgets.save(snapshot.budget),
+    repository.categories.saveAll(snapshot.categories),
+    ...Object.entries(snapshot.settings).map(([key, value]) => repository.settings.set(key, value)),
+  ]);
+};
+
+export const snapshotSize = (snapshot: AppSnapshot) =>
+  RECORD_ENTITIES.reduce((sum, name) => sum + snapshot[name].length, 0);
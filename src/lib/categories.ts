@@ -0,0 +1,121 @@
+import type { Budget, CustomCategory } from "@/lib/schemas";
+
+export const defaultCategories: CustomCategory[] = [
+  { id: "food", value: "food", label: "Food & Dining", emoji: "🍕", color: "bg-orange-500", keywords: ["food", "restaurant", "lunch", "dinner", "breakfast", "coffee", "pizza"] },
+  { id: "transport", value: "transport", label: "Transport", emoji: "🚗", color: "bg-blue-500", keywords: ["uber", "taxi", "bus", "train", "gas", "fuel", "metro"] },
+  { id: "entertainment", value: "entertainment", label: "Entertainment", emoji: "🎮", color: "bg-purple-500", keywords: ["movie", "game", "netflix", "spotify", "concert", "party"] },
+  { id: "bills", value: "bills", label: "Bills & Utilities", emoji: "📋", color: "bg-red-500", keywords: ["rent", "electricity", "water", "internet", "phone", "bill"] },
+  { id: "education", value: "education", label: "Education", emoji: "📚", color: "bg-green-500", keywords: ["book", "course", "tuition", "school", "university", "study"] },
+  { id: "others", value: "others", label: "Others", emoji: "🔍", color: "bg-gray-500", keywords: [] }
+];
+
+// Colors a category can take, each with the lighter badge style used in lists.
+// Written out in full so Tailwind keeps every class in the build.
+export const categoryColors: Record<string, string> = {
+  "bg-red-500": "bg-red-100 text-red-800 border-red-200",
+  "bg-blue-500": "bg-blue-100 text-blue-800 border-blue-200",
+  "bg-green-500": "bg-green-100 text-green-800 border-green-200",
+  "bg-yellow-500": "bg-yellow-100 text-yellow-800 border-yellow-200",
+  "bg-purple-500": "bg-purple-100 text-purple-800 border-purple-200",
+  "bg-pink-500": "bg-pink-100 text-pink-800 border-pink-200",
+  "bg-indigo-500": "bg-indigo-100 text-indigo-800 border-indigo-200",
+  "bg-orange-500": "bg-orange-100 text-orange-800 border-orange-200",
+  "bg-teal-500": "bg-teal-100 text-teal-800 border-teal-200",
+  "bg-cyan-500": "bg-cyan-100 text-cyan-800 border-cyan-200",
+  "bg-lime-500": "bg-lime-100 text-lime-800 border-lime-200",
+  "bg-emerald-500": "bg-emerald-100 text-emerald-800 border-emerald-200",
+  "bg-gray-500": "bg-gray-100 text-gray-800 border-gray-200",
+};
+
+export const categoryBadgeClass = (color: string) => categoryColors[color] ?? categoryColors["bg-gray-500"];
+
+export const categoryLabel = (category: Pick<CustomCategory, "emoji" | "label">) =>
+  category.emoji ? `${category.emoji} ${category.label}` : category.label;
+
+// Stand-in for a category that was deleted while expenses still use it
+export const unknownCategory = (value: string): CustomCategory => ({
+  id: value,
+  value,
+  label: value.charAt(0).toUpperCase() + value.slice(1).replace(/[-_]/g, " "),
+  emoji: "🏷️",
+  color: "bg-gray-500",
+  keywords: [],
+});
+
+// Subcategories nest one level deep, so a category's parent is always top-level
+export interface CategoryNode {
+  category: CustomCategory;
+  depth: number;
+}
+
+// The parent a category rolls up into, ignoring parents that no longer exist
+const parentOf = (categories: CustomCategory[], category: CustomCategory) =>
+  category.parent && categories.some(parent => parent.value === category.parent && !parent.parent)
+    ? category.parent
+    : null;
+
+export const childCategories = (categories: CustomCategory[], value: string) =>
+  categories.filter(category => parentOf(categories, category) === value);
+
+// Top-level categories in order, each followed by its subcategories
+export const categoryTree = (categories: CustomCategory[]): CategoryNode[] =>
+  categories
+    .filter(category => !parentOf(categories, category))
+    .flatMap(category => [
+      { category, depth: 0 },
+      ...childCategories(categories, category.value).map(child => ({ category: child, depth: 1 })),
+    ]);
+
+// The category and its subcategories, i.e. every value whose spending counts towards it
+export const categoryFamily = (categories: CustomCategory[], value: string) => [
+  value,
+  ...childCategories(categories, value).map(child => child.value),
+];
+
+// Top-level category a value rolls up into; itself when it isn't a subcategory
+export const rootCategory = (categories: CustomCategory[], value: string) => {
+  const category = categories.find(c => c.value === value);
+  return (category && parentOf(categories, category)) ?? value;
+};
+
+// Spending per category with each subcategory's spending also counted in its parent
+export const rollupSpending = (categories: CustomCategory[], spending: Budget): Budget => {
+  const rolled = { ...spending };
+  categories.forEach(category => {
+    const parent = parentOf(categories, category);
+    if (parent) rolled[parent] = (rolled[parent] || 0) + (spending[category.value] || 0);
+  });
+  return rolled;
+};
+
+// Sum of limits without counting money twice: a subcategory's limit only adds to the
+// total when its parent has no limit, as the parent's limit already covers its spending
+export const budgetTotal = (categories: CustomCategory[], budget: Budget) =>
+  Object.entries(budget).reduce((sum, [value, amount]) => {
+    const root = rootCategory(categories, value);
+    return root !== value && budget[root] ? sum : sum + (amount || 0);
+  }, 0);
+
+// Whole words only, so "bus" doesn't match "business"; plurals still count
+const keywordMatches = (description: string, keyword: string) => {
+  if (!keyword) return false;
+  const escaped = keyword.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+  return new RegExp(`(^|[^\\p{L}\\p{N}])${escaped}(e?s)?($|[^\\p{L}\\p{N}])`, "u").test(description);
+};
+
+// First category whose keywords appear in the description, falling back to "others".
+// Subcategories are tried first so "coffee" lands in Coffee rather than its parent.
+// Categorization rules run before this; see categorize in rules.ts.
+export const smartCategorize = (description: string, categories: CustomCategory[]): string => {
+  const desc = description.toLowerCase();
+  const ordered = [
+    ...categories.filter(category => parentOf(categories, category)),
+    ...categories.filter(category => !parentOf(categories, category)),
+  ];
+  for (const category of ordered) {
+    if (category.keywords.some(keyword => keywordMatches(desc, keyword))) {
+      return category.value;
+    }
+  }
+  return "others";
+};
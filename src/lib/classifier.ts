@@ -0,0 +1,158 @@
+import type { Expense } from "@/lib/schemas";
+
+// Naive Bayes over description words and an amount bucket, trained on the categories the user
+// picked for their own expenses. Everything stays in memory in the browser; nothing is sent anywhere.
+
+// Below this the form falls back to category keywords
+export const MIN_CONFIDENCE = 0.6;
+// Too little history to say anything useful about personal merchants
+const MIN_EXAMPLES = 5;
+// An expense whose category the user changed by hand counts this many times over
+const CORRECTION_WEIGHT = 3;
+// Upper bounds of the amount buckets; anything larger shares the last bucket
+const AMOUNT_BUCKETS = [5, 10, 20, 50, 100, 250];
+
+export interface ClassifierModel {
+  // Weighted number of training expenses per category
+  examples: Map<string, number>;
+  // Weighted feature counts per category
+  features: Map<string, Map<string, number>>;
+  // Sum of each category's feature counts
+  featureTotals: Map<string, number>;
+  // Weighted number of times each feature has been seen in any category
+  vocabulary: Map<string, number>;
+}
+
+export interface CategoryPrediction {
+  category: string;
+  // Posterior probability of the category, 0–1
+  confidence: number;
+}
+
+// What one expense contributed to the model, kept so it can be taken back out again
+interface TrainingExample {
+  category: string;
+  features: string[];
+  weight: number;
+}
+
+// The model plus what each expense contributed, so updates only touch expenses that changed
+export interface ClassifierTrainer {
+  model: ClassifierModel;
+  trained: Map<string, TrainingExample>;
+}
+
+export const emptyModel = (): ClassifierModel => ({
+  examples: new Map(),
+  features: new Map(),
+  featureTotals: new Map(),
+  vocabulary: new Map(),
+});
+
+export const createTrainer = (): ClassifierTrainer => ({ model: emptyModel(), trained: new Map() });
+
+// Lowercase words of two or more characters; "Joe's" and "joes" both become "joe"
+export const tokenize = (description: string) => [
+  ...new Set(
+    description
+      .toLowerCase()
+      .replace(/['’]s\b/g, "")
+      .split(/[^\p{L}\p{N}]+/u)
+      .map(word => (word.length > 3 && word.endsWith("s") ? word.slice(0, -1) : word))
+      .filter(word => word.length >= 2 && !/^\d+$/.test(word))
+  ),
+];
+
+const amountFeature = (amount: number) => {
+  const bucket = AMOUNT_BUCKETS.findIndex(limit => amount < limit);
+  return `amount:${bucket === -1 ? AMOUNT_BUCKETS.length : bucket}`;
+};
+
+const featuresOf = (description: string, amount: number) => [...tokenize(description), amountFeature(amount)];
+
+const add = (counts: Map<string, number>, key: string, by: number) => {
+  const next = (counts.get(key) ?? 0) + by;
+  if (next > 1e-9) counts.set(key, next);
+  else counts.delete(key);
+};
+
+// Adds an example to the model, or takes it back out with a negative weight
+const learn = (model: ClassifierModel, { category, features, weight }: TrainingExample) => {
+  add(model.examples, category, weight);
+  const counts = model.features.get(category) ?? new Map<string, number>();
+  features.forEach(feature => {
+    add(counts, feature, weight);
+    add(model.vocabulary, feature, weight);
+  });
+  add(model.featureTotals, category, weight * features.length);
+  if (counts.size > 0) model.features.set(category, counts);
+  else model.features.delete(category);
+};
+
+// Categories filled in by rules, keywords, imports or the model itself would only teach it to agree
+// with itself. Expenses from before sources were recorded are counted as the user's picks.
+const isUserLabel = (expense: Expense) => !expense.categorySource || expense.categorySource === "manual";
+
+const exampleOf = (expense: Expense): TrainingExample => ({
+  category: expense.category,
+  features: featuresOf(expense.description, expense.amount),
+  weight: expense.history?.some(change => change.field === "category") ? CORRECTION_WEIGHT : 1,
+});
+
+const sameExample = (a: TrainingExample, b: TrainingExample) =>
+  a.category === b.category &&
+  a.weight === b.weight &&
+  a.features.length === b.features.length &&
+  a.features.every((feature, index) => feature === b.features[index]);
+
+// Brings the model up to date with the expense list: new expenses are learned, deleted ones
+// forgotten, and edited ones (including category corrections) swapped for their new version.
+// Amounts are expected in the base currency so the amount buckets mean the same for every expense.
+export const syncTrainer = (trainer: ClassifierTrainer, expenses: Expense[]) => {
+  const seen = new Set<string>();
+  expenses.forEach(expense => {
+    if (!isUserLabel(expense)) return;
+    seen.add(expense.id);
+    const example = exampleOf(expense);
+    const previous = trainer.trained.get(expense.id);
+    if (previous && sameExample(previous, example)) return;
+    if (previous) learn(trainer.model, { ...previous, weight: -previous.weight });
+    learn(trainer.model, example);
+    trainer.trained.set(expense.id, example);
+  });
+  trainer.trained.forEach((example, id) => {
+    if (seen.has(id)) return;
+    learn(trainer.model, { ...example, weight: -example.weight });
+    trainer.trained.delete(id);
+  });
+};
+
+// Most likely category for a description and amount, or null when the model has too little
+// to go on: not enough history, fewer than two categories, or no word it has seen before
+export const predictCategory = (
+  model: ClassifierModel,
+  description: string,
+  amount: number
+): CategoryPrediction | null => {
+  const totalExamples = [...model.examples.values()].reduce((sum, count) => sum + count, 0);
+  if (totalExamples < MIN_EXAMPLES || model.examples.size < 2) return null;
+
+  const words = tokenize(description).filter(word => model.vocabulary.has(word));
+  if (words.length === 0) return null;
+  const features = [...words, amountFeature(amount)];
+  const vocabularySize = model.vocabulary.size;
+
+  // Log scores with add-one smoothing, then normalised into probabilities
+  const scores = [...model.examples.entries()].map(([category, count]) => {
+    const counts = model.features.get(category);
+    const total = model.featureTotals.get(category) ?? 0;
+    const score = features.reduce(
+      (sum, feature) => sum + Math.log(((counts?.get(feature) ?? 0) + 1) / (total + vocabularySize)),
+      Math.log(count / totalExamples)
+    );
+    return { category, score };
+  });
+  const best = scores.reduce((top, entry) => (entry.score > top.score ? entry : top));
+  const normaliser = scores.reduce((sum, entry) => sum + Math.exp(entry.score - best.score), 0);
+  return { category: best.category, confidence: 1 / normaliser };
+};
@@ -0,0 +1,312 @@
+import type { CategoryRule, CustomCategory, Expense } from "@/lib/schemas";
+import { categorize, type ToBase } from "@/lib/rules";
+
+export const DELIMITERS = [",", ";", "\t", "|"] as const;
+export type Delimiter = (typeof DELIMITERS)[number];
+
+export const DATE_FORMATS = ["YYYY-MM-DD", "MM/DD/YYYY", "DD/MM/YYYY", "DD.MM.YYYY", "YYYY/MM/DD"] as const;
+export type DateFormat = (typeof DATE_FORMATS)[number];
+
+export const delimiterLabels: Record<Delimiter, string> = {
+  ",": "Comma",
+  ";": "Semicolon",
+  "\t": "Tab",
+  "|": "Pipe",
+};
+
+// Column index for each expense field; null when the file has no such column
+export interface ColumnMapping {
+  date: number | null;
+  description: number | null;
+  amount: number | null;
+  category: number | null;
+  currency: number | null;
+}
+
+export type MappedField = keyof ColumnMapping;
+
+// Bank exports usually list spending as negative numbers next to positive credits
+export type AmountSign = "absolute" | "negative-is-expense";
+
+export interface ImportOptions {
+  mapping: ColumnMapping;
+  dateFormat: DateFormat;
+  amountSign: AmountSign;
+  // Used when there is no currency column
+  currency: string;
+}
+
+export interface ImportRow {
+  // Line in the file, 1-based, for messages
+  line: number;
+  cells: string[];
+  expense?: Expense;
+  error?: string;
+  duplicateOf?: Expense;
+}
+
+// RFC 4180-style parsing: quoted cells may contain the delimiter, newlines and doubled quotes
+export const parseCsv = (text: string, delimiter: Delimiter): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = "";
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"' && cell.trim() === "") {
+      quoted = true;
+      cell = "";
+    } else if (char === delimiter) {
+      row.push(cell.trim());
+      cell = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && text[i + 1] === "\n") i++;
+      row.push(cell.trim());
+      rows.push(row);
+      row = [];
+      cell = "";
+    } else {
+      cell += char;
+    }
+  }
+  if (cell || row.length > 0) {
+    row.push(cell.trim());
+    rows.push(row);
+  }
+
+  return rows.filter(cells => cells.some(value => value !== ""));
+};
+
+// The delimiter that splits the first lines into the same, largest number of columns
+export const detectDelimiter = (text: string): Delimiter => {
+  const sample = text.split(/\r?\n/).filter(line => line.trim()).slice(0, 10).join("\n");
+  let best: Delimiter = ",";
+  let bestScore = 0;
+
+  DELIMITERS.forEach(delimiter => {
+    const counts = parseCsv(sample, delimiter).map(cells => cells.length);
+    if (counts.length === 0) return;
+    const consistent = counts.filter(count => count === counts[0]).length / counts.length;
+    const score = counts[0] > 1 ? consistent * counts[0] : 0;
+    if (score > bestScore) {
+      best = delimiter;
+      bestScore = score;
+    }
+  });
+
+  return best;
+};
+
+const DATE_PATTERNS: Record<DateFormat, RegExp> = {
+  "YYYY-MM-DD": /^(\d{4})-(\d{1,2})-(\d{1,2})/,
+  "MM/DD/YYYY": /^(\d{1,2})\/(\d{1,2})\/(\d{2}|\d{4})$/,
+  "DD/MM/YYYY": /^(\d{1,2})\/(\d{1,2})\/(\d{2}|\d{4})$/,
+  "DD.MM.YYYY": /^(\d{1,2})\.(\d{1,2})\.(\d{2}|\d{4})$/,
+  "YYYY/MM/DD": /^(\d{4})\/(\d{1,2})\/(\d{1,2})$/,
+};
+
+const pad = (n: number) => String(n).padStart(2, "0");
+
+// YYYY-MM-DD, or null when the value doesn't fit the format or isn't a real date
+export const parseDate = (value: string, format: DateFormat): string | null => {
+  const match = DATE_PATTERNS[format].exec(value.trim());
+  if (!match) return null;
+
+  const [a, b, c] = match.slice(1).map(Number);
+  let year: number, month: number, day: number;
+  switch (format) {
+    case "YYYY-MM-DD":
+    case "YYYY/MM/DD":
+      [year, month, day] = [a, b, c];
+      break;
+    case "MM/DD/YYYY":
+      [month, day, year] = [a, b, c];
+      break;
+    default:
+      [day, month, year] = [a, b, c];
+  }
+  if (year < 100) year += 2000;
+
+  const date = new Date(year, month - 1, day);
+  if (date.getFullYear() !== year || date.getMonth() !== month - 1 || date.getDate() !== day) return null;
+  return `${year}-${pad(month)}-${pad(day)}`;
+};
+
+// The first format every sample parses with. Day-first wins over month-first only when a sample proves it.
+export const detectDateFormat = (samples: string[]): DateFormat => {
+  const values = samples.map(sample => sample.trim()).filter(Boolean);
+  return DATE_FORMATS.find(format => values.length > 0 && values.every(value => parseDate(value, format))) ?? "YYYY-MM-DD";
+};
+
+// Handles currency symbols, thousands separators, decimal commas and accounting-style (12.00) negatives
+export const parseAmount = (value: string): number | null => {
+  let text = value.trim().replace(/[^\d.,()\-+]/g, "");
+  const negative = /^\(.*\)$/.test(text) || text.startsWith("-") || text.endsWith("-");
+  text = text.replace(/[()\-+]/g, "");
+  if (!text) return null;
+
+  const lastComma = text.lastIndexOf(",");
+  const lastDot = text.lastIndexOf(".");
+  if (lastComma > lastDot && text.length - lastComma <= 3) {
+    // 1.234,56 or 12,5: the comma is the decimal separator
+    text = text.replace(/\./g, "").replace(",", ".");
+  } else {
+    text = text.replace(/,/g, "");
+  }
+
+  const amount = Number(text);
+  if (!Number.isFinite(amount)) return null;
+  return negative ? -amount : amount;
+};
+
+const HEADER_HINTS: Record<MappedField, RegExp> = {
+  date: /date|posted|time|day/i,
+  description: /desc|memo|payee|merchant|details|narrative|name|reference/i,
+  amount: /amount|value|debit|sum|total|price|cost/i,
+  category: /categor|type/i,
+  currency: /curr|ccy/i,
+};
+
+// Whether the first row is a header rather than data: it has no parseable amount or date
+export const looksLikeHeader = (cells: string[]) =>
+  !cells.some(cell => DATE_FORMATS.some(format => parseDate(cell, format)) || /^[-(]?[$€£¥]?\d/.test(cell));
+
+// Guesses columns from header names, falling back to what the first data rows contain
+export const guessMapping = (header: string[] | null, rows: string[][]): ColumnMapping => {
+  const mapping: ColumnMapping = { date: null, description: null, amount: null, category: null, currency: null };
+  const taken = new Set<number>();
+  const claim = (field: MappedField, index: number) => {
+    if (index < 0 || taken.has(index) || mapping[field] !== null) return;
+    mapping[field] = index;
+    taken.add(index);
+  };
+
+  if (header) {
+    (Object.keys(HEADER_HINTS) as MappedField[]).forEach(field => {
+      claim(field, header.findIndex((name, index) => !taken.has(index) && HEADER_HINTS[field].test(name)));
+    });
+  }
+
+  const sample = rows.slice(0, 20);
+  const columnCount = Math.max(0, ...sample.map(cells => cells.length));
+  const columnMatches = (index: number, test: (value: string) => boolean) =>
+    sample.length > 0 && sample.every(cells => cells[index] !== undefined && test(cells[index]));
+
+  for (let index = 0; index < columnCount; index++) {
+    if (columnMatches(index, value => DATE_FORMATS.some(format => parseDate(value, format)))) claim("date", index);
+  }
+  for (let index = 0; index < columnCount; index++) {
+    if (columnMatches(index, value => parseAmount(value) !== null && /\d/.test(value))) claim("amount", index);
+  }
+  for (let index = 0; index < columnCount; index++) {
+    if (columnMatches(index, value => /[a-z]/i.test(value))) claim("description", index);
+  }
+
+  return mapping;
+};
+
+// "Amount (EUR)" in the header says which currency the column is in
+export const currencyFromHeader = (name: string | undefined) => /\(([A-Z]{3})\)/.exec(name ?? "")?.[1] ?? null;
+
+const descriptionTokens = (description: string) =>
+  new Set(description.toLowerCase().split(/[^a-z0-9]+/).filter(token => token.length > 1));
+
+// Same wording, or one description contains the other, or most of their words overlap
+export const similarDescriptions = (a: string, b: string) => {
+  const left = a.trim().toLowerCase();
+  const right = b.trim().toLowerCase();
+  if (!left || !right) return left === right;
+  if (left.includes(right) || right.includes(left)) return true;
+
+  const leftTokens = descriptionTokens(left);
+  const rightTokens = descriptionTokens(right);
+  const shared = [...leftTokens].filter(token => rightTokens.has(token)).length;
+  const union = new Set([...leftTokens, ...rightTokens]).size;
+  return union > 0 && shared / union >= 0.5;
+};
+
+// An existing expense on the same date for the same amount with a similar description
+export const findDuplicate = <T extends Pick<Expense, "date" | "amount" | "description">>(
+  candidate: Pick<Expense, "date" | "amount" | "description">,
+  existing: T[]
+): T | undefined =>
+  existing.find(
+    expense =>
+      expense.date === candidate.date &&
+      Math.abs(expense.amount - candidate.amount) < 0.005 &&
+      similarDescriptions(expense.description, candidate.description)
+  );
+
+// Turns mapped rows into expenses, flagging anything unreadable or already recorded.
+// A category column wins; otherwise the categorization rules pick one.
+export const buildImportRows = (
+  rows: string[][],
+  firstLine: number,
+  options: ImportOptions,
+  categories: CustomCategory[],
+  existing: Expense[],
+  rules: CategoryRule[] = [],
+  toBase?: ToBase
+): ImportRow[] => {
+  const { mapping, dateFormat, amountSign, currency } = options;
+  const stamp = Date.now();
+  const accepted: Expense[] = [];
+
+  return rows.map((cells, index) => {
+    const line = firstLine + index;
+    const cell = (field: MappedField) => (mapping[field] === null ? "" : cells[mapping[field]] ?? "");
+
+    if (mapping.date === null || mapping.amount === null || mapping.description === null) {
+      return { line, cells, error: "Map the date, description and amount columns" };
+    }
+
+    const date = parseDate(cell("date"), dateFormat);
+    if (!date) return { line, cells, error: `Unreadable date "${cell("date")}"` };
+
+    const rawAmount = parseAmount(cell("amount"));
+    if (rawAmount === null || rawAmount === 0) return { line, cells, error: `Unreadable amount "${cell("amount")}"` };
+    if (amountSign === "negative-is-expense" && rawAmount > 0) {
+      return { line, cells, error: "Credit, not spending" };
+    }
+
+    const description = cell("description") || "Imported expense";
+    const rawCategory = cell("category").toLowerCase();
+    const rowCurrency = cell("currency").toUpperCase();
+    const expenseCurrency = /^[A-Z]{3}$/.test(rowCurrency) ? rowCurrency : currency;
+    const ruled = categorize(
+      rules,
+      categories,
+      { description, amount: Math.abs(rawAmount), date, currency: expenseCurrency },
+      undefined,
+      toBase
+    );
+    const named = categories.find(c => c.value === rawCategory || c.label.toLowerCase() === rawCategory);
+
+    const expense: Expense = {
+      id: `${stamp}-${index}`,
+      date,
+      description,
+      category: named?.value ?? ruled.category,
+      categorySource: named ? "import" : ruled.source,
+      amount: Math.abs(rawAmount),
+      currency: expenseCurrency,
+      ...(ruled.tags.length ? { tags: ruled.tags } : {}),
+      ...(ruled.notes ? { notes: ruled.notes } : {}),
+    };
+
+    // Rows repeated within the same file count as duplicates too
+    const duplicateOf = findDuplicate(expense, existing) ?? findDuplicate(expense, accepted);
+    accepted.push(expense);
+    return { line, cells, expense, ...(duplicateOf ? { duplicateOf } : {}) };
+  });
+};
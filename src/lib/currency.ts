@@ -0,0 +1,161 @@
+import type { ExchangeRate } from "@/lib/schemas";
+
+export const DEFAULT_CURRENCY = "USD";
+
+// Offered in currency pickers; any other ISO code still works once it appears in the rate table
+export const commonCurrencies = [
+  "USD", "EUR", "GBP", "CAD", "AUD", "NZD", "CHF", "JPY", "CNY", "KRW",
+  "INR", "SGD", "HKD", "MXN", "BRL", "NGN", "ZAR", "SEK", "NOK", "TRY",
+];
+
+const formatters = new Map<string, Intl.NumberFormat>();
+
+export const formatMoney = (amount: number, currency: string = DEFAULT_CURRENCY) => {
+  let formatter = formatters.get(currency);
+  if (!formatter) {
+    try {
+      formatter = new Intl.NumberFormat(undefined, { style: "currency", currency });
+    } catch {
+      // Unknown codes would throw on every render; show the bare code instead
+      formatter = new Intl.NumberFormat(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+      return `${formatter.format(amount)} ${currency}`;
+    }
+    formatters.set(currency, formatter);
+  }
+  return formatter.format(amount);
+};
+
+// Rate in effect on a date for one direction of a pair: the newest one not after the date,
+// or the oldest one when the date predates the whole table
+const directRate = (rates: ExchangeRate[], from: string, to: string, date: string): number | null => {
+  const pair = rates
+    .filter(rate => rate.from === from && rate.to === to)
+    .sort((a, b) => a.effectiveDate.localeCompare(b.effectiveDate));
+  if (pair.length === 0) return null;
+  const effective = pair.filter(rate => rate.effectiveDate <= date);
+  return (effective.length > 0 ? effective[effective.length - 1] : pair[0]).rate;
+};
+
+const pairRate = (rates: ExchangeRate[], from: string, to: string, date: string): number | null => {
+  const direct = directRate(rates, from, to, date);
+  if (direct !== null) return direct;
+  const inverse = directRate(rates, to, from, date);
+  return inverse !== null ? 1 / inverse : null;
+};
+
+// How many `to` one `from` buys on a date. Goes through one intermediate currency when the
+// table has no rate for the pair itself (e.g. EUR -> USD -> INR).
+export const findRate = (rates: ExchangeRate[], from: string, to: string, date: string): number | null => {
+  if (from === to) return 1;
+  const rate = pairRate(rates, from, to, date);
+  if (rate !== null) return rate;
+
+  const intermediates = new Set(rates.flatMap(r => [r.from, r.to]));
+  for (const via of intermediates) {
+    if (via === from || via === to) continue;
+    const first = pairRate(rates, from, via, date);
+    const second = first !== null ? pairRate(rates, via, to, date) : null;
+    if (first !== null && second !== null) return first * second;
+  }
+  return null;
+};
+
+export const convertAmount = (amount: number, from: string, to: string, date: string, rates: ExchangeRate[]) => {
+  const rate = findRate(rates, from, to, date);
+  return rate === null ? null : amount * rate;
+};
+
+export interface ParsedRateTable {
+  rates: Omit<ExchangeRate, "id">[];
+  errors: string[];
+}
+
+// Reads pasted or uploaded rate tables, one "date,from,to,rate" row per line.
+// A header row and blank lines are ignored.
+export const parseRateTable = (text: string): ParsedRateTable => {
+  const rates: Omit<ExchangeRate, "id">[] = [];
+  const errors: string[] = [];
+
+  text.split(/\r?\n/).forEach((line, index) => {
+    const cells = line.split(/[,;\t]/).map(cell => cell.trim());
+    if (cells.every(cell => !cell)) return;
+    if (index === 0 && cells.some(cell => /date|rate|from/i.test(cell))) return;
+
+    const [effectiveDate, from, to, rate] = cells;
+    const value = Number(rate);
+    if (
+      !/^\d{4}-\d{2}-\d{2}$/.test(effectiveDate ?? "") ||
+      !/^[A-Za-z]{3}$/.test(from ?? "") ||
+      !/^[A-Za-z]{3}$/.test(to ?? "") ||
+      !(value > 0)
+    ) {
+      errors.push(`Line ${index + 1}: expected date,from,to,rate`);
+      return;
+    }
+    rates.push({ effectiveDate, from: from.toUpperCase(), to: to.toUpperCase(), rate: value });
+  });
+
+  return { rates, errors };
+};
+
+// Words and symbols people use when saying or typing an amount
+const SPOKEN_CURRENCIES: { pattern: string; currency: string | null }[] = [
+  // "dollars" alone doesn't say which dollar; the caller picks the one that fits
+  { pattern: "dollars?|bucks?|\\$", currency: null },
+  { pattern: "euros?|€", currency: "EUR" },
+  { pattern: "pounds?|quid|£", currency: "GBP" },
+  { pattern: "yen|¥", currency: "JPY" },
+  { pattern: "yuan|renminbi|rmb", currency: "CNY" },
+  { pattern: "rupees?|₹", currency: "INR" },
+  { pattern: "won|₩", currency: "KRW" },
+  { pattern: "pesos?", currency: "MXN" },
+  { pattern: "reais|real", currency: "BRL" },
+  { pattern: "naira|₦", currency: "NGN" },
+  { pattern: "francs?", currency: "CHF" },
+  { pattern: "rand", currency: "ZAR" },
+  { pattern: "lira", currency: "TRY" },
+];
+
+const DOLLAR_CURRENCIES = ["USD", "CAD", "AUD", "NZD", "SGD", "HKD"];
+
+export interface SpokenAmount {
+  amount: string;
+  currency: string | null;
+  // The transcript with the amount and currency words removed
+  remainder: string;
+}
+
+// Finds the amount in phrases like "coffee 5 euros", "lunch £7.50" or "bus ticket 2,40 EUR"
+export const parseSpokenAmount = (transcript: string, baseCurrency: string): SpokenAmount | null => {
+  const currencyWords = [...SPOKEN_CURRENCIES.map(c => c.pattern), "[a-z]{3}"].join("|");
+  const match = transcript.match(
+    new RegExp(`([$€£¥₹₩₦])?\\s*(\\d+(?:[.,]\\d{1,2})?)(?:\\s*(${currencyWords})(?!\\w))?`, "i")
+  );
+  if (!match) return null;
+
+  const word = (match[1] || match[3] || "").toLowerCase();
+  let currency: string | null = null;
+  if (word) {
+    const spoken = SPOKEN_CURRENCIES.find(c => new RegExp(`^(?:${c.pattern})$`, "i").test(word));
+    if (spoken) {
+      currency = spoken.currency ?? (DOLLAR_CURRENCIES.includes(baseCurrency) ? baseCurrency : "USD");
+    } else if (commonCurrencies.includes(word.toUpperCase())) {
+      currency = word.toUpperCase();
+    }
+  }
+
+  // A trailing three-letter word that isn't a currency ("for", "the") belongs to the description
+  const matched = currency || !match[3] ? match[0] : match[0].slice(0, match[0].length - match[3].length);
+  return {
+    amount: match[2].replace(",", "."),
+    currency,
+    remainder: transcript.replace(matched, " ").replace(/\s+/g, " ").trim(),
+  };
+};
+
+// Common currencies plus any the user has rates for, with the base currency first
+export const availableCurrencies = (baseCurrency: string, rates: ExchangeRate[], ...extra: string[]) => {
+  const codes = new Set([...commonCurrencies, ...rates.flatMap(rate => [rate.from, rate.to]), ...extra]);
+  codes.delete(baseCurrency);
+  return [baseCurrency, ...[...codes].filter(Boolean).sort()];
+};
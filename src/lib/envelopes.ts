@@ -0,0 +1,88 @@
+import type { Budget, EnvelopeMove, EnvelopePlan } from "@/lib/schemas";
+import { CALENDAR_MONTH, type ActivePeriod } from "@/lib/periods";
+
+export type BudgetMode = "limits" | "envelope";
+
+// Each calendar month gets its own plan; other periods share one plan for their whole span
+export const envelopeKey = (period: Pick<ActivePeriod, "id" | "start">) =>
+  period.id === CALENDAR_MONTH ? period.start.slice(0, 7) : period.id;
+
+export const emptyPlan = (id: string): EnvelopePlan => ({ id, funds: 0, allocations: {}, moves: [] });
+
+export const totalAllocated = (plan: EnvelopePlan) =>
+  Object.values(plan.allocations).reduce((sum, amount) => sum + amount, 0);
+
+// Funds not yet given to an envelope; zero-based budgeting aims for exactly 0
+export const unallocated = (plan: EnvelopePlan) => plan.funds - totalAllocated(plan);
+
+// What's left in each envelope after spending; negative when overdrawn
+export const envelopeBalances = (plan: EnvelopePlan, spending: Budget): Budget => {
+  const balances: Budget = {};
+  new Set([...Object.keys(plan.allocations), ...Object.keys(spending)]).forEach(category => {
+    balances[category] = (plan.allocations[category] || 0) - (spending[category] || 0);
+  });
+  return balances;
+};
+
+// Envelopes already spent past their allocation
+export const overdrawnEnvelopes = (plan: EnvelopePlan, spending: Budget) =>
+  Object.entries(envelopeBalances(plan, spending))
+    .filter(([, balance]) => balance < -0.005)
+    .map(([category]) => category);
+
+// Null when the funds can be set, otherwise a message for the form
+export const validateFunds = (plan: EnvelopePlan, funds: number): string | null => {
+  if (isNaN(funds) || funds < 0) return "Enter the funds you have available.";
+  if (funds < totalAllocated(plan) - 0.005) {
+    return "That's less than you've already put in envelopes. Take money out of them first.";
+  }
+  return null;
+};
+
+// Null when every envelope can hold its new amount, otherwise a message for the form
+export const validateAllocations = (
+  plan: EnvelopePlan,
+  allocations: Budget,
+  spending: Budget,
+  labelOf: (category: string) => string = category => category
+): string | null => {
+  const invalid = Object.entries(allocations).find(([, amount]) => isNaN(amount) || amount < 0);
+  if (invalid) return `Enter an amount of zero or more for ${labelOf(invalid[0])}.`;
+  // Topping up an envelope that's already overdrawn is fine; cutting one below its spending isn't
+  const overdrawn = Object.keys(allocations).find(
+    category =>
+      allocations[category] < (spending[category] || 0) - 0.005 &&
+      allocations[category] < (plan.allocations[category] || 0)
+  );
+  if (overdrawn) {
+    return `You've already spent more than that from ${labelOf(overdrawn)}, so the envelope would go negative.`;
+  }
+  const total = Object.values(allocations).reduce((sum, amount) => sum + amount, 0);
+  if (total > plan.funds + 0.005) {
+    return "That's more than your available funds. Add funds or take money out of another envelope.";
+  }
+  return null;
+};
+
+// Null when the source envelope can spare the amount, otherwise a message for the form
+export const validateMove = (
+  plan: EnvelopePlan,
+  move: Pick<EnvelopeMove, "from" | "to" | "amount">,
+  spending: Budget
+): string | null => {
+  if (move.from === move.to) return "Pick two different envelopes.";
+  if (isNaN(move.amount) || move.amount <= 0) return "Enter an amount above zero.";
+  const available = envelopeBalances(plan, spending)[move.from] || 0;
+  if (move.amount > available + 0.005) return "That would take the envelope below zero.";
+  return null;
+};
+
+export const applyMove = (plan: EnvelopePlan, move: EnvelopeMove): EnvelopePlan => ({
+  ...plan,
+  allocations: {
+    ...plan.allocations,
+    [move.from]: (plan.allocations[move.from] || 0) - move.amount,
+    [move.to]: (plan.allocations[move.to] || 0) + move.amount,
+  },
+  moves: [...plan.moves, move],
+});
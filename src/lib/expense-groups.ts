@@ -0,0 +1,88 @@
+import type { Expense } from "@/lib/schemas";
+import { shiftDays } from "@/lib/periods";
+
+export type ExpenseGrouping = "none" | "day" | "week" | "month";
+
+export const groupings: { value: ExpenseGrouping; label: string }[] = [
+  { value: "day", label: "Group by Day" },
+  { value: "week", label: "Group by Week" },
+  { value: "month", label: "Group by Month" },
+  { value: "none", label: "No Grouping" },
+];
+
+export interface GroupSummary {
+  label: string;
+  // Totals for the whole group, even when a page only shows part of it
+  total: number;
+  count: number;
+}
+
+// A run of consecutive expenses on one page that share a group, with the group's header
+export interface ExpenseSection<T> {
+  key: string;
+  summary: GroupSummary | null;
+  expenses: T[];
+}
+
+const localDate = (iso: string) => new Date(`${iso}T00:00:00`);
+
+// Weeks start on Monday
+const weekStart = (iso: string) => shiftDays(iso, -((localDate(iso).getDay() + 6) % 7));
+
+export const groupKey = (date: string, grouping: ExpenseGrouping) => {
+  if (grouping === "day") return date;
+  if (grouping === "week") return weekStart(date);
+  if (grouping === "month") return date.slice(0, 7);
+  return "";
+};
+
+const groupLabel = (key: string, grouping: ExpenseGrouping) => {
+  if (grouping === "day") {
+    return localDate(key).toLocaleDateString(undefined, { weekday: "long", month: "long", day: "numeric", year: "numeric" });
+  }
+  if (grouping === "week") {
+    return `Week of ${localDate(key).toLocaleDateString(undefined, { month: "short", day: "numeric", year: "numeric" })}`;
+  }
+  return localDate(`${key}-01`).toLocaleDateString(undefined, { month: "long", year: "numeric" });
+};
+
+// Totals per group over every expense, keyed by groupKey
+export const groupSummaries = <T extends Pick<Expense, "date">>(
+  expenses: T[],
+  grouping: ExpenseGrouping,
+  amountOf: (expense: T) => number
+) => {
+  const summaries = new Map<string, GroupSummary>();
+  if (grouping === "none") return summaries;
+  expenses.forEach(expense => {
+    const key = groupKey(expense.date, grouping);
+    const summary = summaries.get(key) ?? { label: groupLabel(key, grouping), total: 0, count: 0 };
+    summaries.set(key, { ...summary, total: summary.total + amountOf(expense), count: summary.count + 1 });
+  });
+  return summaries;
+};
+
+// Splits one page of date-sorted expenses into sections under their group headers
+export const pageSections = <T extends Pick<Expense, "date">>(
+  page: T[],
+  grouping: ExpenseGrouping,
+  summaries: Map<string, GroupSummary>
+): ExpenseSection<T>[] => {
+  if (grouping === "none") return page.length ? [{ key: "all", summary: null, expenses: page }] : [];
+  const sections: ExpenseSection<T>[] = [];
+  page.forEach(expense => {
+    const key = groupKey(expense.date, grouping);
+    const last = sections[sections.length - 1];
+    if (last?.key === key) last.expenses.push(expense);
+    else sections.push({ key, summary: summaries.get(key) ?? null, expenses: [expense] });
+  });
+  return sections;
+};
+
+// Page numbers to show around the current page, with null marking a gap
+export const pageWindow = (current: number, count: number): (number | null)[] => {
+  const pages = [...new Set([1, current - 1, current, current + 1, count])]
+    .filter(page => page >= 1 && page <= count)
+    .sort((a, b) => a - b);
+  return pages.flatMap((page, index) => (index > 0 && page - pages[index - 1] > 1 ? [null, page] : [page]));
+};
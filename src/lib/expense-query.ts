@@ -0,0 +1,242 @@
+import { expenseFilterSchema, type CustomCategory, type Expense, type ExpenseFilter } from "@/lib/schemas";
+import { shiftDays } from "@/lib/periods";
+import { hasAllTags, normalizeTag } from "@/lib/tags";
+
+// Account filter values that aren't account ids
+export const ALL_ACCOUNTS = "all";
+export const NO_ACCOUNT = "none";
+
+export const emptyFilter: ExpenseFilter = {
+  query: "",
+  categories: [],
+  accountId: ALL_ACCOUNTS,
+  tags: [],
+  receipt: "all",
+  sortBy: "date",
+};
+
+export const queryHelp = [
+  { example: "coffee", meaning: "description or notes contain “coffee”" },
+  { example: '"bus pass"', meaning: "an exact phrase" },
+  { example: "-coffee", meaning: "leave out anything matching, works with every term" },
+  { example: "amount>20", meaning: "also >=, <, <=, = and ranges like amount:10..50" },
+  { example: "category:food", meaning: "category name or id, including its subcategories" },
+  { example: "tag:trip", meaning: "tagged #trip" },
+  { example: "date:2026-09", meaning: "a year, month or day; also date>2026-09-01 and date:2026-09..2026-10" },
+];
+
+type Comparison = ">" | ">=" | "<" | "<=" | "=" | ":";
+
+type TermCondition =
+  | { field: "text"; value: string }
+  | { field: "amount"; min?: number; max?: number; exclusiveMin?: boolean; exclusiveMax?: boolean }
+  | { field: "date"; from?: string; to?: string }
+  | { field: "category"; value: string }
+  | { field: "tag"; value: string };
+
+// One search term; a leading "-" negates it
+export type QueryTerm = TermCondition & { negated: boolean };
+
+export interface ParsedQuery {
+  terms: QueryTerm[];
+  // The first term that couldn't be understood; the rest of the query still applies
+  error: string | null;
+}
+
+// What matching needs that isn't on the expense itself
+export interface FilterContext {
+  // Amount in the base currency
+  amountOf: (expense: Expense) => number;
+  categories: CustomCategory[];
+  family: (value: string) => string[];
+  // Ids of expenses that have receipts
+  withReceipts: Set<string>;
+}
+
+// Words, quoted phrases, and field terms whose value may be quoted: category:"eating out"
+const TOKEN = /-?(?:[a-z]+(?:>=|<=|[:<>=]))?"[^"]*"?|\S+/gi;
+const FIELD_TERM = /^(amount|date|category|cat|tag)(>=|<=|[:<>=])(.*)$/i;
+
+const unquote = (text: string) => text.replace(/^"|"$/g, "");
+
+const pad = (n: number) => String(n).padStart(2, "0");
+
+// The days a YYYY, YYYY-MM or YYYY-MM-DD value covers
+const dateSpan = (text: string): { from: string; to: string } | null => {
+  const match = text.match(/^(\d{4})(?:-(\d{1,2})(?:-(\d{1,2}))?)?$/);
+  if (!match) return null;
+  const [, year, month, day] = match;
+  if (day) {
+    const date = `${year}-${pad(Number(month))}-${pad(Number(day))}`;
+    // shiftDays rolls impossible dates over, so "2026-02-31" is caught here
+    return shiftDays(date, 0) === date ? { from: date, to: date } : null;
+  }
+  if (month) {
+    if (Number(month) < 1 || Number(month) > 12) return null;
+    return { from: `${year}-${pad(Number(month))}-01`, to: shiftDays(`${year}-${pad(Number(month) + 1)}-01`, -1) };
+  }
+  return { from: `${year}-01-01`, to: `${year}-12-31` };
+};
+
+const amountTerm = (comparison: Comparison, value: string): TermCondition | null => {
+  const number = (text: string) => (text === "" || isNaN(Number(text)) ? null : Number(text));
+  if (comparison === ":" && value.includes("..")) {
+    const [low, high] = value.split("..");
+    const min = low ? number(low) : undefined;
+    const max = high ? number(high) : undefined;
+    if (min === null || max === null || (min === undefined && max === undefined)) return null;
+    return { field: "amount", min, max };
+  }
+  const amount = number(value);
+  if (amount === null) return null;
+  if (comparison === ">") return { field: "amount", min: amount, exclusiveMin: true };
+  if (comparison === ">=") return { field: "amount", min: amount };
+  if (comparison === "<") return { field: "amount", max: amount, exclusiveMax: true };
+  if (comparison === "<=") return { field: "amount", max: amount };
+  return { field: "amount", min: amount, max: amount };
+};
+
+const dateTerm = (comparison: Comparison, value: string): TermCondition | null => {
+  if (comparison === ":" && value.includes("..")) {
+    const [start, end] = value.split("..");
+    const from = start ? dateSpan(start) : undefined;
+    const to = end ? dateSpan(end) : undefined;
+    if (from === null || to === null || (!from && !to)) return null;
+    return { field: "date", from: from?.from, to: to?.to };
+  }
+  const span = dateSpan(value);
+  if (!span) return null;
+  if (comparison === ">") return { field: "date", from: shiftDays(span.to, 1) };
+  if (comparison === ">=") return { field: "date", from: span.from };
+  if (comparison === "<") return { field: "date", to: shiftDays(span.from, -1) };
+  if (comparison === "<=") return { field: "date", to: span.to };
+  return { field: "date", ...span };
+};
+
+export const parseQuery = (query: string): ParsedQuery => {
+  const terms: QueryTerm[] = [];
+  let error: string | null = null;
+  const fail = (message: string) => {
+    if (!error) error = message;
+  };
+  (query.match(TOKEN) ?? []).forEach(token => {
+    const negated = token.length > 1 && token.startsWith("-");
+    const body = negated ? token.slice(1) : token;
+    const fieldTerm = body.match(FIELD_TERM);
+    if (!fieldTerm) {
+      const value = unquote(body).trim().toLowerCase();
+      if (value) terms.push({ negated, field: "text", value });
+      return;
+    }
+    const field = fieldTerm[1].toLowerCase();
+    const comparison = fieldTerm[2] as Comparison;
+    const value = unquote(fieldTerm[3]).trim();
+    let term: TermCondition | null = null;
+    if (field === "amount") {
+      term = amountTerm(comparison, value);
+      if (!term) fail(`"${body}" needs a number, e.g. amount>20 or amount:10..50.`);
+    } else if (field === "date") {
+      term = dateTerm(comparison, value);
+      if (!term) fail(`"${body}" needs a date like 2026, 2026-09 or 2026-09-14.`);
+    } else if (comparison !== ":" && comparison !== "=") {
+      fail(`${field}: can't be compared with ${comparison}.`);
+    } else if (!value) {
+      fail(`${field}: needs a value.`);
+    } else {
+      term = field === "tag" ? { field: "tag", value: normalizeTag(value) } : { field: "category", value: value.toLowerCase() };
+    }
+    if (term) terms.push({ negated, ...term });
+  });
+  return { terms, error };
+};
+
+// Categories a category: term refers to, by id or by name, with their subcategories
+const categoriesNamed = (value: string, context: FilterContext) => {
+  const named = context.categories.filter(
+    category => category.value.toLowerCase() === value || category.label.toLowerCase().includes(value)
+  );
+  // Expenses can still use a category that has since been deleted
+  if (named.length === 0) return [value];
+  return named.flatMap(category => context.family(category.value));
+};
+
+const termMatches = (term: QueryTerm, expense: Expense, context: FilterContext) => {
+  switch (term.field) {
+    case "text":
+      return `${expense.description}\n${expense.notes ?? ""}`.toLowerCase().includes(term.value);
+    case "amount": {
+      const amount = context.amountOf(expense);
+      return (
+        (term.min === undefined || (term.exclusiveMin ? amount > term.min : amount >= term.min)) &&
+        (term.max === undefined || (term.exclusiveMax ? amount < term.max : amount <= term.max))
+      );
+    }
+    case "date":
+      return (!term.from || expense.date >= term.from) && (!term.to || expense.date <= term.to);
+    case "category":
+      return categoriesNamed(term.value, context).some(value => value.toLowerCase() === expense.category.toLowerCase());
+    case "tag":
+      return !!expense.tags?.includes(term.value);
+  }
+};
+
+export const matchesFilter = (expense: Expense, filter: ExpenseFilter, terms: QueryTerm[], context: FilterContext) => {
+  const amount = context.amountOf(expense);
+  // A parent category also matches expenses filed under its subcategories
+  const matchesCategory =
+    filter.categories.length === 0 ||
+    filter.categories.some(category => context.family(category).includes(expense.category));
+  const matchesAccount =
+    filter.accountId === ALL_ACCOUNTS ||
+    (filter.accountId === NO_ACCOUNT ? !expense.accountId : expense.accountId === filter.accountId);
+  const matchesReceipt =
+    filter.receipt === "all" || (filter.receipt === "with") === context.withReceipts.has(expense.id);
+  return (
+    matchesCategory &&
+    matchesAccount &&
+    matchesReceipt &&
+    hasAllTags(expense, filter.tags) &&
+    (!filter.from || expense.date >= filter.from) &&
+    (!filter.to || expense.date <= filter.to) &&
+    (filter.minAmount === undefined || amount >= filter.minAmount) &&
+    (filter.maxAmount === undefined || amount <= filter.maxAmount) &&
+    terms.every(term => termMatches(term, expense, context) !== term.negated)
+  );
+};
+
+// The expenses the filter keeps, in its sort order
+export const filterExpenses = (expenses: Expense[], filter: ExpenseFilter, context: FilterContext) => {
+  const { terms } = parseQuery(filter.query);
+  return expenses
+    .filter(expense => matchesFilter(expense, filter, terms, context))
+    .sort((a, b) => {
+      switch (filter.sortBy) {
+        case "date":
+          return b.date.localeCompare(a.date);
+        case "amount":
+          return context.amountOf(b) - context.amountOf(a);
+        case "category":
+          return a.category.localeCompare(b.category);
+        default:
+          return 0;
+      }
+    });
+};
+
+// True when the filter would keep every expense
+export const isEmptyFilter = (filter: ExpenseFilter) =>
+  !filter.query.trim() &&
+  filter.categories.length === 0 &&
+  filter.accountId === ALL_ACCOUNTS &&
+  filter.tags.length === 0 &&
+  filter.receipt === "all" &&
+  !filter.from &&
+  !filter.to &&
+  filter.minAmount === undefined &&
+  filter.maxAmount === undefined;
+
+const FILTER_FIELDS = Object.keys(expenseFilterSchema.shape);
+
+// Saved filters come back from storage with their keys in schema order, so compare field by field
+export const sameFilter = (a: ExpenseFilter, b: ExpenseFilter) =>
+  JSON.stringify(a, FILTER_FIELDS) === JSON.stringify(b, FILTER_FIELDS);
@@ -0,0 +1,84 @@
+import { expenseSchema, type EditableExpenseField, type Expense, type ExpenseChange } from "@/lib/schemas";
+
+// Raw form state shared by the add form and the edit dialog
+export interface ExpenseFieldValues {
+  description: string;
+  amount: string;
+  currency: string;
+  category: string;
+  date: string;
+  // Empty when the expense isn't tied to an account
+  accountId: string;
+  tags: string[];
+  notes: string;
+}
+
+const EDITABLE_FIELDS: EditableExpenseField[] = [
+  "description",
+  "amount",
+  "currency",
+  "category",
+  "date",
+  "accountId",
+  "tags",
+  "notes",
+];
+
+// Returns an error message for the toast, or null when the values can be saved
+export const validateExpenseFields = ({ description, amount, date }: ExpenseFieldValues): string | null => {
+  if (!description.trim() || !amount || isNaN(Number(amount))) {
+    return "Please fill in all fields with valid data.";
+  }
+  if (!Number.isFinite(Number(amount)) || Number(amount) < 0) {
+    return "Enter an amount of zero or more.";
+  }
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(date)) {
+    return "Pick a date for the expense.";
+  }
+  return null;
+};
+
+// Checks the finished record against the schema it is loaded with, so nothing is saved that
+// the next load would quarantine. Null when it can be saved.
+export const validateExpense = (expense: Expense): string | null => {
+  const result = expenseSchema.safeParse(expense);
+  if (result.success) return null;
+  const [issue] = result.error.issues;
+  return `This expense can't be saved (${issue.path.join(".") || "value"}: ${issue.message}).`;
+};
+
+export const toFieldValues = (expense: Expense): ExpenseFieldValues => ({
+  description: expense.description,
+  amount: String(expense.amount),
+  currency: expense.currency,
+  category: expense.category,
+  date: expense.date,
+  accountId: expense.accountId ?? "",
+  tags: expense.tags ?? [],
+  notes: expense.notes ?? "",
+});
+
+// Missing optional fields are recorded as "" and tags as one comma-separated string,
+// so history entries stay plain strings and numbers
+const fieldValue = (expense: Expense, field: EditableExpenseField) =>
+  field === "tags" ? (expense.tags ?? []).join(", ") : expense[field] ?? "";
+
+// Applies an edit and appends one history entry per field that actually changed
+export const applyExpenseEdit = (previous: Expense, edited: Expense, timestamp = new Date().toISOString()): Expense => {
+  const changes: ExpenseChange[] = EDITABLE_FIELDS
+    .filter(field => fieldValue(previous, field) !== fieldValue(edited, field))
+    .map(field => ({
+      timestamp,
+      field,
+      oldValue: fieldValue(previous, field),
+      newValue: fieldValue(edited, field),
+      oldCurrency: previous.currency,
+      newCurrency: edited.currency,
+    }));
+
+  return {
+    ...edited,
+    ...(edited.category !== previous.category ? { categorySource: "manual" as const } : {}),
+    history: [...(previous.history ?? []), ...changes],
+  };
+};
@@ -0,0 +1,66 @@
+import type { SavingsGoal } from "@/lib/schemas";
+import { nthOccurrence } from "@/lib/recurrence";
+
+export type GoalStatus = "complete" | "on-track" | "behind" | "not-started";
+
+// Progress points the gamification panels award achievements for
+export const GOAL_MILESTONES = [25, 50, 75, 100] as const;
+
+const dayNumber = (date: string) => {
+  const [year, month, day] = date.split("-").map(Number);
+  return Date.UTC(year, month - 1, day) / 86_400_000;
+};
+
+export const daysBetween = (from: string, to: string) => dayNumber(to) - dayNumber(from);
+
+export const goalBalance = (goal: SavingsGoal) =>
+  goal.contributions.reduce((sum, contribution) => sum + contribution.amount, 0);
+
+// 0-100, capped
+export const goalProgress = (goal: SavingsGoal) =>
+  goal.targetAmount > 0 ? Math.min(100, (goalBalance(goal) / goal.targetAmount) * 100) : 100;
+
+export const isGoalComplete = (goal: SavingsGoal) => goalBalance(goal) >= goal.targetAmount;
+
+// Average saved per day from the goal's creation (or first contribution, if earlier) up to today
+export const contributionPace = (goal: SavingsGoal, today: string) => {
+  if (goal.contributions.length === 0) return 0;
+  const start = goal.contributions.reduce(
+    (earliest, contribution) => (contribution.date < earliest ? contribution.date : earliest),
+    goal.createdAt
+  );
+  return goalBalance(goal) / Math.max(1, daysBetween(start, today) + 1);
+};
+
+// When the goal will be reached at the current pace; null when nothing has been saved yet
+export const projectedCompletion = (goal: SavingsGoal, today: string): string | null => {
+  if (isGoalComplete(goal)) return today;
+  const pace = contributionPace(goal, today);
+  if (pace <= 0) return null;
+  return nthOccurrence(today, "daily", Math.ceil((goal.targetAmount - goalBalance(goal)) / pace));
+};
+
+export const goalStatus = (goal: SavingsGoal, today: string): GoalStatus => {
+  if (isGoalComplete(goal)) return "complete";
+  const projected = projectedCompletion(goal, today);
+  if (!projected) return "not-started";
+  return projected <= goal.deadline ? "on-track" : "behind";
+};
+
+// What still has to go in each month to finish by the deadline
+export const requiredMonthly = (goal: SavingsGoal, today: string) => {
+  const remaining = Math.max(0, goal.targetAmount - goalBalance(goal));
+  const months = Math.max(1, daysBetween(today, goal.deadline) / 30.44);
+  return remaining / months;
+};
+
+// Highest milestone reached on any goal, 0 when none
+export const bestMilestone = (goals: SavingsGoal[]) =>
+  goals.reduce((best, goal) => {
+    const progress = goalProgress(goal);
+    const reached = GOAL_MILESTONES.filter(milestone => progress >= milestone);
+    return Math.max(best, reached.length > 0 ? reached[reached.length - 1] : 0);
+  }, 0);
+
+export const emergencyFundBalance = (goals: SavingsGoal[]) =>
+  goals.filter(goal => goal.emergencyFund).reduce((sum, goal) => sum + goalBalance(goal), 0);
@@ -0,0 +1,59 @@
+import type { Expense, Income, IncomeSource, Recurrence } from "@/lib/schemas";
+import { occurrencesBetween } from "@/lib/recurrence";
+import { spendingTotal } from "@/lib/splits";
+
+export const incomeSources: { value: IncomeSource; label: string }[] = [
+  { value: "stipend", label: "🎓 Stipend" },
+  { value: "wages", label: "💼 Part-time Wages" },
+  { value: "scholarship", label: "🏅 Scholarship" },
+  { value: "family", label: "👪 Family Transfer" },
+  { value: "other", label: "💵 Other" },
+];
+
+export const recurrenceOptions: { value: Recurrence; label: string }[] = [
+  { value: "none", label: "One-time" },
+  { value: "weekly", label: "Weekly" },
+  { value: "biweekly", label: "Every 2 weeks" },
+  { value: "monthly", label: "Monthly" },
+  { value: "semester", label: "Every semester" },
+];
+
+// Payment dates of an income between two inclusive YYYY-MM-DD bounds
+export const incomeOccurrences = (income: Income, from: string, to: string): string[] =>
+  occurrencesBetween(income.date, income.recurrence, from, to, income.endDate);
+
+export const monthBounds = (month: string) => ({ from: `${month}-01`, to: `${month}-31` });
+
+export const incomeBetween = (incomes: Income[], from: string, to: string) =>
+  incomes.reduce((sum, income) => sum + income.amount * incomeOccurrences(income, from, to).length, 0);
+
+export const incomeForMonth = (incomes: Income[], month: string) => {
+  const { from, to } = monthBounds(month);
+  return incomeBetween(incomes, from, to);
+};
+
+export interface CashFlow {
+  income: number;
+  spending: number;
+  net: number;
+  // Share of income left over, as a percentage; null when there was no income
+  savingsRate: number | null;
+}
+
+// Between two inclusive YYYY-MM-DD bounds. Expects amounts already converted to the base currency.
+export const cashFlowBetween = (
+  expenses: Pick<Expense, "date" | "amount" | "split">[],
+  incomes: Income[],
+  from: string,
+  to: string
+): CashFlow => {
+  const income = incomeBetween(incomes, from, to);
+  const spending = spendingTotal(expenses.filter(expense => expense.date >= from && expense.date <= to));
+  const net = income - spending;
+  return { income, spending, net, savingsRate: income > 0 ? (net / income) * 100 : null };
+};
+
+export const cashFlowForMonth = (expenses: Pick<Expense, "date" | "amount" | "split">[], incomes: Income[], month: string) => {
+  const { from, to } = monthBounds(month);
+  return cashFlowBetween(expenses, incomes, from, to);
+};
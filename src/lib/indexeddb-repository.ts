@@ -0,0 +1,286 @@
+import type {
+  Account,
+  Budget,
+  BudgetPeriod,
+  CategoryRule,
+  CustomCategory,
+  EnvelopePlan,
+  ExchangeRate,
+  Expense,
+  Income,
+  Merchant,
+  SavedSearch,
+  Receipt,
+  RecurringExpense,
+  RolloverRule,
+  SavingsGoal,
+  Settlement,
+  Transfer,
+} from "@/lib/schemas";
+import type { ExpenseQuery, FinanceRepository, OpenedRepository, RecordStore } from "@/lib/repository";
+import { createLocalStorageRepository, matchesExpenseQuery } from "@/lib/local-storage-repository";
+import {
+  SCHEMA_VERSION,
+  clearStoredEntities,
+  loadStored,
+  upgradeStored,
+  type LoadReport,
+} from "@/lib/persistence";
+
+const DB_NAME = "student-finance";
+const DB_VERSION = 14;
+
+const EXPENSES = "expenses";
+// Receipt files are Blobs, so they skip the JSON migrate-validate pass the record stores get
+const RECEIPTS = "receipts";
+// Small singletons (budget, category list, settings) live in one key-value store
+const KV = "kv";
+
+// Entities kept as one object store each, keyed by record id
+const RECORD_STORES = [
+  "expenses",
+  "incomes",
+  "recurring",
+  "accounts",
+  "transfers",
+  "rates",
+  "settlements",
+  "goals",
+  "periods",
+  "rollover",
+  "envelopes",
+  "rules",
+  "merchants",
+  "searches",
+] as const;
+// Entities kept as a single value in the key-value store, under their own name
+const KV_ENTITIES = ["budget", "categories"] as const;
+
+const KV_KEYS = {
+  schemaVersion: "schema-version",
+  migratedFromLocalStorage: "migrated-from-localstorage",
+} as const;
+
+const settingKey = (key: string) => `setting:${key}`;
+
+const promisify = <T>(request: IDBRequest<T>) =>
+  new Promise<T>((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const completion = (transaction: IDBTransaction) =>
+  new Promise<void>((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+
+const openDatabase = () =>
+  new Promise<IDBDatabase>((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = event => {
+      const db = request.result;
+      if (event.oldVersion < 1) {
+        const expenses = db.createObjectStore(EXPENSES, { keyPath: "id" });
+        expenses.createIndex("date", "date");
+        expenses.createIndex("category", "category");
+        db.createObjectStore(KV);
+      }
+      if (event.oldVersion < 2) {
+        const incomes = db.createObjectStore("incomes", { keyPath: "id" });
+        incomes.createIndex("date", "date");
+      }
+      if (event.oldVersion < 3) {
+        db.createObjectStore("recurring", { keyPath: "id" });
+      }
+      if (event.oldVersion < 4) {
+        db.createObjectStore("accounts", { keyPath: "id" });
+        const transfers = db.createObjectStore("transfers", { keyPath: "id" });
+        transfers.createIndex("date", "date");
+      }
+      if (event.oldVersion < 5) {
+        db.createObjectStore("rates", { keyPath: "id" });
+      }
+      if (event.oldVersion < 6) {
+        const settlements = db.createObjectStore("settlements", { keyPath: "id" });
+        settlements.createIndex("date", "date");
+      }
+      if (event.oldVersion < 7) {
+        db.createObjectStore("goals", { keyPath: "id" });
+      }
+      if (event.oldVersion < 8) {
+        const receipts = db.createObjectStore(RECEIPTS, { keyPath: "id" });
+        receipts.createIndex("expenseId", "expenseId");
+      }
+      if (event.oldVersion < 9) {
+        db.createObjectStore("periods", { keyPath: "id" });
+      }
+      if (event.oldVersion < 10) {
+        db.createObjectStore("rollover", { keyPath: "id" });
+      }
+      if (event.oldVersion < 11) {
+        db.createObjectStore("envelopes", { keyPath: "id" });
+      }
+      if (event.oldVersion < 12) {
+        db.createObjectStore("rules", { keyPath: "id" });
+      }
+      if (event.oldVersion < 13) {
+        db.createObjectStore("merchants", { keyPath: "id" });
+      }
+      if (event.oldVersion < 14) {
+        db.createObjectStore("searches", { keyPath: "id" });
+      }
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+    request.onblocked = () => reject(new Error("Database upgrade blocked by another open tab"));
+  });
+
+const readKv = async <T>(db: IDBDatabase, key: string): Promise<T | null> => {
+  const value = await promisify(db.transaction(KV).objectStore(KV).get(key));
+  return value === undefined ? null : (value as T);
+};
+
+const writeKv = async (db: IDBDatabase, key: string, value: unknown) => {
+  const transaction = db.transaction(KV, "readwrite");
+  transaction.objectStore(KV).put(value, key);
+  await completion(transaction);
+};
+
+const replaceRecords = async (db: IDBDatabase, storeName: string, records: unknown[]) => {
+  const transaction = db.transaction(storeName, "readwrite");
+  const store = transaction.objectStore(storeName);
+  store.clear();
+  records.forEach(record => store.put(record));
+  await completion(transaction);
+};
+
+const objectStoreRecords = <T extends { id: string }>(db: IDBDatabase, storeName: string): RecordStore<T> => ({
+  getAll: () => promisify(db.transaction(storeName).objectStore(storeName).getAll()),
+  put: async record => {
+    const transaction = db.transaction(storeName, "readwrite");
+    transaction.objectStore(storeName).put(record);
+    await completion(transaction);
+  },
+  delete: async id => {
+    const transaction = db.transaction(storeName, "readwrite");
+    transaction.objectStore(storeName).delete(id);
+    await completion(transaction);
+  },
+  replaceAll: records => replaceRecords(db, storeName, records),
+});
+
+const dateRange = ({ from, to }: ExpenseQuery) => {
+  if (from && to) return IDBKeyRange.bound(from, to);
+  if (from) return IDBKeyRange.lowerBound(from);
+  if (to) return IDBKeyRange.upperBound(to);
+  return undefined;
+};
+
+// Newest first, matching the order the app has always kept expenses in
+const newestFirst = (expenses: Expense[]) => [...expenses].sort((a, b) => b.date.localeCompare(a.date));
+
+// Copies the localStorage data into a fresh database, then frees the localStorage quota
+const migrateFromLocalStorage = async (db: IDBDatabase): Promise<LoadReport[]> => {
+  const legacy = createLocalStorageRepository();
+  const theme = await legacy.repository.settings.get("theme");
+
+  const transaction = db.transaction([...RECORD_STORES, KV], "readwrite");
+  RECORD_STORES.forEach(name => {
+    const store = transaction.objectStore(name);
+    (loadStored(name).data ?? []).forEach(record => store.put(record));
+  });
+  const kvStore = transaction.objectStore(KV);
+  KV_ENTITIES.forEach(name => {
+    const data = loadStored(name).data;
+    if (data) kvStore.put(data, name);
+  });
+  if (theme) kvStore.put(theme, settingKey("theme"));
+  kvStore.put(SCHEMA_VERSION, KV_KEYS.schemaVersion);
+  kvStore.put(true, KV_KEYS.migratedFromLocalStorage);
+  await completion(transaction);
+
+  clearStoredEntities();
+  return legacy.reports;
+};
+
+// Same migrate-validate-quarantine pass the localStorage backend runs on every load
+const checkStoredData = async (db: IDBDatabase): Promise<LoadReport[]> => {
+  const storedVersion = (await readKv<number>(db, KV_KEYS.schemaVersion)) ?? SCHEMA_VERSION;
+  const baseCurrency = await readKv<string>(db, settingKey("base-currency"));
+  const reports: LoadReport[] = [];
+
+  for (const name of RECORD_STORES) {
+    const records = upgradeStored(name, await promisify(db.transaction(name).objectStore(name).getAll()), storedVersion, baseCurrency);
+    if (records.report) {
+      await replaceRecords(db, name, records.data ?? []);
+      reports.push(records.report);
+    }
+  }
+
+  for (const name of KV_ENTITIES) {
+    const raw = await readKv(db, name);
+    if (raw === null) continue;
+    const checked = upgradeStored(name, raw, storedVersion, baseCurrency);
+    if (checked.report) {
+      await writeKv(db, name, checked.data);
+      reports.push(checked.report);
+    }
+  }
+
+  if (storedVersion !== SCHEMA_VERSION) {
+    await writeKv(db, KV_KEYS.schemaVersion, SCHEMA_VERSION);
+  }
+  return reports;
+};
+
+export const openIndexedDbRepository = async (): Promise<OpenedRepository> => {
+  const db = await openDatabase();
+  const migrated = await readKv<boolean>(db, KV_KEYS.migratedFromLocalStorage);
+  const reports = migrated ? await checkStoredData(db) : await migrateFromLocalStorage(db);
+
+  const repository: FinanceRepository = {
+    kind: "indexeddb",
+    expenses: {
+      ...objectStoreRecords<Expense>(db, EXPENSES),
+      getAll: async () =>
+        newestFirst(await promisify(db.transaction(EXPENSES).objectStore(EXPENSES).getAll())),
+      query: async query => {
+        const store = db.transaction(EXPENSES).objectStore(EXPENSES);
+        const matches = query.category
+          ? await promisify(store.index("category").getAll(query.category))
+          : await promisify(store.index("date").getAll(dateRange(query)));
+        return newestFirst(matches.filter(expense => matchesExpenseQuery(expense, query)));
+      },
+    },
+    incomes: objectStoreRecords<Income>(db, "incomes"),
+    recurring: objectStoreRecords<RecurringExpense>(db, "recurring"),
+    accounts: objectStoreRecords<Account>(db, "accounts"),
+    transfers: objectStoreRecords<Transfer>(db, "transfers"),
+    rates: objectStoreRecords<ExchangeRate>(db, "rates"),
+    settlements: objectStoreRecords<Settlement>(db, "settlements"),
+    goals: objectStoreRecords<SavingsGoal>(db, "goals"),
+    periods: objectStoreRecords<BudgetPeriod>(db, "periods"),
+    rollover: objectStoreRecords<RolloverRule>(db, "rollover"),
+    envelopes: objectStoreRecords<EnvelopePlan>(db, "envelopes"),
+    rules: objectStoreRecords<CategoryRule>(db, "rules"),
+    merchants: objectStoreRecords<Merchant>(db, "merchants"),
+    searches: objectStoreRecords<SavedSearch>(db, "searches"),
+    receipts: objectStoreRecords<Receipt>(db, RECEIPTS),
+    budgets: {
+      get: () => readKv<Budget>(db, "budget"),
+      save: budget => writeKv(db, "budget", budget),
+    },
+    categories: {
+      getAll: () => readKv<CustomCategory[]>(db, "categories"),
+      saveAll: categories => writeKv(db, "categories", categories),
+    },
+    settings: {
+      get: key => readKv<string>(db, settingKey(key)),
+      set: (key, value) => writeKv(db, settingKey(key), value),
+    },
+  };
+
+  return { repository, reports };
+};
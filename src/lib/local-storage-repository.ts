@@ -0,0 +1,102 @@
+import type {
+  Account,
+  BudgetPeriod,
+  CategoryRule,
+  EnvelopePlan,
+  ExchangeRate,
+  Expense,
+  Income,
+  Merchant,
+  SavedSearch,
+  Receipt,
+  RecurringExpense,
+  RolloverRule,
+  SavingsGoal,
+  Settlement,
+  Transfer,
+} from "@/lib/schemas";
+import type { ExpenseQuery, FinanceRepository, OpenedRepository, RecordStore } from "@/lib/repository";
+import { ENTITY_NAMES, loadStored, saveStored, type LoadReport } from "@/lib/persistence";
+
+const settingKey = (key: string) => `student-finance-${key}`;
+
+export const matchesExpenseQuery = (expense: Expense, { from, to, category }: ExpenseQuery) =>
+  (!from || expense.date >= from) && (!to || expense.date <= to) && (!category || expense.category === category);
+
+// Every write rewrites the whole list; new records go first, as the app has always listed them
+const recordStore = <T extends { id: string }>(read: () => T[], write: (records: T[]) => void): RecordStore<T> => ({
+  getAll: async () => read(),
+  put: async record => {
+    const existing = read();
+    const index = existing.findIndex(r => r.id === record.id);
+    write(index === -1 ? [record, ...existing] : existing.map((r, i) => (i === index ? record : r)));
+  },
+  delete: async id => write(read().filter(record => record.id !== id)),
+  replaceAll: async records => write(records),
+});
+
+// Files don't fit in localStorage, so receipts can only be attached when IndexedDB is available
+const unsupportedReceipts: RecordStore<Receipt> = {
+  getAll: async () => [],
+  put: async () => {
+    throw new Error("Receipts need IndexedDB, which this browser has turned off");
+  },
+  delete: async () => {},
+  replaceAll: async () => {},
+};
+
+const readExpenses = () => loadStored("expenses").data ?? [];
+
+// Original storage backend: one JSON envelope per entity, rewritten on every change
+export const createLocalStorageRepository = (): OpenedRepository => {
+  // Loading once up front runs migrations and quarantines bad records before anything reads
+  const baseCurrency = localStorage.getItem(settingKey("base-currency"));
+  const reports = ENTITY_NAMES.map(name => loadStored(name, baseCurrency).report).filter(
+    (report): report is LoadReport => report !== null
+  );
+
+  const repository: FinanceRepository = {
+    kind: "localstorage",
+    expenses: {
+      ...recordStore<Expense>(readExpenses, expenses => saveStored("expenses", expenses)),
+      query: async query => readExpenses().filter(expense => matchesExpenseQuery(expense, query)),
+    },
+    incomes: recordStore<Income>(() => loadStored("incomes").data ?? [], incomes => saveStored("incomes", incomes)),
+    recurring: recordStore<RecurringExpense>(
+      () => loadStored("recurring").data ?? [],
+      recurring => saveStored("recurring", recurring)
+    ),
+    accounts: recordStore<Account>(() => loadStored("accounts").data ?? [], accounts => saveStored("accounts", accounts)),
+    transfers: recordStore<Transfer>(
+      () => loadStored("transfers").data ?? [],
+      transfers => saveStored("transfers", transfers)
+    ),
+    rates: recordStore<ExchangeRate>(() => loadStored("rates").data ?? [], rates => saveStored("rates", rates)),
+    settlements: recordStore<Settlement>(
+      () => loadStored("settlements").data ?? [],
+      settlements => saveStored("settlements", settlements)
+    ),
+    goals: recordStore<SavingsGoal>(() => loadStored("goals").data ?? [], goals => saveStored("goals", goals)),
+    periods: recordStore<BudgetPeriod>(() => loadStored("periods").data ?? [], periods => saveStored("periods", periods)),
+    rollover: recordStore<RolloverRule>(() => loadStored("rollover").data ?? [], rules => saveStored("rollover", rules)),
+    envelopes: recordStore<EnvelopePlan>(() => loadStored("envelopes").data ?? [], plans => saveStored("envelopes", plans)),
+    rules: recordStore<CategoryRule>(() => loadStored("rules").data ?? [], rules => saveStored("rules", rules)),
+    merchants: recordStore<Merchant>(() => loadStored("merchants").data ?? [], merchants => saveStored("merchants", merchants)),
+    searches: recordStore<SavedSearch>(() => loadStored("searches").data ?? [], searches => saveStored("searches", searches)),
+    receipts: unsupportedReceipts,
+    budgets: {
+      get: async () => loadStored("budget").data,
+      save: async budget => saveStored("budget", budget),
+    },
+    categories: {
+      getAll: async () => loadStored("categories").data,
+      saveAll: async categories => saveStored("categories", categories),
+    },
+    settings: {
+      get: async key => localStorage.getItem(settingKey(key)),
+      set: async (key, value) => localStorage.setItem(settingKey(key), value),
+    },
+  };
+
+  return { repository, reports };
+};
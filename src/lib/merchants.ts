@@ -0,0 +1,165 @@
+import type { Expense, Merchant } from "@/lib/schemas";
+import { inPeriod, inPreviousPeriod, type ActivePeriod } from "@/lib/periods";
+import { myShare } from "@/lib/splits";
+
+// A merchant as it appears in the app: confirmed by the user, or just normalised from descriptions
+export interface ResolvedMerchant {
+  key: string;
+  name: string;
+}
+
+export interface MerchantStat extends ResolvedMerchant {
+  total: number;
+  visits: number;
+  averageTicket: number;
+  previousTotal: number;
+  // Percent change from the previous period; null when there was no spending to compare with
+  trend: number | null;
+}
+
+// Well-known abbreviations banks and card terminals use
+const BUILT_IN_ALIASES: Record<string, string> = {
+  sbux: "starbucks",
+  amzn: "amazon",
+  "amzn mktp": "amazon",
+  "amazon mktp": "amazon",
+  "amazon marketplace": "amazon",
+  mcd: "mcdonalds",
+  "mc donalds": "mcdonalds",
+  "wal mart": "walmart",
+  wm: "walmart",
+  "wm supercenter": "walmart",
+  "walmart supercenter": "walmart",
+};
+
+// Card processors that put their own prefix before the merchant, e.g. "SQ *BLUE BOTTLE"
+const PROCESSOR_PREFIX = /^(?:sq|tst|sp|pp|paypal|ppl|pos|iz|zettle)\s*\*\s*/;
+const PURCHASE_PREFIX = /^(?:debit card purchase|card purchase|contactless|purchase|payment to|pos)\s+/;
+// Typed descriptions often name the merchant last: "Coffee at Starbucks", "Lunch from Chipotle"
+const TYPED_MERCHANT = /\s(?:at|from|@)\s+(.+)$/;
+// Longer names are cut down, since trailing words are usually a branch or location
+const MAX_WORDS = 4;
+
+// Normalisation key for the merchant in a description: processor prefixes, store numbers,
+// domains and punctuation are dropped, and known abbreviations expanded. Null when nothing is left.
+export const merchantKey = (description: string): string | null => {
+  let text = description.trim().toLowerCase();
+  const typed = text.match(TYPED_MERCHANT);
+  if (typed) text = typed[1];
+  text = text
+    .replace(PROCESSOR_PREFIX, "")
+    .replace(PURCHASE_PREFIX, "")
+    // Anything after a "*" is a transaction reference: "amzn mktp us*2k3l50"
+    .replace(/\*.*$/, "")
+    .replace(/\.(?:com|net|org|co\.uk|io)\b.*$/, "")
+    .replace(/#\s*\d+/g, " ")
+    .replace(/\b(?:store|no|nr|unit)\.?\s*\d+\b/g, " ")
+    .replace(/['’]/g, "")
+    .replace(/[^\p{L}\p{N}]+/gu, " ")
+    // Long numbers are store ids, card numbers or dates rather than part of the name
+    .replace(/\b\d{3,}\b/g, " ")
+    .trim()
+    .split(/\s+/)
+    .slice(0, MAX_WORDS)
+    .join(" ");
+  if (!text) return null;
+  const alias = Object.keys(BUILT_IN_ALIASES).find(abbreviation => text === abbreviation || text.startsWith(`${abbreviation} `));
+  return alias ? BUILT_IN_ALIASES[alias] : text;
+};
+
+const titleCase = (key: string) => key.replace(/\b\p{L}/gu, letter => letter.toUpperCase());
+
+// The merchant a description belongs to, following the user's confirmed aliases
+export const resolveMerchant = (description: string, merchants: Merchant[]): ResolvedMerchant | null => {
+  const key = merchantKey(description);
+  if (!key) return null;
+  const merchant = merchants.find(m => m.id === key || m.aliases.includes(key));
+  return merchant ? { key: merchant.id, name: merchant.name } : { key, name: titleCase(key) };
+};
+
+// Spending per merchant in the period, biggest first, with the period before for the trend
+export const merchantStats = (
+  expenses: Pick<Expense, "description" | "amount" | "split" | "date">[],
+  merchants: Merchant[],
+  period: ActivePeriod
+): MerchantStat[] => {
+  const stats = new Map<string, MerchantStat>();
+  expenses.forEach(expense => {
+    const current = inPeriod(expense.date, period);
+    if (!current && !inPreviousPeriod(expense.date, period)) return;
+    const merchant = resolveMerchant(expense.description, merchants);
+    if (!merchant) return;
+    const stat = stats.get(merchant.key) ?? { ...merchant, total: 0, visits: 0, averageTicket: 0, previousTotal: 0, trend: null };
+    if (current) {
+      stat.total += myShare(expense);
+      stat.visits += 1;
+    } else {
+      stat.previousTotal += myShare(expense);
+    }
+    stats.set(merchant.key, stat);
+  });
+  return [...stats.values()]
+    .filter(stat => stat.visits > 0)
+    .map(stat => ({
+      ...stat,
+      averageTicket: stat.total / stat.visits,
+      trend: stat.previousTotal > 0 ? ((stat.total - stat.previousTotal) / stat.previousTotal) * 100 : null,
+    }))
+    .sort((a, b) => b.total - a.total || b.visits - a.visits);
+};
+
+// Merchant names for autocomplete, most visited first
+export const knownMerchants = (expenses: Pick<Expense, "description">[], merchants: Merchant[]) => {
+  const visits = new Map<string, { name: string; count: number }>();
+  expenses.forEach(expense => {
+    const merchant = resolveMerchant(expense.description, merchants);
+    if (!merchant) return;
+    const entry = visits.get(merchant.key) ?? { name: merchant.name, count: 0 };
+    visits.set(merchant.key, { ...entry, count: entry.count + 1 });
+  });
+  return [...visits.values()].sort((a, b) => b.count - a.count || a.name.localeCompare(b.name)).map(entry => entry.name);
+};
+
+const editDistance = (a: string, b: string) => {
+  let previous = Array.from({ length: b.length + 1 }, (_, index) => index);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1));
+    }
+    previous = current;
+  }
+  return previous[b.length];
+};
+
+// Pairs of merchants that look like spellings of the same one, e.g. "starbucks reserve" and
+// "starbucks" or "starbuck" and "starbucks", with the more visited one as the target
+export const aliasSuggestions = (stats: MerchantStat[], dismissed: string[] = []) => {
+  const suggestions: { target: MerchantStat; alias: MerchantStat }[] = [];
+  const ranked = [...stats].sort((a, b) => b.visits - a.visits || b.total - a.total);
+  ranked.forEach((alias, index) => {
+    const target = ranked.slice(0, index).find(
+      candidate =>
+        alias.key.startsWith(`${candidate.key} `) ||
+        candidate.key.startsWith(`${alias.key} `) ||
+        (Math.min(alias.key.length, candidate.key.length) >= 5 && editDistance(alias.key, candidate.key) <= 2)
+    );
+    if (target && !dismissed.includes(`${target.key}|${alias.key}`)) suggestions.push({ target, alias });
+  });
+  return suggestions;
+};
+
+// Folds `alias` into `target`, taking over any aliases it had confirmed itself
+export const mergeMerchants = (
+  merchants: Merchant[],
+  target: ResolvedMerchant,
+  alias: ResolvedMerchant
+): { merged: Merchant; absorbed?: Merchant } => {
+  const existing = merchants.find(m => m.id === target.key);
+  const absorbed = merchants.find(m => m.id === alias.key);
+  const aliases = [...(existing?.aliases ?? []), alias.key, ...(absorbed?.aliases ?? [])];
+  return {
+    merged: { id: target.key, name: existing?.name ?? target.name, aliases: [...new Set(aliases)] },
+    ...(absorbed ? { absorbed } : {}),
+  };
+};
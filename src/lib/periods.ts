@@ -0,0 +1,126 @@
+import type { Budget, BudgetPeriod, PeriodKind } from "@/lib/schemas";
+import { todayISO } from "@/lib/recurrence";
+import { daysBetween } from "@/lib/goals";
+
+// Selector value for the built-in calendar month, which uses the regular monthly budget
+export const CALENDAR_MONTH = "month";
+
+export const periodKinds: { value: PeriodKind; label: string }[] = [
+  { value: "semester", label: "🎓 Semester" },
+  { value: "quarter", label: "📅 Quarter" },
+  { value: "custom", label: "🗓️ Custom range" },
+];
+
+// The period every summary is computed over, with the window just before it for comparisons
+export interface ActivePeriod {
+  id: string;
+  name: string;
+  start: string;
+  end: string;
+  limits: Budget;
+  previousStart: string;
+  previousEnd: string;
+}
+
+const pad = (n: number) => String(n).padStart(2, "0");
+
+const dateOf = (year: number, monthIndex: number, day: number) => {
+  const date = new Date(Date.UTC(year, monthIndex, day));
+  return `${date.getUTCFullYear()}-${pad(date.getUTCMonth() + 1)}-${pad(date.getUTCDate())}`;
+};
+
+const parts = (iso: string) => iso.split("-").map(Number) as [number, number, number];
+
+export const shiftDays = (iso: string, days: number) => {
+  const [year, month, day] = parts(iso);
+  return dateOf(year, month - 1, day + days);
+};
+
+export const monthPeriod = (budget: Budget, today = todayISO()): ActivePeriod => {
+  const [year, month] = parts(today);
+  return {
+    id: CALENDAR_MONTH,
+    name: "This Month",
+    start: dateOf(year, month - 1, 1),
+    end: dateOf(year, month, 0),
+    limits: budget,
+    previousStart: dateOf(year, month - 2, 1),
+    previousEnd: dateOf(year, month - 1, 0),
+  };
+};
+
+// Length in days, counting both ends
+export const periodLength = (period: Pick<ActivePeriod, "start" | "end">) => daysBetween(period.start, period.end) + 1;
+
+export const toActivePeriod = (period: BudgetPeriod): ActivePeriod => ({
+  id: period.id,
+  name: period.name,
+  start: period.start,
+  end: period.end,
+  limits: period.limits,
+  previousStart: shiftDays(period.start, -periodLength(period)),
+  previousEnd: shiftDays(period.start, -1),
+});
+
+// The selected period, falling back to the calendar month when it has been deleted
+export const resolvePeriod = (
+  periods: BudgetPeriod[],
+  selectedId: string,
+  budget: Budget,
+  today = todayISO()
+): ActivePeriod => {
+  const selected = periods.find(period => period.id === selectedId);
+  return selected ? toActivePeriod(selected) : monthPeriod(budget, today);
+};
+
+// Suggested dates for a new period: the semester or calendar quarter that contains today,
+// or the next 30 days for a custom range
+export const presetRange = (kind: PeriodKind, today = todayISO()) => {
+  const [year, month] = parts(today);
+  if (kind === "semester") {
+    return month >= 8
+      ? { start: dateOf(year, 7, 1), end: dateOf(year, 11, 31) }
+      : { start: dateOf(year, 0, 1), end: dateOf(year, 4, 31) };
+  }
+  if (kind === "quarter") {
+    const first = Math.floor((month - 1) / 3) * 3;
+    return { start: dateOf(year, first, 1), end: dateOf(year, first + 3, 0) };
+  }
+  return { start: today, end: shiftDays(today, 29) };
+};
+
+export const inPeriod = (date: string, period: Pick<ActivePeriod, "start" | "end">) =>
+  date >= period.start && date <= period.end;
+
+export const inPreviousPeriod = (date: string, period: ActivePeriod) =>
+  date >= period.previousStart && date <= period.previousEnd;
+
+// Days left including today; the whole period when it hasn't started, 0 once it's over
+export const daysRemaining = (period: Pick<ActivePeriod, "start" | "end">, today = todayISO()) => {
+  if (today > period.end) return 0;
+  return daysBetween(today < period.start ? period.start : today, period.end) + 1;
+};
+
+// How much can be spent per remaining day without going over; null once the period is over
+export const dailyAllowance = (
+  limit: number,
+  spent: number,
+  period: Pick<ActivePeriod, "start" | "end">,
+  today = todayISO()
+) => {
+  const days = daysRemaining(period, today);
+  return days > 0 ? Math.max(0, limit - spent) / days : null;
+};
+
+// Share of the period already behind us, 0–100
+export const elapsedPercent = (period: Pick<ActivePeriod, "start" | "end">, today = todayISO()) =>
+  ((periodLength(period) - daysRemaining(period, today)) / periodLength(period)) * 100;
+
+export const periodLabel = (period: Pick<BudgetPeriod, "start" | "end">) =>
+  `${new Date(period.start).toLocaleDateString()} – ${new Date(period.end).toLocaleDateString()}`;
+
+// Starting limits for a new period: the monthly budget stretched to its length
+export const scaleLimits = (budget: Budget, period: Pick<BudgetPeriod, "start" | "end">): Budget =>
+  Object.fromEntries(
+    Object.entries(budget).map(([category, limit]) => [category, Math.round((limit * periodLength(period)) / 30)])
+  );
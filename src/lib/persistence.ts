@@ -0,0 +1,540 @@
+import { z } from "zod";
+import {
+  accountSchema,
+  budgetPeriodSchema,
+  budgetSchema,
+  categoryRuleSchema,
+  customCategorySchema,
+  envelopePlanSchema,
+  exchangeRateSchema,
+  expenseSchema,
+  incomeSchema,
+  merchantSchema,
+  savedSearchSchema,
+  recurringExpenseSchema,
+  rolloverRuleSchema,
+  savingsGoalSchema,
+  settlementSchema,
+  transferSchema,
+  type Account,
+  type Budget,
+  type BudgetPeriod,
+  type CategoryRule,
+  type CustomCategory,
+  type EnvelopePlan,
+  type ExchangeRate,
+  type Expense,
+  type Income,
+  type Merchant,
+  type SavedSearch,
+  type RecurringExpense,
+  type RolloverRule,
+  type SavingsGoal,
+  type Settlement,
+  type Transfer,
+} from "@/lib/schemas";
+
+export const STORAGE_KEYS = {
+  expenses: "student-finance-expenses",
+  budget: "student-finance-budget",
+  categories: "student-finance-categories",
+  incomes: "student-finance-incomes",
+  recurring: "student-finance-recurring",
+  accounts: "student-finance-accounts",
+  transfers: "student-finance-transfers",
+  rates: "student-finance-rates",
+  settlements: "student-finance-settlements",
+  goals: "student-finance-goals",
+  periods: "student-finance-periods",
+  rollover: "student-finance-rollover",
+  envelopes: "student-finance-envelopes",
+  rules: "student-finance-rules",
+  merchants: "student-finance-merchants",
+  searches: "student-finance-saved-searches",
+  theme: "student-finance-theme",
+  quarantine: "student-finance-quarantine",
+} as const;
+
+// Plain string settings, stored as student-finance-<key> in localStorage
+export const SETTING_KEYS = [
+  "theme",
+  "base-currency",
+  "claimed-rewards",
+  "budget-period",
+  "budget-mode",
+  "dismissed-merchant-aliases",
+] as const;
+export type SettingKey = (typeof SETTING_KEYS)[number];
+
+// Bump this and append a migration to every entity below when a stored shape changes.
+// Version 1 is the original, unversioned format (a bare JSON value per key).
+export const SCHEMA_VERSION = 4;
+
+// Every amount saved before multi-currency support was in dollars
+const LEGACY_CURRENCY = "USD";
+
+const MAX_QUARANTINE_SIZE = 200;
+
+// What a migration can know besides the stored data itself
+interface MigrationContext {
+  // The user's base currency, which amounts saved without a currency of their own were in
+  baseCurrency: string;
+}
+
+// null where an entity had nothing to upgrade at that version
+type Migration = ((data: unknown, context: MigrationContext) => unknown) | null;
+
+interface Rejected {
+  record: unknown;
+  reason: string;
+}
+
+interface EntityDefinition<T> {
+  key: string;
+  name: string;
+  // migrations[i] upgrades stored data from version i + 1 to version i + 2
+  migrations: Migration[];
+  validate: (data: unknown) => { data: T | null; rejected: Rejected[] };
+}
+
+export interface QuarantinedRecord {
+  key: string;
+  version: number;
+  record: unknown;
+  reason: string;
+  quarantinedAt: string;
+}
+
+export interface LoadReport {
+  key: string;
+  name: string;
+  migratedFrom: number | null;
+  quarantined: number;
+}
+
+export interface LoadResult<T> {
+  data: T | null;
+  report: LoadReport | null;
+}
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+const describeIssues = (error: z.ZodError) =>
+  error.issues.map(issue => `${issue.path.join(".") || "value"}: ${issue.message}`).join("; ");
+
+// Validates each array item on its own so one bad record doesn't discard the rest
+const collectionValidator = <T>(schema: z.ZodTypeAny) => (data: unknown) => {
+  if (!Array.isArray(data)) {
+    return { data: null, rejected: [{ record: data, reason: "Expected a list of records" }] };
+  }
+  const valid: T[] = [];
+  const rejected: Rejected[] = [];
+  data.forEach(item => {
+    const result = schema.safeParse(item);
+    if (result.success) {
+      valid.push(result.data as T);
+    } else {
+      rejected.push({ record: item, reason: describeIssues(result.error) });
+    }
+  });
+  return { data: valid, rejected };
+};
+
+const recordValidator = <T>(schema: z.ZodTypeAny) => (data: unknown) => {
+  if (!isPlainObject(data)) {
+    return { data: null, rejected: [{ record: data, reason: "Expected an object of values" }] };
+  }
+  const valid: Record<string, T> = {};
+  const rejected: Rejected[] = [];
+  Object.entries(data).forEach(([field, value]) => {
+    const result = schema.safeParse({ [field]: value });
+    if (result.success) {
+      valid[field] = result.data[field];
+    } else {
+      rejected.push({ record: { [field]: value }, reason: describeIssues(result.error) });
+    }
+  });
+  return { data: valid, rejected };
+};
+
+const mapItems =
+  (fn: (item: Record<string, unknown>, context: MigrationContext) => Record<string, unknown>): Migration =>
+  (data, context) =>
+    Array.isArray(data) ? data.map(item => (isPlainObject(item) ? fn(item, context) : item)) : data;
+
+// Income, balances, transfers and settlements used to be entered in the base currency without saying so
+const inBaseCurrency = mapItems((item, { baseCurrency }) => ({ ...item, currency: item.currency ?? baseCurrency }));
+
+const toNumber = (value: unknown) =>
+  typeof value === "string" && value.trim() !== "" && !isNaN(Number(value)) ? Number(value) : value;
+
+const expensesEntity: EntityDefinition<Expense[]> = {
+  key: STORAGE_KEYS.expenses,
+  name: "expenses",
+  migrations: [
+    // v1 -> v2: early builds stored numeric ids, string amounts and full ISO timestamps
+    mapItems(item => ({
+      ...item,
+      id: typeof item.id === "number" ? String(item.id) : item.id,
+      amount: toNumber(item.amount),
+      date: typeof item.date === "string" ? item.date.slice(0, 10) : item.date,
+    })),
+    // v2 -> v3: amounts gained an explicit currency
+    mapItems(item => ({ ...item, currency: item.currency ?? LEGACY_CURRENCY })),
+    // v3 -> v4: amounts can no longer be negative. Refunds typed in as negative amounts are kept
+    // as positive ones with a note saying so, rather than quarantined.
+    mapItems(item => {
+      if (typeof item.amount !== "number" || item.amount >= 0) return item;
+      const note = `Refund, originally saved as ${item.amount}`;
+      return {
+        ...item,
+        amount: -item.amount,
+        notes: typeof item.notes === "string" && item.notes.trim() ? `${item.notes}\n${note}` : note,
+      };
+    }),
+  ],
+  validate: collectionValidator<Expense>(expenseSchema),
+};
+
+const budgetEntity: EntityDefinition<Budget> = {
+  key: STORAGE_KEYS.budget,
+  name: "budget",
+  migrations: [
+    // v1 -> v2: budget inputs were occasionally saved as strings
+    data =>
+      isPlainObject(data)
+        ? Object.fromEntries(Object.entries(data).map(([category, limit]) => [category, toNumber(limit)]))
+        : data,
+  ],
+  validate: recordValidator<number>(budgetSchema),
+};
+
+const categoriesEntity: EntityDefinition<CustomCategory[]> = {
+  key: STORAGE_KEYS.categories,
+  name: "categories",
+  migrations: [
+    // v1 -> v2: keywords could be the raw comma-separated form input and ids were optional
+    mapItems(item => ({
+      ...item,
+      id: item.id ?? item.value,
+      keywords:
+        typeof item.keywords === "string"
+          ? item.keywords.split(",").map(k => k.trim().toLowerCase()).filter(k => k)
+          : item.keywords,
+    })),
+  ],
+  validate: collectionValidator<CustomCategory>(customCategorySchema),
+};
+
+const incomesEntity: EntityDefinition<Income[]> = {
+  key: STORAGE_KEYS.incomes,
+  name: "income",
+  migrations: [
+    // v1 -> v2: introduced in v2
+    null,
+    null,
+    // v3 -> v4: income gained an explicit currency
+    inBaseCurrency,
+  ],
+  validate: collectionValidator<Income>(incomeSchema),
+};
+
+const recurringEntity: EntityDefinition<RecurringExpense[]> = {
+  key: STORAGE_KEYS.recurring,
+  name: "recurring expenses",
+  migrations: [
+    // v1 -> v2: introduced in v2
+    null,
+    // v2 -> v3: templates gained an explicit currency
+    mapItems(item => ({ ...item, currency: item.currency ?? LEGACY_CURRENCY })),
+  ],
+  validate: collectionValidator<RecurringExpense>(recurringExpenseSchema),
+};
+
+const accountsEntity: EntityDefinition<Account[]> = {
+  key: STORAGE_KEYS.accounts,
+  name: "accounts",
+  migrations: [
+    // v1 -> v2: introduced in v2
+    null,
+    null,
+    // v3 -> v4: opening balances gained an explicit currency
+    inBaseCurrency,
+  ],
+  validate: collectionValidator<Account>(accountSchema),
+};
+
+const transfersEntity: EntityDefinition<Transfer[]> = {
+  key: STORAGE_KEYS.transfers,
+  name: "transfers",
+  migrations: [
+    // v1 -> v2: introduced in v2
+    null,
+    null,
+    // v3 -> v4: transfers gained an explicit currency
+    inBaseCurrency,
+  ],
+  validate: collectionValidator<Transfer>(transferSchema),
+};
+
+const ratesEntity: EntityDefinition<ExchangeRate[]> = {
+  key: STORAGE_KEYS.rates,
+  name: "exchange rates",
+  // Introduced in v3, so there is nothing to upgrade yet
+  migrations: [],
+  validate: collectionValidator<ExchangeRate>(exchangeRateSchema),
+};
+
+const settlementsEntity: EntityDefinition<Settlement[]> = {
+  key: STORAGE_KEYS.settlements,
+  name: "settlements",
+  migrations: [
+    // v1 -> v2, v2 -> v3: introduced in v3
+    null,
+    null,
+    // v3 -> v4: settlements gained an explicit currency
+    inBaseCurrency,
+  ],
+  validate: collectionValidator<Settlement>(settlementSchema),
+};
+
+const goalsEntity: EntityDefinition<SavingsGoal[]> = {
+  key: STORAGE_KEYS.goals,
+  name: "savings goals",
+  // Introduced in v3, so there is nothing to upgrade yet
+  migrations: [],
+  validate: collectionValidator<SavingsGoal>(savingsGoalSchema),
+};
+
+const periodsEntity: EntityDefinition<BudgetPeriod[]> = {
+  key: STORAGE_KEYS.periods,
+  name: "budget periods",
+  // Introduced in v3, so there is nothing to upgrade yet
+  migrations: [],
+  validate: collectionValidator<BudgetPeriod>(budgetPeriodSchema),
+};
+
+const rolloverEntity: EntityDefinition<RolloverRule[]> = {
+  key: STORAGE_KEYS.rollover,
+  name: "rollover rules",
+  // Introduced in v3, so there is nothing to upgrade yet
+  migrations: [],
+  validate: collectionValidator<RolloverRule>(rolloverRuleSchema),
+};
+
+const envelopesEntity: EntityDefinition<EnvelopePlan[]> = {
+  key: STORAGE_KEYS.envelopes,
+  name: "envelope plans",
+  // Introduced in v3, so there is nothing to upgrade yet
+  migrations: [],
+  validate: collectionValidator<EnvelopePlan>(envelopePlanSchema),
+};
+
+const rulesEntity: EntityDefinition<CategoryRule[]> = {
+  key: STORAGE_KEYS.rules,
+  name: "categorization rules",
+  // Introduced in v3, so there is nothing to upgrade yet
+  migrations: [],
+  validate: collectionValidator<CategoryRule>(categoryRuleSchema),
+};
+
+const merchantsEntity: EntityDefinition<Merchant[]> = {
+  key: STORAGE_KEYS.merchants,
+  name: "merchants",
+  // Introduced in v3, so there is nothing to upgrade yet
+  migrations: [],
+  validate: collectionValidator<Merchant>(merchantSchema),
+};
+
+const searchesEntity: EntityDefinition<SavedSearch[]> = {
+  key: STORAGE_KEYS.searches,
+  name: "searches",
+  // Introduced in v3, so there is nothing to upgrade yet
+  migrations: [],
+  validate: collectionValidator<SavedSearch>(savedSearchSchema),
+};
+
+// Everything the app persists, by name. Backends iterate this to load, copy and validate.
+export interface StoredEntities {
+  expenses: Expense[];
+  budget: Budget;
+  categories: CustomCategory[];
+  incomes: Income[];
+  recurring: RecurringExpense[];
+  accounts: Account[];
+  transfers: Transfer[];
+  rates: ExchangeRate[];
+  settlements: Settlement[];
+  goals: SavingsGoal[];
+  periods: BudgetPeriod[];
+  rollover: RolloverRule[];
+  envelopes: EnvelopePlan[];
+  rules: CategoryRule[];
+  merchants: Merchant[];
+  searches: SavedSearch[];
+}
+
+export type EntityName = keyof StoredEntities;
+
+const entities: { [N in EntityName]: EntityDefinition<StoredEntities[N]> } = {
+  expenses: expensesEntity,
+  budget: budgetEntity,
+  categories: categoriesEntity,
+  incomes: incomesEntity,
+  recurring: recurringEntity,
+  accounts: accountsEntity,
+  transfers: transfersEntity,
+  rates: ratesEntity,
+  settlements: settlementsEntity,
+  goals: goalsEntity,
+  periods: periodsEntity,
+  rollover: rolloverEntity,
+  envelopes: envelopesEntity,
+  rules: rulesEntity,
+  merchants: merchantsEntity,
+  searches: searchesEntity,
+};
+
+export const ENTITY_NAMES = Object.keys(entities) as EntityName[];
+
+export const getQuarantine = (): QuarantinedRecord[] => {
+  try {
+    const parsed = JSON.parse(localStorage.getItem(STORAGE_KEYS.quarantine) || "[]");
+    return Array.isArray(parsed) ? parsed : [];
+  } catch {
+    return [];
+  }
+};
+
+const quarantine = (key: string, version: number, rejected: Rejected[]) => {
+  const quarantinedAt = new Date().toISOString();
+  const entries: QuarantinedRecord[] = rejected.map(({ record, reason }) => ({
+    key,
+    version,
+    record,
+    reason,
+    quarantinedAt,
+  }));
+  const combined = [...getQuarantine(), ...entries].slice(-MAX_QUARANTINE_SIZE);
+  localStorage.setItem(STORAGE_KEYS.quarantine, JSON.stringify(combined));
+};
+
+const writeEnvelope = (key: string, data: unknown) => {
+  localStorage.setItem(key, JSON.stringify({ version: SCHEMA_VERSION, data }));
+};
+
+const loadEntity = <T>(entity: EntityDefinition<T>, baseCurrency: string | null): LoadResult<T> => {
+  const raw = localStorage.getItem(entity.key);
+  if (raw === null) return { data: null, report: null };
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(raw);
+  } catch {
+    quarantine(entity.key, 0, [{ record: raw, reason: "Stored value is not valid JSON" }]);
+    localStorage.removeItem(entity.key);
+    return { data: null, report: { key: entity.key, name: entity.name, migratedFrom: null, quarantined: 1 } };
+  }
+
+  const isEnvelope = isPlainObject(parsed) && typeof parsed.version === "number" && "data" in parsed;
+  const storedVersion = isEnvelope ? (parsed as { version: number }).version : 1;
+  const data = isEnvelope ? (parsed as { data: unknown }).data : parsed;
+
+  const result = upgradeEntity(entity, data, storedVersion, baseCurrency);
+  if (result.report) {
+    if (result.data === null) {
+      localStorage.removeItem(entity.key);
+    } else {
+      writeEnvelope(entity.key, result.data);
+    }
+  }
+  return result;
+};
+
+const migrateEntity = <T>(
+  entity: EntityDefinition<T>,
+  data: unknown,
+  storedVersion: number,
+  baseCurrency: string | null
+) => {
+  const context: MigrationContext = { baseCurrency: baseCurrency || LEGACY_CURRENCY };
+  let upgraded = data;
+  for (let version = storedVersion; version < SCHEMA_VERSION; version++) {
+    const migrate = entity.migrations[version - 1];
+    if (migrate) upgraded = migrate(upgraded, context);
+  }
+  return entity.validate(upgraded);
+};
+
+// Runs pending migrations and validation on data read from any backend, quarantining rejects
+const upgradeEntity = <T>(
+  entity: EntityDefinition<T>,
+  data: unknown,
+  storedVersion: number,
+  baseCurrency: string | null
+): LoadResult<T> => {
+  const { data: valid, rejected } = migrateEntity(entity, data, storedVersion, baseCurrency);
+  const migratedFrom = storedVersion < SCHEMA_VERSION ? storedVersion : null;
+
+  if (rejected.length > 0) {
+    quarantine(entity.key, storedVersion, rejected);
+  }
+
+  const report =
+    migratedFrom !== null || rejected.length > 0
+      ? { key: entity.key, name: entity.name, migratedFrom, quarantined: rejected.length }
+      : null;
+
+  return { data: valid, report };
+};
+
+// `baseCurrency` is the stored setting, or null when it was never changed from the default
+export const loadStored = <N extends EntityName>(name: N, baseCurrency: string | null = null) =>
+  loadEntity(entities[name], baseCurrency);
+
+export const upgradeStored = <N extends EntityName>(
+  name: N,
+  data: unknown,
+  storedVersion: number,
+  baseCurrency: string | null
+) => upgradeEntity(entities[name], data, storedVersion, baseCurrency);
+
+// Same migrations and validation without quarantining anything, for data the user hasn't accepted yet
+export const checkStored = <N extends EntityName>(
+  name: N,
+  data: unknown,
+  storedVersion: number,
+  baseCurrency: string | null
+) => {
+  const { data: valid, rejected } = migrateEntity(entities[name], data, storedVersion, baseCurrency);
+  return { data: valid, rejected: rejected.length };
+};
+
+export const saveStored = <N extends EntityName>(name: N, data: StoredEntities[N]) =>
+  writeEnvelope(entities[name].key, data);
+
+// Drops the stored entities, e.g. once they have been copied to another backend
+export const clearStoredEntities = () => {
+  ENTITY_NAMES.forEach(name => localStorage.removeItem(entities[name].key));
+};
+
+// Summarises load reports as a single sentence for a toast, or null if nothing was repaired
+export const describeLoadReports = (reports: (LoadReport | null)[]): string | null => {
+  const relevant = reports.filter((report): report is LoadReport => report !== null);
+  if (relevant.length === 0) return null;
+
+  const migrated = relevant.filter(report => report.migratedFrom !== null).map(report => report.name);
+  const quarantined = relevant.reduce((sum, report) => sum + report.quarantined, 0);
+
+  const parts: string[] = [];
+  if (migrated.length > 0) {
+    parts.push(`Upgraded saved ${migrated.join(", ")} to the latest format.`);
+  }
+  if (quarantined > 0) {
+    parts.push(
+      `${quarantined} invalid ${quarantined === 1 ? "record was" : "records were"} set aside instead of being loaded.`
+    );
+  }
+  return parts.join(" ");
+};
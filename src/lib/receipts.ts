@@ -0,0 +1,69 @@
+import type { Expense, Receipt } from "@/lib/schemas";
+
+// What the file inputs offer; checkReceiptFile has the final say
+export const RECEIPT_ACCEPT = "image/*,application/pdf";
+export const MAX_RECEIPT_BYTES = 10 * 1024 * 1024;
+const THUMBNAIL_PIXELS = 160;
+
+export const isPdfReceipt = (receipt: Pick<Receipt, "type">) => receipt.type === "application/pdf";
+
+// Error message for a file that can't be attached, or null when it's fine
+export const checkReceiptFile = (file: File): string | null => {
+  if (!file.type.startsWith("image/") && file.type !== "application/pdf") {
+    return `${file.name} isn't an image or PDF`;
+  }
+  if (file.size > MAX_RECEIPT_BYTES) {
+    return `${file.name} is over ${MAX_RECEIPT_BYTES / 1024 / 1024} MB`;
+  }
+  return null;
+};
+
+// A small JPEG preview, or undefined for PDFs and formats the browser can't decode (HEIC on most desktops)
+export const createThumbnail = async (file: Blob): Promise<string | undefined> => {
+  if (!file.type.startsWith("image/") || typeof createImageBitmap === "undefined") return undefined;
+  try {
+    const bitmap = await createImageBitmap(file);
+    const scale = Math.min(1, THUMBNAIL_PIXELS / Math.max(bitmap.width, bitmap.height));
+    const canvas = document.createElement("canvas");
+    canvas.width = Math.round(bitmap.width * scale);
+    canvas.height = Math.round(bitmap.height * scale);
+    canvas.getContext("2d")?.drawImage(bitmap, 0, 0, canvas.width, canvas.height);
+    bitmap.close();
+    return canvas.toDataURL("image/jpeg", 0.7);
+  } catch {
+    return undefined;
+  }
+};
+
+export const createReceipt = async (file: File, expenseId: string, index = 0): Promise<Receipt> => {
+  const thumbnail = await createThumbnail(file);
+  return {
+    id: `${Date.now()}-${index}`,
+    expenseId,
+    name: file.name,
+    type: file.type,
+    size: file.size,
+    createdAt: new Date().toISOString(),
+    file,
+    ...(thumbnail ? { thumbnail } : {}),
+  };
+};
+
+export const receiptsFor = (receipts: Receipt[], expenseId: string) =>
+  receipts.filter(receipt => receipt.expenseId === expenseId);
+
+export const formatFileSize = (bytes: number) =>
+  bytes < 1024 * 1024 ? `${Math.max(1, Math.round(bytes / 1024))} KB` : `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+
+const slug = (text: string) =>
+  text
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-|-$/g, "")
+    .slice(0, 40) || "expense";
+
+// Path inside an export archive, e.g. receipts/2024-09-01-textbook-2.pdf
+export const receiptArchivePath = (receipt: Receipt, expense: Pick<Expense, "date" | "description">, index: number) => {
+  const extension = /\.([a-z0-9]+)$/i.exec(receipt.name)?.[1]?.toLowerCase() ?? (isPdfReceipt(receipt) ? "pdf" : "jpg");
+  return `receipts/${expense.date}-${slug(expense.description)}${index > 0 ? `-${index + 1}` : ""}.${extension}`;
+};
@@ -0,0 +1,70 @@
+import type { Recurrence } from "@/lib/schemas";
+
+const pad = (n: number) => String(n).padStart(2, "0");
+
+const formatDate = (year: number, monthIndex: number, day: number) => {
+  const date = new Date(year, monthIndex, day);
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+};
+
+// Today as YYYY-MM-DD in the user's timezone
+export const todayISO = () => {
+  const now = new Date();
+  return formatDate(now.getFullYear(), now.getMonth(), now.getDate());
+};
+
+// nth occurrence after the anchor date. Month-based schedules clamp to the end of short months.
+export const nthOccurrence = (anchor: string, recurrence: Recurrence, n: number): string => {
+  const [year, month, day] = anchor.split("-").map(Number);
+  const monthIndex = month - 1;
+  switch (recurrence) {
+    case "daily":
+      return formatDate(year, monthIndex, day + n);
+    case "weekly":
+      return formatDate(year, monthIndex, day + 7 * n);
+    case "biweekly":
+      return formatDate(year, monthIndex, day + 14 * n);
+    case "monthly":
+    case "semester": {
+      const targetMonth = monthIndex + n * (recurrence === "monthly" ? 1 : 6);
+      const daysInTarget = new Date(year, targetMonth + 1, 0).getDate();
+      return formatDate(year, targetMonth, Math.min(day, daysInTarget));
+    }
+    default:
+      return anchor;
+  }
+};
+
+// Dates a schedule falls on between two inclusive YYYY-MM-DD bounds
+export const occurrencesBetween = (
+  anchor: string,
+  recurrence: Recurrence,
+  from: string,
+  to: string,
+  endDate?: string
+): string[] => {
+  if (recurrence === "none") {
+    return anchor >= from && anchor <= to ? [anchor] : [];
+  }
+  const last = endDate && endDate < to ? endDate : to;
+  const dates: string[] = [];
+  for (let n = 0; ; n++) {
+    const date = nthOccurrence(anchor, recurrence, n);
+    if (date > last) break;
+    if (date >= from) dates.push(date);
+  }
+  return dates;
+};
+
+const OCCURRENCES_PER_YEAR: Record<Recurrence, number> = {
+  none: 0,
+  daily: 365,
+  weekly: 52,
+  biweekly: 26,
+  monthly: 12,
+  semester: 2,
+};
+
+export const annualizedAmount = (amount: number, recurrence: Recurrence) => amount * OCCURRENCES_PER_YEAR[recurrence];
+
+export const monthlyAmount = (amount: number, recurrence: Recurrence) => annualizedAmount(amount, recurrence) / 12;
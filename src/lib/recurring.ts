@@ -0,0 +1,75 @@
+import type { Expense, Recurrence, RecurringExpense } from "@/lib/schemas";
+import { nthOccurrence, occurrencesBetween } from "@/lib/recurrence";
+
+export const scheduleOptions: { value: Recurrence; label: string }[] = [
+  { value: "daily", label: "Daily" },
+  { value: "weekly", label: "Weekly" },
+  { value: "biweekly", label: "Every 2 weeks" },
+  { value: "monthly", label: "Monthly" },
+  { value: "semester", label: "Every semester" },
+];
+
+// Deterministic, so materializing the same occurrence twice overwrites instead of duplicating
+export const occurrenceId = (template: RecurringExpense, date: string) => `${template.id}@${date}`;
+
+// Next occurrence that has not been materialized or skipped, or null once the schedule has ended
+export const nextDueDate = (template: RecurringExpense): string | null => {
+  for (let n = 0; ; n++) {
+    if (n > 0 && template.schedule === "none") return null;
+    const date = nthOccurrence(template.startDate, template.schedule, n);
+    if (template.endDate && date > template.endDate) return null;
+    if (template.materializedThrough && date <= template.materializedThrough) continue;
+    if (!template.skippedDates.includes(date)) return date;
+  }
+};
+
+export const skipNextOccurrence = (template: RecurringExpense): RecurringExpense => {
+  const next = nextDueDate(template);
+  return next ? { ...template, skippedDates: [...template.skippedDates, next] } : template;
+};
+
+export interface Materialized {
+  expenses: Expense[];
+  // Only the templates whose materializedThrough moved
+  templates: RecurringExpense[];
+}
+
+// Turns every occurrence due up to today into an expense and advances each template past it
+export const materializeRecurring = (templates: RecurringExpense[], today: string): Materialized => {
+  const expenses: Expense[] = [];
+  const updated: RecurringExpense[] = [];
+
+  templates.forEach(template => {
+    if (template.materializedThrough && template.materializedThrough >= today) return;
+
+    if (!template.paused) {
+      occurrencesBetween(template.startDate, template.schedule, template.startDate, today, template.endDate)
+        .filter(date => !template.materializedThrough || date > template.materializedThrough)
+        .filter(date => !template.skippedDates.includes(date))
+        .forEach(date =>
+          expenses.push({
+            id: occurrenceId(template, date),
+            date,
+            description: template.description,
+            category: template.category,
+            // Picked by the user when they set up the template
+            categorySource: "manual",
+            amount: template.amount,
+            currency: template.currency,
+            recurringId: template.id,
+          })
+        );
+    }
+
+    updated.push({
+      ...template,
+      materializedThrough: today,
+      // Skips in the past have served their purpose
+      skippedDates: template.skippedDates.filter(date => date > today),
+    });
+  });
+
+  // Newest first, like the rest of the expense list
+  expenses.sort((a, b) => b.date.localeCompare(a.date));
+  return { expenses, templates: updated };
+};
@@ -0,0 +1,102 @@
+import type {
+  Account,
+  Budget,
+  BudgetPeriod,
+  CategoryRule,
+  CustomCategory,
+  EnvelopePlan,
+  ExchangeRate,
+  Expense,
+  Income,
+  Merchant,
+  SavedSearch,
+  Receipt,
+  RecurringExpense,
+  RolloverRule,
+  SavingsGoal,
+  Settlement,
+  Transfer,
+} from "@/lib/schemas";
+import type { LoadReport } from "@/lib/persistence";
+import { createLocalStorageRepository } from "@/lib/local-storage-repository";
+import { openIndexedDbRepository } from "@/lib/indexeddb-repository";
+
+export interface ExpenseQuery {
+  // Inclusive YYYY-MM-DD bounds
+  from?: string;
+  to?: string;
+  category?: string;
+}
+
+export interface RecordStore<T extends { id: string }> {
+  getAll(): Promise<T[]>;
+  put(record: T): Promise<void>;
+  delete(id: string): Promise<void>;
+  replaceAll(records: T[]): Promise<void>;
+}
+
+export interface ExpenseStore extends RecordStore<Expense> {
+  query(query: ExpenseQuery): Promise<Expense[]>;
+}
+
+export interface FinanceRepository {
+  kind: "indexeddb" | "localstorage";
+  expenses: ExpenseStore;
+  incomes: RecordStore<Income>;
+  recurring: RecordStore<RecurringExpense>;
+  accounts: RecordStore<Account>;
+  transfers: RecordStore<Transfer>;
+  rates: RecordStore<ExchangeRate>;
+  settlements: RecordStore<Settlement>;
+  goals: RecordStore<SavingsGoal>;
+  periods: RecordStore<BudgetPeriod>;
+  // One rule per category, keyed by the category value
+  rollover: RecordStore<RolloverRule>;
+  envelopes: RecordStore<EnvelopePlan>;
+  // Applied in `priority` order, not storage order
+  rules: RecordStore<CategoryRule>;
+  merchants: RecordStore<Merchant>;
+  searches: RecordStore<SavedSearch>;
+  // Always empty on the localStorage backend, which can't hold files
+  receipts: RecordStore<Receipt>;
+  budgets: {
+    get(): Promise<Budget | null>;
+    save(budget: Budget): Promise<void>;
+  };
+  categories: {
+    getAll(): Promise<CustomCategory[] | null>;
+    saveAll(categories: CustomCategory[]): Promise<void>;
+  };
+  settings: {
+    get(key: string): Promise<string | null>;
+    set(key: string, value: string): Promise<void>;
+  };
+}
+
+export interface OpenedRepository {
+  repository: FinanceRepository;
+  // Repairs made while opening: schema migrations and quarantined records
+  reports: LoadReport[];
+}
+
+let opening: Promise<OpenedRepository> | null = null;
+
+const open = async (): Promise<OpenedRepository> => {
+  if (typeof indexedDB !== "undefined") {
+    try {
+      return await openIndexedDbRepository();
+    } catch (error) {
+      // Private browsing modes and some embedded webviews refuse IndexedDB
+      console.error("IndexedDB unavailable, falling back to localStorage:", error);
+    }
+  }
+  return createLocalStorageRepository();
+};
+
+// Every caller shares one repository so the open-time migration only runs once
+export const getRepository = (): Promise<OpenedRepository> => {
+  if (!opening) {
+    opening = open();
+  }
+  return opening;
+};
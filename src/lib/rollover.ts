@@ -0,0 +1,92 @@
+import type { Budget, Expense, RolloverMode, RolloverRule } from "@/lib/schemas";
+import { todayISO } from "@/lib/recurrence";
+import { myShare } from "@/lib/splits";
+
+export const rolloverModes: { value: RolloverMode; label: string; description: string }[] = [
+  { value: "reset", label: "Reset", description: "Start from the base limit every month" },
+  { value: "unused", label: "Carry unused", description: "Add what's left over to next month" },
+  { value: "overspend", label: "Carry overspend", description: "Take overspending out of next month as debt" },
+  { value: "both", label: "Carry both", description: "Carry leftovers and overspending alike" },
+];
+
+// One month of a category's budget once rollover is applied
+export interface LedgerEntry {
+  month: string;
+  base: number;
+  // Brought in from the month before; negative when it's debt
+  carriedIn: number;
+  limit: number;
+  spent: number;
+  // Passed on to the month after
+  carriedOut: number;
+}
+
+export const currentMonth = (today = todayISO()) => today.slice(0, 7);
+
+const nextMonth = (month: string) => {
+  const [year, monthNumber] = month.split("-").map(Number);
+  return monthNumber === 12 ? `${year + 1}-01` : `${year}-${String(monthNumber + 1).padStart(2, "0")}`;
+};
+
+const carry = (mode: RolloverMode, leftover: number) => {
+  if (mode === "unused") return Math.max(0, leftover);
+  if (mode === "overspend") return Math.min(0, leftover);
+  if (mode === "both") return leftover;
+  return 0;
+};
+
+// Month by month from the rule's start up to `month`, using today's base limit throughout.
+// Only the user's share of split expenses counts, as in the Budget Manager. `family` lists
+// the categories whose spending counts, so a parent's ledger includes its subcategories.
+export const rolloverLedger = (
+  rule: RolloverRule,
+  base: number,
+  expenses: Expense[],
+  month = currentMonth(),
+  family: string[] = [rule.id]
+): LedgerEntry[] => {
+  const spentByMonth = new Map<string, number>();
+  expenses
+    .filter(expense => family.includes(expense.category))
+    .forEach(expense => {
+      const key = expense.date.slice(0, 7);
+      spentByMonth.set(key, (spentByMonth.get(key) ?? 0) + myShare(expense));
+    });
+
+  const ledger: LedgerEntry[] = [];
+  let carriedIn = 0;
+  for (let m = rule.since; m <= month; m = nextMonth(m)) {
+    const spent = spentByMonth.get(m) ?? 0;
+    const limit = base + carriedIn;
+    const carriedOut = carry(rule.mode, limit - spent);
+    ledger.push({ month: m, base, carriedIn, limit, spent, carriedOut });
+    carriedIn = carriedOut;
+  }
+  return ledger;
+};
+
+// What each category brings into `month` from earlier months
+export const rolloverBalances = (
+  budget: Budget,
+  rules: RolloverRule[],
+  expenses: Expense[],
+  month = currentMonth(),
+  familyOf: (category: string) => string[] = category => [category]
+): Budget =>
+  Object.fromEntries(
+    rules
+      .filter(rule => rule.mode !== "reset")
+      .map(rule => {
+        const ledger = rolloverLedger(rule, budget[rule.id] || 0, expenses, month, familyOf(rule.id));
+        return [rule.id, ledger.length > 0 ? ledger[ledger.length - 1].carriedIn : 0];
+      })
+  );
+
+// Base limits plus rollover, i.e. what can actually be spent in `month`
+export const effectiveLimits = (budget: Budget, balances: Budget): Budget => {
+  const limits = { ...budget };
+  Object.entries(balances).forEach(([category, balance]) => {
+    limits[category] = (limits[category] || 0) + balance;
+  });
+  return limits;
+};
@@ -0,0 +1,170 @@
+import type { CategoryRule, CategorySource, CustomCategory, Expense, RuleMatch } from "@/lib/schemas";
+import { smartCategorize } from "@/lib/categories";
+import { MIN_CONFIDENCE, type CategoryPrediction } from "@/lib/classifier";
+
+export const ruleMatches: { value: RuleMatch; label: string }[] = [
+  { value: "contains", label: "Contains" },
+  { value: "starts-with", label: "Starts with" },
+  { value: "regex", label: "Matches regex" },
+];
+
+export const weekdayLabels = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+
+// What rules look at, whether the expense is being typed in, imported or already recorded.
+// The currency lets amount bounds and the learned classifier compare amounts in the base currency.
+export type RuleInput = Pick<Expense, "description" | "amount" | "date" | "accountId"> & Partial<Pick<Expense, "currency">>;
+
+// Converts an amount into the base currency, which rule amount bounds are set in
+export type ToBase = (amount: number, currency: string, date: string) => number;
+
+export interface RuleOutcome {
+  category?: string;
+  tags: string[];
+  notes?: string;
+  // Every rule that matched, in the order they ran
+  matched: CategoryRule[];
+}
+
+export interface Categorization extends RuleOutcome {
+  category: string;
+  // Where the suggested category came from
+  source: Extract<CategorySource, "rule" | "learned" | "keywords">;
+  // The learned classifier's guess, kept even when it was too unsure to be used
+  prediction?: CategoryPrediction;
+}
+
+// How an existing expense would change if the rules ran on it again
+export interface RuleChange {
+  expense: Expense;
+  updated: Expense;
+  matched: CategoryRule[];
+}
+
+const patternMatches = (rule: Pick<CategoryRule, "match" | "pattern">, description: string) => {
+  if (!rule.pattern) return true;
+  const text = description.trim().toLowerCase();
+  const pattern = rule.pattern.toLowerCase();
+  if (rule.match === "contains") return text.includes(pattern);
+  if (rule.match === "starts-with") return text.startsWith(pattern);
+  try {
+    return new RegExp(rule.pattern, "i").test(description);
+  } catch {
+    return false;
+  }
+};
+
+const weekdayOf = (date: string) => new Date(`${date}T00:00:00Z`).getUTCDay();
+
+// Inputs without a currency, or without a converter, are taken to be in the base currency already
+const baseAmount = (input: RuleInput, toBase?: ToBase) =>
+  toBase && input.currency ? toBase(input.amount, input.currency, input.date) : input.amount;
+
+export const ruleMatchesExpense = (rule: CategoryRule, input: RuleInput, toBase?: ToBase) => {
+  const amount = baseAmount(input, toBase);
+  return (
+    patternMatches(rule, input.description) &&
+    (rule.minAmount === undefined || amount >= rule.minAmount) &&
+    (rule.maxAmount === undefined || amount <= rule.maxAmount) &&
+    (rule.weekdays.length === 0 || rule.weekdays.includes(weekdayOf(input.date))) &&
+    (!rule.accountId || input.accountId === rule.accountId)
+  );
+};
+
+export const sortRules = (rules: CategoryRule[]) => [...rules].sort((a, b) => a.priority - b.priority);
+
+// Priority for a rule added at the bottom of the list
+export const nextPriority = (rules: CategoryRule[]) =>
+  rules.reduce((highest, rule) => Math.max(highest, rule.priority), 0) + 1;
+
+// Rules run in priority order. The first match that sets a category or note decides it;
+// tags from every matching rule are added.
+export const applyRules = (rules: CategoryRule[], input: RuleInput, toBase?: ToBase): RuleOutcome => {
+  const outcome: RuleOutcome = { tags: [], matched: [] };
+  sortRules(rules)
+    .filter(rule => rule.enabled && ruleMatchesExpense(rule, input, toBase))
+    .forEach(rule => {
+      outcome.matched.push(rule);
+      if (rule.category && !outcome.category) outcome.category = rule.category;
+      if (rule.notes && !outcome.notes) outcome.notes = rule.notes;
+      rule.tags.forEach(tag => !outcome.tags.includes(tag) && outcome.tags.push(tag));
+    });
+  return outcome;
+};
+
+// Rules first, then the learned classifier when it is confident enough, then category
+// keywords, then "others"
+export const categorize = (
+  rules: CategoryRule[],
+  categories: CustomCategory[],
+  input: RuleInput,
+  predict?: (description: string, amount: number, currency?: string, date?: string) => CategoryPrediction | null,
+  toBase?: ToBase
+): Categorization => {
+  const outcome = applyRules(rules, input, toBase);
+  if (outcome.category) return { ...outcome, category: outcome.category, source: "rule" };
+  const guess = predict?.(input.description, input.amount, input.currency, input.date);
+  // Ignore guesses for categories that have since been deleted
+  const prediction = guess && categories.some(category => category.value === guess.category) ? guess : undefined;
+  if (prediction && prediction.confidence >= MIN_CONFIDENCE) {
+    return { ...outcome, category: prediction.category, source: "learned", prediction };
+  }
+  return {
+    ...outcome,
+    category: smartCategorize(input.description, categories),
+    source: "keywords",
+    ...(prediction ? { prediction } : {}),
+  };
+};
+
+// Expenses the rules would change if run again. Expenses no rule matches are left as they are
+// rather than re-guessed from keywords, and notes are only filled in where there are none.
+export const previewRules = (rules: CategoryRule[], expenses: Expense[], toBase?: ToBase): RuleChange[] =>
+  expenses.flatMap(expense => {
+    const outcome = applyRules(rules, expense, toBase);
+    if (outcome.matched.length === 0) return [];
+    const existingTags = expense.tags ?? [];
+    const tags = [...existingTags, ...outcome.tags.filter(tag => !existingTags.includes(tag))];
+    const updated: Expense = {
+      ...expense,
+      ...(outcome.category && outcome.category !== expense.category
+        ? { category: outcome.category, categorySource: "rule" as const }
+        : {}),
+      ...(tags.length ? { tags } : {}),
+      ...(outcome.notes && !expense.notes ? { notes: outcome.notes } : {}),
+    };
+    const changed =
+      updated.category !== expense.category || tags.length !== existingTags.length || updated.notes !== expense.notes;
+    return changed ? [{ expense, updated, matched: outcome.matched }] : [];
+  });
+
+// Null when the rule can be saved, otherwise a message for the form
+export const validateRule = (rule: CategoryRule): string | null => {
+  if (!rule.name.trim()) return "Give the rule a name.";
+  if (rule.match === "regex" && rule.pattern) {
+    try {
+      new RegExp(rule.pattern);
+    } catch {
+      return "That regular expression isn't valid.";
+    }
+  }
+  if (
+    (rule.minAmount !== undefined && (isNaN(rule.minAmount) || rule.minAmount < 0)) ||
+    (rule.maxAmount !== undefined && (isNaN(rule.maxAmount) || rule.maxAmount < 0))
+  ) {
+    return "Enter amounts of zero or more.";
+  }
+  if (rule.minAmount !== undefined && rule.maxAmount !== undefined && rule.minAmount > rule.maxAmount) {
+    return "The minimum amount is above the maximum.";
+  }
+  const hasCondition =
+    !!rule.pattern ||
+    rule.minAmount !== undefined ||
+    rule.maxAmount !== undefined ||
+    rule.weekdays.length > 0 ||
+    !!rule.accountId;
+  if (!hasCondition) return "Add at least one condition so the rule doesn't match every expense.";
+  if (!rule.category && rule.tags.length === 0 && !rule.notes) {
+    return "Pick a category, tags or a note for the rule to set.";
+  }
+  return null;
+};
@@ -0,0 +1,530 @@
+import { z } from "zod";
+
+// Calendar date as stored by the expense form's <input type="date">
+const isoDate = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Expected a YYYY-MM-DD date");
+const isoMonth = z.string().regex(/^\d{4}-\d{2}$/, "Expected a YYYY-MM month");
+
+const money = z.number().finite().nonnegative();
+
+// ISO 4217 code, e.g. "USD"
+const currencyCode = z.string().regex(/^[A-Z]{3}$/, "Expected a three-letter currency code");
+
+export const expenseChangeSchema = z.object({
+  timestamp: z.string(),
+  field: z.enum(["description", "amount", "category", "date", "accountId", "currency", "tags", "notes"]),
+  oldValue: z.union([z.string(), z.number()]),
+  newValue: z.union([z.string(), z.number()]),
+  oldCurrency: currencyCode.optional(),
+  newCurrency: currencyCode.optional(),
+});
+
+export const SPLIT_METHODS = ["equal", "percentage", "exact"] as const;
+
+export const expenseSplitSchema = z.object({
+  method: z.enum(SPLIT_METHODS),
+  paidBy: z.string().min(1),
+  shares: z
+    .array(
+      z.object({
+        person: z.string().min(1),
+        value: z.number().finite().nonnegative(),
+      })
+    )
+    .min(1),
+});
+
+// Who picked an expense's category: the user, or one of the automatic categorizers
+export const CATEGORY_SOURCES = ["manual", "rule", "learned", "keywords", "import"] as const;
+
+export const expenseSchema = z.object({
+  id: z.string().min(1),
+  date: isoDate,
+  description: z.string(),
+  category: z.string().min(1),
+  categorySource: z.enum(CATEGORY_SOURCES).optional(),
+  amount: money,
+  currency: currencyCode,
+  history: z.array(expenseChangeSchema).optional(),
+  recurringId: z.string().optional(),
+  accountId: z.string().optional(),
+  split: expenseSplitSchema.optional(),
+  externalId: z.string().optional(),
+  tags: z.array(z.string().min(1)).optional(),
+  notes: z.string().optional(),
+});
+
+export const budgetSchema = z.record(z.string(), money);
+
+export const customCategorySchema = z.object({
+  id: z.string().min(1),
+  value: z.string().min(1),
+  label: z.string().min(1),
+  emoji: z.string(),
+  color: z.string(),
+  keywords: z.array(z.string()),
+  parent: z.string().min(1).optional(),
+});
+
+export const RECURRENCES = ["none", "daily", "weekly", "biweekly", "monthly", "semester"] as const;
+export const INCOME_SOURCES = ["stipend", "wages", "scholarship", "family", "other"] as const;
+
+export const incomeSchema = z.object({
+  id: z.string().min(1),
+  date: isoDate,
+  description: z.string(),
+  source: z.enum(INCOME_SOURCES),
+  amount: money,
+  currency: currencyCode,
+  recurrence: z.enum(RECURRENCES),
+  endDate: isoDate.optional(),
+  externalId: z.string().optional(),
+});
+
+export const recurringExpenseSchema = z.object({
+  id: z.string().min(1),
+  description: z.string(),
+  category: z.string().min(1),
+  amount: money,
+  currency: currencyCode,
+  schedule: z.enum(RECURRENCES),
+  startDate: isoDate,
+  endDate: isoDate.optional(),
+  paused: z.boolean(),
+  skippedDates: z.array(isoDate),
+  materializedThrough: isoDate.optional(),
+});
+
+export const ACCOUNT_TYPES = ["cash", "debit", "credit", "meal-plan", "other"] as const;
+
+export const accountSchema = z.object({
+  id: z.string().min(1),
+  name: z.string().min(1),
+  type: z.enum(ACCOUNT_TYPES),
+  // Credit cards may open with a negative balance (money owed)
+  openingBalance: z.number().finite(),
+  currency: currencyCode,
+});
+
+export const transferSchema = z.object({
+  id: z.string().min(1),
+  date: isoDate,
+  fromAccountId: z.string().min(1),
+  toAccountId: z.string().min(1),
+  amount: money,
+  currency: currencyCode,
+  note: z.string().optional(),
+});
+
+export const exchangeRateSchema = z.object({
+  id: z.string().min(1),
+  from: currencyCode,
+  to: currencyCode,
+  rate: z.number().finite().positive(),
+  effectiveDate: isoDate,
+});
+
+export const settlementSchema = z.object({
+  id: z.string().min(1),
+  date: isoDate,
+  from: z.string().min(1),
+  to: z.string().min(1),
+  amount: money,
+  currency: currencyCode,
+  note: z.string().optional(),
+});
+
+export const goalContributionSchema = z.object({
+  id: z.string().min(1),
+  date: isoDate,
+  amount: money,
+  note: z.string().optional(),
+});
+
+export const savingsGoalSchema = z.object({
+  id: z.string().min(1),
+  name: z.string().min(1),
+  targetAmount: money,
+  currency: currencyCode,
+  createdAt: isoDate,
+  deadline: isoDate,
+  emergencyFund: z.boolean(),
+  contributions: z.array(goalContributionSchema),
+});
+
+export const PERIOD_KINDS = ["semester", "quarter", "custom"] as const;
+
+export const budgetPeriodSchema = z
+  .object({
+    id: z.string().min(1),
+    name: z.string().min(1),
+    kind: z.enum(PERIOD_KINDS),
+    start: isoDate,
+    end: isoDate,
+    limits: budgetSchema,
+  })
+  .refine(period => period.start <= period.end, "Period ends before it starts");
+
+export const ROLLOVER_MODES = ["reset", "unused", "overspend", "both"] as const;
+
+export const rolloverRuleSchema = z.object({
+  id: z.string().min(1),
+  mode: z.enum(ROLLOVER_MODES),
+  since: isoMonth,
+});
+
+export const envelopeMoveSchema = z.object({
+  id: z.string().min(1),
+  date: isoDate,
+  from: z.string().min(1),
+  to: z.string().min(1),
+  amount: money,
+});
+
+export const envelopePlanSchema = z.object({
+  id: z.string().min(1),
+  funds: money,
+  allocations: budgetSchema,
+  moves: z.array(envelopeMoveSchema),
+});
+
+export const RULE_MATCHES = ["contains", "starts-with", "regex"] as const;
+
+export const categoryRuleSchema = z.object({
+  id: z.string().min(1),
+  name: z.string().min(1),
+  priority: z.number().int(),
+  enabled: z.boolean(),
+  match: z.enum(RULE_MATCHES),
+  pattern: z.string(),
+  minAmount: money.optional(),
+  maxAmount: money.optional(),
+  weekdays: z.array(z.number().int().min(0).max(6)),
+  accountId: z.string().optional(),
+  category: z.string().optional(),
+  tags: z.array(z.string().min(1)),
+  notes: z.string().optional(),
+});
+
+export const merchantSchema = z.object({
+  id: z.string().min(1),
+  name: z.string().min(1),
+  aliases: z.array(z.string().min(1)),
+});
+
+export const EXPENSE_SORTS = ["date", "amount", "category"] as const;
+export const RECEIPT_FILTERS = ["all", "with", "without"] as const;
+
+export const expenseFilterSchema = z.object({
+  query: z.string(),
+  categories: z.array(z.string().min(1)),
+  accountId: z.string().min(1),
+  tags: z.array(z.string().min(1)),
+  receipt: z.enum(RECEIPT_FILTERS),
+  from: isoDate.optional(),
+  to: isoDate.optional(),
+  minAmount: money.optional(),
+  maxAmount: money.optional(),
+  sortBy: z.enum(EXPENSE_SORTS),
+});
+
+export const savedSearchSchema = z.object({
+  id: z.string().min(1),
+  name: z.string().min(1),
+  filter: expenseFilterSchema,
+});
+
+// Declared by hand rather than with z.infer: with `strict` off in tsconfig, inferred
+// object types come out with every property optional.
+export type EditableExpenseField =
+  | "description"
+  | "amount"
+  | "category"
+  | "date"
+  | "accountId"
+  | "currency"
+  | "tags"
+  | "notes";
+
+export interface ExpenseChange {
+  timestamp: string;
+  field: EditableExpenseField;
+  oldValue: string | number;
+  newValue: string | number;
+  // The expense's currency before and after the edit, so old amounts keep their own currency.
+  // Missing on entries recorded before it was kept.
+  oldCurrency?: string;
+  newCurrency?: string;
+}
+
+export interface Expense {
+  id: string;
+  date: string;
+  description: string;
+  category: string;
+  // Entries saved before sources were recorded have none
+  categorySource?: CategorySource;
+  // In `currency`, not the base currency; convert before adding up
+  amount: number;
+  currency: string;
+  // Audit trail of edits, oldest first
+  history?: ExpenseChange[];
+  // Template this expense was generated from, if it is a recurring occurrence
+  recurringId?: string;
+  // Account the expense was paid from; older entries have none
+  accountId?: string;
+  // Set when the cost is shared; `amount` stays the full bill
+  split?: ExpenseSplit;
+  // Bank transaction id (OFX FITID) for entries imported from a statement
+  externalId?: string;
+  // Free-form labels that cut across categories, normalised by normalizeTag
+  tags?: string[];
+  // Free text, typed in or added by a categorization rule
+  notes?: string;
+}
+
+export type CategorySource = (typeof CATEGORY_SOURCES)[number];
+export type SplitMethod = (typeof SPLIT_METHODS)[number];
+
+export interface SplitShare {
+  // A name, or the reserved SELF id for the user
+  person: string;
+  // Ignored for equal splits, a percentage for percentage splits, an amount for exact splits
+  value: number;
+}
+
+export interface ExpenseSplit {
+  method: SplitMethod;
+  paidBy: string;
+  shares: SplitShare[];
+}
+
+export interface Budget {
+  [category: string]: number;
+}
+
+export interface CustomCategory {
+  id: string;
+  value: string;
+  label: string;
+  emoji: string;
+  color: string;
+  keywords: string[];
+  // Value of the top-level category this one is a subcategory of
+  parent?: string;
+}
+
+export type Recurrence = (typeof RECURRENCES)[number];
+export type IncomeSource = (typeof INCOME_SOURCES)[number];
+
+export interface Income {
+  id: string;
+  // First (or only) payment date
+  date: string;
+  description: string;
+  source: IncomeSource;
+  amount: number;
+  currency: string;
+  recurrence: Recurrence;
+  // Last date a recurring payment can fall on
+  endDate?: string;
+  // Bank transaction id (OFX FITID) for entries imported from a statement
+  externalId?: string;
+}
+
+export interface RecurringExpense {
+  id: string;
+  description: string;
+  category: string;
+  amount: number;
+  currency: string;
+  schedule: Recurrence;
+  // First occurrence; later ones follow the schedule from this date
+  startDate: string;
+  endDate?: string;
+  // Paused templates generate nothing, and the paused stretch is not back-filled on resume
+  paused: boolean;
+  // Individual occurrences the user chose to skip
+  skippedDates: string[];
+  // Last date occurrences have been turned into expenses for
+  materializedThrough?: string;
+}
+
+export type AccountType = (typeof ACCOUNT_TYPES)[number];
+
+export interface Account {
+  id: string;
+  name: string;
+  type: AccountType;
+  openingBalance: number;
+  // Of the opening balance; the app adds everything up in the base currency
+  currency: string;
+}
+
+// Money moved between two accounts. Not spending, so it never shows up in expense totals.
+export interface Transfer {
+  id: string;
+  date: string;
+  fromAccountId: string;
+  toAccountId: string;
+  amount: number;
+  currency: string;
+  note?: string;
+}
+
+// 1 `from` = `rate` `to`, from `effectiveDate` until a newer rate for the same pair takes over
+export interface ExchangeRate {
+  id: string;
+  from: string;
+  to: string;
+  rate: number;
+  effectiveDate: string;
+}
+
+// Money handed over to square up a shared expense
+export interface Settlement {
+  id: string;
+  date: string;
+  from: string;
+  to: string;
+  amount: number;
+  currency: string;
+  note?: string;
+}
+
+export interface GoalContribution {
+  id: string;
+  date: string;
+  amount: number;
+  note?: string;
+}
+
+export interface SavingsGoal {
+  id: string;
+  name: string;
+  targetAmount: number;
+  currency: string;
+  createdAt: string;
+  deadline: string;
+  // Counted towards emergency readiness in the health score
+  emergencyFund: boolean;
+  contributions: GoalContribution[];
+}
+
+// A photo or PDF attached to an expense. Kept out of the JSON entities above: the file is a Blob,
+// which only IndexedDB can store, so receipts are neither validated nor included in backups.
+export interface Receipt {
+  id: string;
+  expenseId: string;
+  name: string;
+  // MIME type of the file
+  type: string;
+  size: number;
+  createdAt: string;
+  file: Blob;
+  // Small JPEG data URL for list views; PDFs and images the browser can't decode have none
+  thumbnail?: string;
+}
+
+export type PeriodKind = (typeof PERIOD_KINDS)[number];
+
+// A stretch of time budgeted as a whole, like a semester funded by one aid payment
+export interface BudgetPeriod {
+  id: string;
+  name: string;
+  kind: PeriodKind;
+  // Inclusive YYYY-MM-DD bounds
+  start: string;
+  end: string;
+  // Category limits for the whole period, not per month
+  limits: Budget;
+}
+
+export type RolloverMode = (typeof ROLLOVER_MODES)[number];
+
+// How a category's monthly limit carries into the next month
+export interface RolloverRule {
+  // The category it applies to, which also keeps it to one rule per category
+  id: string;
+  mode: RolloverMode;
+  // First month (YYYY-MM) whose leftover is carried; earlier months are ignored
+  since: string;
+}
+
+// Money moved from one envelope to another, kept as a log
+export interface EnvelopeMove {
+  id: string;
+  date: string;
+  from: string;
+  to: string;
+  amount: number;
+}
+
+// Zero-based budget for one period: the funds available, split into category envelopes
+export interface EnvelopePlan {
+  // YYYY-MM for a calendar month, otherwise the budget period's id
+  id: string;
+  funds: number;
+  allocations: Budget;
+  moves: EnvelopeMove[];
+}
+
+export type RuleMatch = (typeof RULE_MATCHES)[number];
+
+// Auto-categorization rule: every condition that is set must hold, then the actions apply.
+// Rules run from the lowest priority number up.
+export interface CategoryRule {
+  id: string;
+  name: string;
+  priority: number;
+  enabled: boolean;
+  // How `pattern` is tested against the description; an empty pattern matches any description
+  match: RuleMatch;
+  pattern: string;
+  // Inclusive bounds in the base currency; expenses in other currencies are converted first
+  minAmount?: number;
+  maxAmount?: number;
+  // 0 = Sunday … 6 = Saturday; empty matches every day
+  weekdays: number[];
+  accountId?: string;
+  // Actions; a rule sets at least one of them
+  category?: string;
+  tags: string[];
+  notes?: string;
+}
+
+// Spellings the user confirmed are the same merchant; other merchants are only derived from descriptions
+export interface Merchant {
+  // Normalised key of the main spelling, as produced by merchantKey
+  id: string;
+  name: string;
+  // Normalised keys of the other spellings
+  aliases: string[];
+}
+
+export type ExpenseSort = (typeof EXPENSE_SORTS)[number];
+export type ReceiptFilter = (typeof RECEIPT_FILTERS)[number];
+
+// Everything the expense history is filtered and sorted by
+export interface ExpenseFilter {
+  // Free text plus field terms such as `amount>20 category:food -coffee`
+  query: string;
+  // Any of these, each including its subcategories; empty matches every category
+  categories: string[];
+  // An account id, or "all" / "none"
+  accountId: string;
+  // All of these
+  tags: string[];
+  receipt: ReceiptFilter;
+  // Inclusive date and base-currency amount bounds
+  from?: string;
+  to?: string;
+  minAmount?: number;
+  maxAmount?: number;
+  sortBy: ExpenseSort;
+}
+
+export interface SavedSearch {
+  id: string;
+  name: string;
+  filter: ExpenseFilter;
+}
@@ -0,0 +1,129 @@
+import type { Expense, ExpenseSplit, Settlement, SplitMethod } from "@/lib/schemas";
+
+// Stands in for the user wherever a split or settlement names a person
+export const SELF = "me";
+
+export const splitMethods: { value: SplitMethod; label: string }[] = [
+  { value: "equal", label: "Equally" },
+  { value: "percentage", label: "By percentage" },
+  { value: "exact", label: "By exact amounts" },
+];
+
+export const personLabel = (person: string) => (person === SELF ? "You" : person);
+
+export const isSelfName = (name: string) => ["me", "you"].includes(name.trim().toLowerCase());
+
+const roundCents = (value: number) => Math.round(value * 100) / 100;
+
+// What each participant owes of `amount`. Exact shares that no longer add up (the amount was
+// edited afterwards) are scaled to fit, and rounding leftovers land on the last participant.
+export const splitShares = (amount: number, split: ExpenseSplit): Map<string, number> => {
+  const { method, shares } = split;
+  const weights = shares.map(share => (method === "equal" ? 1 : share.value));
+  const totalWeight = weights.reduce((sum, weight) => sum + weight, 0);
+
+  const result = new Map<string, number>();
+  if (totalWeight <= 0) return result;
+
+  let assigned = 0;
+  shares.forEach((share, index) => {
+    const portion =
+      index === shares.length - 1 ? roundCents(amount - assigned) : roundCents((amount * weights[index]) / totalWeight);
+    assigned += portion;
+    result.set(share.person, (result.get(share.person) ?? 0) + portion);
+  });
+  return result;
+};
+
+// The part of an expense that is the user's own spending
+export const myShare = (expense: Pick<Expense, "amount" | "split">) =>
+  expense.split ? splitShares(expense.amount, expense.split).get(SELF) ?? 0 : expense.amount;
+
+// The user's own spending across expenses; every spending total goes through this so a shared bill
+// counts the same on every screen
+export const spendingTotal = (expenses: Pick<Expense, "amount" | "split">[]) =>
+  expenses.reduce((sum, expense) => sum + myShare(expense), 0);
+
+// Null when the split is usable, otherwise a message for the form
+export const validateSplit = (amount: number, split: ExpenseSplit): string | null => {
+  const people = split.shares.map(share => share.person);
+  if (people.length < 2) return "Add at least one other person to split with.";
+  if (new Set(people).size !== people.length) return "Each person can only appear once.";
+  if (!people.includes(split.paidBy)) return "Whoever paid has to be part of the split.";
+
+  const total = split.shares.reduce((sum, share) => sum + share.value, 0);
+  if (split.method === "percentage" && Math.abs(total - 100) > 0.01) {
+    return `Percentages add up to ${roundCents(total)}%, not 100%.`;
+  }
+  if (split.method === "exact" && Math.abs(total - amount) > 0.005) {
+    return `Shares add up to ${roundCents(total)}, not ${roundCents(amount)}.`;
+  }
+  return null;
+};
+
+// Positive when the person is owed money overall, negative when they owe
+export const personBalances = (
+  expenses: Pick<Expense, "amount" | "split">[],
+  settlements: Settlement[]
+): Map<string, number> => {
+  const balances = new Map<string, number>();
+  const adjust = (person: string, delta: number) => balances.set(person, (balances.get(person) ?? 0) + delta);
+
+  expenses.forEach(expense => {
+    if (!expense.split) return;
+    splitShares(expense.amount, expense.split).forEach((share, person) => {
+      if (person === expense.split.paidBy) return;
+      adjust(person, -share);
+      adjust(expense.split.paidBy, share);
+    });
+  });
+  settlements.forEach(settlement => {
+    adjust(settlement.from, settlement.amount);
+    adjust(settlement.to, -settlement.amount);
+  });
+
+  return balances;
+};
+
+export interface Debt {
+  from: string;
+  to: string;
+  amount: number;
+}
+
+// Fewest payments that settle everyone: repeatedly pair the largest debtor with the largest creditor
+export const simplifyDebts = (balances: Map<string, number>): Debt[] => {
+  const debtors = [...balances]
+    .filter(([, balance]) => balance < -0.005)
+    .map(([person, balance]) => ({ person, amount: -balance }));
+  const creditors = [...balances]
+    .filter(([, balance]) => balance > 0.005)
+    .map(([person, balance]) => ({ person, amount: balance }));
+
+  const debts: Debt[] = [];
+  while (debtors.length > 0 && creditors.length > 0) {
+    debtors.sort((a, b) => b.amount - a.amount);
+    creditors.sort((a, b) => b.amount - a.amount);
+    const debtor = debtors[0];
+    const creditor = creditors[0];
+    const amount = roundCents(Math.min(debtor.amount, creditor.amount));
+
+    if (amount > 0) debts.push({ from: debtor.person, to: creditor.person, amount });
+    debtor.amount -= amount;
+    creditor.amount -= amount;
+    if (debtor.amount < 0.005) debtors.shift();
+    if (creditor.amount < 0.005) creditors.shift();
+  }
+  return debts;
+};
+
+// Everyone the user has shared a cost or settled up with, for suggestions
+export const knownPeople = (expenses: Pick<Expense, "split">[], settlements: Settlement[]) =>
+  [
+    ...new Set([
+      ...expenses.flatMap(expense => expense.split?.shares.map(share => share.person) ?? []),
+      ...settlements.flatMap(settlement => [settlement.from, settlement.to]),
+    ]),
+  ]
+    .filter(person => person !== SELF)
+    .sort((a, b) => a.localeCompare(b));
@@ -0,0 +1,202 @@
+import { describe, expect, it } from "vitest";
+import type { Expense, Income } from "@/lib/schemas";
+import { defaultCategories } from "@/lib/categories";
+import { buildStatementRows, detectStatementFormat, parseOfx, parseQif, parseStatement } from "@/lib/statement-import";
+import checkingSgml from "./__fixtures__/checking-sgml.ofx?raw";
+import creditCardXml from "./__fixtures__/credit-card-xml.ofx?raw";
+import checkingQif from "./__fixtures__/checking.qif?raw";
+
+describe("detectStatementFormat", () => {
+  it("recognises OFX 1.x, OFX 2 and QIF files", () => {
+    expect(detectStatementFormat(checkingSgml)).toBe("ofx");
+    expect(detectStatementFormat(creditCardXml)).toBe("ofx");
+    expect(detectStatementFormat(checkingQif)).toBe("qif");
+  });
+
+  it("returns null for anything else", () => {
+    expect(detectStatementFormat("date,description,amount\n2024-01-05,Coffee,3.50")).toBeNull();
+    expect(parseStatement("")).toBeNull();
+  });
+});
+
+describe("parseOfx", () => {
+  describe("OFX 1.x SGML", () => {
+    const statement = parseOfx(checkingSgml);
+
+    it("reads CURDEF as an upper-case currency code", () => {
+      expect(statement.currency).toBe("EUR");
+    });
+
+    it("ends a block at the next <STMTTRN> when </STMTTRN> is missing", () => {
+      expect(statement.transactions[0]).toEqual({
+        fitId: "2024010501",
+        date: "2024-01-05",
+        amount: -12.5,
+        payee: "CAFE CENTRAL",
+        memo: "Card purchase",
+      });
+      expect(statement.transactions[1].payee).toBe("UNIVERSITY STIPEND");
+    });
+
+    it("keeps the bank's sign: debits negative, credits positive", () => {
+      expect(statement.transactions.map(transaction => transaction.amount)).toEqual([-12.5, 500, -45, -45]);
+    });
+
+    it("drops a memo that only repeats the name", () => {
+      expect(statement.transactions[1]).not.toHaveProperty("memo");
+    });
+
+    it("falls back to DTUSER and decodes entities", () => {
+      expect(statement.transactions[2]).toMatchObject({ date: "2024-01-20", payee: "BARNES & NOBLE" });
+    });
+
+    it("reports transactions with unreadable dates instead of importing them", () => {
+      expect(statement.transactions).toHaveLength(4);
+      expect(statement.errors).toEqual(["Transaction 2024012501: unreadable date"]);
+    });
+  });
+
+  describe("OFX 2 XML", () => {
+    const statement = parseOfx(creditCardXml);
+
+    it("reads CURDEF and ignores the time and timezone on dates", () => {
+      expect(statement.currency).toBe("GBP");
+      expect(statement.transactions.map(transaction => transaction.date)).toEqual([
+        "2024-03-02",
+        "2024-03-03",
+        "2024-03-04",
+      ]);
+    });
+
+    it("parses thousands separators and signs", () => {
+      expect(statement.transactions.map(transaction => transaction.amount)).toEqual([-8.99, -1204.1, 20]);
+    });
+
+    it("uses the memo as the payee when there is no name", () => {
+      expect(statement.transactions[0]).toMatchObject({ payee: "Streamflix", memo: "Monthly plan <Basic>" });
+      expect(statement.transactions[1].payee).toBe("Term fees");
+    });
+
+    it("reports transactions with unreadable amounts", () => {
+      expect(statement.errors).toEqual(["Transaction CC-0004: unreadable amount"]);
+    });
+  });
+
+  it("leaves the currency null when CURDEF is missing", () => {
+    const statement = parseOfx(checkingSgml.replace(/<CURDEF>.*\r?\n/, ""));
+    expect(statement.currency).toBeNull();
+    expect(statement.transactions).toHaveLength(4);
+  });
+});
+
+describe("parseQif", () => {
+  const statement = parseQif(checkingQif);
+
+  it("only reads transaction sections and never has a currency", () => {
+    expect(statement.format).toBe("qif");
+    expect(statement.currency).toBeNull();
+    expect(statement.transactions.map(transaction => transaction.payee)).toEqual([
+      "Cafe Central",
+      "University Stipend",
+      "Rent",
+    ]);
+  });
+
+  it("reads month-first dates with apostrophe years and stray spaces", () => {
+    expect(statement.transactions.map(transaction => transaction.date)).toEqual([
+      "2024-01-05",
+      "2024-01-15",
+      "2024-01-20",
+    ]);
+  });
+
+  it("keeps the sign and uses the record total rather than its split lines", () => {
+    expect(statement.transactions.map(transaction => transaction.amount)).toEqual([-12.5, 500, -1045]);
+  });
+
+  it("passes the category through as a hint, without transfer brackets", () => {
+    expect(statement.transactions[0]).toMatchObject({ category: "Food", memo: "Card purchase" });
+    expect(statement.transactions[2].category).toBe("Savings");
+  });
+
+  it("reports records without an amount", () => {
+    expect(statement.errors).toEqual(['Transaction 4: unreadable amount ""']);
+  });
+
+  it("detects day-first dates when one of them proves it", () => {
+    const text = "!Type:Bank\nD05/01/2024\nT-1.00\nPBus\n^\nD13/01/2024\nT-2.00\nPTram\n^\n";
+    expect(parseQif(text).transactions.map(transaction => transaction.date)).toEqual(["2024-01-05", "2024-01-13"]);
+  });
+
+  it("reads ISO dates", () => {
+    const text = "!Type:CCard\nD2024-02-29\nT-9.99\nPBookshop\n^\n";
+    expect(parseQif(text).transactions[0].date).toBe("2024-02-29");
+  });
+});
+
+describe("buildStatementRows", () => {
+  const expense = (overrides: Partial<Expense>): Expense => ({
+    id: "existing",
+    date: "2024-01-05",
+    description: "Cafe Central",
+    category: "food",
+    amount: 12.5,
+    currency: "EUR",
+    ...overrides,
+  });
+  const income = (overrides: Partial<Income>): Income => ({
+    id: "existing-income",
+    date: "2024-01-15",
+    description: "University Stipend",
+    source: "stipend",
+    amount: 500,
+    currency: "EUR",
+    recurrence: "none",
+    ...overrides,
+  });
+
+  it("turns debits into expenses and credits into income, in the statement currency", () => {
+    const rows = buildStatementRows(parseOfx(checkingSgml), "EUR", defaultCategories, [], []);
+    expect(rows[0].expense).toMatchObject({ amount: 12.5, currency: "EUR", externalId: "2024010501" });
+    expect(rows[0].income).toBeUndefined();
+    expect(rows[1].income).toMatchObject({ amount: 500, currency: "EUR", externalId: "2024011501" });
+    expect(rows[1].expense).toBeUndefined();
+  });
+
+  it("flags a FITID that is already recorded, whatever the description says", () => {
+    const recorded = expense({ externalId: "2024012001", description: "Books", date: "2024-01-19" });
+    const rows = buildStatementRows(parseOfx(checkingSgml), "EUR", defaultCategories, [recorded], []);
+    expect(rows[2]).toMatchObject({ duplicateOf: recorded, duplicateReason: "fitid" });
+  });
+
+  it("flags a FITID repeated within the same file", () => {
+    const rows = buildStatementRows(parseOfx(checkingSgml), "EUR", defaultCategories, [], []);
+    expect(rows[2].duplicateOf).toBeUndefined();
+    expect(rows[3]).toMatchObject({ duplicateOf: rows[2].expense, duplicateReason: "fitid" });
+  });
+
+  it("matches manual entries by date, amount and description", () => {
+    const manual = expense({});
+    const stipend = income({});
+    const rows = buildStatementRows(parseOfx(checkingSgml), "EUR", defaultCategories, [manual], [stipend]);
+    expect(rows[0]).toMatchObject({ duplicateOf: manual, duplicateReason: "similar" });
+    expect(rows[1]).toMatchObject({ duplicateOf: stipend, duplicateReason: "similar" });
+  });
+
+  it("doesn't call entries with different FITIDs duplicates", () => {
+    const other = expense({ externalId: "something-else" });
+    const rows = buildStatementRows(parseOfx(checkingSgml), "EUR", defaultCategories, [other], []);
+    expect(rows[0].duplicateOf).toBeUndefined();
+  });
+
+  it("uses a QIF category hint that names a category", () => {
+    const rows = buildStatementRows(parseQif(checkingQif), "USD", defaultCategories, [], []);
+    expect(rows[0].expense).toMatchObject({ category: "food", amount: 12.5, currency: "USD" });
+    expect(rows[0].expense).not.toHaveProperty("externalId");
+  });
+
+  it("rejects zero amounts", () => {
+    const statement = { format: "qif" as const, currency: null, errors: [], transactions: [{ date: "2024-01-01", amount: 0, payee: "Nothing" }] };
+    expect(buildStatementRows(statement, "USD", defaultCategories, [], [])[0]).toMatchObject({ error: "Zero amount" });
+  });
+});
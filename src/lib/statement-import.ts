@@ -0,0 +1,246 @@
+import type { CategoryRule, CustomCategory, Expense, Income } from "@/lib/schemas";
+import { categorize, type ToBase } from "@/lib/rules";
+import { detectDateFormat, findDuplicate, parseAmount, parseDate } from "@/lib/csv-import";
+
+export type StatementFormat = "ofx" | "qif";
+
+export interface StatementTransaction {
+  // OFX FITID; QIF has no transaction ids
+  fitId?: string;
+  date: string;
+  // Signed as the bank reports it: negative is money going out
+  amount: number;
+  payee: string;
+  memo?: string;
+  // QIF "L" field, used as a category hint
+  category?: string;
+}
+
+export interface ParsedStatement {
+  format: StatementFormat;
+  // OFX CURDEF; null when the file doesn't say
+  currency: string | null;
+  transactions: StatementTransaction[];
+  // Transactions that couldn't be read, one message each
+  errors: string[];
+}
+
+export interface StatementRow {
+  index: number;
+  transaction: StatementTransaction;
+  expense?: Expense;
+  income?: Income;
+  error?: string;
+  duplicateOf?: Expense | Income;
+  // "fitid" when the bank id matched, so the row is certainly already recorded
+  duplicateReason?: "fitid" | "similar";
+}
+
+// OFX and QFX share a format; QIF files start with a !Type header
+export const detectStatementFormat = (text: string): StatementFormat | null => {
+  const head = text.trimStart().slice(0, 2000);
+  if (/OFXHEADER|<OFX>/i.test(head)) return "ofx";
+  if (/^!(Type|Account|Option)/im.test(head)) return "qif";
+  return null;
+};
+
+const decodeEntities = (value: string) =>
+  value
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&nbsp;/g, " ")
+    .replace(/&amp;/g, "&");
+
+// The value of an element in OFX 1.x SGML (no closing tags) or OFX 2.x XML
+const ofxValue = (block: string, tag: string) => {
+  const match = new RegExp(`<${tag}>([^<\\r\\n]*)`, "i").exec(block);
+  return match ? decodeEntities(match[1].trim()) : undefined;
+};
+
+// YYYYMMDD with an optional time and timezone suffix, which are ignored
+const parseOfxDate = (value: string | undefined): string | null => {
+  const match = /^(\d{4})(\d{2})(\d{2})/.exec(value ?? "");
+  return match ? parseDate(`${match[1]}-${match[2]}-${match[3]}`, "YYYY-MM-DD") : null;
+};
+
+export const parseOfx = (text: string): ParsedStatement => {
+  const transactions: StatementTransaction[] = [];
+  const errors: string[] = [];
+  const currency = ofxValue(text, "CURDEF")?.toUpperCase() ?? null;
+
+  // SGML files may omit </STMTTRN>, so a block also ends where the next one (or the list) starts
+  const blocks = text.split(/<STMTTRN>/i).slice(1).map(block => block.split(/<\/STMTTRN>|<\/BANKTRANLIST>/i)[0]);
+
+  blocks.forEach((block, index) => {
+    const fitId = ofxValue(block, "FITID");
+    const label = fitId ? `Transaction ${fitId}` : `Transaction ${index + 1}`;
+    const date = parseOfxDate(ofxValue(block, "DTPOSTED") ?? ofxValue(block, "DTUSER"));
+    if (!date) {
+      errors.push(`${label}: unreadable date`);
+      return;
+    }
+    const amount = parseAmount(ofxValue(block, "TRNAMT") ?? "");
+    if (amount === null) {
+      errors.push(`${label}: unreadable amount`);
+      return;
+    }
+
+    const name = ofxValue(block, "NAME") ?? ofxValue(block, "PAYEE") ?? "";
+    const memo = ofxValue(block, "MEMO");
+    transactions.push({
+      ...(fitId ? { fitId } : {}),
+      date,
+      amount,
+      payee: name || memo || "Bank transaction",
+      ...(memo && memo !== name ? { memo } : {}),
+    });
+  });
+
+  return { format: "ofx", currency, transactions, errors };
+};
+
+// QIF dates vary by exporter: 1/ 5'24, 01/05/2024, 2024-01-05 and so on
+const normalizeQifDate = (value: string) => value.replace(/\s/g, "").replace(/'/g, "/").replace(/-/g, "/");
+
+export const parseQif = (text: string): ParsedStatement => {
+  const records: Record<string, string>[] = [];
+  let record: Record<string, string> = {};
+  let skipping = false;
+
+  text.split(/\r?\n/).forEach(rawLine => {
+    const line = rawLine.trim();
+    if (!line) return;
+    if (line.startsWith("!")) {
+      // Only transaction sections hold statement lines; category and account lists are skipped
+      skipping = !/^!Type:(Bank|Cash|CCard|Oth\s?[AL])/i.test(line);
+      return;
+    }
+    if (skipping) return;
+    if (line === "^") {
+      if (Object.keys(record).length > 0) records.push(record);
+      record = {};
+      return;
+    }
+    const code = line[0].toUpperCase();
+    // Split lines (S, E, $) repeat per split; the record's own total is enough here
+    if (!(code in record)) record[code] = line.slice(1).trim();
+  });
+  if (Object.keys(record).length > 0) records.push(record);
+
+  const dateFormat = detectDateFormat(records.map(r => normalizeQifDate(r.D ?? "")));
+  const transactions: StatementTransaction[] = [];
+  const errors: string[] = [];
+
+  records.forEach((r, index) => {
+    const label = `Transaction ${index + 1}`;
+    const date = parseDate(normalizeQifDate(r.D ?? ""), dateFormat);
+    if (!date) {
+      errors.push(`${label}: unreadable date "${r.D ?? ""}"`);
+      return;
+    }
+    const amount = parseAmount(r.T ?? r.U ?? "");
+    if (amount === null) {
+      errors.push(`${label}: unreadable amount "${r.T ?? r.U ?? ""}"`);
+      return;
+    }
+
+    const memo = r.M || undefined;
+    transactions.push({
+      date,
+      amount,
+      payee: r.P || memo || "Bank transaction",
+      ...(memo && memo !== r.P ? { memo } : {}),
+      ...(r.L ? { category: r.L.replace(/^\[|\]$/g, "") } : {}),
+    });
+  });
+
+  return { format: "qif", currency: null, transactions, errors };
+};
+
+export const parseStatement = (text: string): ParsedStatement | null => {
+  const format = detectStatementFormat(text);
+  if (format === "ofx") return parseOfx(text);
+  if (format === "qif") return parseQif(text);
+  return null;
+};
+
+// A recorded entry with the same bank id, or failing that a manually entered one that looks the same
+const matchExisting = <T extends Expense | Income>(
+  entry: T,
+  existing: T[]
+): { match?: T; reason?: StatementRow["duplicateReason"] } => {
+  if (entry.externalId) {
+    const match = existing.find(e => e.externalId === entry.externalId);
+    if (match) return { match, reason: "fitid" };
+  }
+  const match = findDuplicate(entry, existing.filter(e => !e.externalId || !entry.externalId));
+  return match ? { match, reason: "similar" } : {};
+};
+
+// Turns statement lines into expenses (money out) and income (money in), flagging anything already recorded
+export const buildStatementRows = (
+  statement: ParsedStatement,
+  currency: string,
+  categories: CustomCategory[],
+  expenses: Expense[],
+  incomes: Income[],
+  rules: CategoryRule[] = [],
+  toBase?: ToBase
+): StatementRow[] => {
+  const stamp = Date.now();
+  // Entries from earlier lines of the same file, so repeated lines are caught too
+  const acceptedExpenses: Expense[] = [];
+  const acceptedIncomes: Income[] = [];
+
+  return statement.transactions.map((transaction, index) => {
+    const { fitId, date, amount, payee, memo, category: hint } = transaction;
+    const id = `${stamp}-${index}`;
+    const externalId = fitId ? { externalId: fitId } : {};
+
+    if (amount === 0) return { index, transaction, error: "Zero amount" };
+
+    if (amount < 0) {
+      const hinted = hint?.toLowerCase();
+      // The memo often names the merchant better than the payee, so rules see both
+      const ruled = categorize(
+        rules,
+        categories,
+        { description: `${payee} ${memo ?? ""}`.trim(), amount: Math.abs(amount), date, currency },
+        undefined,
+        toBase
+      );
+      const named = categories.find(c => c.value === hinted || c.label.toLowerCase() === hinted);
+      const expense: Expense = {
+        id,
+        date,
+        description: payee,
+        category: named?.value ?? ruled.category,
+        categorySource: named ? "import" : ruled.source,
+        amount: Math.abs(amount),
+        currency,
+        ...externalId,
+        ...(ruled.tags.length ? { tags: ruled.tags } : {}),
+        ...(ruled.notes ? { notes: ruled.notes } : {}),
+      };
+      const { match, reason } = matchExisting(expense, [...expenses, ...acceptedExpenses]);
+      acceptedExpenses.push(expense);
+      return { index, transaction, expense, ...(match ? { duplicateOf: match, duplicateReason: reason } : {}) };
+    }
+
+    const income: Income = {
+      id,
+      date,
+      description: payee,
+      source: "other",
+      amount,
+      currency,
+      recurrence: "none",
+      ...externalId,
+    };
+    const { match, reason } = matchExisting(income, [...incomes, ...acceptedIncomes]);
+    acceptedIncomes.push(income);
+    return { index, transaction, income, ...(match ? { duplicateOf: match, duplicateReason: reason } : {}) };
+  });
+};
@@ -0,0 +1,47 @@
+import type { Expense } from "@/lib/schemas";
+import { myShare } from "@/lib/splits";
+
+export interface TagTotal {
+  tag: string;
+  total: number;
+  count: number;
+}
+
+// Lowercase and hyphenated, so "Spring Break Trip" and "#spring-break-trip" are the same tag
+export const normalizeTag = (raw: string) =>
+  raw
+    .trim()
+    .toLowerCase()
+    .replace(/^#+/, "")
+    .replace(/[\s_]+/g, "-")
+    .replace(/[^\p{L}\p{N}-]/gu, "")
+    .replace(/-+/g, "-")
+    .replace(/^-|-$/g, "");
+
+export const addTag = (tags: string[], raw: string) => {
+  const tag = normalizeTag(raw);
+  return tag && !tags.includes(tag) ? [...tags, tag] : tags;
+};
+
+// Every tag in use, most used first, for autocomplete and filters
+export const allTags = (expenses: Pick<Expense, "tags">[]) => {
+  const counts = new Map<string, number>();
+  expenses.forEach(expense => expense.tags?.forEach(tag => counts.set(tag, (counts.get(tag) ?? 0) + 1)));
+  return [...counts.entries()].sort(([a, x], [b, y]) => y - x || a.localeCompare(b)).map(([tag]) => tag);
+};
+
+// Spending per tag, largest first. An expense with several tags counts towards each of them,
+// so the totals can add up to more than was spent.
+export const tagTotals = (expenses: Pick<Expense, "tags" | "amount" | "split">[]): TagTotal[] => {
+  const totals = new Map<string, TagTotal>();
+  expenses.forEach(expense =>
+    expense.tags?.forEach(tag => {
+      const entry = totals.get(tag) ?? { tag, total: 0, count: 0 };
+      totals.set(tag, { tag, total: entry.total + myShare(expense), count: entry.count + 1 });
+    })
+  );
+  return [...totals.values()].sort((a, b) => b.total - a.total || a.tag.localeCompare(b.tag));
+};
+
+export const hasAllTags = (expense: Pick<Expense, "tags">, tags: string[]) =>
+  tags.every(tag => expense.tags?.includes(tag));
@@ -1,4 +1,4 @@
-import { useState, useEffect } from "react";
+import { useState, useEffect, useMemo, useCallback } from "react";
 import { ExpenseForm } from "@/components/ExpenseForm";
 import { BudgetManager } from "@/components/BudgetManager";
 import { ExpenseList } from "@/components/ExpenseList";
@@ -6,317 +6,1506 @@ import { GameificationPanel } from "@/components/GameificationPanel";
 import { DashboardStats } from "@/components/DashboardStats";
 import { ExportManager } from "@/components/ExportManager";
 import { CustomCategoryManager } from "@/components/CustomCategoryManager";
+import { CategoryRules } from "@/components/CategoryRules";
 import { FinancialHealthScore } from "@/components/FinancialHealthScore";
 import { EnhancedGamification } from "@/components/EnhancedGamification";
 import { AICoach } from "@/components/AICoach";
 import { ExpensePrediction } from "@/components/ExpensePrediction";
 import { SustainabilityTracker } from "@/components/SustainabilityTracker";
+import { IncomeManager } from "@/components/IncomeManager";
+import { SubscriptionManager } from "@/components/SubscriptionManager";
+import { AccountManager } from "@/components/AccountManager";
+import { CurrencyManager } from "@/components/CurrencyManager";
+import { SplitLedger } from "@/components/SplitLedger";
+import { SavingsGoals } from "@/components/SavingsGoals";
+import { CsvImportWizard } from "@/components/CsvImportWizard";
+import { BackupManager } from "@/components/BackupManager";
+import { StatementImport } from "@/components/StatementImport";
+import { BudgetPeriods } from "@/components/BudgetPeriods";
+import { PeriodSelector } from "@/components/PeriodSelector";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
-import { Wallet, TrendingUp, Moon, Sun, Download, Settings } from "lucide-react";
+import { Wallet, TrendingUp, Moon, Sun, Download, Settings, Undo2, Redo2, Repeat, PiggyBank } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
+import { UndoHistoryContext, useUndoHistory } from "@/hooks/use-undo-history";
+import { CurrencyContext, createCurrencySettings } from "@/hooks/use-currency";
+import { CategoryContext, createCategoryRegistry } from "@/hooks/use-categories";
+import { useCategoryClassifier } from "@/hooks/use-category-classifier";
+import type {
+  Account,
+  Budget,
+  BudgetPeriod,
+  CategoryRule,
+  CustomCategory,
+  EnvelopePlan,
+  ExchangeRate,
+  Expense,
+  ExpenseFilter,
+  Income,
+  Merchant,
+  Receipt,
+  RecurringExpense,
+  RolloverMode,
+  RolloverRule,
+  SavedSearch,
+  SavingsGoal,
+  Settlement,
+  Transfer,
+} from "@/lib/schemas";
+import { describeLoadReports } from "@/lib/persistence";
+import { applyExpenseEdit } from "@/lib/expenses";
+import { getRepository, type FinanceRepository } from "@/lib/repository";
+import { defaultCategories } from "@/lib/categories";
+import { todayISO } from "@/lib/recurrence";
+import { materializeRecurring } from "@/lib/recurring";
+import { DEFAULT_CURRENCY } from "@/lib/currency";
+import { knownPeople, spendingTotal } from "@/lib/splits";
+import { allTags } from "@/lib/tags";
+import { writeSnapshot, type AppSnapshot } from "@/lib/backup";
+import { CALENDAR_MONTH, monthPeriod, resolvePeriod } from "@/lib/periods";
+import { currentMonth, rolloverBalances } from "@/lib/rollover";
+import { emptyPlan, envelopeKey, type BudgetMode } from "@/lib/envelopes";
+import type { RuleChange } from "@/lib/rules";
+import { knownMerchants, mergeMerchants, type ResolvedMerchant } from "@/lib/merchants";
+import { emptyFilter, filterExpenses } from "@/lib/expense-query";
 
-interface Expense {
-  id: string;
-  date: string;
-  description: string;
-  category: string;
-  amount: number;
-}
-
-interface Budget {
-  [category: string]: number;
-}
-
-interface CustomCategory {
-  id: string;
-  value: string;
-  label: string;
-  emoji: string;
-  color: string;
-  keywords: string[];
-}
+// Claimed reward ids and dismissed merchant aliases are kept as JSON arrays in settings
+const parseStringList = (value: string | null): string[] => {
+  try {
+    const parsed = JSON.parse(value ?? "[]");
+    return Array.isArray(parsed) ? parsed.filter((id): id is string => typeof id === "string") : [];
+  } catch {
+    return [];
+  }
+};
 
 const Index = () => {
   const [expenses, setExpenses] = useState<Expense[]>([]);
+  const [incomes, setIncomes] = useState<Income[]>([]);
+  const [recurring, setRecurring] = useState<RecurringExpense[]>([]);
+  const [accounts, setAccounts] = useState<Account[]>([]);
+  const [transfers, setTransfers] = useState<Transfer[]>([]);
+  const [rates, setRates] = useState<ExchangeRate[]>([]);
+  const [settlements, setSettlements] = useState<Settlement[]>([]);
+  const [goals, setGoals] = useState<SavingsGoal[]>([]);
+  const [receipts, setReceipts] = useState<Receipt[]>([]);
+  const [receiptsEnabled, setReceiptsEnabled] = useState(false);
+  const [baseCurrency, setBaseCurrency] = useState(DEFAULT_CURRENCY);
   const [budget, setBudget] = useState<Budget>({});
+  const [periods, setPeriods] = useState<BudgetPeriod[]>([]);
+  const [rolloverRules, setRolloverRules] = useState<RolloverRule[]>([]);
+  const [envelopes, setEnvelopes] = useState<EnvelopePlan[]>([]);
+  const [rules, setRules] = useState<CategoryRule[]>([]);
+  const [merchants, setMerchants] = useState<Merchant[]>([]);
+  const [searches, setSearches] = useState<SavedSearch[]>([]);
+  const [expenseFilter, setExpenseFilter] = useState<ExpenseFilter>(emptyFilter);
+  const [budgetMode, setBudgetMode] = useState<BudgetMode>("limits");
+  const [selectedPeriodId, setSelectedPeriodId] = useState(CALENDAR_MONTH);
   const [isDarkMode, setIsDarkMode] = useState(false);
-  const [categories, setCategories] = useState<CustomCategory[]>([]);
+  const [categories, setCategories] = useState<CustomCategory[]>(defaultCategories);
+  const [claimedRewards, setClaimedRewards] = useState<string[]>([]);
+  // "target|alias" merchant pairs the user said are different
+  const [dismissedAliases, setDismissedAliases] = useState<string[]>([]);
   const { toast } = useToast();
+  const history = useUndoHistory();
 
-  // Load data from localStorage on component mount
+  // Load data from the repository on component mount
   useEffect(() => {
-    const savedExpenses = localStorage.getItem("student-finance-expenses");
-    const savedBudget = localStorage.getItem("student-finance-budget");
-    const savedTheme = localStorage.getItem("student-finance-theme");
+    let cancelled = false;
 
-    if (savedExpenses) {
-      setExpenses(JSON.parse(savedExpenses));
-    }
-    if (savedBudget) {
-      setBudget(JSON.parse(savedBudget));
-    }
-    if (savedTheme) {
-      setIsDarkMode(savedTheme === "dark");
-      document.documentElement.classList.toggle("dark", savedTheme === "dark");
-    }
-  }, []);
+    getRepository()
+      .then(async ({ repository, reports }) => {
+        const [
+          savedExpenses,
+          savedIncomes,
+          savedRecurring,
+          savedAccounts,
+          savedTransfers,
+          savedRates,
+          savedSettlements,
+          savedGoals,
+          savedReceipts,
+          savedBudget,
+          savedPeriods,
+          savedRolloverRules,
+          savedEnvelopes,
+          savedRules,
+          savedMerchants,
+          savedSearches,
+          savedCategories,
+          savedTheme,
+          savedBaseCurrency,
+          savedClaimedRewards,
+          savedDismissedAliases,
+          savedPeriodId,
+          savedBudgetMode,
+        ] = await Promise.all([
+          repository.expenses.getAll(),
+          repository.incomes.getAll(),
+          repository.recurring.getAll(),
+          repository.accounts.getAll(),
+          repository.transfers.getAll(),
+          repository.rates.getAll(),
+          repository.settlements.getAll(),
+          repository.goals.getAll(),
+          repository.receipts.getAll(),
+          repository.budgets.get(),
+          repository.periods.getAll(),
+          repository.rollover.getAll(),
+          repository.envelopes.getAll(),
+          repository.rules.getAll(),
+          repository.merchants.getAll(),
+          repository.searches.getAll(),
+          repository.categories.getAll(),
+          repository.settings.get("theme"),
+          repository.settings.get("base-currency"),
+          repository.settings.get("claimed-rewards"),
+          repository.settings.get("dismissed-merchant-aliases"),
+          repository.settings.get("budget-period"),
+          repository.settings.get("budget-mode"),
+        ]);
+        if (cancelled) return;
 
-  // Save data to localStorage whenever state changes
-  useEffect(() => {
-    localStorage.setItem("student-finance-expenses", JSON.stringify(expenses));
-  }, [expenses]);
+        // Log any recurring expenses that fell due since the app was last opened
+        const due = materializeRecurring(savedRecurring, todayISO());
+        const newExpenses = due.expenses.filter(expense => !savedExpenses.some(e => e.id === expense.id));
+        await Promise.all([
+          ...newExpenses.map(expense => repository.expenses.put(expense)),
+          ...due.templates.map(template => repository.recurring.put(template)),
+        ]);
+        if (cancelled) return;
+
+        setExpenses(
+          [...newExpenses, ...savedExpenses].sort((a, b) => b.date.localeCompare(a.date))
+        );
+        setIncomes(savedIncomes);
+        setRecurring(savedRecurring.map(template => due.templates.find(t => t.id === template.id) ?? template));
+        setAccounts(savedAccounts);
+        setTransfers(savedTransfers);
+        setRates(savedRates);
+        setSettlements(savedSettlements);
+        setGoals(savedGoals);
+        setReceipts(savedReceipts);
+        setReceiptsEnabled(repository.kind === "indexeddb");
+        if (savedBaseCurrency) {
+          setBaseCurrency(savedBaseCurrency);
+        }
+        if (savedBudget) {
+          setBudget(savedBudget);
+        }
+        setPeriods(savedPeriods);
+        setRolloverRules(savedRolloverRules);
+        setEnvelopes(savedEnvelopes);
+        setRules(savedRules);
+        setMerchants(savedMerchants);
+        setSearches(savedSearches);
+        setBudgetMode(savedBudgetMode === "envelope" ? "envelope" : "limits");
+        if (savedPeriodId) {
+          setSelectedPeriodId(savedPeriodId);
+        }
+        if (savedCategories?.length) {
+          setCategories(savedCategories);
+        }
+        if (savedTheme) {
+          setIsDarkMode(savedTheme === "dark");
+          document.documentElement.classList.toggle("dark", savedTheme === "dark");
+        }
+        setClaimedRewards(parseStringList(savedClaimedRewards));
+        setDismissedAliases(parseStringList(savedDismissedAliases));
+
+        if (newExpenses.length > 0) {
+          toast({
+            title: "Recurring Expenses Logged 🔁",
+            description: `Added ${newExpenses.length} recurring ${newExpenses.length === 1 ? "expense" : "expenses"} that came due.`,
+          });
+        }
+
+        const repairSummary = describeLoadReports(reports);
+        if (repairSummary) {
+          toast({
+            title: "Saved Data Repaired 🛠️",
+            description: repairSummary,
+          });
+        }
+      })
+      .catch(error => {
+        console.error("Failed to load saved data:", error);
+        toast({
+          title: "Could Not Load Data",
+          description: "Your saved expenses could not be read. New entries may not be saved.",
+          variant: "destructive",
+        });
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [toast]);
+
+  const currency = useMemo(() => createCurrencySettings(baseCurrency, rates), [baseCurrency, rates]);
+
+  const inBaseCurrency = useCallback(
+    (expense: Expense): Expense => ({
+      ...expense,
+      amount: currency.toBase(expense.amount, expense.currency, expense.date),
+      currency: baseCurrency,
+    }),
+    [currency, baseCurrency]
+  );
+
+  // Summary components add amounts up directly, so they get every expense in the base currency
+  const baseExpenses = useMemo(() => expenses.map(inBaseCurrency), [expenses, inBaseCurrency]);
+
+  // Learns the user's own merchants from their history, entirely in the browser
+  const classifier = useCategoryClassifier(baseExpenses, currency.toBase);
+  const categoryRegistry = useMemo(
+    () => createCategoryRegistry(categories, rules, classifier, currency.toBase),
+    [categories, rules, classifier, currency]
+  );
+
+  const baseGoals = useMemo(
+    () =>
+      goals.map(goal => ({
+        ...goal,
+        targetAmount: currency.toBase(goal.targetAmount, goal.currency, goal.createdAt),
+        contributions: goal.contributions.map(contribution => ({
+          ...contribution,
+          amount: currency.toBase(contribution.amount, goal.currency, contribution.date),
+        })),
+        currency: baseCurrency,
+      })),
+    [goals, currency, baseCurrency]
+  );
+
+  const baseIncomes = useMemo(
+    () =>
+      incomes.map(income => ({
+        ...income,
+        amount: currency.toBase(income.amount, income.currency, income.date),
+        currency: baseCurrency,
+      })),
+    [incomes, currency, baseCurrency]
+  );
+
+  // Accounts have no date of their own, so opening balances use today's rate
+  const baseAccounts = useMemo(
+    () =>
+      accounts.map(account => ({
+        ...account,
+        openingBalance: currency.toBase(account.openingBalance, account.currency, todayISO()),
+        currency: baseCurrency,
+      })),
+    [accounts, currency, baseCurrency]
+  );
 
+  const baseTransfers = useMemo(
+    () =>
+      transfers.map(transfer => ({
+        ...transfer,
+        amount: currency.toBase(transfer.amount, transfer.currency, transfer.date),
+        currency: baseCurrency,
+      })),
+    [transfers, currency, baseCurrency]
+  );
+
+  const baseSettlements = useMemo(
+    () =>
+      settlements.map(settlement => ({
+        ...settlement,
+        amount: currency.toBase(settlement.amount, settlement.currency, settlement.date),
+        currency: baseCurrency,
+      })),
+    [settlements, currency, baseCurrency]
+  );
+
+  // The expense history's current view, in the base currency, for exporting exactly what is shown
+  const filteredBaseExpenses = useMemo(
+    () =>
+      filterExpenses(baseExpenses, expenseFilter, {
+        amountOf: expense => expense.amount,
+        categories: categoryRegistry.categories,
+        family: categoryRegistry.family,
+        withReceipts: new Set(receipts.map(receipt => receipt.expenseId)),
+      }),
+    [baseExpenses, expenseFilter, categoryRegistry, receipts]
+  );
+
+  // The period every budget summary covers, with its own limits
+  const activePeriod = useMemo(
+    () => resolvePeriod(periods, selectedPeriodId, budget),
+    [periods, selectedPeriodId, budget]
+  );
+
+  // In envelope mode the summaries measure spending against what was put in each envelope
+  const envelopePlan = useMemo(
+    () => envelopes.find(plan => plan.id === envelopeKey(activePeriod)) ?? emptyPlan(envelopeKey(activePeriod)),
+    [envelopes, activePeriod]
+  );
+  const summaryPeriod = useMemo(
+    () => (budgetMode === "envelope" ? { ...activePeriod, limits: envelopePlan.allocations } : activePeriod),
+    [budgetMode, activePeriod, envelopePlan.allocations]
+  );
+
+  // The period and month views only need the selected period, the one before it and the months
+  // rollover rules reach back to, so they read that window through the date index
+  const periodWindow = useMemo(() => {
+    const carrying = rolloverRules.filter(rule => rule.mode !== "reset");
+    const month = monthPeriod(budget);
+    const from = carrying
+      .map(rule => `${rule.since}-01`)
+      .reduce((earliest, start) => (start < earliest ? start : earliest), activePeriod.previousStart);
+    // Rollover always runs up to this month, whichever period is selected
+    const to = carrying.length > 0 && month.end > activePeriod.end ? month.end : activePeriod.end;
+    return { from, to };
+  }, [rolloverRules, budget, activePeriod]);
+  const [windowExpenses, setWindowExpenses] = useState<Expense[]>([]);
   useEffect(() => {
-    localStorage.setItem("student-finance-budget", JSON.stringify(budget));
-  }, [budget]);
+    let cancelled = false;
+    // Re-read whenever the in-memory list changes; writes are queued first, so the query sees them
+    getRepository()
+      .then(({ repository }) => repository.expenses.query(periodWindow))
+      .then(found => {
+        if (!cancelled) setWindowExpenses(found);
+      })
+      .catch(error => console.error("Failed to read the period's expenses:", error));
+    return () => {
+      cancelled = true;
+    };
+  }, [expenses, periodWindow]);
+  const periodExpenses = useMemo(() => windowExpenses.map(inBaseCurrency), [windowExpenses, inBaseCurrency]);
 
-  const addExpense = (expense: Expense) => {
-    setExpenses(prev => [expense, ...prev]);
+  // What each category carries into this month under its rollover rule; a parent's
+  // rollover counts its subcategories' spending as well
+  const rollover = useMemo(
+    () => rolloverBalances(budget, rolloverRules, periodExpenses, currentMonth(), categoryRegistry.family),
+    [budget, rolloverRules, periodExpenses, categoryRegistry]
+  );
+
+  // Writes go straight to the repository; React state stays the source of truth for rendering
+  const persist = (write: (repository: FinanceRepository) => Promise<void>) => {
+    getRepository()
+      .then(({ repository }) => write(repository))
+      .catch(error => {
+        console.error("Failed to save changes:", error);
+        toast({
+          title: "Save Failed",
+          description: "Your latest change could not be saved. Please try again.",
+          variant: "destructive",
+        });
+      });
   };
 
-  const deleteExpense = (id: string) => {
+  const storeExpense = (expense: Expense) => {
+    setExpenses(prev =>
+      prev.some(e => e.id === expense.id)
+        ? prev.map(e => (e.id === expense.id ? expense : e))
+        : [expense, ...prev]
+    );
+    persist(repository => repository.expenses.put(expense));
+  };
+
+  const removeExpense = (id: string) => {
     setExpenses(prev => prev.filter(expense => expense.id !== id));
+    persist(repository => repository.expenses.delete(id));
   };
 
-  const updateBudget = (newBudget: Budget) => {
+  const storeIncome = (income: Income) => {
+    setIncomes(prev => [income, ...prev.filter(i => i.id !== income.id)]);
+    persist(repository => repository.incomes.put(income));
+  };
+
+  const removeIncome = (id: string) => {
+    setIncomes(prev => prev.filter(income => income.id !== id));
+    persist(repository => repository.incomes.delete(id));
+  };
+
+  const storeRecurring = (template: RecurringExpense) => {
+    setRecurring(prev =>
+      prev.some(t => t.id === template.id)
+        ? prev.map(t => (t.id === template.id ? template : t))
+        : [template, ...prev]
+    );
+    persist(repository => repository.recurring.put(template));
+  };
+
+  const removeRecurring = (id: string) => {
+    setRecurring(prev => prev.filter(template => template.id !== id));
+    persist(repository => repository.recurring.delete(id));
+  };
+
+  const storeAccount = (account: Account) => {
+    setAccounts(prev => [...prev.filter(a => a.id !== account.id), account]);
+    persist(repository => repository.accounts.put(account));
+  };
+
+  const removeAccount = (id: string) => {
+    setAccounts(prev => prev.filter(account => account.id !== id));
+    persist(repository => repository.accounts.delete(id));
+  };
+
+  const storeTransfer = (transfer: Transfer) => {
+    setTransfers(prev => [transfer, ...prev.filter(t => t.id !== transfer.id)]);
+    persist(repository => repository.transfers.put(transfer));
+  };
+
+  const removeTransfer = (id: string) => {
+    setTransfers(prev => prev.filter(transfer => transfer.id !== id));
+    persist(repository => repository.transfers.delete(id));
+  };
+
+  const storeRate = (rate: ExchangeRate) => {
+    setRates(prev => [...prev.filter(r => r.id !== rate.id), rate]);
+    persist(repository => repository.rates.put(rate));
+  };
+
+  const removeRate = (id: string) => {
+    setRates(prev => prev.filter(rate => rate.id !== id));
+    persist(repository => repository.rates.delete(id));
+  };
+
+  const storeSettlement = (settlement: Settlement) => {
+    setSettlements(prev => [settlement, ...prev.filter(s => s.id !== settlement.id)]);
+    persist(repository => repository.settlements.put(settlement));
+  };
+
+  const removeSettlement = (id: string) => {
+    setSettlements(prev => prev.filter(settlement => settlement.id !== id));
+    persist(repository => repository.settlements.delete(id));
+  };
+
+  const storeGoal = (goal: SavingsGoal) => {
+    setGoals(prev =>
+      prev.some(g => g.id === goal.id)
+        ? prev.map(g => (g.id === goal.id ? goal : g))
+        : [...prev, goal]
+    );
+    persist(repository => repository.goals.put(goal));
+  };
+
+  const removeGoal = (id: string) => {
+    setGoals(prev => prev.filter(goal => goal.id !== id));
+    persist(repository => repository.goals.delete(id));
+  };
+
+  const storePeriod = (period: BudgetPeriod) => {
+    setPeriods(prev =>
+      prev.some(p => p.id === period.id)
+        ? prev.map(p => (p.id === period.id ? period : p))
+        : [...prev, period]
+    );
+    persist(repository => repository.periods.put(period));
+  };
+
+  const removePeriod = (id: string) => {
+    setPeriods(prev => prev.filter(period => period.id !== id));
+    persist(repository => repository.periods.delete(id));
+  };
+
+  const storeRolloverRule = (rule: RolloverRule) => {
+    setRolloverRules(prev =>
+      prev.some(r => r.id === rule.id)
+        ? prev.map(r => (r.id === rule.id ? rule : r))
+        : [...prev, rule]
+    );
+    persist(repository => repository.rollover.put(rule));
+  };
+
+  const removeRolloverRule = (id: string) => {
+    setRolloverRules(prev => prev.filter(rule => rule.id !== id));
+    persist(repository => repository.rollover.delete(id));
+  };
+
+  const storeEnvelopePlan = (plan: EnvelopePlan) => {
+    setEnvelopes(prev =>
+      prev.some(p => p.id === plan.id)
+        ? prev.map(p => (p.id === plan.id ? plan : p))
+        : [...prev, plan]
+    );
+    persist(repository => repository.envelopes.put(plan));
+  };
+
+  const removeEnvelopePlan = (id: string) => {
+    setEnvelopes(prev => prev.filter(plan => plan.id !== id));
+    persist(repository => repository.envelopes.delete(id));
+  };
+
+  const storeRule = (rule: CategoryRule) => {
+    setRules(prev => (prev.some(r => r.id === rule.id) ? prev.map(r => (r.id === rule.id ? rule : r)) : [...prev, rule]));
+    persist(repository => repository.rules.put(rule));
+  };
+
+  const removeRule = (id: string) => {
+    setRules(prev => prev.filter(rule => rule.id !== id));
+    persist(repository => repository.rules.delete(id));
+  };
+
+  const storeMerchant = (merchant: Merchant) => {
+    setMerchants(prev =>
+      prev.some(m => m.id === merchant.id) ? prev.map(m => (m.id === merchant.id ? merchant : m)) : [...prev, merchant]
+    );
+    persist(repository => repository.merchants.put(merchant));
+  };
+
+  const removeMerchant = (id: string) => {
+    setMerchants(prev => prev.filter(merchant => merchant.id !== id));
+    persist(repository => repository.merchants.delete(id));
+  };
+
+  const storeSearch = (search: SavedSearch) => {
+    setSearches(prev =>
+      prev.some(s => s.id === search.id) ? prev.map(s => (s.id === search.id ? search : s)) : [...prev, search]
+    );
+    persist(repository => repository.searches.put(search));
+  };
+
+  const removeSearch = (id: string) => {
+    setSearches(prev => prev.filter(search => search.id !== id));
+    persist(repository => repository.searches.delete(id));
+  };
+
+  const storeBudget = (newBudget: Budget) => {
     setBudget(newBudget);
+    persist(repository => repository.budgets.save(newBudget));
   };
 
-  const updateCategories = (newCategories: CustomCategory[]) => {
+  const storeCategories = (newCategories: CustomCategory[]) => {
     setCategories(newCategories);
+    persist(repository => repository.categories.saveAll(newCategories));
+  };
+
+  const storeReceipt = (receipt: Receipt) => {
+    setReceipts(prev => [...prev.filter(r => r.id !== receipt.id), receipt]);
+    persist(repository => repository.receipts.put(receipt));
+  };
+
+  const removeReceipt = (id: string) => {
+    setReceipts(prev => prev.filter(receipt => receipt.id !== id));
+    persist(repository => repository.receipts.delete(id));
+  };
+
+  // Every mutation below goes through the undo history
+  const addExpense = (expense: Expense, attached: Receipt[] = []) => {
+    history.execute({
+      label: `Add "${expense.description}"`,
+      apply: () => {
+        storeExpense(expense);
+        attached.forEach(storeReceipt);
+      },
+      revert: () => {
+        removeExpense(expense.id);
+        attached.forEach(receipt => removeReceipt(receipt.id));
+      },
+    });
+  };
+
+  const addReceipts = (attached: Receipt[]) => {
+    history.execute({
+      label: `Attach ${attached.length === 1 ? "receipt" : `${attached.length} receipts`}`,
+      apply: () => attached.forEach(storeReceipt),
+      revert: () => attached.forEach(receipt => removeReceipt(receipt.id)),
+    });
+  };
+
+  const deleteReceipt = (id: string) => {
+    const deleted = receipts.find(receipt => receipt.id === id);
+    if (!deleted) return;
+    history.execute({
+      label: `Remove receipt "${deleted.name}"`,
+      apply: () => removeReceipt(id),
+      revert: () => storeReceipt(deleted),
+    });
+  };
+
+  const updateExpense = (edited: Expense) => {
+    const previous = expenses.find(expense => expense.id === edited.id);
+    if (!previous) return;
+    const updated = applyExpenseEdit(previous, edited);
+    history.execute({
+      label: `Edit "${previous.description}"`,
+      apply: () => storeExpense(updated),
+      revert: () => storeExpense(previous),
+    });
+  };
+
+  const importExpenses = (imported: Expense[]) => {
+    history.execute({
+      label: `Import ${imported.length} expenses`,
+      apply: () => imported.forEach(storeExpense),
+      revert: () => imported.forEach(expense => removeExpense(expense.id)),
+    });
+  };
+
+  const importStatement = (importedExpenses: Expense[], importedIncomes: Income[]) => {
+    history.execute({
+      label: `Import ${importedExpenses.length + importedIncomes.length} statement transactions`,
+      apply: () => {
+        importedExpenses.forEach(storeExpense);
+        importedIncomes.forEach(storeIncome);
+      },
+      revert: () => {
+        importedExpenses.forEach(expense => removeExpense(expense.id));
+        importedIncomes.forEach(income => removeIncome(income.id));
+      },
+    });
+  };
+
+  const deleteExpense = (id: string) => {
+    const deleted = expenses.find(expense => expense.id === id);
+    if (!deleted) return;
+    // Receipts go with the expense and come back with it on undo
+    const attached = receipts.filter(receipt => receipt.expenseId === id);
+    history.execute({
+      label: `Delete "${deleted.description}"`,
+      apply: () => {
+        removeExpense(id);
+        attached.forEach(receipt => removeReceipt(receipt.id));
+      },
+      revert: () => {
+        storeExpense(deleted);
+        attached.forEach(storeReceipt);
+      },
+    });
+  };
+
+  const addIncome = (income: Income) => {
+    history.execute({
+      label: `Add income "${income.description}"`,
+      apply: () => storeIncome(income),
+      revert: () => removeIncome(income.id),
+    });
+  };
+
+  const deleteIncome = (id: string) => {
+    const deleted = incomes.find(income => income.id === id);
+    if (!deleted) return;
+    history.execute({
+      label: `Delete income "${deleted.description}"`,
+      apply: () => removeIncome(id),
+      revert: () => storeIncome(deleted),
+    });
+  };
+
+  // Occurrences already due are logged straight away, as part of the same undoable step
+  const addRecurring = (template: RecurringExpense) => {
+    const due = materializeRecurring([template], todayISO());
+    const materialized = due.templates[0] ?? template;
+    history.execute({
+      label: `Add recurring "${template.description}"`,
+      apply: () => {
+        storeRecurring(materialized);
+        due.expenses.forEach(storeExpense);
+      },
+      revert: () => {
+        removeRecurring(template.id);
+        due.expenses.forEach(expense => removeExpense(expense.id));
+      },
+    });
+  };
+
+  const updateRecurring = (updated: RecurringExpense) => {
+    const previous = recurring.find(template => template.id === updated.id);
+    if (!previous) return;
+    history.execute({
+      label: `Update recurring "${previous.description}"`,
+      apply: () => storeRecurring(updated),
+      revert: () => storeRecurring(previous),
+    });
+  };
+
+  // Expenses already logged from the template stay in the list
+  const deleteRecurring = (id: string) => {
+    const deleted = recurring.find(template => template.id === id);
+    if (!deleted) return;
+    history.execute({
+      label: `Delete recurring "${deleted.description}"`,
+      apply: () => removeRecurring(id),
+      revert: () => storeRecurring(deleted),
+    });
+  };
+
+  const addAccount = (account: Account) => {
+    history.execute({
+      label: `Add account "${account.name}"`,
+      apply: () => storeAccount(account),
+      revert: () => removeAccount(account.id),
+    });
+  };
+
+  const deleteAccount = (id: string) => {
+    const deleted = accounts.find(account => account.id === id);
+    if (!deleted) return;
+    history.execute({
+      label: `Delete account "${deleted.name}"`,
+      apply: () => removeAccount(id),
+      revert: () => storeAccount(deleted),
+    });
+  };
+
+  const addTransfer = (transfer: Transfer) => {
+    history.execute({
+      label: "Add transfer",
+      apply: () => storeTransfer(transfer),
+      revert: () => removeTransfer(transfer.id),
+    });
+  };
+
+  const deleteTransfer = (id: string) => {
+    const deleted = transfers.find(transfer => transfer.id === id);
+    if (!deleted) return;
+    history.execute({
+      label: "Delete transfer",
+      apply: () => removeTransfer(id),
+      revert: () => storeTransfer(deleted),
+    });
+  };
+
+  const addRates = (newRates: ExchangeRate[]) => {
+    history.execute({
+      label: newRates.length === 1 ? "Add exchange rate" : `Import ${newRates.length} exchange rates`,
+      apply: () => newRates.forEach(storeRate),
+      revert: () => newRates.forEach(rate => removeRate(rate.id)),
+    });
+  };
+
+  const deleteRate = (id: string) => {
+    const deleted = rates.find(rate => rate.id === id);
+    if (!deleted) return;
+    history.execute({
+      label: "Delete exchange rate",
+      apply: () => removeRate(id),
+      revert: () => storeRate(deleted),
+    });
+  };
+
+  const addSettlement = (settlement: Settlement) => {
+    history.execute({
+      label: "Record settlement",
+      apply: () => storeSettlement(settlement),
+      revert: () => removeSettlement(settlement.id),
+    });
+  };
+
+  const deleteSettlement = (id: string) => {
+    const deleted = settlements.find(settlement => settlement.id === id);
+    if (!deleted) return;
+    history.execute({
+      label: "Delete settlement",
+      apply: () => removeSettlement(id),
+      revert: () => storeSettlement(deleted),
+    });
+  };
+
+  const addGoal = (goal: SavingsGoal) => {
+    history.execute({
+      label: `Add goal "${goal.name}"`,
+      apply: () => storeGoal(goal),
+      revert: () => removeGoal(goal.id),
+    });
+  };
+
+  const updateGoal = (updated: SavingsGoal) => {
+    const previous = goals.find(goal => goal.id === updated.id);
+    if (!previous) return;
+    history.execute({
+      label: `Update goal "${previous.name}"`,
+      apply: () => storeGoal(updated),
+      revert: () => storeGoal(previous),
+    });
+  };
+
+  const deleteGoal = (id: string) => {
+    const deleted = goals.find(goal => goal.id === id);
+    if (!deleted) return;
+    history.execute({
+      label: `Delete goal "${deleted.name}"`,
+      apply: () => removeGoal(id),
+      revert: () => storeGoal(deleted),
+    });
+  };
+
+  const updateBudget = (newBudget: Budget) => {
+    const previous = budget;
+    history.execute({
+      label: "Update budget limits",
+      apply: () => storeBudget(newBudget),
+      revert: () => storeBudget(previous),
+    });
+  };
+
+  const addPeriod = (period: BudgetPeriod) => {
+    history.execute({
+      label: `Add period "${period.name}"`,
+      apply: () => storePeriod(period),
+      revert: () => removePeriod(period.id),
+    });
+  };
+
+  const deletePeriod = (id: string) => {
+    const deleted = periods.find(period => period.id === id);
+    if (!deleted) return;
+    history.execute({
+      label: `Delete period "${deleted.name}"`,
+      apply: () => removePeriod(id),
+      revert: () => storePeriod(deleted),
+    });
+  };
+
+  // Budget limits edited in the Budget Manager belong to whichever period is selected
+  const updateActiveLimits = (limits: Budget) => {
+    const period = periods.find(p => p.id === activePeriod.id);
+    if (!period) {
+      updateBudget(limits);
+      return;
+    }
+    history.execute({
+      label: `Update "${period.name}" limits`,
+      apply: () => storePeriod({ ...period, limits }),
+      revert: () => storePeriod(period),
+    });
+  };
+
+  // Carrying starts with the current month; switching back to reset drops the history
+  const updateRollover = (category: string, mode: RolloverMode) => {
+    const previous = rolloverRules.find(rule => rule.id === category);
+    if ((previous?.mode ?? "reset") === mode) return;
+    const restore = () => (previous ? storeRolloverRule(previous) : removeRolloverRule(category));
+    history.execute({
+      label: `Change ${category} rollover`,
+      apply: () =>
+        mode === "reset"
+          ? removeRolloverRule(category)
+          : storeRolloverRule({ id: category, mode, since: previous?.since ?? currentMonth() }),
+      revert: restore,
+    });
+  };
+
+  const saveEnvelopePlan = (plan: EnvelopePlan) => {
+    const previous = envelopes.find(p => p.id === plan.id);
+    history.execute({
+      label: `Update ${activePeriod.name} envelopes`,
+      apply: () => storeEnvelopePlan(plan),
+      revert: () => (previous ? storeEnvelopePlan(previous) : removeEnvelopePlan(plan.id)),
+    });
+  };
+
+  const saveRule = (rule: CategoryRule) => {
+    const previous = rules.find(r => r.id === rule.id);
+    history.execute({
+      label: previous ? `Edit rule "${rule.name}"` : `Add rule "${rule.name}"`,
+      apply: () => storeRule(rule),
+      revert: () => (previous ? storeRule(previous) : removeRule(rule.id)),
+    });
+  };
+
+  const deleteRule = (id: string) => {
+    const deleted = rules.find(rule => rule.id === id);
+    if (!deleted) return;
+    history.execute({
+      label: `Delete rule "${deleted.name}"`,
+      apply: () => removeRule(id),
+      revert: () => storeRule(deleted),
+    });
+  };
+
+  const reorderRules = (reordered: CategoryRule[]) => {
+    const previous = rules.filter(rule => reordered.some(r => r.id === rule.id));
+    history.execute({
+      label: "Reorder rules",
+      apply: () => reordered.forEach(storeRule),
+      revert: () => previous.forEach(storeRule),
+    });
+  };
+
+  // Re-running the rules is recorded in each expense's edit history like a manual edit
+  const recategorize = (changes: RuleChange[]) => {
+    const updated = changes.map(change => applyExpenseEdit(change.expense, change.updated));
+    history.execute({
+      label: `Re-categorize ${changes.length} expenses`,
+      apply: () => updated.forEach(storeExpense),
+      revert: () => changes.forEach(change => storeExpense(change.expense)),
+    });
+  };
+
+  const confirmMerchantAlias = (target: ResolvedMerchant, alias: ResolvedMerchant) => {
+    const previous = merchants.find(merchant => merchant.id === target.key);
+    const { merged, absorbed } = mergeMerchants(merchants, target, alias);
+    history.execute({
+      label: `Treat "${alias.name}" as ${merged.name}`,
+      apply: () => {
+        storeMerchant(merged);
+        if (absorbed) removeMerchant(absorbed.id);
+      },
+      revert: () => {
+        if (previous) storeMerchant(previous);
+        else removeMerchant(merged.id);
+        if (absorbed) storeMerchant(absorbed);
+      },
+    });
+  };
+
+  const saveSearch = (search: SavedSearch) => {
+    const previous = searches.find(s => s.id === search.id);
+    history.execute({
+      label: `Save search "${search.name}"`,
+      apply: () => storeSearch(search),
+      revert: () => (previous ? storeSearch(previous) : removeSearch(search.id)),
+    });
+  };
+
+  const deleteSearch = (id: string) => {
+    const deleted = searches.find(search => search.id === id);
+    if (!deleted) return;
+    history.execute({
+      label: `Delete search "${deleted.name}"`,
+      apply: () => removeSearch(id),
+      revert: () => storeSearch(deleted),
+    });
+  };
+
+  const dismissMerchantAlias = (target: ResolvedMerchant, alias: ResolvedMerchant) => {
+    const dismissed = [...dismissedAliases, `${target.key}|${alias.key}`];
+    setDismissedAliases(dismissed);
+    persist(repository => repository.settings.set("dismissed-merchant-aliases", JSON.stringify(dismissed)));
+  };
+
+  const changeBudgetMode = (mode: BudgetMode) => {
+    setBudgetMode(mode);
+    persist(repository => repository.settings.set("budget-mode", mode));
+  };
+
+  const selectPeriod = (id: string) => {
+    setSelectedPeriodId(id);
+    persist(repository => repository.settings.set("budget-period", id));
+  };
+
+  const updateCategories = (newCategories: CustomCategory[]) => {
+    const previous = categories;
+    history.execute({
+      label: "Change categories",
+      apply: () => storeCategories(newCategories),
+      revert: () => storeCategories(previous),
+    });
+  };
+
+  const changeBaseCurrency = (code: string) => {
+    setBaseCurrency(code);
+    persist(repository => repository.settings.set("base-currency", code));
+  };
+
+  const claimReward = (id: string) => {
+    const claimed = [...claimedRewards, id];
+    setClaimedRewards(claimed);
+    persist(repository => repository.settings.set("claimed-rewards", JSON.stringify(claimed)));
+  };
+
+  const snapshot: AppSnapshot = {
+    expenses,
+    incomes,
+    recurring,
+    accounts,
+    transfers,
+    rates,
+    settlements,
+    goals,
+    periods,
+    rollover: rolloverRules,
+    envelopes,
+    rules,
+    merchants,
+    searches,
+    budget,
+    categories,
+    settings: {
+      theme: isDarkMode ? "dark" : "light",
+      "base-currency": baseCurrency,
+      "claimed-rewards": JSON.stringify(claimedRewards),
+      "dismissed-merchant-aliases": JSON.stringify(dismissedAliases),
+      "budget-period": selectedPeriodId,
+      "budget-mode": budgetMode,
+    },
+  };
+
+  // Puts a whole snapshot into state and storage at once, replacing what was there
+  const applySnapshot = (next: AppSnapshot) => {
+    const dark = (next.settings.theme ?? (isDarkMode ? "dark" : "light")) === "dark";
+    setExpenses([...next.expenses].sort((a, b) => b.date.localeCompare(a.date)));
+    setIncomes(next.incomes);
+    setRecurring(next.recurring);
+    setAccounts(next.accounts);
+    setTransfers(next.transfers);
+    setRates(next.rates);
+    setSettlements(next.settlements);
+    setGoals(next.goals);
+    setPeriods(next.periods);
+    setRolloverRules(next.rollover);
+    setEnvelopes(next.envelopes);
+    setRules(next.rules);
+    setMerchants(next.merchants);
+    setSearches(next.searches);
+    setBudget(next.budget);
+    setCategories(next.categories.length ? next.categories : defaultCategories);
+    setBaseCurrency(next.settings["base-currency"] ?? baseCurrency);
+    setClaimedRewards(parseStringList(next.settings["claimed-rewards"] ?? null));
+    setDismissedAliases(parseStringList(next.settings["dismissed-merchant-aliases"] ?? null));
+    setSelectedPeriodId(next.settings["budget-period"] ?? CALENDAR_MONTH);
+    setBudgetMode(next.settings["budget-mode"] === "envelope" ? "envelope" : "limits");
+    setIsDarkMode(dark);
+    document.documentElement.classList.toggle("dark", dark);
+    persist(repository => writeSnapshot(repository, next));
+  };
+
+  const restoreBackup = (restored: AppSnapshot) => {
+    const previous = snapshot;
+    history.execute({
+      label: "Restore backup",
+      apply: () => applySnapshot(restored),
+      revert: () => applySnapshot(previous),
+    });
   };
 
   const toggleTheme = () => {
     const newTheme = !isDarkMode;
     setIsDarkMode(newTheme);
     document.documentElement.classList.toggle("dark", newTheme);
-    localStorage.setItem("student-finance-theme", newTheme ? "dark" : "light");
+    persist(repository => repository.settings.set("theme", newTheme ? "dark" : "light"));
   };
 
   return (
-    <div className="min-h-screen bg-background">
-      {/* Header */}
-      <header className="bg-gradient-hero shadow-glow sticky top-0 z-50">
-        <div className="container mx-auto px-4 py-4 lg:py-6">
-          <div className="flex flex-col sm:flex-row items-center justify-between gap-4">
-            <div className="flex items-center gap-3 lg:gap-4">
-              <div className="p-2 lg:p-3 bg-white/20 rounded-full">
-                <Wallet className="h-6 w-6 lg:h-8 lg:w-8 text-white" />
-              </div>
-              <div className="text-center sm:text-left">
-                <h1 className="text-xl lg:text-3xl font-bold text-white">Student Finance Manager</h1>
-                <p className="text-white/80 text-sm lg:text-base">Smart spending, smarter saving 💰</p>
-              </div>
-            </div>
-            <div className="flex items-center gap-2 lg:gap-4 flex-wrap justify-center">
-              <Badge className="bg-white/20 text-white text-sm lg:text-lg px-3 lg:px-4 py-1 lg:py-2 animate-bounce-gentle">
-                <TrendingUp className="h-3 w-3 lg:h-4 lg:w-4 mr-1 lg:mr-2" />
-                <span className="hidden sm:inline">${expenses.reduce((sum, expense) => sum + expense.amount, 0).toFixed(2)} Tracked</span>
-                <span className="sm:hidden">${expenses.reduce((sum, expense) => sum + expense.amount, 0).toFixed(2)}</span>
-              </Badge>
-              <Button
-                variant="ghost"
-                size="sm"
-                onClick={toggleTheme}
-                className="text-white hover:bg-white/20"
-              >
-                {isDarkMode ? <Sun className="h-4 w-4" /> : <Moon className="h-4 w-4" />}
-              </Button>
-            </div>
-          </div>
-        </div>
-      </header>
-
-      {/* Main Content */}
-      <main className="container mx-auto px-4 py-6 lg:py-8 space-y-6 lg:space-y-8">
-        {/* Welcome Section */}
-        <section className="text-center space-y-4 animate-fade-in">
-          <h2 className="text-xl lg:text-2xl font-bold gradient-text">
-            Take Control of Your Student Budget
-          </h2>
-          <p className="text-muted-foreground max-w-2xl mx-auto text-sm lg:text-base">
-            Track expenses, set smart budgets, and gamify your financial journey. 
-            Perfect for students who want to build healthy money habits while having fun!
-          </p>
-        </section>
-
-        {/* Dashboard Stats */}
-        <section className="animate-fade-in">
-          <DashboardStats expenses={expenses} budget={budget} />
-        </section>
-
-        {/* Navigation Menu */}
-        <nav className="sticky top-16 z-40 bg-background/95 backdrop-blur-sm border-b animate-fade-in">
-          <div className="container mx-auto px-4 py-3">
-            <div className="flex justify-center">
-              <div className="flex space-x-1 bg-muted p-1 rounded-lg">
-                <button
-                  onClick={() => document.getElementById('overview')?.scrollIntoView({ behavior: 'smooth' })}
-                  className="px-3 py-2 text-xs lg:text-sm rounded-md transition-colors hover:bg-background hover:shadow-sm"
-                >
-                  📊 Overview
-                </button>
-                <button
-                  onClick={() => document.getElementById('categories')?.scrollIntoView({ behavior: 'smooth' })}
-                  className="px-3 py-2 text-xs lg:text-sm rounded-md transition-colors hover:bg-background hover:shadow-sm flex items-center gap-1"
-                >
-                  🎯 Categories
-                </button>
-                <button
-                  onClick={() => document.getElementById('manage')?.scrollIntoView({ behavior: 'smooth' })}
-                  className="px-3 py-2 text-xs lg:text-sm rounded-md transition-colors hover:bg-background hover:shadow-sm flex items-center gap-1"
-                >
-                  <Settings className="h-3 w-3 lg:h-4 lg:w-4" />
-                  Manage
-                </button>
-                <button
-                  onClick={() => document.getElementById('export')?.scrollIntoView({ behavior: 'smooth' })}
-                  className="px-3 py-2 text-xs lg:text-sm rounded-md transition-colors hover:bg-background hover:shadow-sm flex items-center gap-1"
-                >
-                  <Download className="h-3 w-3 lg:h-4 lg:w-4" />
-                  Export
-                </button>
-              </div>
-            </div>
-          </div>
-        </nav>
-
-        {/* Scrollable Sections */}
-        <div className="space-y-16">
-          {/* Overview Section */}
-          <section id="overview" className="scroll-mt-32 animate-fade-in">
-            <div className="text-center mb-8">
-              <h2 className="text-2xl lg:text-3xl font-bold gradient-text mb-2">📊 Overview</h2>
-              <p className="text-muted-foreground">Track your expenses and view your spending patterns</p>
-            </div>
-            <div className="grid grid-cols-1 lg:grid-cols-3 gap-6 lg:gap-8">
-              {/* Left Column - Forms */}
-              <div className="lg:col-span-2 space-y-6 lg:space-y-8">
-                {/* Expense Form */}
-                <div className="animate-slide-in">
-                  <ExpenseForm onAddExpense={addExpense} categories={categories} />
-                </div>
-
-                {/* Expense List */}
-                <div className="animate-slide-in">
-                  <ExpenseList 
-                    expenses={expenses} 
-                    onDeleteExpense={deleteExpense} 
-                  />
+    <UndoHistoryContext.Provider value={history}>
+      <CurrencyContext.Provider value={currency}>
+        <CategoryContext.Provider value={categoryRegistry}>
+          <div className="min-h-screen bg-background">
+            {/* Header */}
+            <header className="bg-gradient-hero shadow-glow sticky top-0 z-50">
+              <div className="container mx-auto px-4 py-4 lg:py-6">
+                <div className="flex flex-col sm:flex-row items-center justify-between gap-4">
+                  <div className="flex items-center gap-3 lg:gap-4">
+                    <div className="p-2 lg:p-3 bg-white/20 rounded-full">
+                      <Wallet className="h-6 w-6 lg:h-8 lg:w-8 text-white" />
+                    </div>
+                    <div className="text-center sm:text-left">
+                      <h1 className="text-xl lg:text-3xl font-bold text-white">Student Finance Manager</h1>
+                      <p className="text-white/80 text-sm lg:text-base">Smart spending, smarter saving 💰</p>
+                    </div>
+                  </div>
+                  <div className="flex items-center gap-2 lg:gap-4 flex-wrap justify-center">
+                    <Badge className="bg-white/20 text-white text-sm lg:text-lg px-3 lg:px-4 py-1 lg:py-2 animate-bounce-gentle">
+                      <TrendingUp className="h-3 w-3 lg:h-4 lg:w-4 mr-1 lg:mr-2" />
+                      <span className="hidden sm:inline">{currency.format(spendingTotal(baseExpenses))} Tracked</span>
+                      <span className="sm:hidden">{currency.format(spendingTotal(baseExpenses))}</span>
+                    </Badge>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={history.undo}
+                      disabled={!history.canUndo}
+                      title="Undo (Ctrl+Z)"
+                      className="text-white hover:bg-white/20"
+                    >
+                      <Undo2 className="h-4 w-4" />
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={history.redo}
+                      disabled={!history.canRedo}
+                      title="Redo (Ctrl+Shift+Z)"
+                      className="text-white hover:bg-white/20"
+                    >
+                      <Redo2 className="h-4 w-4" />
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={toggleTheme}
+                      className="text-white hover:bg-white/20"
+                    >
+                      {isDarkMode ? <Sun className="h-4 w-4" /> : <Moon className="h-4 w-4" />}
+                    </Button>
+                  </div>
                 </div>
               </div>
+            </header>
 
-              {/* Right Column - Advanced Features */}
-              <div className="space-y-6 lg:space-y-8">
-                <div className="animate-fade-in float">
-                  <FinancialHealthScore expenses={expenses} budget={budget} />
-                </div>
-                <div className="animate-fade-in float">
-                  <EnhancedGamification expenses={expenses} budget={budget} />
-                </div>
-              </div>
-            </div>
-          </section>
-
-          {/* Categories Section */}
-          <section id="categories" className="scroll-mt-32 animate-fade-in">
-            <div className="text-center mb-8">
-              <h2 className="text-2xl lg:text-3xl font-bold gradient-text mb-2">🎯 Categories</h2>
-              <p className="text-muted-foreground">Customize your expense categories and keywords</p>
-            </div>
-            <div className="animate-slide-in">
-              <CustomCategoryManager onCategoriesUpdate={updateCategories} />
-            </div>
-          </section>
-
-          {/* Manage Section */}
-          <section id="manage" className="scroll-mt-32 animate-fade-in">
-            <div className="text-center mb-8">
-              <h2 className="text-2xl lg:text-3xl font-bold gradient-text mb-2 flex items-center justify-center gap-2">
-                <Settings className="h-6 w-6 lg:h-8 lg:w-8" />
-                Budget Management
-              </h2>
-              <p className="text-muted-foreground">AI-powered budget management and predictions</p>
-            </div>
-            <div className="grid grid-cols-1 lg:grid-cols-2 gap-6 lg:gap-8">
-              <div className="animate-slide-in">
-                <BudgetManager 
-                  expenses={expenses} 
-                  budget={budget} 
-                  onUpdateBudget={updateBudget} 
+            {/* Main Content */}
+            <main className="container mx-auto px-4 py-6 lg:py-8 space-y-6 lg:space-y-8">
+              {/* Welcome Section */}
+              <section className="text-center space-y-4 animate-fade-in">
+                <h2 className="text-xl lg:text-2xl font-bold gradient-text">
+                  Take Control of Your Student Budget
+                </h2>
+                <p className="text-muted-foreground max-w-2xl mx-auto text-sm lg:text-base">
+                  Track expenses, set smart budgets, and gamify your financial journey. 
+                  Perfect for students who want to build healthy money habits while having fun!
+                </p>
+              </section>
+
+              {/* Dashboard Stats */}
+              <section className="animate-fade-in space-y-4">
+                <PeriodSelector periods={periods} selectedId={selectedPeriodId} onSelect={selectPeriod} />
+                <DashboardStats
+                  expenses={baseExpenses}
+                  budget={summaryPeriod.limits}
+                  incomes={baseIncomes}
+                  goals={baseGoals}
+                  period={summaryPeriod}
+                  merchants={merchants}
+                  onConfirmMerchantAlias={confirmMerchantAlias}
+                  dismissedMerchantAliases={dismissedAliases}
+                  onDismissMerchantAlias={dismissMerchantAlias}
                 />
-              </div>
-              <div className="space-y-6">
-                <div className="animate-slide-in">
-                  <ExpensePrediction 
-                    expenses={expenses} 
-                    budget={budget} 
-                    onUpdateBudget={updateBudget}
-                  />
-                </div>
-                <div className="animate-slide-in">
-                  <AICoach expenses={expenses} budget={budget} />
+              </section>
+
+              {/* Navigation Menu */}
+              <nav className="sticky top-16 z-40 bg-background/95 backdrop-blur-sm border-b animate-fade-in">
+                <div className="container mx-auto px-4 py-3">
+                  <div className="flex justify-center">
+                    <div className="flex space-x-1 bg-muted p-1 rounded-lg">
+                      <button
+                        onClick={() => document.getElementById('overview')?.scrollIntoView({ behavior: 'smooth' })}
+                        className="px-3 py-2 text-xs lg:text-sm rounded-md transition-colors hover:bg-background hover:shadow-sm"
+                      >
+                        📊 Overview
+                      </button>
+                      <button
+                        onClick={() => document.getElementById('categories')?.scrollIntoView({ behavior: 'smooth' })}
+                        className="px-3 py-2 text-xs lg:text-sm rounded-md transition-colors hover:bg-background hover:shadow-sm flex items-center gap-1"
+                      >
+                        🎯 Categories
+                      </button>
+                      <button
+                        onClick={() => document.getElementById('subscriptions')?.scrollIntoView({ behavior: 'smooth' })}
+                        className="px-3 py-2 text-xs lg:text-sm rounded-md transition-colors hover:bg-background hover:shadow-sm flex items-center gap-1"
+                      >
+                        <Repeat className="h-3 w-3 lg:h-4 lg:w-4" />
+                        Subscriptions
+                      </button>
+                      <button
+                        onClick={() => document.getElementById('goals')?.scrollIntoView({ behavior: 'smooth' })}
+                        className="px-3 py-2 text-xs lg:text-sm rounded-md transition-colors hover:bg-background hover:shadow-sm flex items-center gap-1"
+                      >
+                        <PiggyBank className="h-3 w-3 lg:h-4 lg:w-4" />
+                        Goals
+                      </button>
+                      <button
+                        onClick={() => document.getElementById('manage')?.scrollIntoView({ behavior: 'smooth' })}
+                        className="px-3 py-2 text-xs lg:text-sm rounded-md transition-colors hover:bg-background hover:shadow-sm flex items-center gap-1"
+                      >
+                        <Settings className="h-3 w-3 lg:h-4 lg:w-4" />
+                        Manage
+                      </button>
+                      <button
+                        onClick={() => document.getElementById('export')?.scrollIntoView({ behavior: 'smooth' })}
+                        className="px-3 py-2 text-xs lg:text-sm rounded-md transition-colors hover:bg-background hover:shadow-sm flex items-center gap-1"
+                      >
+                        <Download className="h-3 w-3 lg:h-4 lg:w-4" />
+                        Export
+                      </button>
+                    </div>
+                  </div>
                 </div>
+              </nav>
+
+              {/* Scrollable Sections */}
+              <div className="space-y-16">
+                {/* Overview Section */}
+                <section id="overview" className="scroll-mt-32 animate-fade-in">
+                  <div className="text-center mb-8">
+                    <h2 className="text-2xl lg:text-3xl font-bold gradient-text mb-2">📊 Overview</h2>
+                    <p className="text-muted-foreground">Track your expenses and view your spending patterns</p>
+                  </div>
+                  <div className="grid grid-cols-1 lg:grid-cols-3 gap-6 lg:gap-8">
+                    {/* Left Column - Forms */}
+                    <div className="lg:col-span-2 space-y-6 lg:space-y-8">
+                      {/* Expense Form */}
+                      <div className="animate-slide-in">
+                        <ExpenseForm
+                          onAddExpense={addExpense}
+                          accounts={accounts}
+                          people={knownPeople(expenses, settlements)}
+                          tagSuggestions={allTags(expenses)}
+                          merchants={merchants}
+                          merchantSuggestions={knownMerchants(expenses, merchants)}
+                          canAttachReceipts={receiptsEnabled}
+                        />
+                      </div>
+
+                      {/* Income */}
+                      <div className="animate-slide-in">
+                        <IncomeManager
+                          incomes={incomes}
+                          onAddIncome={addIncome}
+                          onDeleteIncome={deleteIncome}
+                        />
+                      </div>
+
+                      {/* Accounts */}
+                      <div className="animate-slide-in">
+                        <AccountManager
+                          accounts={baseAccounts}
+                          expenses={baseExpenses}
+                          transfers={baseTransfers}
+                          onAddAccount={addAccount}
+                          onDeleteAccount={deleteAccount}
+                          onAddTransfer={addTransfer}
+                          onDeleteTransfer={deleteTransfer}
+                        />
+                      </div>
+
+                      {/* Shared Expenses */}
+                      <div className="animate-slide-in">
+                        <SplitLedger
+                          expenses={baseExpenses}
+                          settlements={baseSettlements}
+                          onAddSettlement={addSettlement}
+                          onDeleteSettlement={deleteSettlement}
+                        />
+                      </div>
+
+                      {/* Expense List */}
+                      <div className="animate-slide-in">
+                        <ExpenseList 
+                          expenses={expenses} 
+                          accounts={accounts}
+                          onDeleteExpense={deleteExpense} 
+                          onUpdateExpense={updateExpense}
+                          receipts={receipts}
+                          onAddReceipts={receiptsEnabled ? addReceipts : undefined}
+                          onDeleteReceipt={receiptsEnabled ? deleteReceipt : undefined}
+                          filter={expenseFilter}
+                          onFilterChange={setExpenseFilter}
+                          savedSearches={searches}
+                          onSaveSearch={saveSearch}
+                          onDeleteSearch={deleteSearch}
+                        />
+                      </div>
+                    </div>
+
+                    {/* Right Column - Advanced Features */}
+                    <div className="space-y-6 lg:space-y-8">
+                      <div className="animate-fade-in float">
+                        <FinancialHealthScore
+                          expenses={periodExpenses}
+                          budget={summaryPeriod.limits}
+                          incomes={baseIncomes}
+                          goals={baseGoals}
+                          period={summaryPeriod}
+                        />
+                      </div>
+                      <div className="animate-fade-in float">
+                        <EnhancedGamification
+                          expenses={baseExpenses}
+                          budget={summaryPeriod.limits}
+                          goals={baseGoals}
+                          claimedRewards={claimedRewards}
+                          onClaimReward={claimReward}
+                          period={summaryPeriod}
+                        />
+                      </div>
+                    </div>
+                  </div>
+                </section>
+
+                {/* Categories Section */}
+                <section id="categories" className="scroll-mt-32 animate-fade-in">
+                  <div className="text-center mb-8">
+                    <h2 className="text-2xl lg:text-3xl font-bold gradient-text mb-2">🎯 Categories</h2>
+                    <p className="text-muted-foreground">Customize your expense categories, keywords and rules</p>
+                  </div>
+                  <div className="space-y-6">
+                    <div className="animate-slide-in">
+                      <CustomCategoryManager onCategoriesUpdate={updateCategories} />
+                    </div>
+                    <div className="animate-slide-in">
+                      <CategoryRules
+                        expenses={expenses}
+                        accounts={accounts}
+                        onSaveRule={saveRule}
+                        onDeleteRule={deleteRule}
+                        onReorderRules={reorderRules}
+                        onRecategorize={recategorize}
+                      />
+                    </div>
+                  </div>
+                </section>
+
+                {/* Subscriptions Section */}
+                <section id="subscriptions" className="scroll-mt-32 animate-fade-in">
+                  <div className="text-center mb-8">
+                    <h2 className="text-2xl lg:text-3xl font-bold gradient-text mb-2 flex items-center justify-center gap-2">
+                      <Repeat className="h-6 w-6 lg:h-8 lg:w-8" />
+                      Subscriptions
+                    </h2>
+                    <p className="text-muted-foreground">Recurring bills and what they cost you each month and year</p>
+                  </div>
+                  <div className="animate-slide-in">
+                    <SubscriptionManager
+                      recurring={recurring}
+                      onAddRecurring={addRecurring}
+                      onUpdateRecurring={updateRecurring}
+                      onDeleteRecurring={deleteRecurring}
+                    />
+                  </div>
+                </section>
+
+                {/* Goals Section */}
+                <section id="goals" className="scroll-mt-32 animate-fade-in">
+                  <div className="text-center mb-8">
+                    <h2 className="text-2xl lg:text-3xl font-bold gradient-text mb-2 flex items-center justify-center gap-2">
+                      <PiggyBank className="h-6 w-6 lg:h-8 lg:w-8" />
+                      Savings Goals
+                    </h2>
+                    <p className="text-muted-foreground">Set targets, log what you put aside and see when you'll get there</p>
+                  </div>
+                  <div className="animate-slide-in">
+                    <SavingsGoals
+                      goals={goals}
+                      onAddGoal={addGoal}
+                      onUpdateGoal={updateGoal}
+                      onDeleteGoal={deleteGoal}
+                    />
+                  </div>
+                </section>
+
+                {/* Manage Section */}
+                <section id="manage" className="scroll-mt-32 animate-fade-in">
+                  <div className="text-center mb-8">
+                    <h2 className="text-2xl lg:text-3xl font-bold gradient-text mb-2 flex items-center justify-center gap-2">
+                      <Settings className="h-6 w-6 lg:h-8 lg:w-8" />
+                      Budget Management
+                    </h2>
+                    <p className="text-muted-foreground">AI-powered budget management and predictions</p>
+                  </div>
+                  <div className="grid grid-cols-1 lg:grid-cols-2 gap-6 lg:gap-8">
+                    <div className="space-y-6">
+                      <div className="animate-slide-in">
+                        <BudgetManager 
+                          expenses={periodExpenses} 
+                          budget={activePeriod.limits} 
+                          onUpdateBudget={updateActiveLimits} 
+                          period={activePeriod}
+                          {...(activePeriod.id === CALENDAR_MONTH
+                            ? { rolloverRules, rollover, onUpdateRollover: updateRollover }
+                            : {})}
+                          mode={budgetMode}
+                          onModeChange={changeBudgetMode}
+                          envelopePlan={envelopePlan}
+                          onSavePlan={saveEnvelopePlan}
+                        />
+                      </div>
+                      <div className="animate-slide-in">
+                        <BudgetPeriods
+                          periods={periods}
+                          selectedId={selectedPeriodId}
+                          budget={budget}
+                          onAddPeriod={addPeriod}
+                          onDeletePeriod={deletePeriod}
+                          onSelectPeriod={selectPeriod}
+                        />
+                      </div>
+                      <div className="animate-slide-in">
+                        <CurrencyManager
+                          expenses={expenses}
+                          onBaseCurrencyChange={changeBaseCurrency}
+                          onAddRates={addRates}
+                          onDeleteRate={deleteRate}
+                        />
+                      </div>
+                    </div>
+                    <div className="space-y-6">
+                      <div className="animate-slide-in">
+                        <ExpensePrediction 
+                          expenses={baseExpenses} 
+                          budget={budget} 
+                          onUpdateBudget={updateBudget}
+                          rollover={rollover}
+                        />
+                      </div>
+                      <div className="animate-slide-in">
+                        <AICoach expenses={baseExpenses} budget={budget} />
+                      </div>
+                    </div>
+                  </div>
+                </section>
+
+                {/* Export Section */}
+                <section id="export" className="scroll-mt-32 animate-fade-in">
+                  <div className="text-center mb-8">
+                    <h2 className="text-2xl lg:text-3xl font-bold gradient-text mb-2 flex items-center justify-center gap-2">
+                      <Download className="h-6 w-6 lg:h-8 lg:w-8" />
+                      Import, Export & Sustainability
+                    </h2>
+                    <p className="text-muted-foreground">Move data in and out and track your eco-friendly spending</p>
+                  </div>
+                  <div className="grid grid-cols-1 lg:grid-cols-2 gap-6 lg:gap-8 mb-6 lg:mb-8">
+                    <div className="animate-slide-in">
+                      <CsvImportWizard expenses={expenses} onImportExpenses={importExpenses} />
+                    </div>
+                    <div className="animate-slide-in">
+                      <StatementImport
+                        expenses={expenses}
+                        incomes={incomes}
+                        onImport={importStatement}
+                      />
+                    </div>
+                  </div>
+                  <div className="grid grid-cols-1 lg:grid-cols-2 gap-6 lg:gap-8 mb-6 lg:mb-8">
+                    <div className="animate-slide-in">
+                      <BackupManager snapshot={snapshot} onRestore={restoreBackup} />
+                    </div>
+                    <div className="animate-slide-in">
+                      <ExportManager
+                        expenses={baseExpenses}
+                        budget={budget}
+                        receipts={receipts}
+                        currentView={filteredBaseExpenses}
+                      />
+                    </div>
+                  </div>
+                  <div className="animate-slide-in">
+                    <SustainabilityTracker expenses={baseExpenses} />
+                  </div>
+                </section>
               </div>
-            </div>
-          </section>
-
-          {/* Export Section */}
-          <section id="export" className="scroll-mt-32 animate-fade-in">
-            <div className="text-center mb-8">
-              <h2 className="text-2xl lg:text-3xl font-bold gradient-text mb-2 flex items-center justify-center gap-2">
-                <Download className="h-6 w-6 lg:h-8 lg:w-8" />
-                Export & Sustainability
-              </h2>
-              <p className="text-muted-foreground">Export data and track your eco-friendly spending</p>
-            </div>
-            <div className="grid grid-cols-1 lg:grid-cols-2 gap-6 lg:gap-8">
-              <div className="animate-slide-in">
-                <ExportManager expenses={expenses} budget={budget} />
-              </div>
-              <div className="animate-slide-in">
-                <SustainabilityTracker expenses={expenses} />
+
+              {/* Tips Section */}
+              <section className="bg-gradient-card p-6 rounded-lg shadow-medium animate-fade-in">
+                <h3 className="text-xl font-bold mb-4 gradient-text">💡 Smart Money Tips for Students</h3>
+                <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
+                  <div className="p-4 bg-background/50 rounded-lg">
+                    <h4 className="font-semibold mb-2">🍕 Food Budget</h4>
+                    <p className="text-sm text-muted-foreground">
+                      Cook meals at home and limit eating out to save 30-40% on food costs.
+                    </p>
+                  </div>
+                  <div className="p-4 bg-background/50 rounded-lg">
+                    <h4 className="font-semibold mb-2">📚 Student Discounts</h4>
+                    <p className="text-sm text-muted-foreground">
+                      Always ask for student discounts - software, transport, and entertainment often offer deals.
+                    </p>
+                  </div>
+                  <div className="p-4 bg-background/50 rounded-lg">
+                    <h4 className="font-semibold mb-2">💰 Emergency Fund</h4>
+                    <p className="text-sm text-muted-foreground">
+                      Aim to save $500-1000 for unexpected expenses like textbooks or medical costs.
+                    </p>
+                  </div>
+                </div>
+              </section>
+            </main>
+
+            {/* Footer */}
+            <footer className="bg-muted/30 py-8 mt-16">
+              <div className="container mx-auto px-4 text-center">
+                <p className="text-muted-foreground">
+                  Built with ❤️ for students. Start your financial journey today! 
+                </p>
               </div>
-            </div>
-          </section>
-        </div>
-
-        {/* Tips Section */}
-        <section className="bg-gradient-card p-6 rounded-lg shadow-medium animate-fade-in">
-          <h3 className="text-xl font-bold mb-4 gradient-text">💡 Smart Money Tips for Students</h3>
-          <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
-            <div className="p-4 bg-background/50 rounded-lg">
-              <h4 className="font-semibold mb-2">🍕 Food Budget</h4>
-              <p className="text-sm text-muted-foreground">
-                Cook meals at home and limit eating out to save 30-40% on food costs.
-              </p>
-            </div>
-            <div className="p-4 bg-background/50 rounded-lg">
-              <h4 className="font-semibold mb-2">📚 Student Discounts</h4>
-              <p className="text-sm text-muted-foreground">
-                Always ask for student discounts - software, transport, and entertainment often offer deals.
-              </p>
-            </div>
-            <div className="p-4 bg-background/50 rounded-lg">
-              <h4 className="font-semibold mb-2">💰 Emergency Fund</h4>
-              <p className="text-sm text-muted-foreground">
-                Aim to save $500-1000 for unexpected expenses like textbooks or medical costs.
-              </p>
-            </div>
+            </footer>
           </div>
-        </section>
-      </main>
-
-      {/* Footer */}
-      <footer className="bg-muted/30 py-8 mt-16">
-        <div className="container mx-auto px-4 text-center">
-          <p className="text-muted-foreground">
-            Built with ❤️ for students. Start your financial journey today! 
-          </p>
-        </div>
-      </footer>
-    </div>
+        </CategoryContext.Provider>
+      </CurrencyContext.Provider>
+    </UndoHistoryContext.Provider>
   );
 };
 